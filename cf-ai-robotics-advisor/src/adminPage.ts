@@ -0,0 +1,254 @@
+/**
+ * Admin Page - The Analytics Dashboard Served at `/admin`
+ *
+ * One self-contained HTML page with its styles and script inline.
+ *
+ * @module adminPage
+ */
+
+
+
+/**
+ * Serves the analytics dashboard; the page itself is public, its data needs an admin
+ * API key or token, which the page keeps in local storage
+ */
+export function serveAdmin(): Response {
+  return new Response(`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Advisor Analytics</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          min-height: 100vh;
+          padding: 20px;
+        }
+        .container {
+          max-width: 1100px;
+          margin: 0 auto;
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+          padding: 20px;
+        }
+        .toolbar {
+          display: flex;
+          gap: 8px;
+          align-items: center;
+          margin-bottom: 16px;
+        }
+        .toolbar h1 { flex: 1; font-size: 20px; color: #333; }
+        .toolbar input, .toolbar select {
+          padding: 6px;
+          border: 1px solid #ddd;
+          border-radius: 6px;
+          font-size: 13px;
+        }
+        .toolbar button, #transcript button {
+          padding: 6px 14px;
+          background: #667eea;
+          color: white;
+          border: none;
+          border-radius: 6px;
+          cursor: pointer;
+          font-weight: 600;
+        }
+        #status { font-size: 13px; color: #c0392b; margin-bottom: 12px; }
+        .cards { display: grid; grid-template-columns: repeat(5, 1fr); gap: 12px; margin-bottom: 16px; }
+        .card { background: #f5f6ff; border-radius: 8px; padding: 12px; }
+        .card .value { font-size: 22px; font-weight: 700; color: #333; }
+        .card .label { font-size: 11px; color: #777; text-transform: uppercase; }
+        .panels { display: grid; grid-template-columns: 2fr 1fr 1fr; gap: 16px; margin-bottom: 16px; }
+        .panel h2 { font-size: 13px; color: #555; margin-bottom: 8px; }
+        .bar-row { display: flex; align-items: center; gap: 6px; font-size: 11px; margin-bottom: 3px; }
+        .bar-label { width: 80px; color: #666; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .bar { height: 10px; background: #667eea; border-radius: 3px; min-width: 1px; }
+        .bar-count { color: #333; }
+        table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f0f0f0; }
+        th { color: #777; font-weight: 600; }
+        tbody tr { cursor: pointer; }
+        tbody tr:hover { background: #f0f0ff; }
+        #transcript { margin-top: 16px; display: none; }
+        #transcript h2 { font-size: 14px; color: #333; margin-bottom: 8px; }
+        .message { padding: 8px 12px; border-radius: 8px; margin-bottom: 6px; font-size: 13px; white-space: pre-wrap; }
+        .message.user { background: #667eea; color: white; margin-left: 20%; }
+        .message.assistant { background: #f5f5f5; color: #333; margin-right: 20%; }
+        .message .meta { display: block; font-size: 10px; opacity: 0.7; margin-bottom: 2px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="toolbar">
+          <h1>🤖 Diagnosis Analytics</h1>
+          <input type="password" id="credential" placeholder="Admin API key or token">
+          <select id="daysSelect">
+            <option value="7">Last 7 days</option>
+            <option value="30" selected>Last 30 days</option>
+            <option value="90">Last 90 days</option>
+          </select>
+          <button id="loadBtn">Load</button>
+        </div>
+        <div id="status"></div>
+        <div class="cards">
+          <div class="card"><div class="value" id="sessionsValue">-</div><div class="label">Sessions</div></div>
+          <div class="card"><div class="value" id="resolvedValue">-</div><div class="label">Resolved</div></div>
+          <div class="card"><div class="value" id="escalatedValue">-</div><div class="label">Escalated</div></div>
+          <div class="card"><div class="value" id="turnsValue">-</div><div class="label">Median turns to solution</div></div>
+          <div class="card"><div class="value" id="minutesValue">-</div><div class="label">Median minutes to solution</div></div>
+        </div>
+        <div class="panels">
+          <div class="panel"><h2>Sessions per day</h2><div id="perDayChart"></div></div>
+          <div class="panel"><h2>Final stage</h2><div id="stageChart"></div></div>
+          <div class="panel"><h2>Suspected subsystems</h2><div id="subsystemChart"></div></div>
+        </div>
+        <table>
+          <thead>
+            <tr><th>Session</th><th>User</th><th>Last activity</th><th>Turns</th><th>Final stage</th><th>Outcome</th><th>Subsystems</th></tr>
+          </thead>
+          <tbody id="sessionRows"></tbody>
+        </table>
+        <div id="transcript">
+          <h2 id="transcriptTitle"></h2>
+          <div id="transcriptMessages"></div>
+        </div>
+      </div>
+
+      <script>
+        const credentialEl = document.getElementById('credential');
+        const daysSelect = document.getElementById('daysSelect');
+        const statusEl = document.getElementById('status');
+        const transcriptEl = document.getElementById('transcript');
+        const transcriptMessages = document.getElementById('transcriptMessages');
+
+        credentialEl.value = localStorage.getItem('advisorAdminCredential') || '';
+
+        // Signed tokens and JWTs contain dots and go in the Authorization header; anything else is an API key
+        async function adminApi(path) {
+          const credential = credentialEl.value.trim();
+          const headers = credential.includes('.') ? { 'Authorization': 'Bearer ' + credential } : { 'X-API-Key': credential };
+          const response = await fetch(path, { headers });
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || response.statusText);
+          return data;
+        }
+
+        function percent(rate) {
+          return rate === null ? '-' : Math.round(rate * 100) + '%';
+        }
+
+        function renderBars(container, rows) {
+          container.innerHTML = '';
+          const max = Math.max(1, ...rows.map(row => row.count));
+          for (const row of rows) {
+            const el = document.createElement('div');
+            el.className = 'bar-row';
+            const label = document.createElement('span');
+            label.className = 'bar-label';
+            label.textContent = row.label;
+            const bar = document.createElement('span');
+            bar.className = 'bar';
+            bar.style.width = (row.count / max) * 60 + '%';
+            const count = document.createElement('span');
+            count.className = 'bar-count';
+            count.textContent = row.count;
+            el.append(label, bar, count);
+            container.appendChild(el);
+          }
+          if (!rows.length) container.textContent = 'No data yet';
+        }
+
+        function renderReport(report) {
+          document.getElementById('sessionsValue').textContent = report.sessions;
+          document.getElementById('resolvedValue').textContent = percent(report.outcomes.resolutionRate);
+          document.getElementById('escalatedValue').textContent = percent(report.outcomes.escalationRate);
+          document.getElementById('turnsValue').textContent = report.toSolution.medianTurns ?? '-';
+          document.getElementById('minutesValue').textContent = report.toSolution.medianMinutes ?? '-';
+
+          renderBars(document.getElementById('perDayChart'), report.sessionsPerDay.map(d => ({ label: d.day, count: d.sessions })));
+          renderBars(document.getElementById('stageChart'), Object.entries(report.finalStages).map(([label, count]) => ({ label, count })));
+          renderBars(document.getElementById('subsystemChart'), report.subsystems.map(s => ({ label: s.subsystem, count: s.sessions })));
+
+          const rowsEl = document.getElementById('sessionRows');
+          rowsEl.innerHTML = '';
+          for (const session of report.recentSessions) {
+            const row = document.createElement('tr');
+            const cells = [
+              session.title || session.sessionId,
+              session.userId,
+              new Date(session.lastActivityAt).toLocaleString(),
+              session.turns,
+              session.finalStage,
+              session.outcome || 'open',
+              session.subsystems.join(', ')
+            ];
+            for (const value of cells) {
+              const cell = document.createElement('td');
+              cell.textContent = value;
+              row.appendChild(cell);
+            }
+            row.onclick = () => loadTranscript(session);
+            rowsEl.appendChild(row);
+          }
+        }
+
+        async function loadReport() {
+          statusEl.textContent = '';
+          localStorage.setItem('advisorAdminCredential', credentialEl.value.trim());
+          try {
+            renderReport(await adminApi('/api/admin/analytics?days=' + daysSelect.value));
+          } catch (error) {
+            statusEl.textContent = 'Could not load analytics: ' + error.message;
+          }
+        }
+
+        // Shows the newest page of a session's transcript; older pages load on demand
+        async function loadTranscript(session, before) {
+          const query = '?limit=50' + (before ? '&before=' + before : '');
+          try {
+            const state = await adminApi('/api/admin/sessions/' + encodeURIComponent(session.sessionId) + query);
+            if (!before) {
+              transcriptMessages.innerHTML = '';
+              document.getElementById('transcriptTitle').textContent =
+                (state.title || session.sessionId) + ' · ' + state.stage + (state.outcome ? ' · ' + state.outcome.status : '');
+            } else {
+              transcriptMessages.firstChild.remove();
+            }
+
+            const fragment = document.createDocumentFragment();
+            if (state.hasMore) {
+              const earlier = document.createElement('button');
+              earlier.textContent = 'Load earlier messages';
+              earlier.onclick = () => loadTranscript(session, state.nextBefore);
+              fragment.appendChild(earlier);
+            }
+            for (const message of state.history) {
+              const el = document.createElement('div');
+              el.className = 'message ' + message.role;
+              const meta = document.createElement('span');
+              meta.className = 'meta';
+              meta.textContent = new Date(message.timestamp).toLocaleString() + (message.stage ? ' · ' + message.stage : '');
+              el.append(meta, message.content);
+              fragment.appendChild(el);
+            }
+            transcriptMessages.prepend(fragment);
+            transcriptEl.style.display = 'block';
+            if (!before) transcriptEl.scrollIntoView();
+          } catch (error) {
+            statusEl.textContent = 'Could not load the transcript: ' + error.message;
+          }
+        }
+
+        document.getElementById('loadBtn').onclick = loadReport;
+        daysSelect.onchange = loadReport;
+        if (credentialEl.value) loadReport();
+      </script>
+    </body>
+    </html>
+  `, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
@@ -0,0 +1,93 @@
+/**
+ * Admin Routes - Data Behind the Analytics Dashboard
+ *
+ * Aggregated diagnosis events and the feedback export. The router lets only admins
+ * reach these handlers.
+ *
+ * @module adminRoutes
+ */
+
+import { FEEDBACK_FORMATS, FeedbackFormat, renderFeedbackCsv, summarizeFeedback } from './feedback';
+import { buildAnalyticsReport, createEventStore, parseReportDays, reportStart, MAX_REPORT_DAYS } from './analytics';
+import { Env } from './env';
+
+/**
+ * Aggregates the diagnosis events of sessions started in the last days, for the admin dashboard
+ * 
+ * @param url - Request URL carrying the optional `days` query parameter (default 30)
+ * @param env - Environment bindings
+ * @returns JSON `AnalyticsReport`; 400 for an invalid `days`
+ */
+export async function getAnalytics(url: URL, env: Env): Promise<Response> {
+  const days = parseReportDays(url.searchParams.get('days'));
+  if (days === null) {
+    return new Response(JSON.stringify({ error: `days must be between 1 and ${MAX_REPORT_DAYS}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const now = Date.now();
+    const sessions = await createEventStore(env).sessions(reportStart(days, now));
+
+    return new Response(JSON.stringify(buildAnalyticsReport(sessions, days, now)), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Exports feedback updated in the last days, for comparing prompt versions
+ * 
+ * @param url - Request URL carrying the optional `days` (default 30) and `format` (`json` by default,
+ *   or `csv`) query parameters
+ * @param env - Environment bindings
+ * @returns JSON `{ days, since, byPromptVersion, feedback }` or a CSV file with one row per rated reply;
+ *   400 for an invalid `days` or `format`
+ */
+export async function exportFeedback(url: URL, env: Env): Promise<Response> {
+  const days = parseReportDays(url.searchParams.get('days'));
+  if (days === null) {
+    return new Response(JSON.stringify({ error: `days must be between 1 and ${MAX_REPORT_DAYS}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const format = (url.searchParams.get('format') || 'json') as FeedbackFormat;
+  if (!FEEDBACK_FORMATS.includes(format)) {
+    return new Response(JSON.stringify({ error: `format must be one of: ${FEEDBACK_FORMATS.join(', ')}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const since = reportStart(days, Date.now());
+    const feedback = await createEventStore(env).feedback(since);
+
+    if (format === 'csv') {
+      return new Response(renderFeedbackCsv(feedback), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="feedback-${days}d.csv"`
+        }
+      });
+    }
+
+    return new Response(JSON.stringify({ days, since, byPromptVersion: summarizeFeedback(feedback), feedback }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
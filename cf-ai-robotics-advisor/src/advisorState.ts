@@ -0,0 +1,1162 @@
+/**
+ * Advisor State - Durable Object Holding One Diagnosis Session
+ *
+ * Stores a session's messages, stage transitions, feedback, telemetry and metadata
+ * in SQLite, and accepts the WebSockets of the devices attached to it (see `realtime`).
+ *
+ * @module advisorState
+ */
+
+import { StageTransition, promptVersion } from './workflow';
+import { Stage } from './playbook';
+import { CaseFile, emptyCaseFile } from './caseFile';
+import { ChatMessage, DurableObjectState } from './types';
+import { SessionOutcome, Verification } from './verification';
+import { ConversationSummary } from './context';
+import { SESSION_MIGRATIONS, migrate } from './schema';
+import { SafetyReview } from './safety';
+import { TelemetryAnalysis, TelemetryFormat, TelemetrySeries, TelemetryUpload } from './telemetry';
+import { FeedbackEdit, MessageFeedback } from './feedback';
+import { ChatFrame, Connection, SESSION_DELETED_CLOSE_CODE, parseClientFrame, presenceFrame, revokedConnection } from './realtime';
+import { Handoff, endHandoff, isAdvisorPaused, isClaimedByOther, isHandoffOpen, joinHandoff, openHandoff } from './handoff';
+import { Env } from './env';
+import { handleChat } from './chat';
+
+/** Longest auto-generated session title */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Derives a session title from its first user message
+ * 
+ * @param message - First user message
+ * @returns Single-line title, truncated with an ellipsis
+ */
+export function titleFromMessage(message: string): string {
+  const line = String(message).replace(/\s+/g, ' ').trim();
+  return line.length > MAX_TITLE_LENGTH ? line.slice(0, MAX_TITLE_LENGTH - 1) + '…' : line;
+}
+
+/** Storage key prefix for attachment bytes in `AdvisorState` */
+const ATTACHMENT_PREFIX = 'attachment:';
+
+/**
+ * Session metadata, as stored in the `session` row of `AdvisorState`
+ */
+interface SessionRow {
+  owner: string | null;
+  title: string | null;
+  stage: Stage;
+  profileId: string | null;
+  /** Diagnosis playbook, picked from the description in the initial stage */
+  playbookId: string | null;
+  caseFile: CaseFile | null;
+  verification: Verification | null;
+  outcome: SessionOutcome | null;
+  summary: ConversationSummary | null;
+  /** Handoff to a human expert, null until the session is escalated */
+  handoff: Handoff | null;
+}
+
+/**
+ * Column of each `SessionRow` field; JSON columns hold encoded objects.
+ * The field names are also the key-value keys the metadata was stored under before the table existed.
+ */
+const SESSION_COLUMNS: Record<keyof SessionRow, { name: string; json: boolean }> = {
+  owner: { name: 'owner', json: false },
+  title: { name: 'title', json: false },
+  stage: { name: 'stage', json: false },
+  profileId: { name: 'profile_id', json: false },
+  playbookId: { name: 'playbook_id', json: false },
+  caseFile: { name: 'case_file', json: true },
+  verification: { name: 'verification', json: true },
+  outcome: { name: 'outcome', json: true },
+  summary: { name: 'summary', json: true },
+  handoff: { name: 'handoff', json: true }
+};
+
+/**
+ * Stage transition as recorded in `AdvisorState`
+ */
+interface StoredTransition extends Pick<StageTransition, 'from' | 'to' | 'method' | 'reasons'> {
+  /** Id of the assistant message the transition led to */
+  messageId: number;
+  /** When the transition was recorded (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Flagged turn as recorded in the safety log of `AdvisorState`
+ */
+interface SafetyFlag extends SafetyReview {
+  /** Id of the assistant message (it is gone after a reset; the texts below are kept) */
+  messageId: number;
+  userMessage: string;
+  /** Reply as sent, with its notice or refusal */
+  reply: string;
+  /** When the turn was flagged (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Decodes the columns of a `feedback` row
+ * 
+ * @param row - Row with rating, comment, solved and updated_at
+ * @returns Feedback on the message
+ */
+function toMessageFeedback(row: Record<string, any>): MessageFeedback {
+  return {
+    rating: row.rating,
+    comment: row.comment,
+    solved: row.solved === null ? null : Boolean(row.solved),
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Decodes a `messages` row joined with its `feedback` row
+ * 
+ * @param row - Message columns, with the feedback columns null if there is none
+ * @returns Stored message
+ */
+function toChatMessage(row: Record<string, any>): ChatMessage {
+  const message: ChatMessage = { id: row.id, role: row.role, content: row.content, timestamp: row.timestamp, ...(row.extra ? JSON.parse(row.extra) : {}) };
+  if (row.updated_at !== null) {
+    message.feedback = toMessageFeedback(row);
+  }
+  return message;
+}
+
+/**
+ * AdvisorState - Durable Object for Session Persistence
+ * 
+ * Manages conversation history and diagnosis stage for each user session.
+ * Each session gets its own instance, identified by session ID.
+ * 
+ * The session lives in SQLite tables created by the versioned migrations in
+ * `SESSION_MIGRATIONS`: one row per message, one per stage transition, one per
+ * rated reply, one per telemetry upload, and a single `session` row for the metadata. A turn's rows are
+ * written in one transaction, and history can be read a page at a time. Attachment bytes stay
+ * in key-value storage.
+ * 
+ * Clients of the session connect over hibernatable WebSockets (see `realtime`); turns sent over
+ * them run through the Worker's chat pipeline here, and their events go out to every client.
+ */
+export class AdvisorState {
+  state: DurableObjectState;
+  env: Env;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+    migrate(this.state.storage, SESSION_MIGRATIONS);
+    this.state.blockConcurrencyWhile(() => this.importLegacyKeys());
+  }
+
+  /**
+   * Moves state saved in key-value storage (before the session had its own tables) into the tables
+   */
+  async importLegacyKeys(): Promise<void> {
+    const historyStr = await this.state.storage.get('history');
+    const legacy: Partial<SessionRow> = {};
+    for (const field of Object.keys(SESSION_COLUMNS) as (keyof SessionRow)[]) {
+      const value = await this.state.storage.get(field);
+      if (value !== undefined) {
+        legacy[field] = value;
+      }
+    }
+    if (!historyStr && !Object.keys(legacy).length) return;
+
+    this.state.storage.transactionSync(() => {
+      for (const message of historyStr ? JSON.parse(historyStr) as ChatMessage[] : []) {
+        this.appendMessage(message);
+      }
+      this.updateSession(legacy);
+    });
+    for (const key of ['history', ...Object.keys(legacy)]) {
+      await this.state.storage.delete(key);
+    }
+  }
+
+  /**
+   * Stores one message as a row; fields other than role, content and timestamp go in `extra` as JSON
+   * 
+   * @param message - Message to append
+   * @returns Row id of the message
+   */
+  appendMessage(message: ChatMessage): number {
+    const { id: _id, role, content, timestamp, ...extra } = message;
+    this.state.storage.sql.exec(
+      'INSERT INTO messages (role, content, timestamp, extra) VALUES (?, ?, ?, ?)',
+      role,
+      content,
+      timestamp,
+      Object.keys(extra).length ? JSON.stringify(extra) : null
+    );
+    return this.state.storage.sql.exec('SELECT last_insert_rowid() AS id').one().id;
+  }
+
+  /**
+   * Reads the conversation, oldest message first
+   * 
+   * @param before - Only messages with a smaller row id, if set
+   * @param limit - Newest messages to return, if set (otherwise all of them)
+   * @returns Stored messages with their row ids
+   */
+  readHistory(before?: number, limit?: number): ChatMessage[] {
+    const rows = this.state.storage.sql.exec(
+      `SELECT m.id, m.role, m.content, m.timestamp, m.extra, f.rating, f.comment, f.solved, f.updated_at
+       FROM messages m LEFT JOIN feedback f ON f.message_id = m.id
+       WHERE m.id < ? ORDER BY m.id DESC LIMIT ?`,
+      before ?? Number.MAX_SAFE_INTEGER,
+      limit ?? -1
+    ).toArray();
+
+    return rows.reverse().map(toChatMessage);
+  }
+
+  /**
+   * Reads the messages after the first `offset`, oldest first
+   * 
+   * @param offset - Number of messages to skip, e.g. those the running summary covers
+   * @returns Messages with their feedback
+   */
+  readHistoryAfter(offset: number): ChatMessage[] {
+    return this.state.storage.sql.exec(
+      `SELECT m.id, m.role, m.content, m.timestamp, m.extra, f.rating, f.comment, f.solved, f.updated_at
+       FROM messages m LEFT JOIN feedback f ON f.message_id = m.id
+       ORDER BY m.id LIMIT -1 OFFSET ?`,
+      offset
+    ).toArray().map(toChatMessage);
+  }
+
+  /**
+   * Reads the latest complete solution-stage reply (see `findSolution`)
+   * 
+   * @returns The reply, or null if the session has none
+   */
+  readLatestSolution(): ChatMessage | null {
+    const row = this.state.storage.sql.exec(
+      `SELECT m.id, m.role, m.content, m.timestamp, m.extra, f.rating, f.comment, f.solved, f.updated_at
+       FROM messages m LEFT JOIN feedback f ON f.message_id = m.id
+       WHERE m.role = 'assistant' AND json_extract(m.extra, '$.stage') = 'solution' AND json_extract(m.extra, '$.partial') IS NULL
+       ORDER BY m.id DESC LIMIT 1`
+    ).toArray()[0];
+    return row ? toChatMessage(row) : null;
+  }
+
+  /**
+   * Reads the session metadata row
+   * 
+   * @returns Stored fields, with JSON columns decoded and unset ones null
+   */
+  readSession(): SessionRow {
+    const row = this.state.storage.sql.exec('SELECT * FROM session WHERE id = 1').one();
+    const session = {} as SessionRow;
+    for (const [field, column] of Object.entries(SESSION_COLUMNS)) {
+      const value = row[column.name] ?? null;
+      (session as any)[field] = column.json && value !== null ? JSON.parse(value) : value;
+    }
+    return session;
+  }
+
+  /**
+   * Updates fields of the session metadata row
+   * 
+   * @param fields - Fields to set; null clears a field
+   */
+  updateSession(fields: Partial<SessionRow>): void {
+    const assignments: string[] = [];
+    const values: any[] = [];
+    for (const [field, value] of Object.entries(fields)) {
+      const column = SESSION_COLUMNS[field as keyof SessionRow];
+      if (!column || value === undefined) continue;
+      assignments.push(`${column.name} = ?`);
+      values.push(column.json && value !== null ? JSON.stringify(value) : value);
+    }
+    if (!assignments.length) return;
+
+    this.state.storage.sql.exec(`UPDATE session SET ${assignments.join(', ')}, updated_at = ? WHERE id = 1`, ...values, Date.now());
+  }
+
+  /**
+   * Reads the recorded stage transitions, oldest first
+   * 
+   * @returns Transitions with the id of the reply each one led to
+   */
+  readTransitions(): StoredTransition[] {
+    return this.state.storage.sql.exec('SELECT message_id, from_stage, to_stage, method, reasons, timestamp FROM stage_transitions ORDER BY id').toArray()
+      .map(row => ({
+        messageId: row.message_id,
+        from: row.from_stage,
+        to: row.to_stage,
+        method: row.method,
+        reasons: JSON.parse(row.reasons),
+        timestamp: row.timestamp
+      }));
+  }
+
+  /**
+   * Reads the safety log, oldest first
+   * 
+   * @returns Flagged turns
+   */
+  readSafetyFlags(): SafetyFlag[] {
+    return this.state.storage.sql.exec('SELECT * FROM safety_flags ORDER BY id').toArray()
+      .map(row => ({
+        messageId: row.message_id,
+        level: row.level,
+        action: row.action,
+        sources: JSON.parse(row.sources),
+        hazards: JSON.parse(row.hazards),
+        matches: JSON.parse(row.matches),
+        reason: row.reason,
+        userMessage: row.user_message,
+        reply: row.reply,
+        timestamp: row.timestamp
+      }));
+  }
+
+  /**
+   * Reads the telemetry uploads without their samples, oldest first
+   * 
+   * @returns Uploads with their analysis
+   */
+  readTelemetry(): TelemetryUpload[] {
+    return this.state.storage.sql.exec('SELECT id, name, format, analysis, uploaded_at FROM telemetry ORDER BY id').toArray()
+      .map(row => ({
+        id: row.id,
+        name: row.name,
+        format: row.format,
+        uploadedAt: row.uploaded_at,
+        analysis: JSON.parse(row.analysis)
+      }));
+  }
+
+  /**
+   * Merges a feedback update into what is stored for an assistant reply
+   * 
+   * @param messageId - Row id of the reply
+   * @param request - Request whose body is a validated `FeedbackEdit`
+   * @returns JSON `{ feedback, stage, promptVersion }` (the reply's stage and prompt version); 404 when there
+   *   is no such assistant reply
+   */
+  async putFeedback(messageId: number, request: Request): Promise<Response> {
+    try {
+      const edit = await request.json() as FeedbackEdit;
+      const message = this.state.storage.sql.exec(
+        `SELECT m.extra, f.rating, f.comment, f.solved, f.updated_at
+         FROM messages m LEFT JOIN feedback f ON f.message_id = m.id
+         WHERE m.id = ? AND m.role = 'assistant'`,
+        messageId
+      ).toArray()[0];
+      if (!message) {
+        return new Response(JSON.stringify({ error: 'Assistant message not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const stored = message.updated_at === null ? { rating: null, comment: null, solved: null } : toMessageFeedback(message);
+      const feedback: MessageFeedback = { ...stored, ...edit, updatedAt: Date.now() };
+      this.state.storage.sql.exec(
+        `INSERT INTO feedback (message_id, rating, comment, solved, updated_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (message_id) DO UPDATE SET
+           rating = excluded.rating, comment = excluded.comment, solved = excluded.solved, updated_at = excluded.updated_at`,
+        messageId,
+        feedback.rating,
+        feedback.comment,
+        feedback.solved === null ? null : Number(feedback.solved),
+        feedback.updatedAt
+      );
+
+      const { stage = null, promptVersion = null } = message.extra ? JSON.parse(message.extra) as ChatMessage : {};
+      return new Response(JSON.stringify({ feedback, stage, promptVersion }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object
+   * Routes to appropriate handler based on pathname
+   * 
+   * @param request - HTTP request from the Worker
+   * @returns Response with requested data or error
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/message' && request.method === 'POST') {
+      return await this.handleMessage(request);
+    }
+
+    if (url.pathname === '/state' && request.method === 'GET') {
+      return await this.getState(url);
+    }
+
+    if (url.pathname === '/context' && request.method === 'GET') {
+      return await this.getContext();
+    }
+
+    if (url.pathname === '/case' && request.method === 'GET') {
+      return await this.getCaseFile();
+    }
+
+    if (url.pathname === '/case' && request.method === 'PUT') {
+      return await this.putCaseFile(request);
+    }
+
+    if (url.pathname === '/title' && request.method === 'PUT') {
+      return await this.setTitle(request);
+    }
+
+    if (url.pathname === '/summary' && request.method === 'PUT') {
+      return await this.putSummary(request);
+    }
+
+    if (url.pathname === '/owner' && request.method === 'GET') {
+      return await this.getOwner();
+    }
+
+    if (url.pathname === '/owner' && request.method === 'POST') {
+      return await this.claim(request);
+    }
+
+    if (url.pathname === '/safety' && request.method === 'GET') {
+      return new Response(JSON.stringify({ flags: this.readSafetyFlags() }), { headers: { 'Content-Type': 'application/json' } });
+    }
+
+    if (url.pathname === '/reset' && request.method === 'POST') {
+      return await this.reset();
+    }
+
+    if (url.pathname === '/' && request.method === 'DELETE') {
+      return await this.destroy();
+    }
+
+    const feedbackMatch = url.pathname.match(/^\/messages\/(\d+)\/feedback$/);
+    if (feedbackMatch && request.method === 'PUT') {
+      return await this.putFeedback(Number(feedbackMatch[1]), request);
+    }
+
+    if (url.pathname === '/telemetry' && request.method === 'POST') {
+      return await this.addTelemetry(request);
+    }
+
+    if (url.pathname === '/telemetry' && request.method === 'GET') {
+      return new Response(JSON.stringify({ uploads: this.readTelemetry() }), { headers: { 'Content-Type': 'application/json' } });
+    }
+
+    const telemetryMatch = url.pathname.match(/^\/telemetry\/(\d+)$/);
+    if (telemetryMatch && request.method === 'GET') {
+      return await this.getTelemetry(Number(telemetryMatch[1]));
+    }
+
+    const attachmentMatch = url.pathname.match(/^\/attachments\/([^/]+)$/);
+    if (attachmentMatch && request.method === 'PUT') {
+      return await this.putAttachment(decodeURIComponent(attachmentMatch[1]), request);
+    }
+
+    if (attachmentMatch && request.method === 'GET') {
+      return await this.getAttachment(decodeURIComponent(attachmentMatch[1]));
+    }
+
+    if (url.pathname === '/socket' && request.headers.get('Upgrade') === 'websocket') {
+      return this.connect(request);
+    }
+
+    if (url.pathname === '/handoff' && request.method === 'POST') {
+      return await this.escalate(request);
+    }
+
+    if (url.pathname === '/handoff' && request.method === 'DELETE') {
+      return await this.endHandoff(request);
+    }
+
+    if (url.pathname === '/messages' && request.method === 'POST') {
+      return await this.postMessage(request);
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Accepts a WebSocket from a client the Worker has authorized for this session
+   * 
+   * @param request - Upgrade request with the session id in `X-Session-Id` and the caller in `X-Principal`
+   * @returns 101 response carrying the client's end of the socket
+   */
+  connect(request: Request): Response {
+    const { 0: client, 1: server } = new WebSocketPair();
+    const connection: Connection = {
+      connectionId: crypto.randomUUID(),
+      sessionId: request.headers.get('X-Session-Id') || '',
+      principal: JSON.parse(request.headers.get('X-Principal') || 'null'),
+      connectedAt: Date.now()
+    };
+
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment(connection);
+    this.announcePresence();
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * Handles a frame from a client; the object may have hibernated since the socket was opened
+   * 
+   * The socket is closed instead once the caller's token has expired or the session is no
+   * longer theirs.
+   * 
+   * @param ws - Socket the frame arrived on
+   * @param data - Raw frame
+   */
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    const connection = ws.deserializeAttachment() as Connection;
+    // The caller was only authorized when the socket was opened
+    const revoked = revokedConnection(connection, this.readSession().owner, Date.now());
+    if (revoked) {
+      ws.close(revoked.code, revoked.reason);
+      return;
+    }
+
+    const { frame, error } = parseClientFrame(data);
+
+    if (!frame) {
+      this.sendFrame(ws, { type: 'error', error });
+    } else if (frame.type === 'typing') {
+      this.broadcast({ type: 'typing', connectionId: connection.connectionId, userId: connection.principal.userId, typing: frame.typing }, connection.connectionId);
+    } else {
+      await this.relayTurn(ws, connection, frame);
+    }
+  }
+
+  /**
+   * Tells the remaining clients that one has left
+   * 
+   * @param ws - Socket that closed
+   * @param code - Close code sent by the client
+   * @param reason - Close reason sent by the client
+   */
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    try {
+      ws.close(code, reason);
+    } catch {
+      // Already closed, or a code that can't be sent back (1005, 1006)
+    }
+    this.announcePresence(ws);
+  }
+
+  /**
+   * Treats a socket that failed like one that closed
+   * 
+   * @param ws - Socket that failed
+   */
+  async webSocketError(ws: WebSocket): Promise<void> {
+    this.announcePresence(ws);
+  }
+
+  /**
+   * Runs a turn sent over a socket through the Worker's chat pipeline as a streamed turn,
+   * relaying its events to every client as they happen; a message held for an expert
+   * reaches the clients as a `message` frame instead
+   * 
+   * @param ws - Socket the turn was sent on; told alone when the turn is rejected
+   * @param connection - Sender
+   * @param frame - Chat frame
+   */
+  async relayTurn(ws: WebSocket, connection: Connection, frame: ChatFrame): Promise<void> {
+    const { turnId, userMessage, stepOutcome, profileId } = frame;
+    const request = new Request('http://do/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: connection.sessionId, userMessage, stepOutcome, profileId, turnId, stream: true })
+    });
+    const ctx = { waitUntil: (promise: Promise<unknown>) => this.state.waitUntil(promise), passThroughOnException() {} } as ExecutionContext;
+
+    const response = await handleChat(request, this.env, ctx, connection.principal, (event, payload) => {
+      // The sender shows its own message as soon as it is sent
+      this.broadcast({ type: event, turnId, ...payload }, event === 'user' ? connection.connectionId : undefined);
+    });
+
+    if (response.headers.get('Content-Type') === 'text/event-stream') {
+      // The events went out through the listener; the stream only has to be drained for the turn to finish
+      await response.arrayBuffer();
+    } else if (!response.ok) {
+      this.sendFrame(ws, { type: 'error', turnId, status: response.status, ...await response.json() as object });
+    }
+  }
+
+  /**
+   * Sends every client the connections that are open
+   * 
+   * @param leaving - Socket that is closing, left out of the list
+   */
+  announcePresence(leaving?: WebSocket): void {
+    const sockets = this.state.getWebSockets().filter(socket => socket !== leaving);
+    const connections = sockets.map(socket => socket.deserializeAttachment() as Connection);
+    sockets.forEach((socket, i) => this.sendFrame(socket, presenceFrame(connections, connections[i].connectionId)));
+  }
+
+  /**
+   * Sends a frame to every connected client
+   * 
+   * @param frame - Frame to send
+   * @param except - Connection id of a client to leave out
+   */
+  broadcast(frame: Record<string, unknown>, except?: string): void {
+    for (const socket of this.state.getWebSockets()) {
+      if ((socket.deserializeAttachment() as Connection).connectionId !== except) {
+        this.sendFrame(socket, frame);
+      }
+    }
+  }
+
+  /**
+   * Sends a frame to one client
+   * 
+   * @param ws - Client's socket
+   * @param frame - Frame to send
+   */
+  sendFrame(ws: WebSocket, frame: Record<string, unknown>): void {
+    try {
+      ws.send(JSON.stringify(frame));
+    } catch {
+      // The socket is closing; its close event updates everyone's presence
+    }
+  }
+
+  /**
+   * Stores a new message pair (user + assistant) in conversation history
+   * Updates the current diagnosis stage, and titles the session after its first message
+   * 
+   * @param request - Request containing userMessage, assistantMessage, nextStage, the prompt version the reply
+   *   was written with (absent for refusals), the playbook the workflow used, an optional partial flag,
+   *   optional structured solution, optional citations, optional attachments (recorded on the user message),
+   *   optional similar past cases, the fix walkthrough progress and session outcome when the workflow
+   *   changed them, the robot profile id when one is attached, the stage transition that
+   *   chose `nextStage`, the safety review when the guardrails flagged the turn (also added
+   *   to the safety log) and the calculator calls behind the reply; all rows are written in one transaction,
+   *   and connected clients are sent the session's new stage
+   * @returns Success response with the assistant message's id, updated message count, stage and title
+   */
+  async handleMessage(request: Request): Promise<Response> {
+    try {
+      const { userMessage, assistantMessage, nextStage, promptVersion, playbookId, partial, solution, citations, similarCases, attachments, verification, outcome, profileId, transition, safety, toolRuns } = await request.json() as any;
+
+      const userEntry: ChatMessage = { role: 'user', content: userMessage, timestamp: Date.now() };
+      if (Array.isArray(attachments) && attachments.length) {
+        userEntry.attachments = attachments;
+      }
+
+      const assistantEntry: ChatMessage = { role: 'assistant', content: assistantMessage, timestamp: Date.now(), stage: nextStage };
+      if (promptVersion) {
+        assistantEntry.promptVersion = promptVersion;
+      }
+      if (partial) {
+        assistantEntry.partial = true;
+      }
+      if (solution) {
+        assistantEntry.solution = solution;
+      }
+      if (Array.isArray(citations) && citations.length) {
+        assistantEntry.citations = citations;
+      }
+      if (similarCases) {
+        assistantEntry.similarCases = similarCases;
+      }
+      if (safety) {
+        assistantEntry.safety = safety;
+      }
+      if (Array.isArray(toolRuns) && toolRuns.length) {
+        assistantEntry.toolRuns = toolRuns;
+      }
+
+      const saved = this.state.storage.transactionSync(() => {
+        this.appendMessage(userEntry);
+        const messageId = this.appendMessage(assistantEntry);
+
+        if (transition) {
+          this.state.storage.sql.exec(
+            'INSERT INTO stage_transitions (message_id, from_stage, to_stage, method, reasons, timestamp) VALUES (?, ?, ?, ?, ?, ?)',
+            messageId,
+            transition.from,
+            transition.to,
+            transition.method,
+            JSON.stringify(transition.reasons || []),
+            assistantEntry.timestamp
+          );
+        }
+
+        if (safety) {
+          this.state.storage.sql.exec(
+            `INSERT INTO safety_flags (message_id, level, action, sources, hazards, matches, reason, user_message, reply, timestamp)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            messageId,
+            safety.level,
+            safety.action,
+            JSON.stringify(safety.sources),
+            JSON.stringify(safety.hazards),
+            JSON.stringify(safety.matches),
+            safety.reason,
+            userMessage,
+            assistantMessage,
+            assistantEntry.timestamp
+          );
+        }
+
+        const title = this.readSession().title
+          || titleFromMessage(userMessage.trim() ? userMessage : userEntry.attachments?.[0]?.name || 'New diagnosis');
+        this.updateSession({
+          stage: nextStage,
+          title,
+          verification: verification || undefined,
+          outcome: outcome || undefined,
+          profileId: profileId || undefined,
+          playbookId: playbookId || undefined
+        });
+
+        return { messageId, title, messageCount: this.countMessages() };
+      });
+
+      const session = this.readSession();
+      this.broadcast({ type: 'stage', stage: session.stage, playbookId: session.playbookId, verification: session.verification, outcome: session.outcome });
+
+      return new Response(
+        JSON.stringify({ success: true, messageId: saved.messageId, messageCount: saved.messageCount, stage: nextStage, title: saved.title }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Retrieves current session state (stage, conversation history, stage transitions, case file, title,
+   * fix walkthrough, outcome, robot profile, playbook, running summary, expert handoff and telemetry uploads)
+   * 
+   * @param url - Request URL; `before` (a message id) and `limit` select a page of history,
+   *   otherwise the full history is returned
+   * @returns Session state including stage, total message count, the history page with `hasMore` and
+   *   `nextBefore` (the cursor for the previous page, null on the first), the stage transitions, case file,
+   *   title, walkthrough progress, outcome (null until the session closes), attached profile id,
+   *   playbook id (null until the first reply), the summary of messages that no longer fit in the prompt (null until there is one),
+   *   the handoff to an expert (null until the session is escalated) and the telemetry uploads with their analysis (without samples)
+   */
+  async getState(url: URL): Promise<Response> {
+    try {
+      const before = url.searchParams.has('before') ? Number(url.searchParams.get('before')) : undefined;
+      const limit = url.searchParams.has('limit') ? Number(url.searchParams.get('limit')) : undefined;
+
+      const history = this.readHistory(before, limit);
+      const oldest = history[0]?.id;
+      const hasMore = oldest !== undefined
+        && this.state.storage.sql.exec('SELECT COUNT(*) AS count FROM messages WHERE id < ?', oldest).one().count > 0;
+      const transitions = this.readTransitions();
+      const { stage, caseFile, title, verification, outcome, profileId, playbookId, summary, handoff } = this.readSession();
+
+      return new Response(
+        JSON.stringify({
+          stage,
+          messageCount: this.countMessages(),
+          history,
+          hasMore,
+          nextBefore: hasMore ? oldest : null,
+          transitions,
+          caseFile: caseFile || emptyCaseFile(),
+          title,
+          verification,
+          outcome,
+          profileId,
+          playbookId,
+          summary,
+          handoff,
+          telemetry: this.readTelemetry()
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Retrieves what a chat turn needs: the session fields, the running summary and only
+   * the messages the summary doesn't cover yet
+   * 
+   * @returns JSON with the fields of `GET /state` except paging, where `history` starts
+   *   after the `historyOffset` summarized messages, plus the `latestSolution` reply
+   */
+  async getContext(): Promise<Response> {
+    try {
+      const { stage, caseFile, title, verification, outcome, profileId, playbookId, summary, handoff } = this.readSession();
+      const historyOffset = summary?.messageCount || 0;
+
+      return new Response(
+        JSON.stringify({
+          stage,
+          messageCount: this.countMessages(),
+          history: this.readHistoryAfter(historyOffset),
+          historyOffset,
+          latestSolution: this.readLatestSolution(),
+          caseFile: caseFile || emptyCaseFile(),
+          title,
+          verification,
+          outcome,
+          profileId,
+          playbookId,
+          summary,
+          handoff,
+          telemetry: this.readTelemetry()
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Retrieves the structured case file for this session
+   * 
+   * @returns Case file (empty if nothing has been extracted yet)
+   */
+  async getCaseFile(): Promise<Response> {
+    const caseFile = this.readSession().caseFile || emptyCaseFile();
+    return new Response(JSON.stringify(caseFile), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Replaces the structured case file after an extraction pass
+   * 
+   * @param request - Request whose body is the updated case file
+   * @returns Success response
+   */
+  async putCaseFile(request: Request): Promise<Response> {
+    try {
+      const caseFile = await request.json() as CaseFile;
+      this.updateSession({ caseFile });
+
+      return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Counts the stored messages
+   * 
+   * @returns Number of messages
+   */
+  countMessages(): number {
+    return this.state.storage.sql.exec('SELECT COUNT(*) AS count FROM messages').one().count;
+  }
+
+  /**
+   * Replaces the running summary after older messages were folded into it
+   * 
+   * @param request - Request whose body is the `ConversationSummary`
+   * @returns Success response
+   */
+  async putSummary(request: Request): Promise<Response> {
+    try {
+      const summary = await request.json() as ConversationSummary;
+      this.updateSession({ summary });
+
+      return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Returns the user who owns this session
+   * 
+   * @returns JSON `{ owner }`, null for a session that was never created
+   */
+  async getOwner(): Promise<Response> {
+    const { owner } = this.readSession();
+    return new Response(JSON.stringify({ owner }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Binds a new session to its owner
+   * 
+   * @param request - Request containing the owner's `userId`
+   * @returns JSON `{ owner }` (201), or 409 if the session already has an owner
+   */
+  async claim(request: Request): Promise<Response> {
+    const { userId } = await request.json() as { userId: string };
+    if (this.readSession().owner) {
+      return new Response(JSON.stringify({ error: 'Session already exists' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    this.updateSession({ owner: userId });
+    return new Response(JSON.stringify({ owner: userId }), { status: 201, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Renames the session
+   * 
+   * @param request - Request containing the new title
+   * @returns Success response with the stored title
+   */
+  async setTitle(request: Request): Promise<Response> {
+    try {
+      const { title } = await request.json() as any;
+      this.updateSession({ title });
+
+      return new Response(JSON.stringify({ success: true, title }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Stores the bytes of an attached image
+   * 
+   * @param attachmentId - Attachment identifier
+   * @param request - Request whose body is the image and whose Content-Type is its MIME type
+   * @returns Success response
+   */
+  async putAttachment(attachmentId: string, request: Request): Promise<Response> {
+    const data = await request.arrayBuffer();
+    await this.state.storage.put(ATTACHMENT_PREFIX + attachmentId, {
+      contentType: request.headers.get('Content-Type') || 'application/octet-stream',
+      data
+    });
+
+    return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Returns the bytes of an attached image
+   * 
+   * @param attachmentId - Attachment identifier
+   * @returns The image with its MIME type, or 404
+   */
+  async getAttachment(attachmentId: string): Promise<Response> {
+    const stored = await this.state.storage.get(ATTACHMENT_PREFIX + attachmentId);
+    if (!stored) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    return new Response(stored.data, { headers: { 'Content-Type': stored.contentType } });
+  }
+
+  /**
+   * Stores a telemetry upload
+   * 
+   * @param request - Request whose body is `{ name, format, series, analysis }`, parsed and analyzed by the Worker
+   * @returns JSON `{ id, uploadedAt }`
+   */
+  async addTelemetry(request: Request): Promise<Response> {
+    try {
+      const { name, format, series, analysis } = await request.json() as { name: string; format: TelemetryFormat; series: TelemetrySeries; analysis: TelemetryAnalysis };
+      const uploadedAt = Date.now();
+      this.state.storage.sql.exec(
+        'INSERT INTO telemetry (name, format, series, analysis, uploaded_at) VALUES (?, ?, ?, ?, ?)',
+        name,
+        format,
+        JSON.stringify(series),
+        JSON.stringify(analysis),
+        uploadedAt
+      );
+      const id = this.state.storage.sql.exec('SELECT last_insert_rowid() AS id').one().id;
+
+      return new Response(JSON.stringify({ id, uploadedAt }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Returns one telemetry upload with its samples
+   * 
+   * @param telemetryId - Row id of the upload
+   * @returns The upload with a `series` field, or 404
+   */
+  async getTelemetry(telemetryId: number): Promise<Response> {
+    const row = this.state.storage.sql.exec('SELECT * FROM telemetry WHERE id = ?', telemetryId).toArray()[0];
+    if (!row) {
+      return new Response(JSON.stringify({ error: 'Telemetry not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      id: row.id,
+      name: row.name,
+      format: row.format,
+      uploadedAt: row.uploaded_at,
+      analysis: JSON.parse(row.analysis),
+      series: JSON.parse(row.series)
+    }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Escalates the session to a human expert; connected clients are sent the handoff
+   * 
+   * @param request - Request containing the owner's `userId` and the validated `HandoffRequest`
+   * @returns JSON `{ handoff }`; an open handoff is kept, with the new reason if one is given
+   */
+  async escalate(request: Request): Promise<Response> {
+    const { userId, ...options } = await request.json() as any;
+    const handoff = openHandoff(this.readSession().handoff, options, userId, Date.now());
+    this.updateSession({ handoff });
+    this.broadcast({ type: 'handoff', handoff });
+
+    return new Response(JSON.stringify({ handoff }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Ends the handoff, so the advisor replies again; connected clients are sent the ended handoff
+   * 
+   * @param request - Request containing the `userId` of the owner or expert ending it
+   * @returns JSON `{ handoff }`, 409 if the session isn't handed off, or 403 for an expert who hasn't
+   *   joined it or when another expert claimed it
+   */
+  async endHandoff(request: Request): Promise<Response> {
+    const { userId } = await request.json() as { userId: string };
+    const { owner, handoff: current } = this.readSession();
+    if (!isHandoffOpen(current)) {
+      return new Response(JSON.stringify({ error: 'Session is not handed off to an expert' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (userId !== owner && isClaimedByOther(current, userId)) {
+      return new Response(JSON.stringify({ error: 'Another expert is handling this session' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    // Until an expert replies, the handoff is the owner's alone to call off
+    if (userId !== owner && current.expertId === null) {
+      return new Response(JSON.stringify({ error: 'Only an expert who has joined the handoff can end it' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const handoff = endHandoff(current, userId, Date.now());
+    this.updateSession({ handoff });
+    this.broadcast({ type: 'handoff', handoff });
+
+    return new Response(JSON.stringify({ handoff }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Stores a message exchanged during a handoff: an expert's reply, which pauses the advisor, or an owner's
+   * message held for the expert while it is paused; connected clients are sent the message and any change
+   * to the handoff
+   * 
+   * @param request - Request containing the `role` ("expert" or "user"), `content`, the expert's `author` id
+   *   and the client's `turnId`, if any
+   * @returns JSON `{ messageId, handoff }` (201), 409 if the session isn't handed off (for experts) or the
+   *   advisor isn't paused (for owners), or 403 if another expert claimed the session
+   */
+  async postMessage(request: Request): Promise<Response> {
+    const { role, content, author, turnId } = await request.json() as any;
+    const current = this.readSession().handoff;
+    const allowed = role === 'expert' ? isHandoffOpen(current) : isAdvisorPaused(current);
+    if (!allowed) {
+      return new Response(JSON.stringify({ error: role === 'expert' ? 'Session is not handed off to an expert' : 'The advisor is not paused' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (role === 'expert' && isClaimedByOther(current!, author)) {
+      return new Response(JSON.stringify({ error: 'Another expert is handling this session' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const message: ChatMessage = { role, content, timestamp: Date.now() };
+    if (role === 'expert') {
+      message.author = author;
+    }
+    const handoff = role === 'expert' ? joinHandoff(current!, author, message.timestamp) : current;
+
+    const messageId = this.state.storage.transactionSync(() => {
+      const id = this.appendMessage(message);
+      this.updateSession({ handoff });
+      return id;
+    });
+
+    this.broadcast({ type: 'message', turnId, message: { id: messageId, ...message } });
+    if (handoff !== current) {
+      this.broadcast({ type: 'handoff', handoff });
+    }
+
+    return new Response(JSON.stringify({ messageId, handoff }), { status: 201, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Starts the diagnosis over: clears history, stage transitions, running summary, stage, playbook, case file,
+   * walkthrough, outcome, expert handoff, attachments and telemetry but keeps the owner, title and robot profile; connected
+   * clients are told to start over too
+   * 
+   * @returns Success response with the reset stage
+   */
+  async reset(): Promise<Response> {
+    this.state.storage.transactionSync(() => {
+      this.state.storage.sql.exec('DELETE FROM messages');
+      this.state.storage.sql.exec('DELETE FROM stage_transitions');
+      this.state.storage.sql.exec('DELETE FROM feedback');
+      this.state.storage.sql.exec('DELETE FROM telemetry');
+      this.updateSession({ stage: 'initial', playbookId: null, caseFile: null, verification: null, outcome: null, summary: null, handoff: null });
+    });
+    const attachments = await this.state.storage.list({ prefix: ATTACHMENT_PREFIX });
+    for (const key of attachments.keys()) {
+      await this.state.storage.delete(key);
+    }
+    this.broadcast({ type: 'reset', stage: 'initial' });
+
+    return new Response(JSON.stringify({ success: true, stage: 'initial' }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Permanently deletes everything stored for this session and disconnects its clients
+   * 
+   * @returns Success response
+   */
+  async destroy(): Promise<Response> {
+    for (const socket of this.state.getWebSockets()) {
+      socket.close(SESSION_DELETED_CLOSE_CODE, 'Session deleted');
+    }
+    await this.state.storage.deleteAll();
+    // deleteAll drops tables too; recreate them in case this object is used again
+    migrate(this.state.storage, SESSION_MIGRATIONS);
+    return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' } });
+  }
+}
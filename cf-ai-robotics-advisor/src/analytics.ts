@@ -0,0 +1,513 @@
+/**
+ * Analytics - Diagnosis Events and the Admin Dashboard Report
+ *
+ * Every saved chat turn emits one event (stage reached, outcome, suspected
+ * subsystems) into an events table. Events go to the D1 database bound as
+ * `ANALYTICS_DB` when there is one; otherwise the `AnalyticsLog` Durable Object
+ * is a local stand-in with the same table, so the dashboard also works in
+ * `wrangler dev` and tests without creating a database.
+ *
+ * The report aggregates sessions by the day of their first turn. Each session's
+ * final stage, outcome and suspected subsystems are taken from its latest event.
+ * Feedback on replies is kept in the same store, one row per rated message, for
+ * the feedback export.
+ *
+ * @module analytics
+ */
+
+import { STAGES, Stage } from './playbook';
+import { Subsystem } from './caseFile';
+import { SessionOutcome } from './verification';
+import { FeedbackEntry } from './feedback';
+import { DurableObjectNamespace, DurableObjectState, DurableObjectStub } from './types';
+import { retryingStub } from './stubs';
+import { ANALYTICS_MIGRATIONS, migrate, migrateDatabase } from './schema';
+
+/**
+ * One saved chat turn
+ */
+export interface DiagnosisEvent {
+  sessionId: string;
+  /** Session owner */
+  userId: string;
+  /** When the turn was saved (ms since epoch) */
+  timestamp: number;
+  /** Stage before the turn */
+  fromStage: Stage;
+  /** Stage the reply was written in */
+  stage: Stage;
+  /** Turn number within the session, from 1 */
+  turn: number;
+  /** Session title */
+  title: string | null;
+  /** Outcome once the session is resolved or escalated */
+  outcome: SessionOutcome['status'] | null;
+  /** Subsystems the case file suspects after the turn */
+  subsystems: Subsystem[];
+  /** Kind of robot, from the case file */
+  robotType: string | null;
+}
+
+/**
+ * What the events say about one session
+ */
+export interface SessionActivity {
+  sessionId: string;
+  userId: string;
+  title: string | null;
+  /** First turn (ms since epoch) */
+  startedAt: number;
+  /** Latest turn (ms since epoch) */
+  lastActivityAt: number;
+  turns: number;
+  /** Stage of the latest turn */
+  finalStage: Stage;
+  outcome: SessionOutcome['status'] | null;
+  subsystems: Subsystem[];
+  robotType: string | null;
+  /** Turn that first reached the solution stage, null if none did */
+  solutionTurn: number | null;
+  /** When the solution stage was first reached, null if it wasn't */
+  solutionAt: number | null;
+}
+
+/**
+ * Aggregates shown on the admin dashboard, as returned by `GET /api/admin/analytics`
+ */
+export interface AnalyticsReport {
+  /** Days covered, ending today (UTC) */
+  days: number;
+  /** Start of the first day covered (ms since epoch) */
+  since: number;
+  /** Sessions whose first turn falls in the range */
+  sessions: number;
+  /** Sessions started per UTC day, oldest first, including days without any */
+  sessionsPerDay: { day: string; sessions: number }[];
+  /** Sessions by the stage of their latest turn */
+  finalStages: Record<Stage, number>;
+  /** Turns and minutes from the first turn to the first solution, over sessions that got one */
+  toSolution: {
+    sessions: number;
+    medianTurns: number | null;
+    averageTurns: number | null;
+    medianMinutes: number | null;
+    averageMinutes: number | null;
+  };
+  /** Suspected subsystems by the number of sessions suspecting them, most common first */
+  subsystems: { subsystem: Subsystem; sessions: number }[];
+  /** Sessions by outcome; rates are fractions of all sessions, null when there are none */
+  outcomes: { resolved: number; escalated: number; open: number; resolutionRate: number | null; escalationRate: number | null };
+  /** Most recently active sessions, for drill-down */
+  recentSessions: SessionActivity[];
+}
+
+/**
+ * Where events and feedback are written and read
+ */
+export interface EventStore {
+  /**
+   * Records one event
+   *
+   * @param event - Event to store
+   */
+  record(event: DiagnosisEvent): Promise<void>;
+  /**
+   * Summarizes the sessions that started at or after a time
+   *
+   * @param since - Earliest first turn (ms since epoch)
+   * @returns One entry per session, most recently active first
+   */
+  sessions(since: number): Promise<SessionActivity[]>;
+  /**
+   * Stores the feedback on a message, replacing what was stored for it before
+   *
+   * @param entry - Feedback with the reply it is about
+   */
+  recordFeedback(entry: FeedbackEntry): Promise<void>;
+  /**
+   * Lists feedback that changed at or after a time
+   *
+   * @param since - Earliest update (ms since epoch)
+   * @returns Feedback, most recently updated first
+   */
+  feedback(since: number): Promise<FeedbackEntry[]>;
+}
+
+/**
+ * Environment bindings read by `createEventStore`
+ */
+export interface AnalyticsEnv {
+  /** D1 database for events; the `AnalyticsLog` stand-in is used when unbound */
+  ANALYTICS_DB?: D1Database;
+  /** Durable Object namespace of the `AnalyticsLog` stand-in */
+  ANALYTICS_LOG: DurableObjectNamespace;
+}
+
+/** Days the report covers by default */
+export const DEFAULT_REPORT_DAYS = 30;
+
+/** Longest range a report may cover */
+export const MAX_REPORT_DAYS = 365;
+
+/** Sessions listed for drill-down */
+const RECENT_SESSIONS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+
+const INSERT_EVENT = `INSERT INTO events (session_id, user_id, timestamp, from_stage, stage, turn, title, outcome, subsystems, robot_type)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+// Per-session aggregates, joined with each session's latest event
+const SELECT_SESSIONS = `SELECT s.session_id, s.started_at, s.last_activity_at, s.turns, s.solution_turn, s.solution_at,
+    e.user_id, e.title, e.stage, e.outcome, e.subsystems, e.robot_type
+  FROM (
+    SELECT session_id,
+      MIN(timestamp) AS started_at,
+      MAX(timestamp) AS last_activity_at,
+      COUNT(*) AS turns,
+      MAX(id) AS last_id,
+      MIN(CASE WHEN stage = 'solution' THEN turn END) AS solution_turn,
+      MIN(CASE WHEN stage = 'solution' THEN timestamp END) AS solution_at
+    FROM events
+    GROUP BY session_id
+    HAVING MIN(timestamp) >= ?
+  ) s
+  JOIN events e ON e.id = s.last_id
+  ORDER BY s.last_activity_at DESC`;
+
+const UPSERT_FEEDBACK = `INSERT INTO feedback (session_id, message_id, user_id, stage, prompt_version, rating, comment, solved, updated_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (session_id, message_id) DO UPDATE SET
+    rating = excluded.rating, comment = excluded.comment, solved = excluded.solved, updated_at = excluded.updated_at`;
+
+const SELECT_FEEDBACK = `SELECT session_id, message_id, user_id, stage, prompt_version, rating, comment, solved, updated_at
+  FROM feedback WHERE updated_at >= ? ORDER BY updated_at DESC`;
+
+/**
+ * Binds an event to the parameters of `INSERT_EVENT`
+ */
+function eventParams(event: DiagnosisEvent): unknown[] {
+  return [
+    event.sessionId,
+    event.userId,
+    event.timestamp,
+    event.fromStage,
+    event.stage,
+    event.turn,
+    event.title,
+    event.outcome,
+    JSON.stringify(event.subsystems),
+    event.robotType
+  ];
+}
+
+/**
+ * Converts a row of `SELECT_SESSIONS`
+ */
+function toSessionActivity(row: Record<string, unknown>): SessionActivity {
+  return {
+    sessionId: row.session_id as string,
+    userId: row.user_id as string,
+    title: row.title as string | null,
+    startedAt: row.started_at as number,
+    lastActivityAt: row.last_activity_at as number,
+    turns: row.turns as number,
+    finalStage: row.stage as Stage,
+    outcome: row.outcome as SessionOutcome['status'] | null,
+    subsystems: JSON.parse(row.subsystems as string),
+    robotType: row.robot_type as string | null,
+    solutionTurn: row.solution_turn as number | null,
+    solutionAt: row.solution_at as number | null
+  };
+}
+
+/**
+ * Binds feedback to the parameters of `UPSERT_FEEDBACK`
+ */
+function feedbackParams(entry: FeedbackEntry): unknown[] {
+  return [
+    entry.sessionId,
+    entry.messageId,
+    entry.userId,
+    entry.stage,
+    entry.promptVersion,
+    entry.rating,
+    entry.comment,
+    entry.solved === null ? null : Number(entry.solved),
+    entry.updatedAt
+  ];
+}
+
+/**
+ * Converts a row of `SELECT_FEEDBACK`
+ */
+function toFeedbackEntry(row: Record<string, unknown>): FeedbackEntry {
+  return {
+    sessionId: row.session_id as string,
+    messageId: row.message_id as number,
+    userId: row.user_id as string,
+    stage: row.stage as string | null,
+    promptVersion: row.prompt_version as string | null,
+    rating: row.rating as FeedbackEntry['rating'],
+    comment: row.comment as string | null,
+    solved: row.solved === null ? null : Boolean(row.solved),
+    updatedAt: row.updated_at as number
+  };
+}
+
+/** Migrations already applied per D1 database in this isolate */
+const migratedDatabases = new WeakMap<D1Database, Promise<number>>();
+
+/**
+ * Event store backed by a D1 database, migrated on first use
+ */
+export class D1EventStore implements EventStore {
+  constructor(private db: D1Database) {}
+
+  async record(event: DiagnosisEvent): Promise<void> {
+    await this.ready();
+    await this.db.prepare(INSERT_EVENT).bind(...eventParams(event)).run();
+  }
+
+  async sessions(since: number): Promise<SessionActivity[]> {
+    await this.ready();
+    const { results } = await this.db.prepare(SELECT_SESSIONS).bind(since).all<Record<string, unknown>>();
+    return results.map(toSessionActivity);
+  }
+
+  async recordFeedback(entry: FeedbackEntry): Promise<void> {
+    await this.ready();
+    await this.db.prepare(UPSERT_FEEDBACK).bind(...feedbackParams(entry)).run();
+  }
+
+  async feedback(since: number): Promise<FeedbackEntry[]> {
+    await this.ready();
+    const { results } = await this.db.prepare(SELECT_FEEDBACK).bind(since).all<Record<string, unknown>>();
+    return results.map(toFeedbackEntry);
+  }
+
+  /**
+   * Applies pending migrations once per isolate; a failed attempt is retried on the next call
+   */
+  private ready(): Promise<number> {
+    let migrated = migratedDatabases.get(this.db);
+    if (!migrated) {
+      migrated = migrateDatabase(this.db, ANALYTICS_MIGRATIONS);
+      migrated.catch(() => migratedDatabases.delete(this.db));
+      migratedDatabases.set(this.db, migrated);
+    }
+    return migrated;
+  }
+}
+
+/**
+ * Event store that forwards to the `AnalyticsLog` Durable Object
+ */
+export class DurableEventStore implements EventStore {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async record(event: DiagnosisEvent): Promise<void> {
+    await this.post('/events', event);
+  }
+
+  async sessions(since: number): Promise<SessionActivity[]> {
+    return await this.list<SessionActivity>('/sessions', since);
+  }
+
+  async recordFeedback(entry: FeedbackEntry): Promise<void> {
+    await this.post('/feedback', entry);
+  }
+
+  async feedback(since: number): Promise<FeedbackEntry[]> {
+    return await this.list<FeedbackEntry>('/feedback', since);
+  }
+
+  private async post(path: string, body: unknown): Promise<void> {
+    const response = await this.stub().fetch(new Request(`http://do${path}`, { method: 'POST', body: JSON.stringify(body) }));
+    if (!response.ok) {
+      throw new Error(`Analytics log rejected ${path}: ${response.status}`);
+    }
+  }
+
+  private async list<T>(path: string, since: number): Promise<T[]> {
+    const response = await this.stub().fetch(new Request(`http://do${path}?since=${since}`, { method: 'GET' }));
+    const { rows, error } = await response.json() as { rows?: T[]; error?: string };
+    if (!rows) {
+      throw new Error(error || `Analytics log failed: ${response.status}`);
+    }
+    return rows;
+  }
+
+  private stub(): DurableObjectStub {
+    return retryingStub(() => this.namespace.get(this.namespace.idFromName('global')));
+  }
+}
+
+/**
+ * Picks the event store for the environment
+ *
+ * @param env - Environment bindings
+ * @returns D1 store when `ANALYTICS_DB` is bound, otherwise the Durable Object stand-in
+ */
+export function createEventStore(env: AnalyticsEnv): EventStore {
+  return env.ANALYTICS_DB ? new D1EventStore(env.ANALYTICS_DB) : new DurableEventStore(env.ANALYTICS_LOG);
+}
+
+/**
+ * Local stand-in for the analytics database: one SQLite-backed Durable Object
+ * holding every event
+ */
+export class AnalyticsLog {
+  state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+    migrate(state.storage, ANALYTICS_MIGRATIONS);
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object
+   *
+   * @param request - HTTP request from the Worker
+   * @returns Response with requested data or error
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      if (url.pathname === '/events' && request.method === 'POST') {
+        const event = await request.json() as DiagnosisEvent;
+        this.state.storage.sql.exec(INSERT_EVENT, ...eventParams(event));
+        return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' } });
+      }
+
+      if (url.pathname === '/feedback' && request.method === 'POST') {
+        const entry = await request.json() as FeedbackEntry;
+        this.state.storage.sql.exec(UPSERT_FEEDBACK, ...feedbackParams(entry));
+        return new Response(JSON.stringify({ success: true }), { headers: { 'Content-Type': 'application/json' } });
+      }
+
+      const since = Number(url.searchParams.get('since')) || 0;
+      if (url.pathname === '/sessions' && request.method === 'GET') {
+        const rows = this.state.storage.sql.exec(SELECT_SESSIONS, since).toArray().map(toSessionActivity);
+        return new Response(JSON.stringify({ rows }), { headers: { 'Content-Type': 'application/json' } });
+      }
+
+      if (url.pathname === '/feedback' && request.method === 'GET') {
+        const rows = this.state.storage.sql.exec(SELECT_FEEDBACK, since).toArray().map(toFeedbackEntry);
+        return new Response(JSON.stringify({ rows }), { headers: { 'Content-Type': 'application/json' } });
+      }
+    } catch (error: any) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+}
+
+/**
+ * Validates the `days` query parameter of the report
+ *
+ * @param value - Raw parameter, null when absent
+ * @returns Days to cover, or null if the value is not a whole number from 1 to `MAX_REPORT_DAYS`
+ */
+export function parseReportDays(value: string | null): number | null {
+  if (value === null) return DEFAULT_REPORT_DAYS;
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= MAX_REPORT_DAYS ? days : null;
+}
+
+/**
+ * Start of the first UTC day of a report
+ *
+ * @param days - Days covered, ending today
+ * @param now - Current time (ms since epoch)
+ * @returns Midnight UTC `days - 1` days before today
+ */
+export function reportStart(days: number, now: number): number {
+  return Math.floor(now / DAY_MS) * DAY_MS - (days - 1) * DAY_MS;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function round(value: number | null, digits = 1): number | null {
+  return value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * Aggregates session activity into the dashboard report
+ *
+ * @param sessions - Sessions started in the range, most recently active first
+ * @param days - Days covered, ending today
+ * @param now - Current time (ms since epoch)
+ * @returns Report
+ */
+export function buildAnalyticsReport(sessions: SessionActivity[], days: number, now: number): AnalyticsReport {
+  const since = reportStart(days, now);
+
+  const perDay = new Map<string, number>();
+  for (let day = 0; day < days; day++) {
+    perDay.set(new Date(since + day * DAY_MS).toISOString().slice(0, 10), 0);
+  }
+  for (const session of sessions) {
+    const day = new Date(session.startedAt).toISOString().slice(0, 10);
+    if (perDay.has(day)) perDay.set(day, perDay.get(day)! + 1);
+  }
+
+  const finalStages = Object.fromEntries(STAGES.map(stage => [stage, 0])) as Record<Stage, number>;
+  const subsystemCounts = new Map<Subsystem, number>();
+  let resolved = 0;
+  let escalated = 0;
+  for (const session of sessions) {
+    finalStages[session.finalStage] = (finalStages[session.finalStage] || 0) + 1;
+    for (const subsystem of session.subsystems) {
+      subsystemCounts.set(subsystem, (subsystemCounts.get(subsystem) || 0) + 1);
+    }
+    if (session.outcome === 'resolved') resolved++;
+    if (session.outcome === 'escalate') escalated++;
+  }
+
+  const solved = sessions.filter(session => session.solutionTurn !== null && session.solutionAt !== null);
+  const turns = solved.map(session => session.solutionTurn!);
+  const minutes = solved.map(session => (session.solutionAt! - session.startedAt) / 60000);
+  const rate = (count: number) => (sessions.length ? round(count / sessions.length, 3) : null);
+
+  return {
+    days,
+    since,
+    sessions: sessions.length,
+    sessionsPerDay: [...perDay].map(([day, count]) => ({ day, sessions: count })),
+    finalStages,
+    toSolution: {
+      sessions: solved.length,
+      medianTurns: median(turns),
+      averageTurns: round(average(turns)),
+      medianMinutes: round(median(minutes)),
+      averageMinutes: round(average(minutes))
+    },
+    subsystems: [...subsystemCounts]
+      .map(([subsystem, count]) => ({ subsystem, sessions: count }))
+      .sort((a, b) => b.sessions - a.sessions),
+    outcomes: {
+      resolved,
+      escalated,
+      open: sessions.length - resolved - escalated,
+      resolutionRate: rate(resolved),
+      escalationRate: rate(escalated)
+    },
+    recentSessions: sessions.slice(0, RECENT_SESSIONS)
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * Attachments - Photos and Logs Sent With a Chat Message
+ *
+ * Photos (wiring, boards, damage) are stored per session and described by a
+ * vision model; text logs (serial console dumps, ROS / rqt_console exports) are
+ * truncated, their key error lines pulled out and summarized. Both end up as text
+ * the stage prompts and classifier can use, recorded on the user's message.
+ *
+ * @module attachments
+ */
+
+import { LlmProvider } from './providers';
+
+/**
+ * Kinds of attachments the advisor understands
+ */
+export type AttachmentKind = 'image' | 'log';
+
+/**
+ * Attachment metadata and derived text, stored on the user's chat message
+ */
+export interface Attachment {
+  /** Attachment identifier; images can be fetched with it */
+  id: string;
+  /** Whether it was treated as a photo or a log */
+  kind: AttachmentKind;
+  /** Original file name */
+  name: string;
+  /** MIME type */
+  contentType: string;
+  /** Original size in bytes */
+  size: number;
+  /** Vision model description (images) */
+  description?: string | null;
+  /** Model summary of the log (logs) */
+  summary?: string | null;
+  /** Error and warning lines pulled from the log (logs) */
+  keyLines?: string[];
+  /** True when only part of the log was kept */
+  truncated?: boolean;
+}
+
+/**
+ * A processed attachment plus the bytes to store, if any
+ */
+export interface ProcessedAttachment {
+  attachment: Attachment;
+  /** Image bytes to keep in session storage; logs aren't stored */
+  data?: Uint8Array;
+}
+
+/** Most attachments accepted with one message */
+export const MAX_ATTACHMENTS = 4;
+
+/** Largest image accepted; Durable Object SQLite values are capped at 2 MB */
+export const MAX_IMAGE_BYTES = 1_500_000;
+
+/** Largest log accepted before truncation */
+export const MAX_LOG_BYTES = 5_000_000;
+
+/** Characters of a log kept from its start and end for the summary */
+const LOG_HEAD_CHARS = 2000;
+const LOG_TAIL_CHARS = 4000;
+
+/** Most key lines pulled from one log */
+const MAX_KEY_LINES = 20;
+
+/** Longest key line kept, in characters */
+const MAX_KEY_LINE_LENGTH = 300;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+/** Extensions treated as text logs when the browser doesn't send a text MIME type */
+const LOG_EXTENSIONS = /\.(log|txt|out|csv|json|ya?ml|xml|launch)$/i;
+
+/** Lines worth surfacing from a log: errors, faults, stack traces, ROS severities */
+const KEY_LINE_PATTERN = /\b(error|err|fatal|fault|fail(ed|ure)?|exception|traceback|panic|abort(ed)?|timeout|timed out|overcurrent|overheat|brown-?out|watchdog|warn(ing)?|segmentation|core dumped|errno)\b|\[(ERROR|FATAL|WARN)\]/i;
+
+/**
+ * Decides how an uploaded file should be handled
+ *
+ * @param file - Uploaded file
+ * @returns Attachment kind, or null if the type isn't supported
+ */
+export function attachmentKind(file: File): AttachmentKind | null {
+  if (IMAGE_TYPES.includes(file.type)) return 'image';
+  if (file.type.startsWith('text/') || LOG_EXTENSIONS.test(file.name)) return 'log';
+  return null;
+}
+
+/**
+ * Checks an uploaded file against the supported types and size limits
+ *
+ * @param file - Uploaded file
+ * @returns Error message and HTTP status, or null if the file is acceptable
+ */
+export function validateAttachment(file: File): { error: string; status: number } | null {
+  const kind = attachmentKind(file);
+  if (!kind) {
+    return { error: `Unsupported attachment type for ${file.name}: send a PNG/JPEG/WebP/GIF image or a text log`, status: 400 };
+  }
+
+  const limit = kind === 'image' ? MAX_IMAGE_BYTES : MAX_LOG_BYTES;
+  if (file.size > limit) {
+    return { error: `${file.name} is larger than ${Math.floor(limit / 1000)} kB`, status: 413 };
+  }
+
+  return null;
+}
+
+/**
+ * Turns an uploaded file into an attachment record
+ *
+ * Images are described by the `vision` model; logs are truncated, mined for key
+ * lines and summarized by the `summary` model. Model failures leave the
+ * description or summary null rather than failing the chat turn.
+ *
+ * @param provider - Model provider
+ * @param file - Uploaded file (already validated)
+ * @param userMessage - Text sent with the file, to focus the description
+ * @returns Attachment record and, for images, the bytes to store
+ */
+export async function processAttachment(provider: LlmProvider, file: File, userMessage: string): Promise<ProcessedAttachment> {
+  const base = {
+    id: crypto.randomUUID(),
+    name: file.name || 'attachment',
+    contentType: file.type || 'text/plain',
+    size: file.size
+  };
+
+  if (attachmentKind(file) === 'image') {
+    const data = new Uint8Array(await file.arrayBuffer());
+    const description = await describeImage(provider, data, base.contentType, userMessage);
+    return { attachment: { ...base, kind: 'image', description }, data };
+  }
+
+  const text = await file.text();
+  const { excerpt, truncated } = truncateLog(text);
+  const keyLines = extractKeyLines(text);
+  const summary = await summarizeLog(provider, base.name, excerpt, keyLines, userMessage);
+
+  return { attachment: { ...base, kind: 'log', summary, keyLines, truncated } };
+}
+
+/**
+ * Keeps the start and end of a long log, where setup and the final failure usually are
+ *
+ * @param text - Full log text
+ * @returns Excerpt and whether anything was cut
+ */
+export function truncateLog(text: string): { excerpt: string; truncated: boolean } {
+  if (text.length <= LOG_HEAD_CHARS + LOG_TAIL_CHARS) {
+    return { excerpt: text, truncated: false };
+  }
+
+  const omitted = text.length - LOG_HEAD_CHARS - LOG_TAIL_CHARS;
+  return {
+    excerpt: `${text.slice(0, LOG_HEAD_CHARS)}\n[... ${omitted} characters omitted ...]\n${text.slice(-LOG_TAIL_CHARS)}`,
+    truncated: true
+  };
+}
+
+/**
+ * Pulls error, fault and warning lines out of a log
+ *
+ * Repeated lines are kept once, and when there are too many the latest ones win,
+ * since the last errors before a crash are usually the informative ones.
+ *
+ * @param text - Full log text
+ * @returns Up to `MAX_KEY_LINES` lines in log order
+ */
+export function extractKeyLines(text: string): string[] {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || !KEY_LINE_PATTERN.test(line)) continue;
+
+    // Ignore timestamps and counters when de-duplicating repeated messages
+    const signature = line.replace(/[\d.:]+/g, '#');
+    if (seen.has(signature)) continue;
+    seen.add(signature);
+
+    lines.push(line.length > MAX_KEY_LINE_LENGTH ? line.slice(0, MAX_KEY_LINE_LENGTH) + '…' : line);
+  }
+
+  return lines.slice(-MAX_KEY_LINES);
+}
+
+/**
+ * Renders attachments as text appended to the user's message in prompts
+ *
+ * @param attachments - Attachments sent with one message
+ * @returns Prompt text, or an empty string if there are none
+ */
+export function formatAttachmentContext(attachments: Attachment[] | undefined): string {
+  if (!attachments || !attachments.length) return '';
+
+  return attachments.map(a => {
+    if (a.kind === 'image') {
+      return `[Attached photo "${a.name}"] ${a.description || 'No description available.'}`;
+    }
+
+    const parts = [`[Attached log "${a.name}"${a.truncated ? ', truncated' : ''}]`];
+    if (a.summary) parts.push(`Summary: ${a.summary}`);
+    if (a.keyLines && a.keyLines.length) parts.push(`Key lines:\n${a.keyLines.join('\n')}`);
+    return parts.join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Asks the vision model what a photo shows that matters for the diagnosis
+ *
+ * @param provider - Model provider
+ * @param data - Image bytes
+ * @param contentType - Image MIME type
+ * @param userMessage - Text sent with the photo
+ * @returns Description, or null if the call fails
+ */
+async function describeImage(provider: LlmProvider, data: Uint8Array, contentType: string, userMessage: string): Promise<string | null> {
+  try {
+    const description = await provider.complete({
+      purpose: 'vision',
+      messages: [
+        {
+          role: 'system',
+          content: `You describe photos and screenshots for a robotics troubleshooting advisor.
+Describe only what is visible that matters for diagnosing the user's problem: components and their part numbers, wiring and connectors, damage, burn marks, corrosion, LED states, and any error text on screens.
+Be factual and concise (at most 5 sentences). Say so if something is unclear or not visible.`
+        },
+        { role: 'user', content: userMessage.trim() ? `The user wrote: ${userMessage}` : 'Describe this photo.' }
+      ],
+      image: { data, contentType }
+    });
+    return description.trim() || null;
+  } catch (error: any) {
+    console.warn('Image description failed:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Asks the summary model what went wrong according to a log
+ *
+ * @param provider - Model provider
+ * @param name - Log file name
+ * @param excerpt - Truncated log text
+ * @param keyLines - Error lines pulled from the full log
+ * @param userMessage - Text sent with the log
+ * @returns Summary, or null if the call fails
+ */
+async function summarizeLog(
+  provider: LlmProvider,
+  name: string,
+  excerpt: string,
+  keyLines: string[],
+  userMessage: string
+): Promise<string | null> {
+  try {
+    const summary = await provider.complete({
+      purpose: 'summary',
+      messages: [
+        {
+          role: 'system',
+          content: `You summarize robot logs (serial console output, ROS logs, rqt_console exports) for a robotics troubleshooting advisor.
+In 2-4 sentences, say what the log shows went wrong, in what order, and which node, driver or component reported it. Quote exact error codes. Don't suggest fixes.`
+        },
+        {
+          role: 'user',
+          content: `Log file: ${name}\nUser's message: ${userMessage || '(none)'}\n\nKey lines:\n${keyLines.join('\n') || '(none found)'}\n\nLog excerpt:\n${excerpt}`
+        }
+      ]
+    });
+    return summary.trim() || null;
+  } catch (error: any) {
+    console.warn('Log summary failed:', error.message);
+    return null;
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Auth - Callers, Their Credentials and Roles
+ *
+ * Every API call except issuing a guest token must identify its caller, by one of:
+ * - A session token signed by this Worker (`Authorization: Bearer <token>`), issued
+ *   to the browser UI as a guest identity; browsers can't set headers on a WebSocket
+ *   handshake, so upgrade requests may send it as `?token=` instead
+ * - An API key from `API_KEYS` (`X-API-Key: <key>`), for scripts and integrations
+ * - A JWT from an upstream identity provider (`Authorization: Bearer <jwt>`), when
+ *   `JWT_JWKS_URL` is set
+ *
+ * The resulting principal owns the sessions it creates; admin-only routes (the
+ * knowledge base, robot profiles, case index writes and analytics) need the `admin` role.
+ * Experts (the `expert` role, or admins) may post into sessions their owners handed off.
+ *
+ * Share links carry a share token instead: signed like a session token, but naming
+ * a session rather than a user, and only good for reading that session's transcript.
+ *
+ * @module auth
+ */
+
+import { parseJsonVar } from './providers';
+
+/**
+ * What a caller may do
+ */
+export type Role = 'user' | 'admin' | 'expert';
+
+/**
+ * Authenticated caller
+ */
+export interface Principal {
+  /** Stable user id; sessions are owned by it */
+  userId: string;
+  /** Caller's role */
+  role: Role;
+  /** How the caller authenticated */
+  method: 'token' | 'apiKey' | 'jwt';
+  /** When the credential stops working (ms since epoch); null for API keys, which don't expire */
+  expiresAt: number | null;
+}
+
+/**
+ * Result of authenticating a request: a principal, or why there is none
+ */
+export type AuthResult = { principal: Principal; error: null } | { principal: null; error: string };
+
+/**
+ * One configured API key
+ */
+export interface ApiKeyEntry {
+  userId: string;
+  role?: Role;
+}
+
+/**
+ * Environment variables read by `authenticate`
+ */
+export interface AuthEnv {
+  /** HMAC secret for session tokens (set as a secret) */
+  AUTH_SECRET?: string;
+  /** API keys (set as a secret): `{ "<key>": { "userId": "ci-bot", "role": "admin" } }` */
+  API_KEYS?: string | Record<string, ApiKeyEntry>;
+  /** Set to "false" to stop issuing guest tokens (e.g. when every user signs in through a JWT provider) */
+  GUEST_ACCESS?: string;
+  /** JWKS endpoint of the identity provider; JWTs are rejected when unset */
+  JWT_JWKS_URL?: string;
+  /** Required `iss` claim, if set */
+  JWT_ISSUER?: string;
+  /** Required `aud` claim, if set */
+  JWT_AUDIENCE?: string;
+}
+
+/**
+ * Signed session token payload
+ */
+interface TokenPayload {
+  /** User id */
+  sub: string;
+  role: Role;
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Expires at (seconds since epoch) */
+  exp: number;
+}
+
+/**
+ * Signed share token payload
+ */
+interface SharePayload {
+  /** Session the token shows */
+  sid: string;
+  /** Handoff the token was issued for */
+  hid: string;
+  scope: 'share';
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Expires at (seconds since epoch) */
+  exp: number;
+}
+
+/**
+ * What a valid share token grants
+ */
+export interface ShareGrant {
+  sessionId: string;
+  /** Handoff the link was issued for; it only works while that handoff is open */
+  handoffId: string;
+  /** When the token stops working (ms since epoch) */
+  expiresAt: number;
+}
+
+/** Lifetime of guest tokens */
+export const GUEST_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Clock skew tolerated when checking JWT expiry */
+const JWT_LEEWAY_SECONDS = 60;
+
+/** How long fetched JWKS keys are reused */
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+
+/** JWKS keys per URL, shared by requests in this isolate */
+const jwksCache = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+const encoder = new TextEncoder();
+
+/**
+ * Issues a session token
+ *
+ * @param secret - `AUTH_SECRET`
+ * @param userId - User the token identifies
+ * @param role - User's role
+ * @param ttlSeconds - Lifetime of the token
+ * @returns Token of the form `<payload>.<signature>`, both base64url
+ */
+export async function signToken(secret: string, userId: string, role: Role, ttlSeconds: number): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: TokenPayload = { sub: userId, role, iat: now, exp: now + ttlSeconds };
+  return await signPayload(secret, payload);
+}
+
+/**
+ * Verifies a session token
+ *
+ * @param secret - `AUTH_SECRET`
+ * @param token - Token from `signToken`
+ * @returns The token's principal, or null if it is forged, malformed or expired
+ */
+export async function verifyToken(secret: string, token: string): Promise<Principal | null> {
+  const payload = await verifyPayload<TokenPayload>(secret, token);
+  if (!payload || typeof payload.sub !== 'string') return null;
+  return { userId: payload.sub, role: parseRole(payload.role), method: 'token', expiresAt: payload.exp * 1000 };
+}
+
+/**
+ * Issues a share token for a read-only link to a session
+ *
+ * @param secret - `AUTH_SECRET`
+ * @param sessionId - Session the link shows
+ * @param handoffId - Handoff the link is issued for
+ * @param ttlSeconds - Lifetime of the link
+ * @returns Token of the form `<payload>.<signature>`, both base64url
+ */
+export async function signShareToken(secret: string, sessionId: string, handoffId: string, ttlSeconds: number): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SharePayload = { sid: sessionId, hid: handoffId, scope: 'share', iat: now, exp: now + ttlSeconds };
+  return await signPayload(secret, payload);
+}
+
+/**
+ * Verifies a share token; session tokens are not share tokens, and the other way round
+ *
+ * @param secret - `AUTH_SECRET`
+ * @param token - Token from `signShareToken`
+ * @returns The session and handoff it is for, or null if it is forged, malformed or expired
+ */
+export async function verifyShareToken(secret: string, token: string): Promise<ShareGrant | null> {
+  const payload = await verifyPayload<SharePayload>(secret, token);
+  if (!payload || payload.scope !== 'share' || typeof payload.sid !== 'string' || typeof payload.hid !== 'string') return null;
+  return { sessionId: payload.sid, handoffId: payload.hid, expiresAt: payload.exp * 1000 };
+}
+
+/**
+ * Identifies the caller of a request
+ *
+ * `X-API-Key` is checked first, then a bearer credential (or the `token` query
+ * parameter of a WebSocket upgrade): two-part values are session tokens,
+ * three-part values are JWTs.
+ *
+ * @param request - Incoming request
+ * @param env - Auth configuration
+ * @returns The caller, or why the request is unauthenticated
+ */
+export async function authenticate(request: Request, env: AuthEnv): Promise<AuthResult> {
+  const apiKey = request.headers.get('X-API-Key');
+  if (apiKey) {
+    const principal = await verifyApiKey(env, apiKey);
+    return principal ? { principal, error: null } : { principal: null, error: 'Invalid API key' };
+  }
+
+  const queryToken = request.headers.get('Upgrade') === 'websocket' ? new URL(request.url).searchParams.get('token') : null;
+  const authorization = request.headers.get('Authorization') || (queryToken ? `Bearer ${queryToken}` : '');
+  const match = authorization.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return { principal: null, error: 'Authentication required' };
+  }
+
+  const credential = match[1];
+  if (credential.split('.').length === 3) {
+    if (!env.JWT_JWKS_URL) return { principal: null, error: 'JWT sign-in is not configured' };
+    const principal = await verifyJwt(env, credential);
+    return principal ? { principal, error: null } : { principal: null, error: 'Invalid or expired JWT' };
+  }
+
+  const principal = env.AUTH_SECRET ? await verifyToken(env.AUTH_SECRET, credential) : null;
+  return principal ? { principal, error: null } : { principal: null, error: 'Invalid or expired token' };
+}
+
+/**
+ * Looks up an API key in `API_KEYS`
+ *
+ * Keys are compared as SHA-256 digests in constant time, so response timing
+ * doesn't reveal how much of a key matched.
+ *
+ * @param env - Auth configuration
+ * @param apiKey - Key sent by the caller
+ * @returns The key's principal, or null if it isn't configured
+ */
+async function verifyApiKey(env: AuthEnv, apiKey: string): Promise<Principal | null> {
+  const keys = parseJsonVar<Record<string, ApiKeyEntry>>(env.API_KEYS, 'API_KEYS') || {};
+  const digest = await sha256(apiKey);
+
+  let found: ApiKeyEntry | null = null;
+  for (const [key, entry] of Object.entries(keys)) {
+    // Keep comparing after a match so every key costs the same
+    if (crypto.subtle.timingSafeEqual(digest, await sha256(key)) && !found) found = entry;
+  }
+
+  if (!found || typeof found.userId !== 'string' || !found.userId) return null;
+  return { userId: found.userId, role: parseRole(found.role), method: 'apiKey', expiresAt: null };
+}
+
+/**
+ * Verifies an RS256 JWT against the identity provider's JWKS
+ *
+ * The user id is the `sub` claim; the `admin` and `expert` roles come from a
+ * `role` claim or a `roles` array (admin wins when both are listed).
+ *
+ * @param env - Auth configuration with `JWT_JWKS_URL`
+ * @param jwt - Compact JWT
+ * @returns The token's principal, or null if it fails any check
+ */
+async function verifyJwt(env: AuthEnv, jwt: string): Promise<Principal | null> {
+  try {
+    const [headerPart, payloadPart, signaturePart] = jwt.split('.');
+    const decoder = new TextDecoder();
+    const header = JSON.parse(decoder.decode(base64UrlDecode(headerPart)));
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(payloadPart)));
+    if (header.alg !== 'RS256') return null;
+
+    const keys = await fetchJwks(env.JWT_JWKS_URL!);
+    const jwk = keys.find(k => (k as any).kid === header.kid) || (keys.length === 1 && !header.kid ? keys[0] : null);
+    if (!jwk) return null;
+
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64UrlDecode(signaturePart), encoder.encode(`${headerPart}.${payloadPart}`));
+    if (!valid) return null;
+
+    const now = Date.now() / 1000;
+    if (typeof claims.exp !== 'number' || claims.exp + JWT_LEEWAY_SECONDS <= now) return null;
+    if (typeof claims.nbf === 'number' && claims.nbf - JWT_LEEWAY_SECONDS > now) return null;
+    if (env.JWT_ISSUER && claims.iss !== env.JWT_ISSUER) return null;
+    if (env.JWT_AUDIENCE && !(Array.isArray(claims.aud) ? claims.aud : [claims.aud]).includes(env.JWT_AUDIENCE)) return null;
+    if (typeof claims.sub !== 'string' || !claims.sub) return null;
+
+    const roles: unknown[] = [claims.role, ...(Array.isArray(claims.roles) ? claims.roles : [])];
+    const role = roles.includes('admin') ? 'admin' : roles.includes('expert') ? 'expert' : 'user';
+    return { userId: claims.sub, role, method: 'jwt', expiresAt: (claims.exp + JWT_LEEWAY_SECONDS) * 1000 };
+  } catch (error: any) {
+    console.warn('JWT verification failed:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Fetches the identity provider's signing keys, reusing them for `JWKS_CACHE_MS`
+ *
+ * @param url - JWKS endpoint
+ * @returns Public keys
+ */
+async function fetchJwks(url: string): Promise<JsonWebKey[]> {
+  const cached = jwksCache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_CACHE_MS) return cached.keys;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`JWKS fetch failed with ${response.status}`);
+  }
+  const { keys } = await response.json() as { keys: JsonWebKey[] };
+  jwksCache.set(url, { keys: keys || [], fetchedAt: Date.now() });
+  return keys || [];
+}
+
+/** Reads a configured or signed role; anything unknown is a plain user */
+function parseRole(value: unknown): Role {
+  return value === 'admin' || value === 'expert' ? value : 'user';
+}
+
+/** Signs a JSON payload as `<payload>.<signature>` */
+async function signPayload(secret: string, payload: object): Promise<string> {
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/** Checks the signature and expiry of a signed payload; null if either fails or it is malformed */
+async function verifyPayload<T extends { exp: number }>(secret: string, token: string): Promise<T | null> {
+  const [body, signature, extra] = token.split('.');
+  if (!body || !signature || extra !== undefined) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), base64UrlDecode(signature), encoder.encode(body));
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as T;
+    if (typeof payload.exp !== 'number' || payload.exp <= Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/** Imports `AUTH_SECRET` as an HMAC-SHA256 key */
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/** SHA-256 digest of a string */
+async function sha256(text: string): Promise<ArrayBuffer> {
+  return await crypto.subtle.digest('SHA-256', encoder.encode(text));
+}
+
+/** Base64url without padding, as used in tokens and JWTs */
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Inverse of `base64UrlEncode`; throws on invalid input */
+function base64UrlDecode(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - text.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
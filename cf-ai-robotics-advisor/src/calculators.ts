@@ -0,0 +1,479 @@
+/**
+ * Calculators - Deterministic Engineering Checks the Model Can Call
+ *
+ * The model does mental math poorly, so the numbers behind a diagnosis come from
+ * TypeScript instead: a PID step-response analysis (overshoot, settling, damping,
+ * oscillation period and a gain margin estimate), a servo torque vs. load check,
+ * battery runtime and C-rating checks, and a wire voltage-drop check. They are
+ * offered to the model as tools; each call and its result is stored on the reply
+ * and shown under it.
+ *
+ * @module calculators
+ */
+
+import { AiMessage, LlmProvider, ModelPurpose, ToolCall, ToolDefinition } from './providers';
+
+/**
+ * Names of the calculators
+ */
+export type CalculatorName = 'pid_step_response' | 'servo_torque_check' | 'battery_check' | 'voltage_drop';
+
+/**
+ * One calculator call made while writing a reply, as stored on the assistant message
+ */
+export interface ToolRun {
+  /** Calculator that was called */
+  name: string;
+  /** Arguments the model passed */
+  arguments: Record<string, unknown>;
+  /** Calculator output, null when the call failed */
+  result: Record<string, unknown> | null;
+  /** Why the call failed (missing or invalid arguments, unknown calculator), null on success */
+  error: string | null;
+}
+
+/**
+ * A calculator with its tool definition
+ */
+interface Calculator {
+  definition: ToolDefinition;
+  /** Topics that make the calculator worth offering */
+  pattern: RegExp;
+  /** Computes the result; throws with a message the model can act on when arguments are invalid */
+  run(args: Record<string, unknown>): Record<string, unknown>;
+}
+
+/** Most rounds of tool calls before the model must answer with what it has */
+export const MAX_TOOL_ROUNDS = 3;
+
+/** Gravitational acceleration, m/s² */
+const G = 9.80665;
+
+/** Resistivity of copper at 20 °C, Ω·m */
+const COPPER_RESISTIVITY = 1.724e-8;
+
+/** Band around the final value a step response must stay within to count as settled */
+const SETTLING_BAND = 0.02;
+
+/** Largest fraction of a servo's stall torque it should hold continuously */
+const SERVO_CONTINUOUS_FRACTION = 0.5;
+
+/** Steady-state error, as a fraction of the step, worth reporting */
+const STEADY_STATE_TOLERANCE = 0.05;
+
+/**
+ * Reads a numeric argument
+ *
+ * @param args - Call arguments
+ * @param key - Argument name
+ * @param options - Whether it is required and its lower bound (exclusive unless `inclusive`)
+ * @returns The value, or undefined when optional and absent
+ */
+function readNumber(args: Record<string, unknown>, key: string, options: { required?: boolean; min?: number; inclusive?: boolean } = {}): number | undefined {
+  const raw = args[key];
+  if (raw === undefined || raw === null || raw === '') {
+    if (options.required) throw new Error(`${key} is required`);
+    return undefined;
+  }
+  const value = typeof raw === 'string' ? Number(raw) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${key} must be a number`);
+  }
+  const min = options.min ?? 0;
+  if (options.inclusive ? value < min : value <= min) {
+    throw new Error(`${key} must be ${options.inclusive ? 'at least' : 'greater than'} ${min}`);
+  }
+  return value;
+}
+
+/**
+ * Reads an array of numbers
+ */
+function readNumbers(args: Record<string, unknown>, key: string): number[] {
+  const raw = args[key];
+  if (!Array.isArray(raw) || raw.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+    throw new Error(`${key} must be an array of numbers`);
+  }
+  return raw;
+}
+
+/**
+ * Rounds to four significant digits
+ */
+function round(value: number): number {
+  return Number(value.toPrecision(4));
+}
+
+/**
+ * Analyzes a closed-loop step response
+ */
+function pidStepResponse(args: Record<string, unknown>): Record<string, unknown> {
+  const times = readNumbers(args, 'times');
+  const values = readNumbers(args, 'values');
+  const setpoint = readNumber(args, 'setpoint', { required: true, min: -Infinity })!;
+  const kp = readNumber(args, 'kp');
+  if (times.length !== values.length) throw new Error('times and values must have the same length');
+  if (times.length < 5) throw new Error('At least 5 samples are needed');
+  if (times.some((t, i) => i && t <= times[i - 1])) throw new Error('times must be increasing');
+
+  const initial = readNumber(args, 'initial', { min: -Infinity }) ?? values[0];
+  const step = setpoint - initial;
+  if (!step) throw new Error('setpoint must differ from the initial value');
+
+  // Work on the response normalized so the step goes from 0 to 1
+  const y = values.map(v => (v - initial) / step);
+  const tail = y.slice(-Math.max(1, Math.floor(y.length / 10)));
+  const final = tail.reduce((sum, v) => sum + v, 0) / tail.length;
+  const crossing = (level: number) => times[y.findIndex(v => v >= level)] ?? null;
+  const rise10 = crossing(0.1);
+  const rise90 = crossing(0.9);
+  const peak = Math.max(...y);
+  const overshoot = Math.max(0, peak - 1);
+
+  const lastOutside = y.map((v, i) => (Math.abs(v - final) > SETTLING_BAND ? i : -1)).reduce((a, b) => Math.max(a, b), -1);
+  const settled = lastOutside < y.length - 1;
+  const settlingTime = !settled ? null : lastOutside < 0 ? times[0] : times[lastOutside + 1];
+
+  // Peaks of the deviation from the final value give the period and the decay per cycle
+  const peaks: { t: number; d: number }[] = [];
+  for (let i = 1; i < y.length - 1; i++) {
+    const d = y[i] - final;
+    if (d > SETTLING_BAND && d >= y[i - 1] - final && d > y[i + 1] - final) peaks.push({ t: times[i], d });
+  }
+  const period = peaks.length >= 2 ? (peaks[peaks.length - 1].t - peaks[0].t) / (peaks.length - 1) : null;
+  const decayRatio = peaks.length >= 2 ? Math.pow(peaks[peaks.length - 1].d / peaks[0].d, 1 / (peaks.length - 1)) : null;
+
+  let dampingRatio: number | null = null;
+  if (decayRatio !== null && decayRatio < 1) {
+    const decrement = -Math.log(decayRatio);
+    dampingRatio = decrement / Math.sqrt(4 * Math.PI ** 2 + decrement ** 2);
+  } else if (decayRatio !== null) {
+    dampingRatio = 0;
+  } else if (overshoot > 0) {
+    const log = Math.log(overshoot);
+    dampingRatio = -log / Math.sqrt(Math.PI ** 2 + log ** 2);
+  }
+
+  // Ziegler-Nichols quarter-amplitude decay sits at half the ultimate gain; sustained oscillation at the ultimate gain
+  const gainMargin = decayRatio === null ? null : decayRatio >= 1 ? 1 : 1 / Math.max(0.1, 1 + Math.log(decayRatio) / Math.log(16));
+  const ultimateGain = gainMargin !== null && kp !== undefined ? kp * gainMargin : null;
+
+  const verdict = decayRatio !== null && decayRatio > 1.05 ? 'unstable: the oscillation grows'
+    : decayRatio !== null && decayRatio >= 0.9 ? 'sustained oscillation: at the edge of stability'
+    : overshoot > 0.2 ? 'underdamped: too much overshoot'
+    : !settled ? 'not settled within the samples'
+    : Math.abs(final - 1) > STEADY_STATE_TOLERANCE ? 'steady-state error: the output settles away from the setpoint'
+    : 'well damped';
+
+  return {
+    finalValue: round(initial + final * step),
+    steadyStateError: round(setpoint - (initial + final * step)),
+    overshootPercent: round(overshoot * 100),
+    riseTime: rise10 !== null && rise90 !== null ? round(rise90 - rise10) : null,
+    settlingTime: settlingTime === null ? null : round(settlingTime - times[0]),
+    oscillationPeriod: period === null ? null : round(period),
+    oscillationFrequencyHz: period ? round(1 / period) : null,
+    decayRatio: decayRatio === null ? null : round(decayRatio),
+    dampingRatio: dampingRatio === null ? null : round(dampingRatio),
+    gainMarginEstimate: gainMargin === null ? null : round(gainMargin),
+    gainMarginDb: gainMargin === null ? null : round(20 * Math.log10(gainMargin)),
+    ultimateGainEstimate: ultimateGain === null ? null : round(ultimateGain),
+    zieglerNicholsPid: ultimateGain !== null && period
+      ? { kp: round(0.6 * ultimateGain), ki: round((1.2 * ultimateGain) / period), kd: round(0.075 * ultimateGain * period) }
+      : null,
+    verdict,
+    note: 'The gain margin is a rough estimate assuming one dominant oscillating mode; confirm it on the robot.'
+  };
+}
+
+/**
+ * Compares the torque a servo must hold against its rating
+ */
+function servoTorqueCheck(args: Record<string, unknown>): Record<string, unknown> {
+  const loadKg = readNumber(args, 'loadKg', { required: true, inclusive: true })!;
+  const armLengthCm = readNumber(args, 'armLengthCm', { required: true })!;
+  const armMassKg = readNumber(args, 'armMassKg', { inclusive: true }) ?? 0;
+  const ratedKgCm = readNumber(args, 'servoTorqueKgCm');
+  const ratedNm = readNumber(args, 'servoTorqueNm');
+  if (ratedKgCm === undefined && ratedNm === undefined) throw new Error('servoTorqueKgCm or servoTorqueNm is required');
+
+  // Worst case is the arm held horizontal; the arm's own mass acts at its middle
+  const requiredKgCm = loadKg * armLengthCm + (armMassKg * armLengthCm) / 2;
+  const rated = ratedKgCm ?? (ratedNm! * 100) / G;
+  const utilization = requiredKgCm / rated;
+
+  return {
+    requiredTorqueKgCm: round(requiredKgCm),
+    requiredTorqueNm: round((requiredKgCm * G) / 100),
+    ratedTorqueKgCm: round(rated),
+    utilizationPercent: round(utilization * 100),
+    recommendedMinTorqueKgCm: round(requiredKgCm / SERVO_CONTINUOUS_FRACTION),
+    verdict: utilization > 1 ? 'insufficient: the servo cannot hold the load horizontal'
+      : utilization > 0.8 ? 'overloaded: it will stall or overheat under sustained load'
+      : utilization > SERVO_CONTINUOUS_FRACTION ? 'marginal: above half the stall torque, expect heat and jitter'
+      : 'ok'
+  };
+}
+
+/**
+ * Estimates runtime and checks currents against the pack's C-rating
+ */
+function batteryCheck(args: Record<string, unknown>): Record<string, unknown> {
+  const capacityMah = readNumber(args, 'capacityMah', { required: true })!;
+  const averageCurrentA = readNumber(args, 'averageCurrentA', { required: true })!;
+  const peakCurrentA = readNumber(args, 'peakCurrentA') ?? averageCurrentA;
+  const cRating = readNumber(args, 'cRating');
+  const voltage = readNumber(args, 'nominalVoltage');
+  const usableFraction = readNumber(args, 'usableFraction') ?? 0.8;
+  if (usableFraction > 1) throw new Error('usableFraction must be at most 1');
+
+  const capacityAh = capacityMah / 1000;
+  const maxContinuousA = cRating === undefined ? null : cRating * capacityAh;
+  const peakUtilization = maxContinuousA === null ? null : peakCurrentA / maxContinuousA;
+
+  return {
+    runtimeMinutes: round(((capacityAh * usableFraction) / averageCurrentA) * 60),
+    averageCRate: round(averageCurrentA / capacityAh),
+    peakCRate: round(peakCurrentA / capacityAh),
+    maxContinuousCurrentA: maxContinuousA === null ? null : round(maxContinuousA),
+    peakUtilizationPercent: peakUtilization === null ? null : round(peakUtilization * 100),
+    energyWh: voltage === undefined ? null : round(capacityAh * voltage),
+    verdict: peakUtilization === null ? 'no C-rating given; runtime only'
+      : peakUtilization > 1 ? 'over the C-rating: expect voltage sag, resets and a damaged pack'
+      : peakUtilization > 0.8 ? 'near the C-rating: expect voltage sag at peaks'
+      : 'ok'
+  };
+}
+
+/**
+ * Diameter of an AWG wire size, mm
+ */
+function awgDiameterMm(awg: number): number {
+  return 0.127 * Math.pow(92, (36 - awg) / 39);
+}
+
+/**
+ * Checks the voltage lost in a copper wire run
+ */
+function voltageDrop(args: Record<string, unknown>): Record<string, unknown> {
+  const currentA = readNumber(args, 'currentA', { required: true })!;
+  const lengthM = readNumber(args, 'lengthM', { required: true })!;
+  const awg = readNumber(args, 'awg', { min: -3, inclusive: true });
+  const areaMm2 = readNumber(args, 'areaMm2');
+  const supplyVoltage = readNumber(args, 'supplyVoltage');
+  const maxDropPercent = readNumber(args, 'maxDropPercent') ?? 3;
+  const roundTrip = args.roundTrip !== false;
+  if (awg === undefined && areaMm2 === undefined) throw new Error('awg or areaMm2 is required');
+
+  const area = areaMm2 ?? Math.PI * (awgDiameterMm(awg!) / 2) ** 2;
+  const conductorM = roundTrip ? 2 * lengthM : lengthM;
+  const resistance = (COPPER_RESISTIVITY * conductorM) / (area * 1e-6);
+  const drop = currentA * resistance;
+  const dropPercent = supplyVoltage === undefined ? null : (drop / supplyVoltage) * 100;
+
+  // Thinnest standard gauge that keeps the drop within the limit
+  let recommendedAwg: number | null = null;
+  if (supplyVoltage !== undefined) {
+    for (let gauge = 30; gauge >= 0; gauge--) {
+      const r = (COPPER_RESISTIVITY * conductorM) / (Math.PI * (awgDiameterMm(gauge) / 2) ** 2 * 1e-6);
+      if ((currentA * r) / supplyVoltage * 100 <= maxDropPercent) {
+        recommendedAwg = gauge;
+        break;
+      }
+    }
+  }
+
+  return {
+    resistanceOhms: round(resistance),
+    dropVolts: round(drop),
+    dropPercent: dropPercent === null ? null : round(dropPercent),
+    voltageAtLoad: supplyVoltage === undefined ? null : round(supplyVoltage - drop),
+    powerLossW: round(currentA * currentA * resistance),
+    recommendedAwg,
+    verdict: dropPercent === null ? 'no supply voltage given; drop in volts only'
+      : dropPercent > maxDropPercent ? `too much drop: over ${maxDropPercent}% of the supply`
+      : 'ok'
+  };
+}
+
+const CALCULATORS: Record<CalculatorName, Calculator> = {
+  pid_step_response: {
+    definition: {
+      name: 'pid_step_response',
+      description: 'Analyzes a closed-loop step response (e.g. from a serial log): overshoot, rise and settling time, steady-state error, oscillation period, damping ratio and a rough gain margin; with the current kp also the ultimate gain and Ziegler-Nichols PID gains.',
+      parameters: {
+        type: 'object',
+        properties: {
+          times: { type: 'array', items: { type: 'number' }, description: 'Sample times in seconds, increasing' },
+          values: { type: 'array', items: { type: 'number' }, description: 'Measured output at each time' },
+          setpoint: { type: 'number', description: 'Commanded value after the step' },
+          initial: { type: 'number', description: 'Value before the step (defaults to the first sample)' },
+          kp: { type: 'number', description: 'Current proportional gain, if known' }
+        },
+        required: ['times', 'values', 'setpoint']
+      }
+    },
+    pattern: /\b(pid|kp|ki|kd|gains?|overshoot\w*|oscillat\w*|step response|settling|setpoint|tun(e|ed|ing))\b/i,
+    run: pidStepResponse
+  },
+  servo_torque_check: {
+    definition: {
+      name: 'servo_torque_check',
+      description: 'Checks whether a servo can hold a load on an arm: required torque with the arm horizontal against the rated stall torque, utilization and the minimum torque to buy.',
+      parameters: {
+        type: 'object',
+        properties: {
+          loadKg: { type: 'number', description: 'Payload at the end of the arm, kg' },
+          armLengthCm: { type: 'number', description: 'Distance from the servo axis to the payload, cm' },
+          armMassKg: { type: 'number', description: 'Mass of the arm itself, kg' },
+          servoTorqueKgCm: { type: 'number', description: 'Rated stall torque, kg·cm' },
+          servoTorqueNm: { type: 'number', description: 'Rated stall torque, N·m (if not given in kg·cm)' }
+        },
+        required: ['loadKg', 'armLengthCm']
+      }
+    },
+    pattern: /\b(servos?|torque|stall\w*|kg ?[·.*]?cm|n ?[·.*]?m|payload|gripper|arm|joint|lift\w*)\b/i,
+    run: servoTorqueCheck
+  },
+  battery_check: {
+    definition: {
+      name: 'battery_check',
+      description: 'Estimates battery runtime from capacity and average current, and checks peak current against the C-rating.',
+      parameters: {
+        type: 'object',
+        properties: {
+          capacityMah: { type: 'number', description: 'Pack capacity, mAh' },
+          averageCurrentA: { type: 'number', description: 'Average current draw, A' },
+          peakCurrentA: { type: 'number', description: 'Peak current draw (e.g. motor stall or acceleration), A' },
+          cRating: { type: 'number', description: 'Continuous discharge rating, C' },
+          nominalVoltage: { type: 'number', description: 'Pack nominal voltage, V' },
+          usableFraction: { type: 'number', description: 'Fraction of capacity used before cutoff (default 0.8)' }
+        },
+        required: ['capacityMah', 'averageCurrentA']
+      }
+    },
+    pattern: /\b(batter(y|ies)|lipo|li-?ion|lifepo4|nimh|runtime|run time|c[- ]?rating|discharge|cells?)\b|\d\s*m?ah\b/i,
+    run: batteryCheck
+  },
+  voltage_drop: {
+    definition: {
+      name: 'voltage_drop',
+      description: "Applies Ohm's law to a copper wire run: resistance, voltage drop, voltage left at the load, power lost, and the thinnest AWG gauge that keeps the drop within the limit.",
+      parameters: {
+        type: 'object',
+        properties: {
+          currentA: { type: 'number', description: 'Current through the wire, A' },
+          lengthM: { type: 'number', description: 'One-way length of the run, m' },
+          awg: { type: 'number', description: 'Wire gauge, AWG' },
+          areaMm2: { type: 'number', description: 'Conductor cross-section, mm² (if the gauge is metric)' },
+          supplyVoltage: { type: 'number', description: 'Voltage at the source, V' },
+          maxDropPercent: { type: 'number', description: 'Acceptable drop, % of supply (default 3)' },
+          roundTrip: { type: 'boolean', description: 'Count the return wire too (default true)' }
+        },
+        required: ['currentA', 'lengthM']
+      }
+    },
+    pattern: /\b(awg|gauge|wires?|wiring|cables?|voltage drop|ohms?|resistance|brown-?outs?|sag\w*|harness)\b/i,
+    run: voltageDrop
+  }
+};
+
+export const CALCULATOR_NAMES = Object.keys(CALCULATORS) as CalculatorName[];
+
+/**
+ * Picks the calculators worth offering for a conversation: those whose topic comes up,
+ * provided there are numbers to calculate with
+ *
+ * @param text - Latest message and known facts
+ * @returns Calculator names, in definition order
+ */
+export function selectCalculators(text: string): CalculatorName[] {
+  if (!/\d/.test(text)) return [];
+  return CALCULATOR_NAMES.filter(name => CALCULATORS[name].pattern.test(text));
+}
+
+/**
+ * Runs one calculator call; failures are returned rather than thrown so the model can fix its arguments
+ *
+ * @param call - Name and arguments from the model
+ * @returns The stored record of the call
+ */
+export function runCalculator(call: Pick<ToolCall, 'name' | 'arguments'>): ToolRun {
+  const calculator = CALCULATORS[call.name as CalculatorName];
+  if (!calculator) {
+    return { name: call.name, arguments: call.arguments, result: null, error: `Unknown calculator: ${call.name}` };
+  }
+
+  try {
+    return { name: call.name, arguments: call.arguments, result: calculator.run(call.arguments), error: null };
+  } catch (error: any) {
+    return { name: call.name, arguments: call.arguments, result: null, error: error.message };
+  }
+}
+
+/**
+ * Tells the model which calculators it has and when to use them
+ *
+ * @param names - Calculators on offer
+ * @returns Prompt section, or an empty string when none are offered
+ */
+export function formatCalculatorPrompt(names: CalculatorName[]): string {
+  if (!names.length) return '';
+  return `CALCULATORS: You can call these tools: ${names.join(', ')}. Whenever your answer depends on a number that can be computed from values the user gave (gains, torque, runtime, current, voltage drop), call the matching tool instead of doing the math yourself, and quote its result. If a required input is missing, ask the user for it rather than guessing.`;
+}
+
+/**
+ * Formats the calculations of an earlier reply for the prompt history
+ *
+ * @param runs - Stored calls
+ * @returns One line per call with its result or error
+ */
+export function formatToolRuns(runs: ToolRun[]): string {
+  const lines = runs.map(run => `- ${run.name}(${JSON.stringify(run.arguments)}) → ${run.error ? `error: ${run.error}` : JSON.stringify(run.result)}`);
+  return `Calculator results:\n${lines.join('\n')}`;
+}
+
+/**
+ * Writes a reply with the calculators on offer, running the calls the model makes
+ * and sending back their results until it answers in text
+ *
+ * @param provider - Model provider
+ * @param purpose - Stage the reply is for
+ * @param messages - Prompt and conversation
+ * @param names - Calculators on offer
+ * @param onRun - Called after each calculator call, e.g. to show it while streaming
+ * @returns The reply and every call made, in order
+ */
+export async function completeWithCalculators(
+  provider: LlmProvider,
+  purpose: ModelPurpose,
+  messages: AiMessage[],
+  names: CalculatorName[],
+  onRun?: (run: ToolRun) => Promise<void>
+): Promise<{ text: string; toolRuns: ToolRun[] }> {
+  const tools = names.map(name => CALCULATORS[name].definition);
+  const conversation = [...messages];
+  const toolRuns: ToolRun[] = [];
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const { text, toolCalls } = await provider.completeWithTools({ purpose, messages: conversation, tools });
+    if (!toolCalls.length) {
+      return { text, toolRuns };
+    }
+
+    conversation.push({
+      role: 'assistant',
+      content: text,
+      tool_calls: toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.arguments) } }))
+    });
+    for (const call of toolCalls) {
+      const run = runCalculator(call);
+      toolRuns.push(run);
+      conversation.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(run.error ? { error: run.error } : run.result) });
+      if (onRun) await onRun(run);
+    }
+  }
+
+  // Out of rounds: answer with the results gathered so far
+  return { text: await provider.complete({ purpose, messages: conversation }), toolRuns };
+}
@@ -0,0 +1,205 @@
+/**
+ * Case File - Structured Facts Extracted Per Session
+ *
+ * Keeps the facts a troubleshooting session depends on (robot, platform, symptoms,
+ * environment, attempted fixes, suspected subsystems) in a typed record, so they
+ * survive long after the raw messages fall out of the prompt window.
+ *
+ * @module caseFile
+ */
+
+import { LlmProvider } from './providers';
+
+/**
+ * Subsystems the diagnostic prompt asks the advisor to consider
+ */
+export type Subsystem = 'mechanical' | 'electrical' | 'control' | 'software';
+
+/**
+ * Structured summary of everything known about the user's problem
+ */
+export interface CaseFile {
+  /** Kind of robot (e.g. "differential-drive line follower") */
+  robotType: string | null;
+  /** Controller board, firmware or software stack */
+  platform: string | null;
+  /** Observed problems, in the order they were reported */
+  symptoms: string[];
+  /** Operating conditions: surface, load, temperature, power source */
+  environment: string | null;
+  /** Fixes or checks the user has already tried */
+  attemptedFixes: string[];
+  /** Subsystems currently suspected of causing the problem */
+  suspectedSubsystems: Subsystem[];
+  /** When the case file was last updated (ms since epoch) */
+  updatedAt: number | null;
+}
+
+/** Upper bound on list fields so the case file stays prompt-sized */
+const MAX_LIST_ENTRIES = 10;
+
+const SUBSYSTEMS: Subsystem[] = ['mechanical', 'electrical', 'control', 'software'];
+
+/**
+ * Creates a case file with nothing known yet
+ *
+ * @returns Empty case file
+ */
+export function emptyCaseFile(): CaseFile {
+  return {
+    robotType: null,
+    platform: null,
+    symptoms: [],
+    environment: null,
+    attemptedFixes: [],
+    suspectedSubsystems: [],
+    updatedAt: null
+  };
+}
+
+/**
+ * Updates the case file from the latest exchange using a structured extraction call
+ *
+ * The model returns only new or changed facts; they are merged into the existing
+ * case file so earlier facts are never dropped. If the call fails or returns
+ * unusable output, the current case file is returned unchanged.
+ *
+ * @param provider - Model provider used for extraction
+ * @param current - Case file before this turn
+ * @param userMessage - Latest user message
+ * @param assistantMessage - Advisor reply to that message
+ * @returns Updated case file
+ */
+export async function extractCaseFile(
+  provider: LlmProvider,
+  current: CaseFile,
+  userMessage: string,
+  assistantMessage: string
+): Promise<CaseFile> {
+  try {
+    const raw = await provider.complete({
+      purpose: 'extraction',
+      messages: [
+        {
+          role: 'system',
+          content: `You maintain a structured case file for a robotics troubleshooting session.
+Given the current case file and the latest exchange, return the facts that are new or changed as a JSON object with these fields:
+- robotType: string or null (kind of robot)
+- platform: string or null (controller board, firmware, software stack)
+- symptoms: string[] (observed problems)
+- environment: string or null (operating conditions: surface, load, temperature, power source)
+- attemptedFixes: string[] (things the user already tried)
+- suspectedSubsystems: subset of ["mechanical", "electrical", "control", "software"]
+
+Only record facts the user stated or the conversation clearly established. Keep each entry short.
+Respond with only the JSON object, no prose.`
+        },
+        {
+          role: 'user',
+          content: `Current case file:\n${JSON.stringify(current)}\n\nUSER: ${userMessage}\nASSISTANT: ${assistantMessage}`
+        }
+      ]
+    });
+
+    const update = parseCaseFileUpdate(raw);
+    if (!update) {
+      console.warn('Case file extraction returned unparseable output');
+      return current;
+    }
+
+    return mergeCaseFile(current, update);
+  } catch (error: any) {
+    console.warn('Case file extraction failed:', error.message);
+    return current;
+  }
+}
+
+/**
+ * Merges extracted facts into a case file
+ *
+ * Scalar fields are replaced when the update has a value; list fields are
+ * appended with case-insensitive de-duplication.
+ *
+ * @param current - Existing case file
+ * @param update - Newly extracted facts
+ * @returns Merged case file with a fresh `updatedAt`
+ */
+export function mergeCaseFile(current: CaseFile, update: Partial<CaseFile>): CaseFile {
+  return {
+    robotType: update.robotType || current.robotType,
+    platform: update.platform || current.platform,
+    symptoms: mergeList(current.symptoms, update.symptoms),
+    environment: update.environment || current.environment,
+    attemptedFixes: mergeList(current.attemptedFixes, update.attemptedFixes),
+    suspectedSubsystems: update.suspectedSubsystems && update.suspectedSubsystems.length
+      ? update.suspectedSubsystems
+      : current.suspectedSubsystems,
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Renders the case file as a prompt section
+ *
+ * @param caseFile - Case file to render
+ * @returns Bullet list of known facts, or an empty string if nothing is known
+ */
+export function formatCaseFile(caseFile: CaseFile): string {
+  const lines: string[] = [];
+
+  if (caseFile.robotType) lines.push(`- Robot: ${caseFile.robotType}`);
+  if (caseFile.platform) lines.push(`- Platform/controller: ${caseFile.platform}`);
+  if (caseFile.symptoms.length) lines.push(`- Symptoms: ${caseFile.symptoms.join('; ')}`);
+  if (caseFile.environment) lines.push(`- Environment: ${caseFile.environment}`);
+  if (caseFile.attemptedFixes.length) lines.push(`- Already tried: ${caseFile.attemptedFixes.join('; ')}`);
+  if (caseFile.suspectedSubsystems.length) lines.push(`- Suspected subsystems: ${caseFile.suspectedSubsystems.join(', ')}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Parses and sanitizes the extraction model's JSON output
+ *
+ * @param text - Raw model output, possibly wrapped in prose or code fences
+ * @returns Partial case file with only well-typed fields, or null
+ */
+function parseCaseFileUpdate(text: string): Partial<CaseFile> | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const data = JSON.parse(match[0]);
+    if (!data || typeof data !== 'object') return null;
+
+    return {
+      robotType: asText(data.robotType),
+      platform: asText(data.platform),
+      symptoms: asTextList(data.symptoms),
+      environment: asText(data.environment),
+      attemptedFixes: asTextList(data.attemptedFixes),
+      suspectedSubsystems: asTextList(data.suspectedSubsystems)
+        .map(s => s.toLowerCase())
+        .filter((s): s is Subsystem => SUBSYSTEMS.includes(s as Subsystem))
+    };
+  } catch {
+    return null;
+  }
+}
+
+function asText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function asTextList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(asText).filter((v): v is string => v !== null) : [];
+}
+
+function mergeList(current: string[], update: string[] | undefined): string[] {
+  const merged = [...current];
+  for (const entry of update || []) {
+    if (!merged.some(existing => existing.toLowerCase() === entry.toLowerCase())) {
+      merged.push(entry);
+    }
+  }
+  return merged.slice(-MAX_LIST_ENTRIES);
+}
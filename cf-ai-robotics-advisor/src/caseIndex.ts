@@ -0,0 +1,467 @@
+/**
+ * Case Index - Resolved Sessions Shared Across the Team
+ *
+ * `AdvisorState` instances are isolated, so a fix found in one session is
+ * invisible to the next. When a session is resolved, a summary of it (robot,
+ * symptoms, root cause and the steps that worked) is embedded and written into a
+ * single `CaseIndex` instance. Diagnostic turns look up the closest past cases and
+ * show them to both the model and the user. Admins can browse, correct, verify,
+ * hide and delete entries.
+ *
+ * @module caseIndex
+ */
+
+import { DurableObjectState } from './types';
+import { CaseFile } from './caseFile';
+import { SolutionSections } from './solution';
+import { SessionOutcome } from './verification';
+import { cosineSimilarity } from './embeddings';
+
+/**
+ * A resolved session as stored in the index
+ */
+export interface ResolvedCase {
+  /** Case identifier (the session it came from) */
+  caseId: string;
+  /** Session the case was resolved in */
+  sessionId: string;
+  /** Session title */
+  title: string;
+  /** Kind of robot */
+  robotType: string | null;
+  /** Observed problems */
+  symptoms: string[];
+  /** What turned out to be wrong */
+  rootCause: string | null;
+  /** Steps that fixed it (those the user marked done, or every step if none were marked) */
+  fix: string[];
+  /** How to keep it from coming back */
+  prevention: string | null;
+  /** Robot profile the session was attached to */
+  profileId: string | null;
+  /** Confirmed correct by an admin */
+  verified: boolean;
+  /** Excluded from lookups by an admin */
+  hidden: boolean;
+  /** Admin notes */
+  notes: string | null;
+  /** Embedder that produced the case's vector */
+  embedder: string;
+  /** When the session was resolved (ms since epoch) */
+  resolvedAt: number;
+  /** When the entry last changed (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Case fields an admin may change
+ */
+export type CaseEdit = Partial<Pick<ResolvedCase, 'title' | 'robotType' | 'symptoms' | 'rootCause' | 'fix' | 'prevention' | 'verified' | 'hidden' | 'notes'>>;
+
+/**
+ * A past case returned by a lookup
+ */
+export interface SimilarCase {
+  caseId: string;
+  title: string;
+  robotType: string | null;
+  symptoms: string[];
+  rootCause: string | null;
+  fix: string[];
+  verified: boolean;
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+/**
+ * Similar cases shown with a diagnostic reply, with a one-line summary for the user
+ */
+export interface CaseMatches {
+  /** e.g. `3 similar cases were resolved by "Retune Kd"` */
+  summary: string;
+  /** Closest first */
+  cases: SimilarCase[];
+}
+
+/**
+ * Looks up past cases similar to a query
+ */
+export type CaseFinder = (query: string) => Promise<SimilarCase[]>;
+
+/** Cases below this similarity aren't worth mentioning */
+export const MIN_CASE_SCORE = 0.3;
+
+/** Storage key prefixes */
+const CASE_PREFIX = 'case:';
+const VECTOR_PREFIX = 'vector:';
+
+/** Text fields an admin may edit */
+const EDITABLE_TEXT = ['title', 'robotType', 'rootCause', 'prevention', 'notes'] as const;
+
+/** List fields an admin may edit */
+const EDITABLE_LISTS = ['symptoms', 'fix'] as const;
+
+/**
+ * Builds an index entry from a resolved session
+ *
+ * @param sessionId - Resolved session
+ * @param title - Session title
+ * @param caseFile - Facts gathered in the session
+ * @param solution - Sections of the solution that was walked through
+ * @param outcome - Resolved outcome with the step results
+ * @param profileId - Attached robot profile, if any
+ * @param fallbackRobotType - Robot type to use when the case file has none (from the profile)
+ * @returns Case without its embedder, ready to embed
+ */
+export function buildResolvedCase(
+  sessionId: string,
+  title: string,
+  caseFile: CaseFile,
+  solution: SolutionSections,
+  outcome: SessionOutcome,
+  profileId: string | null,
+  fallbackRobotType: string | null
+): Omit<ResolvedCase, 'embedder'> {
+  const passed = outcome.steps.filter(s => s.outcome === 'pass').map(s => s.step);
+
+  return {
+    caseId: sessionId,
+    sessionId,
+    title,
+    robotType: caseFile.robotType || fallbackRobotType,
+    symptoms: caseFile.symptoms.length ? caseFile.symptoms : [title],
+    rootCause: solution.rootCause,
+    fix: passed.length ? passed : solution.steps,
+    prevention: solution.prevention,
+    profileId,
+    verified: false,
+    hidden: false,
+    notes: null,
+    resolvedAt: outcome.decidedAt,
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Text a case is embedded from: what a new session would describe, not the answer
+ *
+ * @param entry - Case to describe
+ * @returns Robot type, title and symptoms
+ */
+export function caseSearchText(entry: Pick<ResolvedCase, 'robotType' | 'title' | 'symptoms'>): string {
+  return [entry.robotType || '', entry.title, ...entry.symptoms].filter(Boolean).join('\n');
+}
+
+/**
+ * Validates an admin edit
+ *
+ * @param input - Parsed request body
+ * @returns Fields to merge, or the reasons they were rejected
+ */
+export function validateCaseEdit(input: unknown): { edit: CaseEdit; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { edit: {}, errors: ['Expected a JSON object'] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const edit: CaseEdit = {};
+  const errors: string[] = [];
+
+  for (const key of EDITABLE_TEXT) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && typeof body[key] !== 'string') {
+      errors.push(`${key} must be a string or null`);
+    } else if (key === 'title') {
+      if (!body.title || !(body.title as string).trim()) errors.push('title must be a non-empty string');
+      else edit.title = (body.title as string).trim();
+    } else {
+      edit[key] = typeof body[key] === 'string' && body[key].trim() ? body[key].trim() : null;
+    }
+  }
+
+  for (const key of EDITABLE_LISTS) {
+    if (body[key] === undefined) continue;
+    const value = body[key];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      errors.push(`${key} must be an array of strings`);
+    } else {
+      edit[key] = (value as string[]).map(item => item.trim()).filter(Boolean);
+    }
+  }
+
+  for (const key of ['verified', 'hidden'] as const) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== 'boolean') errors.push(`${key} must be a boolean`);
+    else edit[key] = body[key] as boolean;
+  }
+
+  return { edit, errors };
+}
+
+/**
+ * Summarizes similar cases for the user
+ *
+ * Cases are grouped by their first fix step; the largest group (closest case on a
+ * tie) is named in the summary.
+ *
+ * @param cases - Similar cases, closest first
+ * @returns Cases with their summary, or null if there are none
+ */
+export function describeSimilarCases(cases: SimilarCase[]): CaseMatches | null {
+  if (!cases.length) return null;
+
+  const groups = new Map<string, { fix: string; count: number }>();
+  for (const entry of cases) {
+    const fix = entry.fix[0] || entry.rootCause || 'an unrecorded fix';
+    const key = fix.toLowerCase();
+    const group = groups.get(key) || { fix, count: 0 };
+    group.count++;
+    groups.set(key, group);
+  }
+  // Map order is insertion order, so ties go to the closest case
+  const top = [...groups.values()].reduce((best, group) => (group.count > best.count ? group : best));
+
+  const summary = top.count > 1
+    ? `${top.count} similar cases were resolved by "${top.fix}"`
+    : `${cases.length} similar ${cases.length === 1 ? 'case was' : 'cases were'} resolved before; the closest by "${top.fix}"`;
+  return { summary, cases };
+}
+
+/**
+ * Renders similar cases as a prompt section
+ *
+ * @param cases - Similar cases, closest first
+ * @returns Prompt section, or an empty string if there are none
+ */
+export function formatSimilarCases(cases: SimilarCase[]): string {
+  if (!cases.length) return '';
+
+  const entries = cases.map((c, i) => {
+    const lines = [`Case ${i + 1}${c.verified ? ' (verified)' : ''}: ${c.title}${c.robotType ? ` - ${c.robotType}` : ''}`];
+    if (c.symptoms.length) lines.push(`Symptoms: ${c.symptoms.join('; ')}`);
+    if (c.rootCause) lines.push(`Root cause: ${c.rootCause}`);
+    if (c.fix.length) lines.push(`Fix that worked: ${c.fix.join('; ')}`);
+    return lines.join('\n');
+  });
+
+  return `Similar cases the team has resolved before:
+
+${entries.join('\n\n')}
+
+If one of these matches, ask the questions that would confirm or rule it out. Don't assume it's the same problem without evidence.`;
+}
+
+/**
+ * CaseIndex - Durable Object holding resolved cases and their embeddings
+ *
+ * A single instance (named `global`) holds every case. Search is a brute-force
+ * cosine scan over the stored vectors.
+ *
+ * Internal routes:
+ * - GET /cases → Every case, most recently resolved first
+ * - GET /cases/:id → One case
+ * - PUT /cases/:id → Stores a case with its embedding (replacing any earlier version)
+ * - PATCH /cases/:id → Merges an admin edit, with a new embedding if the search text changed
+ * - DELETE /cases/:id → Removes a case
+ * - POST /search → Closest visible cases for a query embedding
+ */
+export class CaseIndex {
+  state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object
+   *
+   * @param request - HTTP request from the Worker
+   * @returns Response with requested data or error
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/cases' && request.method === 'GET') {
+      return await this.listCases();
+    }
+
+    if (url.pathname === '/search' && request.method === 'POST') {
+      return await this.search(request);
+    }
+
+    const match = url.pathname.match(/^\/cases\/([^/]+)$/);
+    if (match && request.method === 'GET') {
+      return await this.getCase(decodeURIComponent(match[1]));
+    }
+
+    if (match && request.method === 'PUT') {
+      return await this.putCase(decodeURIComponent(match[1]), request);
+    }
+
+    if (match && request.method === 'PATCH') {
+      return await this.editCase(decodeURIComponent(match[1]), request);
+    }
+
+    if (match && request.method === 'DELETE') {
+      return await this.deleteCase(decodeURIComponent(match[1]));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Lists every case, including hidden ones
+   *
+   * @returns JSON `{ cases }`, most recently resolved first
+   */
+  async listCases(): Promise<Response> {
+    const entries = await this.state.storage.list({ prefix: CASE_PREFIX });
+    const cases = [...entries.values()] as ResolvedCase[];
+    cases.sort((a, b) => b.resolvedAt - a.resolvedAt);
+
+    return new Response(JSON.stringify({ cases }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Returns one case
+   *
+   * @param caseId - Case to read
+   * @returns The case, or 404
+   */
+  async getCase(caseId: string): Promise<Response> {
+    const entry = await this.state.storage.get(CASE_PREFIX + caseId);
+    if (!entry) {
+      return new Response(JSON.stringify({ error: 'Case not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(entry), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Stores a case and its embedding
+   *
+   * A session resolved again after a reset replaces its earlier case, keeping the
+   * admin's verified, hidden and notes fields.
+   *
+   * @param caseId - Case to store
+   * @param request - Request whose body holds `{ entry, embedding }`
+   * @returns The stored case
+   */
+  async putCase(caseId: string, request: Request): Promise<Response> {
+    try {
+      const { entry, embedding } = await request.json() as { entry: ResolvedCase; embedding: number[] };
+      const existing = await this.state.storage.get(CASE_PREFIX + caseId) as ResolvedCase | undefined;
+
+      const stored: ResolvedCase = existing
+        ? { ...entry, caseId, verified: existing.verified, hidden: existing.hidden, notes: existing.notes }
+        : { ...entry, caseId };
+      await this.state.storage.put(CASE_PREFIX + caseId, stored);
+      await this.state.storage.put(VECTOR_PREFIX + caseId, embedding);
+
+      return new Response(JSON.stringify(stored), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Merges an admin edit into a case
+   *
+   * @param caseId - Case to edit
+   * @param request - Request whose body holds `{ edit, embedding?, embedder? }`
+   * @returns The stored case, or 404
+   */
+  async editCase(caseId: string, request: Request): Promise<Response> {
+    try {
+      const { edit, embedding, embedder } = await request.json() as { edit: CaseEdit; embedding?: number[]; embedder?: string };
+      const existing = await this.state.storage.get(CASE_PREFIX + caseId) as ResolvedCase | undefined;
+      if (!existing) {
+        return new Response(JSON.stringify({ error: 'Case not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const stored: ResolvedCase = { ...existing, ...edit, caseId, updatedAt: Date.now() };
+      if (embedding && embedder) {
+        stored.embedder = embedder;
+        await this.state.storage.put(VECTOR_PREFIX + caseId, embedding);
+      }
+      await this.state.storage.put(CASE_PREFIX + caseId, stored);
+
+      return new Response(JSON.stringify(stored), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Removes a case and its embedding
+   *
+   * @param caseId - Case to remove
+   * @returns JSON `{ deleted }`, false if it didn't exist
+   */
+  async deleteCase(caseId: string): Promise<Response> {
+    await this.state.storage.delete(VECTOR_PREFIX + caseId);
+    const deleted = await this.state.storage.delete(CASE_PREFIX + caseId);
+    return new Response(JSON.stringify({ deleted }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Finds the visible cases most similar to a query embedding
+   *
+   * @param request - Request whose body holds `{ embedding, topK, embedder, excludeSessionId? }`
+   * @returns JSON `{ cases }`, closest first
+   */
+  async search(request: Request): Promise<Response> {
+    try {
+      const { embedding, topK, embedder, excludeSessionId } = await request.json() as {
+        embedding: number[];
+        topK: number;
+        embedder: string;
+        excludeSessionId?: string;
+      };
+      const cases = await this.state.storage.list({ prefix: CASE_PREFIX });
+      const vectors = await this.state.storage.list({ prefix: VECTOR_PREFIX });
+
+      const matches: SimilarCase[] = [];
+      for (const entry of cases.values() as IterableIterator<ResolvedCase>) {
+        // Vectors from a different embedder live in a different space
+        if (entry.hidden || entry.embedder !== embedder || entry.sessionId === excludeSessionId) continue;
+        const vector = vectors.get(VECTOR_PREFIX + entry.caseId) as number[] | undefined;
+        if (!vector) continue;
+
+        const score = cosineSimilarity(embedding, vector);
+        if (score < MIN_CASE_SCORE) continue;
+
+        matches.push({
+          caseId: entry.caseId,
+          title: entry.title,
+          robotType: entry.robotType,
+          symptoms: entry.symptoms,
+          rootCause: entry.rootCause,
+          fix: entry.fix,
+          verified: entry.verified,
+          score
+        });
+      }
+
+      matches.sort((a, b) => b.score - a.score);
+      return new Response(JSON.stringify({ cases: matches.slice(0, topK) }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+}
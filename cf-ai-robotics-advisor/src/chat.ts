@@ -0,0 +1,705 @@
+/**
+ * Chat - The Pipeline Behind `POST /api/chat`
+ *
+ * Runs a chat turn: loads the session, picks the stage with the `DiagnosisWorkflow`,
+ * retrieves manual passages and similar resolved cases, calls the model (streaming
+ * the reply as server-sent events when asked) and saves the turn. Turns sent over a
+ * session's WebSocket run through the same pipeline.
+ *
+ * @module chat
+ */
+
+import { DiagnosisWorkflow, StageTransition, promptVersion } from './workflow';
+import { Stage } from './playbook';
+import { CaseFile, emptyCaseFile, extractCaseFile } from './caseFile';
+import { AiMessage, LlmProvider, createProvider } from './providers';
+import { ChatMessage, DurableObjectStub } from './types';
+import { Passage } from './knowledge';
+import { Embedder, createEmbedder } from './embeddings';
+import { Solution, generateSolution, parseSolutionSections } from './solution';
+import { STEP_OUTCOMES, SessionOutcome, StepOutcome, Verification } from './verification';
+import { Attachment, MAX_ATTACHMENTS, processAttachment, validateAttachment } from './attachments';
+import { Principal } from './auth';
+import { CaseMatches, ResolvedCase, SimilarCase, buildResolvedCase, caseSearchText, describeSimilarCases } from './caseIndex';
+import { ConversationSummary, buildContextMessages, condenseHistory, planContext, resolveContextBudget, withAttachmentContext } from './context';
+import { GuardedReply, SafetyAssessment, SafetyReview, refuseUnsafe, reviewReply } from './safety';
+import { CalculatorName, ToolRun, completeWithCalculators } from './calculators';
+import { MAX_PROMPT_TELEMETRY } from './telemetry';
+import { DiagnosisEvent, createEventStore } from './analytics';
+import { MeteredProvider } from './rateLimit';
+import { isAdvisorPaused } from './handoff';
+import { Env, getCaseIndexStub, getKnowledgeStub, getSessionStub } from './env';
+import { titleFromMessage } from './advisorState';
+import { authorizeSession, registerSession } from './sessionRoutes';
+import { acquireChatQuota, recordUsage } from './usageRoutes';
+import { fetchProfile } from './libraryRoutes';
+import { holdForExpert } from './handoffRoutes';
+
+/**
+ * Chat request fields, from either a JSON or a multipart body
+ */
+interface ChatRequest {
+  sessionId?: unknown;
+  userMessage?: unknown;
+  stream?: unknown;
+  /** Outcome of the current fix walkthrough step, when picked explicitly */
+  stepOutcome?: unknown;
+  /** Robot profile to attach to the session */
+  profileId?: unknown;
+  /** Client's id for the turn, echoed on the `message` frame of a message held for an expert */
+  turnId?: unknown;
+  /** Uploaded files (multipart bodies only) */
+  files: File[];
+}
+
+/**
+ * Receives the events of a streamed turn as they are sent (see `streamChat`)
+ */
+type TurnListener = (event: string, data: Record<string, unknown>) => void;
+
+/**
+ * Reads a chat request body
+ * 
+ * JSON bodies carry the fields directly. `multipart/form-data` bodies carry them as
+ * form fields (`stream` as the string "true") plus any number of `attachments` files.
+ * 
+ * @param request - Incoming chat request
+ * @returns Parsed fields, or null if the body can't be read
+ */
+async function parseChatRequest(request: Request): Promise<ChatRequest | null> {
+  if ((request.headers.get('Content-Type') || '').includes('multipart/form-data')) {
+    const form = await request.formData().catch(() => null);
+    if (!form) return null;
+
+    return {
+      sessionId: form.get('sessionId'),
+      userMessage: form.get('userMessage') ?? '',
+      stream: form.get('stream') === 'true',
+      stepOutcome: form.get('stepOutcome') ?? undefined,
+      profileId: form.get('profileId') || undefined,
+      turnId: form.get('turnId') || undefined,
+      files: form.getAll('attachments').filter((value): value is File => typeof value !== 'string')
+    };
+  }
+
+  const body = await request.json().catch(() => null) as any;
+  return body && typeof body === 'object' ? { ...body, files: [] } : null;
+}
+
+/** Reference passages injected into each diagnostic or solution prompt */
+const RETRIEVAL_TOP_K = 3;
+
+/** Resolved past cases shown with each diagnostic reply */
+const SIMILAR_CASES_TOP_K = 3;
+
+/**
+ * What `AdvisorState` returns once a turn is saved
+ */
+interface SavedTurn {
+  /** Id of the assistant message */
+  messageId: number;
+  /** Messages in the session, this turn included */
+  messageCount: number;
+  title: string;
+}
+
+/**
+ * Handles chat message processing
+ * 
+ * Flow:
+ * 1. Validate input (sessionId, userMessage, stepOutcome, attachments), check the caller owns the session
+ *    and is within their request rate and token budgets (429 otherwise)
+ * 2. Retrieve session state from Durable Object (only the messages the running summary doesn't
+ *    cover, and the latest solution) and its robot profile, describe attached photos and
+ *    digest attached logs; while an expert is handling the session (see `handoff`) the message is
+ *    stored for them and 202 is returned without a reply, and otherwise closed sessions get a 409
+ * 3. Run diagnosis workflow to classify the conversation, pick the stage and system prompt
+ *    (with reference passages from the knowledge base for diagnostic and solution, and similar
+ *    resolved cases for diagnostic), and record the outcome of the current step when walking
+ *    through a fix
+ * 4. Build messages array with the recent conversation history that fits the history budget, after
+ *    folding older messages into the session's running summary
+ * 5. Call the configured model provider for a response (a validated JSON solution in the solution stage)
+ * 6. Save conversation to Durable Object and the owner's session registry
+ * 7. Return AI response with updated stage and the cited references
+ * 8. Update the case file from this exchange in the background, add the session to the
+ *    case index once it is resolved, record the turn for analytics, and charge the turn's
+ *    estimated tokens to the caller
+ * 
+ * When the body sets `stream: true` (or the client sends `Accept: text/event-stream`),
+ * steps 5-8 are handled by `streamChat` instead.
+ * 
+ * The body is JSON, or `multipart/form-data` when files are attached (see `parseChatRequest`);
+ * `userMessage` may then be empty.
+ * 
+ * @param request - Request with sessionId (from `POST /api/sessions`), userMessage, optional stream flag, optional
+ *   stepOutcome ("pass", "fail" or "skipped"), optional profileId (attaches a robot profile to the
+ *   session), optional attachments and optional turnId (echoed when the message is held for an expert)
+ * @param env - Environment bindings
+ * @param ctx - Execution context for the streaming pump
+ * @param principal - Caller, who must own the session
+ * @param onEvent - Receives the events of the turn as they are sent, for turns relayed to a session's
+ *   sockets; the turn is then always streamed
+ * @returns JSON response with AI message, its id (for feedback), stage and playbook, or an SSE stream;
+ *   202 `{ message: null, paused: true, messageId, handoff }` while the advisor is paused
+ */
+export async function handleChat(request: Request, env: Env, ctx: ExecutionContext, principal: Principal, onEvent?: TurnListener): Promise<Response> {
+  try {
+    const body = await parseChatRequest(request);
+    const { sessionId, userMessage, stream, stepOutcome, profileId: requestedProfileId, files } = body || { files: [] };
+
+    if (typeof sessionId !== 'string' || typeof userMessage !== 'string' || !sessionId || (!userMessage.trim() && !files.length)) {
+      return new Response(JSON.stringify({ error: 'sessionId and userMessage required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (stepOutcome !== undefined && !STEP_OUTCOMES.includes(stepOutcome as StepOutcome)) {
+      return new Response(JSON.stringify({ error: `stepOutcome must be one of: ${STEP_OUTCOMES.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (requestedProfileId !== undefined && (typeof requestedProfileId !== 'string' || !/^[\w-]+$/.test(requestedProfileId))) {
+      return new Response(JSON.stringify({ error: 'profileId may only contain letters, digits, _ and -' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (files.length > MAX_ATTACHMENTS) {
+      return new Response(JSON.stringify({ error: `At most ${MAX_ATTACHMENTS} attachments per message` }), {
+        status: 413,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    for (const file of files) {
+      const invalid = validateAttachment(file);
+      if (invalid) {
+        return new Response(JSON.stringify({ error: invalid.error }), {
+          status: invalid.status,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    const denied = await authorizeSession(env, principal, sessionId);
+    if (denied) {
+      return denied;
+    }
+
+    const limited = await acquireChatQuota(env, principal, sessionId);
+    if (limited) {
+      return limited;
+    }
+
+    // Retrieve session state from Durable Object
+    const doStub = getSessionStub(env, sessionId);
+
+    // Only the messages the running summary doesn't cover are loaded
+    const stateReq = new Request('http://do/context', { method: 'GET' });
+    const stateRes = await doStub.fetch(stateReq);
+    const sessionState = await stateRes.json() as any;
+
+    // While an expert is handling the session the advisor stays quiet; the message is kept for them
+    if (isAdvisorPaused(sessionState.handoff)) {
+      return await holdForExpert(doStub, sessionId, userMessage, files, body?.turnId);
+    }
+
+    // A resolved or escalated session is read-only until it is reset
+    if (sessionState.outcome) {
+      return new Response(JSON.stringify({ error: 'Session is closed; reset it to start a new diagnosis', outcome: sessionState.outcome }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const currentStage = sessionState.stage || 'initial';
+    const conversationHistory = sessionState.history || [];
+    const caseFile: CaseFile = sessionState.caseFile || emptyCaseFile();
+
+    // A profile named in the request must exist; one attached earlier may since have been deleted
+    const profileId = (requestedProfileId as string | undefined) || sessionState.profileId || null;
+    const profile = profileId ? await fetchProfile(env, profileId) : null;
+    if (requestedProfileId && !profile) {
+      return new Response(JSON.stringify({ error: 'Robot profile not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Steps of the latest solution, for the fix walkthrough
+    const latestSolution: ChatMessage | null = sessionState.latestSolution;
+    const solutionSteps = latestSolution
+      ? latestSolution.solution?.steps || parseSolutionSections(latestSolution.content).steps
+      : [];
+
+    // Model backend and per-stage parameters come from wrangler vars; every call is
+    // metered and charged to the caller's token budget once the turn is done
+    const provider = new MeteredProvider(createProvider(env));
+
+    // Describe photos and digest logs; image bytes are kept with the session
+    const attachments: Attachment[] = [];
+    for (const file of files) {
+      const { attachment, data } = await processAttachment(provider, file, userMessage);
+      if (data) {
+        const putReq = new Request(`http://do/attachments/${attachment.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': attachment.contentType },
+          body: data
+        });
+        await doStub.fetch(putReq);
+      }
+      attachments.push(attachment);
+    }
+
+    // What the model sees: the message plus what was found in its attachments
+    const modelMessage = withAttachmentContext(userMessage, attachments);
+
+    // Run diagnosis workflow to determine next stage and get system prompt
+    const embedder = createEmbedder(env);
+    const diagnosisWorkflow = new DiagnosisWorkflow(
+      provider,
+      query => retrievePassages(env, embedder, query),
+      query => findSimilarCases(env, embedder, query, sessionId)
+    );
+    const workflowResult = await diagnosisWorkflow.run({
+      sessionId,
+      userMessage: modelMessage,
+      conversationHistory,
+      currentStage,
+      caseFile,
+      profile,
+      solutionSteps,
+      verification: sessionState.verification || null,
+      stepOutcome: stepOutcome as StepOutcome | undefined,
+      telemetry: (sessionState.telemetry || []).slice(-MAX_PROMPT_TELEMETRY),
+      playbookId: sessionState.playbookId || null
+    });
+
+    const { systemPrompt, nextStage, promptVersion, playbookId, transition, references: citations, verification, safety: situation, calculators } = workflowResult;
+    const similarCases = describeSimilarCases(workflowResult.similarCases);
+
+    // Clearly dangerous requests are refused, and the session escalated, without asking the model
+    const refusal = situation.level === 'danger' ? refuseUnsafe(situation, 'user', situation, verification) : null;
+    let outcome = refusal?.outcome || workflowResult.outcome;
+
+    // Share a resolved fix with future sessions
+    if (outcome?.status === 'resolved' && latestSolution) {
+      const sections = latestSolution.solution || parseSolutionSections(latestSolution.content);
+      const entry = buildResolvedCase(
+        sessionId,
+        sessionState.title || titleFromMessage(userMessage),
+        caseFile,
+        sections,
+        outcome,
+        profileId,
+        profile?.model || null
+      );
+      ctx.waitUntil(indexResolvedCase(env, embedder, entry));
+    }
+
+    // Fold messages that no longer fit the history budget into the running summary
+    let summary: ConversationSummary | null = sessionState.summary || null;
+    const { recent, overflow } = planContext(conversationHistory, summary, resolveContextBudget(env), sessionState.historyOffset);
+    if (overflow.length) {
+      const condensed = await condenseHistory(provider, summary, overflow);
+      if (condensed) {
+        summary = condensed;
+        await doStub.fetch(new Request('http://do/summary', { method: 'PUT', body: JSON.stringify(summary) }));
+      }
+    }
+
+    // Build messages array for AI model
+    // - System prompt for the stage chosen by the workflow, with the running summary
+    // - Recent messages within the history budget, with their attachment context
+    // - Current user message
+    const messages = buildContextMessages(systemPrompt, summary, recent, modelMessage);
+
+    const wantsStream = !!onEvent || stream === true || (request.headers.get('Accept') || '').includes('text/event-stream');
+    if (wantsStream) {
+      return await streamChat(env, provider, ctx, doStub, {
+        sessionId,
+        userId: principal.userId,
+        userMessage,
+        attachments,
+        nextStage,
+        promptVersion,
+        playbookId,
+        transition,
+        citations,
+        similarCases,
+        verification,
+        outcome,
+        profileId,
+        caseFile,
+        messages,
+        situation,
+        refusal,
+        calculators,
+        onEvent
+      });
+    }
+
+    // Call the configured model for the new stage; solutions come back structured and validated, and
+    // other replies may call calculators first. The safety guardrails then add warnings to the reply, or refuse it
+    let guarded = refusal;
+    let toolRuns: ToolRun[] = [];
+    if (!guarded) {
+      let reply: string;
+      let generated: Solution | null = null;
+      if (nextStage === 'solution') {
+        ({ text: reply, solution: generated } = await generateSolution(provider, messages));
+      } else if (calculators.length) {
+        ({ text: reply, toolRuns } = await completeWithCalculators(provider, nextStage, messages, calculators));
+      } else {
+        reply = await provider.complete({ purpose: nextStage, messages });
+      }
+      guarded = reviewReply(nextStage, situation, reply, generated, verification);
+    }
+    const { text: assistantMessage, solution, safety } = guarded;
+    outcome = guarded.outcome || outcome;
+
+    // Persist conversation to Durable Object
+    const saveReq = new Request('http://do/message', {
+      method: 'POST',
+      body: JSON.stringify({
+        userMessage, assistantMessage, nextStage, promptVersion: refusal ? null : promptVersion, playbookId,
+        solution, citations, similarCases, attachments, verification, outcome, profileId, transition, safety, toolRuns
+      })
+    });
+    const saveRes = await doStub.fetch(saveReq);
+    if (!saveRes.ok) {
+      return new Response(JSON.stringify(await saveRes.json()), {
+        status: saveRes.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const saved = await saveRes.json() as SavedTurn;
+
+    await registerSession(env, principal.userId, sessionId, { title: saved.title, stage: nextStage });
+
+    // Fold new facts into the case file without delaying the reply, record the turn for
+    // analytics, then charge it
+    const event = { sessionId, userId: principal.userId, transition, turn: saved.messageCount / 2, title: saved.title, outcome };
+    ctx.waitUntil(
+      updateCaseFile(provider, doStub, caseFile, modelMessage, assistantMessage)
+        .then(updated => recordEvent(env, event, updated))
+        .finally(() => recordUsage(env, principal.userId, sessionId, provider.tokens).catch(error => console.error('Usage recording error:', error)))
+    );
+
+    return new Response(
+      JSON.stringify({
+        message: assistantMessage, messageId: saved.messageId, stage: nextStage, playbookId, transition, solution, citations, similarCases,
+        attachments, verification, outcome, profileId, safety, toolRuns, sessionId
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Chat error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Streams the assistant response to the client as server-sent events
+ * 
+ * Events written to the stream:
+ * - `token` → `{ token }` for every chunk the model produces
+ * - `tool` → `{ run }` after each calculator call the model makes
+ * - `done` → `{ message, messageId, stage, playbookId, transition, solution, citations, similarCases, attachments, verification, outcome,
+ *   profileId, safety, toolRuns, sessionId }`
+ *   once the turn has been persisted; `message` is the reply after the safety guardrails, which may add a
+ *   notice in front of the streamed text or replace it with a refusal
+ * - `error` → `{ error }` if the model fails mid-stream
+ * 
+ * Solution-stage replies are JSON that must be validated as a whole, so they are
+ * generated without token events and arrive in `done` only. So are replies in a
+ * hazardous situation, which are reviewed before anything is shown, refusals, and
+ * replies with calculators on offer, whose text only comes after the tool rounds.
+ * 
+ * The turn is saved to the Durable Object only after the model finishes. If the
+ * client disconnects first, whatever was generated so far is saved with `partial: true`.
+ * 
+ * @param env - Environment bindings
+ * @param provider - Metered model provider for this request; its tokens are charged once the case file is updated
+ * @param ctx - Execution context that keeps the pump running after the response is returned
+ * @param doStub - Session Durable Object to persist the turn into
+ * @param turn - Session id and owner, user message and attachments, stage decision with its prompt version and playbook, citations, similar cases, walkthrough
+ *   progress and outcome, robot profile id, case file, the prepared model messages, the safety assessment of the
+ *   situation, the refusal when the request itself was unsafe, the calculators on offer and an optional
+ *   listener, which also gets a `user` event (`{ userId, userMessage, attachments }`) before the first
+ * @returns SSE response whose body is fed by the model stream
+ */
+async function streamChat(
+  env: Env,
+  provider: MeteredProvider,
+  ctx: ExecutionContext,
+  doStub: DurableObjectStub,
+  turn: {
+    sessionId: string;
+    userId: string;
+    userMessage: string;
+    attachments: Attachment[];
+    nextStage: Stage;
+    promptVersion: string;
+    playbookId: string;
+    transition: StageTransition;
+    citations: Passage[];
+    similarCases: CaseMatches | null;
+    verification: Verification | null;
+    outcome: SessionOutcome | null;
+    profileId: string | null;
+    caseFile: CaseFile;
+    messages: AiMessage[];
+    situation: SafetyAssessment;
+    refusal: GuardedReply | null;
+    calculators: CalculatorName[];
+    onEvent?: TurnListener;
+  }
+): Promise<Response> {
+  const { sessionId, userId, userMessage, attachments, nextStage, promptVersion, playbookId, transition, citations, similarCases, verification, profileId, caseFile, messages, situation, refusal, calculators } = turn;
+
+  const streamTokens = nextStage !== 'solution' && situation.level === 'none' && !calculators.length;
+  const tokens = streamTokens ? await provider.stream({ purpose: nextStage, messages }) : null;
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  let clientGone = false;
+  const send = async (event: string, data: Record<string, unknown>): Promise<void> => {
+    turn.onEvent?.(event, data);
+    if (clientGone) return;
+    try {
+      await writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    } catch {
+      // Writes only fail once the client has cancelled the response body
+      clientGone = true;
+    }
+  };
+
+  const pump = async (): Promise<void> => {
+    let assistantMessage = '';
+    let solution: Solution | null = null;
+    let safety: SafetyReview | null = null;
+    let toolRuns: ToolRun[] = [];
+    let outcome = turn.outcome;
+    let failed = false;
+
+    try {
+      if (refusal) {
+        ({ text: assistantMessage, safety } = refusal);
+      } else if (nextStage === 'solution') {
+        ({ text: assistantMessage, solution } = await generateSolution(provider, messages));
+      } else if (calculators.length) {
+        ({ text: assistantMessage, toolRuns } = await completeWithCalculators(provider, nextStage, messages, calculators, run => send('tool', { run })));
+      } else if (!tokens) {
+        assistantMessage = await provider.complete({ purpose: nextStage, messages });
+      } else {
+        for await (const token of tokens) {
+          assistantMessage += token;
+          await send('token', { token });
+          if (clientGone) break;
+        }
+      }
+    } catch (error: any) {
+      console.error('Stream error:', error);
+      failed = true;
+      await send('error', { error: error.message });
+    }
+
+    // Review what was generated; a refusal replaces the streamed text when `done` arrives
+    if (!refusal && !failed && assistantMessage) {
+      const guarded = reviewReply(nextStage, situation, assistantMessage, solution, verification);
+      ({ text: assistantMessage, solution, safety } = guarded);
+      outcome = guarded.outcome || outcome;
+    }
+
+    // Whatever happens while saving, the client gets an event and the stream is closed
+    const partial = clientGone || failed;
+    let saved: SavedTurn | null = null;
+    try {
+      const saveReq = new Request('http://do/message', {
+        method: 'POST',
+        body: JSON.stringify({
+          userMessage, assistantMessage, nextStage, promptVersion: refusal ? null : promptVersion, playbookId, partial,
+          solution, citations, similarCases, attachments, verification, outcome, profileId, transition, safety, toolRuns
+        })
+      });
+      const saveRes = await doStub.fetch(saveReq);
+      if (!saveRes.ok) {
+        throw new Error((await saveRes.json() as { error: string }).error);
+      }
+      saved = await saveRes.json() as SavedTurn;
+
+      await registerSession(env, userId, sessionId, { title: saved.title, stage: nextStage });
+
+      if (!failed) {
+        await send('done', {
+          message: assistantMessage, messageId: saved.messageId, stage: nextStage, playbookId, transition, solution, citations, similarCases,
+          attachments, verification, outcome, profileId, safety, toolRuns, sessionId
+        });
+      }
+    } catch (error: any) {
+      console.error('Stream save error:', error);
+      if (!failed) await send('error', { error: error.message });
+    } finally {
+      try {
+        await writer.close();
+      } catch {
+        // Stream already errored by a client disconnect
+      }
+    }
+
+    try {
+      if (saved && assistantMessage) {
+        const updated = await updateCaseFile(provider, doStub, caseFile, withAttachmentContext(userMessage, attachments), assistantMessage);
+        await recordEvent(env, { sessionId, userId, transition, turn: saved.messageCount / 2, title: saved.title, outcome }, updated);
+      }
+    } catch (error: any) {
+      console.error('Case file update error:', error);
+    } finally {
+      await recordUsage(env, userId, sessionId, provider.tokens).catch(error => console.error('Usage recording error:', error));
+    }
+  };
+
+  turn.onEvent?.('user', { userId, userMessage, attachments });
+  ctx.waitUntil(pump());
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Extracts facts from the latest exchange and saves the merged case file
+ * 
+ * @param provider - Model provider used for extraction
+ * @param doStub - Session Durable Object
+ * @param caseFile - Case file before this turn
+ * @param userMessage - Latest user message
+ * @param assistantMessage - Advisor reply
+ * @returns Case file after this turn
+ */
+async function updateCaseFile(
+  provider: LlmProvider,
+  doStub: DurableObjectStub,
+  caseFile: CaseFile,
+  userMessage: string,
+  assistantMessage: string
+): Promise<CaseFile> {
+  const updated = await extractCaseFile(provider, caseFile, userMessage, assistantMessage);
+  if (updated === caseFile) return caseFile;
+
+  const putReq = new Request('http://do/case', { method: 'PUT', body: JSON.stringify(updated) });
+  await doStub.fetch(putReq);
+  return updated;
+}
+
+/**
+ * Writes a saved turn to the analytics events
+ * 
+ * Runs in the background after the turn; failures are logged, since the turn itself is saved.
+ * 
+ * @param env - Environment bindings
+ * @param turn - Session and owner, stage transition, turn number, title and outcome of the turn
+ * @param caseFile - Case file after the turn, for the suspected subsystems and robot type
+ */
+async function recordEvent(
+  env: Env,
+  turn: { sessionId: string; userId: string; transition: StageTransition; turn: number; title: string | null; outcome: SessionOutcome | null },
+  caseFile: CaseFile
+): Promise<void> {
+  const event: DiagnosisEvent = {
+    sessionId: turn.sessionId,
+    userId: turn.userId,
+    timestamp: Date.now(),
+    fromStage: turn.transition.from,
+    stage: turn.transition.to,
+    turn: turn.turn,
+    title: turn.title,
+    outcome: turn.outcome?.status || null,
+    subsystems: caseFile.suspectedSubsystems,
+    robotType: caseFile.robotType
+  };
+
+  try {
+    await createEventStore(env).record(event);
+  } catch (error: any) {
+    console.error('Analytics event failed:', error);
+  }
+}
+
+/**
+ * Embeds a query and returns the closest knowledge base passages
+ * 
+ * @param env - Environment bindings
+ * @param embedder - Embedder matching the one used at ingestion
+ * @param query - Text to search for
+ * @returns Up to `RETRIEVAL_TOP_K` passages, best first
+ */
+async function retrievePassages(env: Env, embedder: Embedder, query: string): Promise<Passage[]> {
+  const [embedding] = await embedder.embed([query]);
+
+  const searchReq = new Request('http://do/search', {
+    method: 'POST',
+    body: JSON.stringify({ embedding, topK: RETRIEVAL_TOP_K, embedder: embedder.name })
+  });
+  const result = await (await getKnowledgeStub(env).fetch(searchReq)).json() as any;
+
+  return result.passages || [];
+}
+
+/**
+ * Embeds a query and returns the closest resolved cases from other sessions
+ * 
+ * @param env - Environment bindings
+ * @param embedder - Embedder matching the one cases were indexed with
+ * @param query - Text to search for
+ * @param sessionId - Current session, whose own earlier case is left out
+ * @returns Up to `SIMILAR_CASES_TOP_K` visible cases, closest first
+ */
+async function findSimilarCases(env: Env, embedder: Embedder, query: string, sessionId: string): Promise<SimilarCase[]> {
+  const [embedding] = await embedder.embed([query]);
+
+  const searchReq = new Request('http://do/search', {
+    method: 'POST',
+    body: JSON.stringify({ embedding, topK: SIMILAR_CASES_TOP_K, embedder: embedder.name, excludeSessionId: sessionId })
+  });
+  const result = await (await getCaseIndexStub(env).fetch(searchReq)).json() as any;
+
+  return result.cases || [];
+}
+
+/**
+ * Embeds a resolved session and writes it into the case index
+ * 
+ * Runs in the background after the resolving turn; failures are logged, since the
+ * session itself is already closed.
+ * 
+ * @param env - Environment bindings
+ * @param embedder - Embedder used for case lookups
+ * @param entry - Case built from the resolved session
+ */
+async function indexResolvedCase(env: Env, embedder: Embedder, entry: Omit<ResolvedCase, 'embedder'>): Promise<void> {
+  try {
+    const [embedding] = await embedder.embed([caseSearchText(entry)]);
+    await getCaseIndexStub(env).fetch(new Request(`http://do/cases/${encodeURIComponent(entry.caseId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ entry: { ...entry, embedder: embedder.name }, embedding })
+    }));
+  } catch (error: any) {
+    console.error('Case indexing failed:', error);
+  }
+}
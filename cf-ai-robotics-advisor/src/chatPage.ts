@@ -0,0 +1,1526 @@
+/**
+ * Chat Page - The Troubleshooting UI Served at `/`
+ *
+ * One self-contained HTML page with its styles and script inline.
+ *
+ * @module chatPage
+ */
+
+import { SESSION_DELETED_CLOSE_CODE } from './realtime';
+
+/**
+ * Serves the chat UI; the page signs in as a guest unless it already holds a token
+ */
+export function serveUI(): Response {
+  return new Response(`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Robotics Troubleshooting Advisor</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          min-height: 100vh;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          padding: 20px;
+        }
+        .container {
+          width: 100%;
+          max-width: 960px;
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+          display: flex;
+          height: 85vh;
+          overflow: hidden;
+        }
+        .sidebar {
+          width: 240px;
+          border-right: 1px solid #eee;
+          display: flex;
+          flex-direction: column;
+          background: #fafafa;
+        }
+        .sidebar-header {
+          padding: 16px;
+          border-bottom: 1px solid #eee;
+        }
+        #newSessionBtn {
+          width: 100%;
+          padding: 10px;
+          background: #667eea;
+          color: white;
+          border: none;
+          border-radius: 8px;
+          cursor: pointer;
+          font-weight: 600;
+        }
+        #profileSelect {
+          width: 100%;
+          margin-top: 8px;
+          padding: 6px;
+          border: 1px solid #ddd;
+          border-radius: 6px;
+          font-size: 12px;
+          background: white;
+        }
+        #sessionList {
+          flex: 1;
+          overflow-y: auto;
+          list-style: none;
+        }
+        .session-item {
+          padding: 10px 16px;
+          border-bottom: 1px solid #f0f0f0;
+          cursor: pointer;
+          font-size: 13px;
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+        .session-item:hover { background: #f0f0ff; }
+        .session-item.active { background: #e6e8ff; }
+        .session-title {
+          flex: 1;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .session-item button {
+          background: none;
+          border: none;
+          cursor: pointer;
+          opacity: 0.5;
+        }
+        .session-item button:hover { opacity: 1; }
+        #usageLabel {
+          padding: 10px 16px;
+          border-top: 1px solid #eee;
+          font-size: 11px;
+          color: #888;
+        }
+        #usageLabel.low { color: #c0392b; }
+        .main {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          min-width: 0;
+        }
+        .header {
+          padding: 20px;
+          border-bottom: 1px solid #eee;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          color: white;
+        }
+        .header h1 {
+          font-size: 24px;
+          margin-bottom: 5px;
+        }
+        .header p {
+          font-size: 14px;
+          opacity: 0.9;
+        }
+        #chat {
+          flex: 1;
+          overflow-y: auto;
+          padding: 20px;
+          background: #f9f9f9;
+        }
+        .message {
+          margin-bottom: 15px;
+          animation: fadeIn 0.3s ease-in;
+        }
+        @keyframes fadeIn {
+          from { opacity: 0; transform: translateY(10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .message.user {
+          text-align: right;
+        }
+        .message.assistant {
+          text-align: left;
+        }
+        .message-content {
+          display: inline-block;
+          max-width: 85%;
+          padding: 12px 16px;
+          border-radius: 8px;
+          word-wrap: break-word;
+          line-height: 1.5;
+        }
+        .message.user .message-content {
+          background: #667eea;
+          color: white;
+          border-bottom-right-radius: 2px;
+        }
+        .message.assistant .message-content {
+          background: #e9ecef;
+          color: #333;
+          border-bottom-left-radius: 2px;
+        }
+        .message.expert .message-content {
+          background: #fff8e6;
+          color: #333;
+          border: 1px solid #f0c36d;
+          border-bottom-left-radius: 2px;
+        }
+        .message.expert .message-content::before {
+          content: '🧑‍🔧 Human expert';
+          display: block;
+          font-size: 11px;
+          font-weight: 600;
+          color: #a66b00;
+          margin-bottom: 4px;
+        }
+        #loadEarlierBtn {
+          display: block;
+          margin: 0 auto 15px auto;
+          padding: 6px 12px;
+          border: 1px solid #667eea;
+          background: white;
+          color: #667eea;
+          border-radius: 16px;
+          cursor: pointer;
+          font-size: 13px;
+        }
+        .safety-flag {
+          margin-bottom: 4px;
+          font-size: 12px;
+          font-weight: 600;
+          color: #856404;
+        }
+        .safety-flag.refused { color: #c0392b; }
+        .citations {
+          margin-top: 6px;
+          font-size: 12px;
+          color: #666;
+        }
+        .citations li {
+          list-style: none;
+          cursor: help;
+        }
+        .similar-cases {
+          margin-top: 6px;
+          font-size: 12px;
+          color: #666;
+        }
+        .similar-cases summary { cursor: pointer; }
+        .similar-cases li { margin: 4px 0 0 16px; }
+        .tool-runs {
+          margin-top: 6px;
+          font-size: 12px;
+          color: #666;
+        }
+        .tool-runs summary { cursor: pointer; }
+        .tool-runs li { margin: 4px 0 0 16px; cursor: help; }
+        .tool-runs li.failed { color: #c0392b; }
+        .tool-status {
+          margin-top: 4px;
+          font-size: 12px;
+          color: #666;
+        }
+        .feedback {
+          margin-top: 4px;
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 4px;
+          font-size: 12px;
+          color: #666;
+        }
+        .feedback button {
+          background: none;
+          border: 1px solid transparent;
+          border-radius: 6px;
+          padding: 1px 6px;
+          cursor: pointer;
+          opacity: 0.6;
+        }
+        .feedback button:hover { opacity: 1; }
+        .feedback button.active {
+          opacity: 1;
+          border-color: #667eea;
+          background: #eef0ff;
+        }
+        .feedback .solved-prompt { margin-left: 8px; }
+        .solution h4 {
+          font-size: 12px;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+          color: #555;
+          margin: 10px 0 4px;
+        }
+        .solution h4:first-child { margin-top: 0; }
+        .solution ol {
+          list-style: none;
+          padding: 0;
+        }
+        .solution ol li {
+          display: flex;
+          gap: 8px;
+          align-items: flex-start;
+          margin-bottom: 4px;
+        }
+        .solution ol li input { margin-top: 4px; }
+        .solution ol li.done span {
+          text-decoration: line-through;
+          color: #888;
+        }
+        .solution ul { padding-left: 18px; }
+        .confidence {
+          display: inline-block;
+          margin-top: 8px;
+          font-size: 11px;
+          padding: 2px 8px;
+          border-radius: 10px;
+          background: #ddd;
+        }
+        .confidence.high { background: #c3e6cb; }
+        .confidence.medium { background: #ffeeba; }
+        .confidence.low { background: #f5c6cb; }
+        .attachments {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          margin-top: 6px;
+        }
+        .message.user .attachments { justify-content: flex-end; }
+        .attachments img {
+          width: 96px;
+          height: 72px;
+          object-fit: cover;
+          border-radius: 6px;
+          border: 1px solid #ddd;
+          cursor: zoom-in;
+        }
+        .attachment-chip {
+          font-size: 12px;
+          padding: 4px 8px;
+          background: #fff;
+          border: 1px solid #ddd;
+          border-radius: 12px;
+          color: #555;
+        }
+        .attachment-chip button {
+          background: none;
+          border: none;
+          cursor: pointer;
+          margin-left: 4px;
+        }
+        #pendingAttachments {
+          padding: 0 20px;
+          background: white;
+        }
+        #attachBtn {
+          padding: 12px;
+          background: none;
+          border: 1px solid #ddd;
+          border-radius: 8px;
+          cursor: pointer;
+        }
+        .footer {
+          padding: 20px;
+          border-top: 1px solid #eee;
+          background: white;
+          display: flex;
+          gap: 10px;
+        }
+        #userInput {
+          flex: 1;
+          padding: 12px 16px;
+          border: 1px solid #ddd;
+          border-radius: 8px;
+          font-size: 14px;
+          outline: none;
+        }
+        #userInput:focus {
+          border-color: #667eea;
+        }
+        #sendBtn {
+          padding: 12px 24px;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          color: white;
+          border: none;
+          border-radius: 8px;
+          cursor: pointer;
+          font-weight: 600;
+        }
+        #sendBtn:hover {
+          transform: translateY(-2px);
+        }
+        .stage-indicator {
+          font-size: 12px;
+          color: #999;
+          padding: 0 20px 10px 20px;
+          display: flex;
+          justify-content: space-between;
+        }
+        #reportLink {
+          color: #667eea;
+          margin-right: 12px;
+        }
+        .presence {
+          font-size: 12px;
+          color: #667eea;
+          padding: 0 20px 10px 20px;
+        }
+        .step-actions {
+          display: flex;
+          gap: 8px;
+          padding: 0 20px 10px 20px;
+          flex-wrap: wrap;
+        }
+        .step-actions button {
+          padding: 6px 12px;
+          border: 1px solid #667eea;
+          background: white;
+          color: #667eea;
+          border-radius: 16px;
+          cursor: pointer;
+          font-size: 13px;
+        }
+        .step-actions button:disabled { opacity: 0.5; cursor: default; }
+        #escalateBtn { border-color: #c0392b; color: #c0392b; margin-left: auto; }
+        .outcome-banner {
+          margin: 0 20px 10px 20px;
+          padding: 10px 14px;
+          border-radius: 8px;
+          font-size: 14px;
+        }
+        .outcome-banner.resolved { background: #d4edda; color: #155724; }
+        .outcome-banner.escalate { background: #fff3cd; color: #856404; }
+        .handoff-banner {
+          display: flex;
+          gap: 10px;
+          align-items: center;
+          margin: 0 20px 10px 20px;
+          padding: 10px 14px;
+          border-radius: 8px;
+          font-size: 14px;
+          background: #fff8e6;
+          color: #856404;
+        }
+        .handoff-banner span { flex: 1; }
+        .handoff-banner button {
+          padding: 4px 10px;
+          border: 1px solid #f0c36d;
+          border-radius: 6px;
+          background: white;
+          cursor: pointer;
+        }
+        #resetBtn, #expertBtn {
+          background: none;
+          border: none;
+          color: #667eea;
+          cursor: pointer;
+          font-size: 12px;
+        }
+        .typing {
+          display: inline-block;
+          width: 20px;
+          height: 12px;
+        }
+        .typing span {
+          display: inline-block;
+          width: 4px;
+          height: 12px;
+          background: #667eea;
+          border-radius: 2px;
+          margin: 0 2px;
+          animation: typing 1.4s infinite;
+        }
+        .typing span:nth-child(2) { animation-delay: 0.2s; }
+        .typing span:nth-child(3) { animation-delay: 0.4s; }
+        @keyframes typing {
+          0%, 60%, 100% { opacity: 0.3; }
+          30% { opacity: 1; }
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="sidebar">
+          <div class="sidebar-header">
+            <button id="newSessionBtn">+ New diagnosis</button>
+            <select id="profileSelect" title="Robot this diagnosis is about; its known hardware is given to the advisor">
+              <option value="">No robot profile</option>
+            </select>
+          </div>
+          <ul id="sessionList"></ul>
+          <div id="usageLabel" title="Your remaining quota"></div>
+        </div>
+        <div class="main">
+          <div class="header">
+            <h1>🤖 Robotics Troubleshooting Advisor</h1>
+            <p>Describe your robot problem and I'll help diagnose it</p>
+          </div>
+          <div class="stage-indicator">
+            <span id="stageLabel">Stage: Initial Diagnosis</span>
+            <span>
+              <a id="reportLink" href="#" hidden title="Open a printable maintenance report for this diagnosis">Export report</a>
+              <button id="expertBtn" title="Share a read-only link to this diagnosis with a human expert, who can reply here">Ask an expert</button>
+              <button id="resetBtn" title="Clear this conversation and start over">Start over</button>
+            </span>
+          </div>
+          <div id="presenceBar" class="presence" hidden></div>
+          <div id="handoffBanner" class="handoff-banner" hidden>
+            <span id="handoffText"></span>
+            <button id="endHandoffBtn">Hand back to the advisor</button>
+          </div>
+          <div id="chat"></div>
+          <div id="pendingAttachments" class="attachments"></div>
+          <div id="stepActions" class="step-actions" hidden>
+            <button id="passBtn">✅ Done</button>
+            <button id="failBtn">❌ Didn't work</button>
+            <button id="skipBtn">⏭ Skip</button>
+            <button id="escalateBtn" title="Hand this problem off to a technician">Escalate</button>
+          </div>
+          <div id="outcomeBanner" class="outcome-banner" hidden></div>
+          <div class="footer">
+            <button id="attachBtn" title="Attach photos or logs">📎</button>
+            <input type="file" id="fileInput" multiple hidden accept="image/png,image/jpeg,image/webp,image/gif,.log,.txt,.out,.csv,.json,.yaml,.yml,.xml,.launch">
+            <input type="text" id="userInput" placeholder="E.g., My line follower oscillates...">
+            <button id="sendBtn">Send</button>
+          </div>
+        </div>
+      </div>
+
+      <script>
+        // The guest token and current session survive page reloads; sessions are created
+        // by the server when the first message is sent
+        let authToken = localStorage.getItem('advisorToken');
+        let sessionId = localStorage.getItem('advisorSessionId');
+        let isWaiting = false;
+
+        async function ensureToken() {
+          if (authToken) return;
+          const response = await fetch('/api/auth/guest', { method: 'POST' });
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || response.statusText);
+          authToken = data.token;
+          localStorage.setItem('advisorToken', authToken);
+        }
+
+        // fetch() with the guest token; an expired token is replaced once and the call retried
+        async function api(path, options = {}) {
+          await ensureToken();
+          const send = () => fetch(path, { ...options, headers: { ...(options.headers || {}), 'Authorization': 'Bearer ' + authToken } });
+          let response = await send();
+          if (response.status === 401) {
+            authToken = null;
+            localStorage.removeItem('advisorToken');
+            await ensureToken();
+            response = await send();
+          }
+          return response;
+        }
+
+        // Protected files can't be linked directly, so they are fetched and shown from a blob URL
+        async function blobUrl(path) {
+          const response = await api(path);
+          if (!response.ok) throw new Error(response.statusText);
+          return URL.createObjectURL(await response.blob());
+        }
+
+        function setSessionId(id) {
+          sessionId = id;
+          if (id) {
+            localStorage.setItem('advisorSessionId', id);
+          } else {
+            localStorage.removeItem('advisorSessionId');
+          }
+        }
+
+        const chatEl = document.getElementById('chat');
+        const inputEl = document.getElementById('userInput');
+        const sendBtn = document.getElementById('sendBtn');
+        const stageLabel = document.getElementById('stageLabel');
+        const sessionListEl = document.getElementById('sessionList');
+        const newSessionBtn = document.getElementById('newSessionBtn');
+        const resetBtn = document.getElementById('resetBtn');
+        const reportLink = document.getElementById('reportLink');
+        const stepActionsEl = document.getElementById('stepActions');
+        const passBtn = document.getElementById('passBtn');
+        const failBtn = document.getElementById('failBtn');
+        const skipBtn = document.getElementById('skipBtn');
+        const escalateBtn = document.getElementById('escalateBtn');
+        const outcomeBanner = document.getElementById('outcomeBanner');
+        const profileSelect = document.getElementById('profileSelect');
+        const usageLabel = document.getElementById('usageLabel');
+        const presenceBar = document.getElementById('presenceBar');
+        const expertBtn = document.getElementById('expertBtn');
+        const handoffBanner = document.getElementById('handoffBanner');
+        const handoffText = document.getElementById('handoffText');
+        const endHandoffBtn = document.getElementById('endHandoffBtn');
+        // Set once the session is resolved or escalated; closed sessions take no more messages
+        let closed = false;
+        // Open handoff to a human expert; while one is handling the session the advisor is paused
+        // and messages go to them, even on a closed session
+        let handoff = null;
+        const attachBtn = document.getElementById('attachBtn');
+        const fileInput = document.getElementById('fileInput');
+        const pendingEl = document.getElementById('pendingAttachments');
+        // Files chosen for the next message
+        let pendingFiles = [];
+        // Large photos are scaled down before upload to stay under the server's size limit
+        const MAX_IMAGE_SIDE = 1600;
+        const greeting = "Hi! I'm your robotics troubleshooting expert. Please describe the problem you're experiencing with your robot.";
+
+        const stageNames = { initial: 'Initial Diagnosis', diagnostic: 'Diagnostic Phase', solution: 'Solution Generation', verification: 'Fix Walkthrough' };
+        // Names of the domain playbooks, shown next to the stage once one is picked
+        const playbookNames = {};
+
+        function addMessage(text, role) {
+          const msgDiv = document.createElement('div');
+          msgDiv.className = 'message ' + role;
+          const content = document.createElement('div');
+          content.className = 'message-content';
+          content.textContent = text;
+          msgDiv.appendChild(content);
+          chatEl.appendChild(msgDiv);
+          chatEl.scrollTop = chatEl.scrollHeight;
+          return content;
+        }
+
+        // Shows thumbnails for photos and chips for logs under a message bubble.
+        // Items carry either a local preview url or a stored attachment id.
+        function addAttachments(bubble, attachments) {
+          if (!attachments || !attachments.length) return;
+          const row = document.createElement('div');
+          row.className = 'attachments';
+          for (const attachment of attachments) {
+            if (attachment.kind === 'image') {
+              const img = document.createElement('img');
+              if (attachment.url) {
+                img.src = attachment.url;
+              } else {
+                blobUrl('/api/session/' + encodeURIComponent(sessionId) + '/attachments/' + encodeURIComponent(attachment.id))
+                  .then(url => { img.src = url; })
+                  .catch(error => console.error('Failed to load attachment', error));
+              }
+              img.alt = attachment.name;
+              img.title = attachment.description || attachment.name;
+              img.onclick = () => window.open(img.src, '_blank');
+              row.appendChild(img);
+            } else {
+              const chip = document.createElement('span');
+              chip.className = 'attachment-chip';
+              chip.textContent = '📄 ' + attachment.name;
+              chip.title = [attachment.summary || '', ...(attachment.keyLines || [])].join('\\n').trim() || attachment.name;
+              row.appendChild(chip);
+            }
+          }
+          bubble.parentElement.appendChild(row);
+          chatEl.scrollTop = chatEl.scrollHeight;
+        }
+
+        function renderPending() {
+          pendingEl.innerHTML = '';
+          pendingFiles.forEach((file, i) => {
+            const chip = document.createElement('span');
+            chip.className = 'attachment-chip';
+            chip.textContent = (file.type.startsWith('image/') ? '🖼 ' : '📄 ') + file.name;
+            const remove = document.createElement('button');
+            remove.textContent = '×';
+            remove.title = 'Remove';
+            remove.onclick = () => { pendingFiles.splice(i, 1); renderPending(); };
+            chip.appendChild(remove);
+            pendingEl.appendChild(chip);
+          });
+        }
+
+        async function downscaleImage(file) {
+          if (!file.type.startsWith('image/') || file.type === 'image/gif') return file;
+          try {
+            const bitmap = await createImageBitmap(file);
+            const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+            if (scale === 1 && file.size < 1000000) return file;
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(bitmap.width * scale);
+            canvas.height = Math.round(bitmap.height * scale);
+            canvas.getContext('2d').drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+            const blob = await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+            return blob ? new File([blob], file.name.replace(/\\.[^.]+$/, '') + '.jpg', { type: 'image/jpeg' }) : file;
+          } catch (error) {
+            return file;
+          }
+        }
+
+        async function addFiles(files) {
+          for (const file of files) {
+            if (pendingFiles.length >= 4) break;
+            pendingFiles.push(await downscaleImage(file));
+          }
+          renderPending();
+        }
+
+        // Lists the knowledge base passages a reply was grounded in, under its bubble
+        function addCitations(bubble, citations) {
+          if (!citations || !citations.length) return;
+          const list = document.createElement('ul');
+          list.className = 'citations';
+          list.textContent = 'Sources:';
+          citations.forEach((citation, i) => {
+            const item = document.createElement('li');
+            item.textContent = '[' + (i + 1) + '] ' + citation.title + (citation.source ? ' (' + citation.source + ')' : '');
+            item.title = citation.text;
+            list.appendChild(item);
+          });
+          bubble.parentElement.appendChild(list);
+          chatEl.scrollTop = chatEl.scrollHeight;
+        }
+
+        // Labels a reply the safety guardrails warned about or refused, above its bubble
+        function addSafety(bubble, safety) {
+          if (!safety) return;
+          const label = document.createElement('div');
+          label.className = 'safety-flag ' + safety.action;
+          label.textContent = safety.action === 'refused'
+            ? '⛔ ' + safety.reason
+            : '⚠ Safety: ' + safety.hazards.map(h => h.replace('-', ' ')).join(', ') + ' — lock out, tag out and wear PPE first';
+          bubble.parentElement.insertBefore(label, bubble);
+        }
+
+        // Shows how the team resolved similar cases before, under a diagnostic bubble
+        function addSimilarCases(bubble, similarCases) {
+          if (!similarCases || !similarCases.cases.length) return;
+          const details = document.createElement('details');
+          details.className = 'similar-cases';
+          const summary = document.createElement('summary');
+          summary.textContent = '🔎 ' + similarCases.summary;
+          details.appendChild(summary);
+          const list = document.createElement('ul');
+          for (const entry of similarCases.cases) {
+            const item = document.createElement('li');
+            item.textContent = entry.title + (entry.verified ? ' ✓' : '') +
+              (entry.rootCause ? ' - ' + entry.rootCause : '') +
+              (entry.fix.length ? ' (fix: ' + entry.fix.join('; ') + ')' : '');
+            list.appendChild(item);
+          }
+          details.appendChild(list);
+          bubble.parentElement.appendChild(details);
+          chatEl.scrollTop = chatEl.scrollHeight;
+        }
+
+        // One line per calculator call: its results, or why it failed; the inputs show on hover
+        function describeToolRun(run) {
+          if (run.error) return run.name + ': failed - ' + run.error;
+          const results = Object.entries(run.result)
+            .filter(([key, value]) => value !== null && key !== 'note')
+            .map(([key, value]) => key + ' ' + (typeof value === 'object' ? JSON.stringify(value) : value));
+          return run.name + ': ' + results.join(', ');
+        }
+
+        // Lists the calculations the model made for a reply, under its bubble
+        function addToolRuns(bubble, toolRuns) {
+          if (!toolRuns || !toolRuns.length) return;
+          const details = document.createElement('details');
+          details.className = 'tool-runs';
+          const summary = document.createElement('summary');
+          summary.textContent = '🧮 ' + toolRuns.length + (toolRuns.length === 1 ? ' calculation' : ' calculations');
+          details.appendChild(summary);
+          const list = document.createElement('ul');
+          for (const run of toolRuns) {
+            const item = document.createElement('li');
+            if (run.error) item.className = 'failed';
+            item.textContent = describeToolRun(run);
+            item.title = 'Inputs: ' + JSON.stringify(run.arguments);
+            list.appendChild(item);
+          }
+          details.appendChild(list);
+          bubble.parentElement.appendChild(details);
+          chatEl.scrollTop = chatEl.scrollHeight;
+        }
+
+        // Shows calculator calls under the typing indicator while the reply is being written
+        function showToolRun(run) {
+          const typing = document.getElementById('typing-indicator');
+          if (!typing) return;
+          const status = document.createElement('div');
+          status.className = 'tool-status';
+          status.textContent = '🧮 ' + run.name + (run.error ? ' failed' : ' done');
+          typing.appendChild(status);
+          chatEl.scrollTop = chatEl.scrollHeight;
+        }
+
+        // Thumbs up/down and a comment under a stored reply, plus "Did this solve your problem?" under a solution
+        function addFeedback(bubble, messageId, isSolution, feedback) {
+          if (!messageId) return;
+          const feedbackPath = '/api/session/' + encodeURIComponent(sessionId) + '/messages/' + messageId + '/feedback';
+          let current = feedback || { rating: null, comment: null, solved: null };
+
+          const bar = document.createElement('div');
+          bar.className = 'feedback';
+          const button = (label, title, edit) => {
+            const el = document.createElement('button');
+            el.textContent = label;
+            el.title = title;
+            el.onclick = () => save(edit());
+            bar.appendChild(el);
+            return el;
+          };
+          const upBtn = button('👍', 'Helpful', () => ({ rating: current.rating === 'up' ? null : 'up' }));
+          const downBtn = button('👎', 'Wrong or unhelpful', () => ({ rating: current.rating === 'down' ? null : 'down' }));
+          const commentBtn = button('💬', 'Add a comment', () => {
+            const comment = prompt('What was right or wrong about this answer?', current.comment || '');
+            return comment === null ? null : { comment };
+          });
+
+          let yesBtn = null, noBtn = null;
+          if (isSolution) {
+            const solvedPrompt = document.createElement('span');
+            solvedPrompt.className = 'solved-prompt';
+            solvedPrompt.textContent = 'Did this solve your problem?';
+            bar.appendChild(solvedPrompt);
+            yesBtn = button('Yes', 'This solved my problem', () => ({ solved: true }));
+            noBtn = button('No', 'This did not solve my problem', () => ({ solved: false }));
+          }
+
+          function render() {
+            upBtn.classList.toggle('active', current.rating === 'up');
+            downBtn.classList.toggle('active', current.rating === 'down');
+            commentBtn.classList.toggle('active', !!current.comment);
+            commentBtn.title = current.comment ? 'Your comment: ' + current.comment : 'Add a comment';
+            if (isSolution) {
+              yesBtn.classList.toggle('active', current.solved === true);
+              noBtn.classList.toggle('active', current.solved === false);
+            }
+          }
+
+          async function save(edit) {
+            if (!edit) return;
+            try {
+              const response = await api(feedbackPath, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(edit)
+              });
+              const data = await response.json();
+              if (!response.ok) throw new Error(data.error || response.statusText);
+              current = data.feedback;
+              render();
+            } catch (error) {
+              console.error('Failed to save feedback', error);
+            }
+          }
+
+          render();
+          bubble.parentElement.appendChild(bar);
+        }
+
+        // Replaces a solution bubble's text with a step checklist
+        function renderSolution(bubble, solution) {
+          if (!solution) return;
+          bubble.textContent = '';
+          bubble.classList.add('solution');
+          const section = (title, text) => {
+            const heading = document.createElement('h4');
+            heading.textContent = title;
+            bubble.appendChild(heading);
+            if (text !== undefined) {
+              const p = document.createElement('p');
+              p.textContent = text;
+              bubble.appendChild(p);
+            }
+          };
+
+          section('Root cause', solution.rootCause);
+          section('Steps');
+          const steps = document.createElement('ol');
+          solution.steps.forEach((step, i) => {
+            const item = document.createElement('li');
+            const box = document.createElement('input');
+            box.type = 'checkbox';
+            box.onchange = () => item.classList.toggle('done', box.checked);
+            const text = document.createElement('span');
+            text.textContent = (i + 1) + '. ' + step;
+            item.appendChild(box);
+            item.appendChild(text);
+            steps.appendChild(item);
+          });
+          bubble.appendChild(steps);
+          if (solution.prevention) section('Prevention', solution.prevention);
+          section('Parts/Tools', solution.partsTools.length ? undefined : 'None');
+          if (solution.partsTools.length) {
+            const parts = document.createElement('ul');
+            for (const part of solution.partsTools) {
+              const item = document.createElement('li');
+              item.textContent = part;
+              parts.appendChild(item);
+            }
+            bubble.appendChild(parts);
+          }
+          const badge = document.createElement('span');
+          badge.className = 'confidence ' + solution.confidence;
+          badge.textContent = 'Confidence: ' + solution.confidence;
+          bubble.appendChild(badge);
+          chatEl.scrollTop = chatEl.scrollHeight;
+        }
+
+        function showTyping() {
+          const msgDiv = document.createElement('div');
+          msgDiv.className = 'message assistant';
+          msgDiv.id = 'typing-indicator';
+          const content = document.createElement('div');
+          content.className = 'message-content';
+          content.innerHTML = '<div class="typing"><span></span><span></span><span></span></div>';
+          msgDiv.appendChild(content);
+          chatEl.appendChild(msgDiv);
+          chatEl.scrollTop = chatEl.scrollHeight;
+        }
+
+        function removeTyping() {
+          const typing = document.getElementById('typing-indicator');
+          if (typing) typing.remove();
+        }
+
+        // Renders one event of a turn, from the SSE stream or the socket, into the turn's reply bubble
+        function renderTurnEvent(turn, event, payload) {
+          if (event === 'token') {
+            if (!turn.bubble) {
+              removeTyping();
+              turn.bubble = addMessage('', 'assistant');
+            }
+            turn.bubble.textContent += payload.token;
+            chatEl.scrollTop = chatEl.scrollHeight;
+          } else if (event === 'tool') {
+            showToolRun(payload.run);
+          } else if (event === 'done') {
+            removeTyping();
+            if (!turn.bubble) turn.bubble = addMessage(payload.message, 'assistant');
+            // The guardrails may have added a notice to the streamed text or replaced it
+            turn.bubble.textContent = payload.message;
+            addSafety(turn.bubble, payload.safety);
+            renderSolution(turn.bubble, payload.solution);
+            addCitations(turn.bubble, payload.citations);
+            addSimilarCases(turn.bubble, payload.similarCases);
+            addToolRuns(turn.bubble, payload.toolRuns);
+            addFeedback(turn.bubble, payload.messageId, payload.stage === 'solution', null);
+            setStage(payload.stage, payload.verification, payload.outcome, payload.playbookId);
+            loadSessions();
+          } else if (event === 'error') {
+            removeTyping();
+            const retry = payload.status === 429 ? ' Try again in ' + formatDuration(payload.retryAfter) + '.' : '';
+            addMessage('Error: ' + payload.error + retry, 'assistant');
+          }
+        }
+
+        // Renders an SSE response from /api/chat token by token
+        async function readStream(body) {
+          const reader = body.getReader();
+          const decoder = new TextDecoder();
+          const turn = { bubble: null };
+          let buffer = '';
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const events = buffer.split('\\n\\n');
+            buffer = events.pop();
+
+            for (const raw of events) {
+              let event = 'message';
+              let data = '';
+              for (const line of raw.split('\\n')) {
+                if (line.startsWith('event:')) event = line.slice(6).trim();
+                if (line.startsWith('data:')) data += line.slice(5).trim();
+              }
+              if (data) renderTurnEvent(turn, event, JSON.parse(data));
+            }
+          }
+        }
+
+        // The session's socket: messages sent from any device on the session, their replies as
+        // they are written, stage changes, presence and typing all arrive over it
+        let socket = null;
+        let socketSession = null;
+        let reconnectTimer = null;
+        let reconnectDelay = 1000;
+        // This page's connection and user, and the other connections on the session
+        let myConnection = null;
+        let myUserId = null;
+        let otherConnections = [];
+        const typingConnections = new Set();
+        // Turns being answered, by turn id; turns sent from this page resolve their sendMessage when done
+        const liveTurns = new Map();
+        let typingSent = false;
+        let typingTimer = null;
+
+        // Opens the socket of the current session, unless it is already open
+        function connectSocket() {
+          if (socket && socketSession === sessionId) return;
+          disconnectSocket();
+          if (!sessionId || !authToken) return;
+
+          const id = sessionId;
+          const ws = new WebSocket((location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host +
+            '/api/session/' + encodeURIComponent(id) + '/socket?token=' + encodeURIComponent(authToken));
+          socket = ws;
+          socketSession = id;
+          typingSent = false;
+
+          ws.onopen = () => { reconnectDelay = 1000; };
+          ws.onmessage = (e) => handleFrame(JSON.parse(e.data));
+          ws.onclose = (e) => {
+            // Replaced by the socket of another session
+            if (socket !== ws) return;
+            socket = null;
+            socketSession = null;
+            clearPresence();
+            // Turns still being answered finish on the server; reopening the session shows their replies
+            for (const turn of liveTurns.values()) if (turn.resolve) turn.resolve();
+            liveTurns.clear();
+            removeTyping();
+
+            // Deleted from another device; start a new one once the turns above have wound down
+            if (e.code === ${SESSION_DELETED_CLOSE_CODE}) {
+              setTimeout(newSession);
+              return;
+            }
+            reconnectTimer = setTimeout(() => {
+              reconnectTimer = null;
+              if (sessionId === id) openSession(id);
+            }, reconnectDelay);
+            reconnectDelay = Math.min(reconnectDelay * 2, 30000);
+          };
+        }
+
+        function disconnectSocket() {
+          clearTimeout(reconnectTimer);
+          reconnectTimer = null;
+          if (socket) {
+            const ws = socket;
+            socket = null;
+            socketSession = null;
+            ws.close(1000, 'Closed');
+          }
+          clearPresence();
+        }
+
+        // Resolves true once the socket is open, or false if it closes first
+        function socketReady() {
+          const ws = socket;
+          if (!ws) return Promise.resolve(false);
+          if (ws.readyState === WebSocket.OPEN) return Promise.resolve(true);
+          return new Promise(resolve => {
+            ws.addEventListener('open', () => resolve(true));
+            ws.addEventListener('close', () => resolve(false));
+          });
+        }
+
+        // Sends a message over the socket; resolves once its reply, or an error, has arrived
+        function sendOverSocket(message, stepOutcome) {
+          const turnId = 'turn-' + Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 8);
+          return new Promise(resolve => {
+            liveTurns.set(turnId, { bubble: null, resolve });
+            socket.send(JSON.stringify({ type: 'chat', turnId, userMessage: message, stepOutcome, profileId: profileSelect.value || undefined }));
+          });
+        }
+
+        function handleFrame(frame) {
+          if (frame.type === 'presence') {
+            myConnection = frame.you;
+            myUserId = (frame.connections.find(c => c.connectionId === frame.you) || {}).userId || null;
+            otherConnections = frame.connections.filter(c => c.connectionId !== frame.you);
+            for (const id of [...typingConnections]) {
+              if (!otherConnections.some(c => c.connectionId === id)) typingConnections.delete(id);
+            }
+            renderPresence();
+          } else if (frame.type === 'typing') {
+            if (frame.typing) typingConnections.add(frame.connectionId);
+            else typingConnections.delete(frame.connectionId);
+            renderPresence();
+          } else if (frame.type === 'user') {
+            // Sent from another device; its reply streams in below it
+            const bubble = addMessage(frame.userMessage, 'user');
+            addAttachments(bubble, frame.attachments);
+            liveTurns.set(frame.turnId, { bubble: null });
+            removeTyping();
+            showTyping();
+          } else if (frame.type === 'stage') {
+            // Turns relayed over the socket are already on screen; others were sent over HTTP
+            if (!liveTurns.size && !isWaiting) openSession(sessionId);
+          } else if (frame.type === 'reset') {
+            if (!isWaiting) openSession(sessionId);
+          } else if (frame.type === 'handoff') {
+            setHandoff(frame.handoff);
+          } else if (frame.type === 'message') {
+            // A message exchanged with the expert; one sent from this page is already on screen
+            const turn = liveTurns.get(frame.turnId);
+            if (turn) {
+              liveTurns.delete(frame.turnId);
+              removeTyping();
+              if (turn.resolve) turn.resolve();
+            } else {
+              renderStoredMessage(frame.message);
+            }
+          } else if (liveTurns.has(frame.turnId)) {
+            const turn = liveTurns.get(frame.turnId);
+            renderTurnEvent(turn, frame.type, frame);
+            if (frame.type === 'done' || frame.type === 'error') {
+              liveTurns.delete(frame.turnId);
+              if (turn.resolve) turn.resolve();
+            }
+          } else if (frame.type === 'error') {
+            console.error('Socket error:', frame.error);
+          }
+        }
+
+        // Tells the other devices while this user is typing, and when they stop for a few seconds
+        function setTyping(typing) {
+          clearTimeout(typingTimer);
+          if (typing) typingTimer = setTimeout(() => setTyping(false), 3000);
+          if (typing === typingSent || !socket || socket.readyState !== WebSocket.OPEN) return;
+          typingSent = typing;
+          socket.send(JSON.stringify({ type: 'typing', typing }));
+        }
+
+        function connectionName(connection) {
+          return connection.userId === myUserId ? 'your other device' : connection.userId;
+        }
+
+        function renderPresence() {
+          presenceBar.hidden = !otherConnections.length;
+          if (!otherConnections.length) return;
+
+          let text = '👥 Also here: ' + otherConnections.map(connectionName).join(', ');
+          const typing = otherConnections.filter(c => typingConnections.has(c.connectionId));
+          if (typing.length) text += ' · ' + typing.map(connectionName).join(', ') + (typing.length === 1 ? ' is typing…' : ' are typing…');
+          presenceBar.textContent = text;
+        }
+
+        function clearPresence() {
+          otherConnections = [];
+          typingConnections.clear();
+          renderPresence();
+        }
+
+        // Sends the typed message, or a canned reply from the walkthrough buttons with its step outcome
+        async function sendMessage(text, stepOutcome) {
+          const message = (text || inputEl.value).trim();
+          if ((!message && !pendingFiles.length) || isWaiting || inputLocked()) return;
+
+          const files = pendingFiles;
+          pendingFiles = [];
+          renderPending();
+
+          const bubble = addMessage(message, 'user');
+          addAttachments(bubble, files.map(file => ({
+            kind: file.type.startsWith('image/') ? 'image' : 'log',
+            name: file.name,
+            url: file.type.startsWith('image/') ? URL.createObjectURL(file) : null
+          })));
+          if (!text) inputEl.value = '';
+          inputEl.disabled = true;
+          sendBtn.disabled = true;
+          setStepButtonsDisabled(true);
+          isWaiting = true;
+
+          showTyping();
+
+          setTyping(false);
+
+          try {
+            if (!sessionId) {
+              const created = await api('/api/sessions', { method: 'POST' });
+              const data = await created.json();
+              if (!created.ok) throw new Error(data.error || created.statusText);
+              setSessionId(data.sessionId);
+              connectSocket();
+            }
+
+            // Text goes over the socket, so the user's other devices see it answered as it is written;
+            // attachments (and messages sent while the socket is down) go to /api/chat
+            if (!files.length && await socketReady()) {
+              await sendOverSocket(message, stepOutcome);
+              return;
+            }
+
+            let response;
+            if (files.length) {
+              // Attachments go as multipart; the browser sets the boundary header
+              const form = new FormData();
+              form.append('sessionId', sessionId);
+              form.append('userMessage', message);
+              form.append('stream', 'true');
+              if (stepOutcome) form.append('stepOutcome', stepOutcome);
+              if (profileSelect.value) form.append('profileId', profileSelect.value);
+              for (const file of files) form.append('attachments', file);
+              response = await api('/api/chat', { method: 'POST', headers: { 'Accept': 'text/event-stream' }, body: form });
+            } else {
+              response = await api('/api/chat', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+                body: JSON.stringify({ sessionId, userMessage: message, stream: true, stepOutcome, profileId: profileSelect.value || undefined })
+              });
+            }
+
+            // Held for the expert handling the session; there is no reply to wait for
+            if (response.status === 202) {
+              removeTyping();
+              setHandoff((await response.json()).handoff);
+              return;
+            }
+
+            if (!response.ok || !response.body) {
+              const data = await response.json();
+              removeTyping();
+              const retry = response.status === 429 ? ' Try again in ' + formatDuration(data.retryAfter) + '.' : '';
+              addMessage('Error: ' + (data.error || response.statusText) + retry, 'assistant');
+              return;
+            }
+
+            await readStream(response.body);
+          } catch (error) {
+            removeTyping();
+            addMessage('Network error: ' + error.message, 'assistant');
+          } finally {
+            inputEl.disabled = inputLocked();
+            sendBtn.disabled = inputLocked();
+            setStepButtonsDisabled(false);
+            isWaiting = false;
+            inputEl.focus();
+            loadUsage();
+          }
+        }
+
+        function formatDuration(seconds) {
+          if (seconds < 120) return seconds + 's';
+          if (seconds < 7200) return Math.ceil(seconds / 60) + ' min';
+          return Math.ceil(seconds / 3600) + ' h';
+        }
+
+        function formatTokens(tokens) {
+          return tokens >= 1000 ? Math.floor(tokens / 1000) + 'k' : String(tokens);
+        }
+
+        // Sidebar footer: requests left this minute and tokens left today, within the session's own budget too
+        async function loadUsage() {
+          try {
+            const response = await api('/api/usage' + (sessionId ? '?sessionId=' + encodeURIComponent(sessionId) : ''));
+            if (!response.ok) return;
+            const usage = await response.json();
+            const tokensLeft = usage.session ? Math.min(usage.tokens.remaining, usage.session.remaining) : usage.tokens.remaining;
+            usageLabel.textContent = usage.requests.remaining + '/' + usage.requests.limit + ' requests left this minute · ' +
+              formatTokens(tokensLeft) + ' tokens left today';
+            usageLabel.className = usage.requests.remaining === 0 || tokensLeft === 0 ? 'low' : '';
+          } catch (error) {
+            console.error('Failed to load usage', error);
+          }
+        }
+
+        function setStepButtonsDisabled(disabled) {
+          for (const button of [passBtn, failBtn, skipBtn, escalateBtn]) button.disabled = disabled;
+        }
+
+        // Updates the stage label, walkthrough buttons and outcome banner
+        function setStage(stage, verification, outcome, playbookId) {
+          let label = 'Stage: ' + (stageNames[stage] || stage || 'Processing');
+          if (playbookNames[playbookId]) label += ' · ' + playbookNames[playbookId];
+          const confirming = verification && verification.current >= verification.steps.length;
+          if (stage === 'verification' && verification && !outcome) {
+            label += confirming ? ' (confirming the fix)' : ' (step ' + (verification.current + 1) + ' of ' + verification.steps.length + ')';
+          }
+          stageLabel.textContent = label;
+
+          // A report needs a solution, which only exists from the solution stage on
+          reportLink.hidden = stage !== 'solution' && stage !== 'verification';
+
+          stepActionsEl.hidden = stage !== 'verification' || !!outcome;
+          passBtn.textContent = confirming ? '✅ Fixed' : '✅ Done';
+          failBtn.textContent = confirming ? '❌ Still happening' : "❌ Didn't work";
+          skipBtn.hidden = !!confirming;
+
+          closed = !!outcome;
+          outcomeBanner.hidden = !outcome;
+          if (outcome) {
+            outcomeBanner.className = 'outcome-banner ' + outcome.status;
+            outcomeBanner.textContent = (outcome.status === 'resolved' ? '✓ Resolved: ' : '⚠ Escalated: ') + outcome.reason + '. Start over to diagnose a new problem.';
+          }
+          inputEl.disabled = inputLocked();
+          sendBtn.disabled = inputLocked();
+        }
+
+        function inputLocked() {
+          return closed && !(handoff && handoff.status === 'active');
+        }
+
+        // Shows whether the session is waiting for an expert or being handled by one
+        function setHandoff(next) {
+          handoff = next && next.status !== 'ended' ? next : null;
+          handoffBanner.hidden = !handoff;
+          expertBtn.textContent = handoff ? 'New share link' : 'Ask an expert';
+          if (handoff) {
+            handoffText.textContent = handoff.status === 'active'
+              ? '🧑‍🔧 An expert is handling this diagnosis. The advisor is paused until the handoff ends.'
+              : '🧑‍🔧 Waiting for an expert' + (handoff.reason ? ' (' + handoff.reason + ')' : '') + '. The advisor keeps helping until one replies.';
+          }
+          inputEl.disabled = inputLocked();
+          sendBtn.disabled = inputLocked();
+        }
+
+        // Hands the session off to a human expert and shows the read-only link to send them
+        async function askExpert() {
+          if (isWaiting) return;
+          if (!sessionId) {
+            alert('Describe the problem first, so the expert has something to read.');
+            return;
+          }
+          const reason = handoff ? '' : prompt('What should the expert look at? (optional)', '');
+          if (reason === null) return;
+
+          try {
+            const response = await api('/api/session/' + encodeURIComponent(sessionId) + '/handoff', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ reason: reason.trim() || undefined })
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || response.statusText);
+            setHandoff(data.handoff);
+            prompt('Send this read-only link to the expert (valid until ' + new Date(data.expiresAt).toLocaleString() + '):', data.shareUrl);
+          } catch (error) {
+            alert('Could not hand off the diagnosis: ' + error.message);
+          }
+        }
+
+        async function endExpertHandoff() {
+          try {
+            const response = await api('/api/session/' + encodeURIComponent(sessionId) + '/handoff', { method: 'DELETE' });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || response.statusText);
+            setHandoff(data.handoff);
+          } catch (error) {
+            alert('Could not end the handoff: ' + error.message);
+          }
+        }
+
+        // Sidebar: the team's robot profiles, attached to the session with the next message
+        async function loadProfiles() {
+          try {
+            const response = await api('/api/profiles');
+            const data = await response.json();
+            for (const profile of data.profiles || []) {
+              const option = document.createElement('option');
+              option.value = profile.profileId;
+              option.textContent = profile.name + (profile.model ? ' (' + profile.model + ')' : '');
+              profileSelect.appendChild(option);
+            }
+          } catch (error) {
+            console.error('Failed to load robot profiles', error);
+          }
+        }
+
+        async function loadPlaybooks() {
+          try {
+            const response = await api('/api/playbooks');
+            const data = await response.json();
+            for (const playbook of data.playbooks || []) {
+              if (playbook.id !== 'general') playbookNames[playbook.id] = playbook.name;
+              for (const stage of playbook.stages || []) {
+                if (stage.name && !stageNames[stage.id]) stageNames[stage.id] = stage.name;
+              }
+            }
+          } catch (error) {
+            console.error('Failed to load playbooks', error);
+          }
+        }
+
+        // Sidebar: the user's past sessions from the registry
+        async function loadSessions() {
+          try {
+            const response = await api('/api/sessions');
+            const data = await response.json();
+            sessionListEl.innerHTML = '';
+
+            for (const session of data.sessions || []) {
+              const item = document.createElement('li');
+              item.className = 'session-item' + (session.sessionId === sessionId ? ' active' : '');
+              item.title = session.title + ' (' + (stageNames[session.stage] || session.stage) + ')';
+
+              const title = document.createElement('span');
+              title.className = 'session-title';
+              title.textContent = session.title;
+              item.appendChild(title);
+
+              const renameBtn = document.createElement('button');
+              renameBtn.textContent = '✎';
+              renameBtn.title = 'Rename';
+              renameBtn.onclick = (e) => { e.stopPropagation(); renameSession(session); };
+              item.appendChild(renameBtn);
+
+              const deleteBtn = document.createElement('button');
+              deleteBtn.textContent = '🗑';
+              deleteBtn.title = 'Delete';
+              deleteBtn.onclick = (e) => { e.stopPropagation(); deleteSession(session); };
+              item.appendChild(deleteBtn);
+
+              item.onclick = () => openSession(session.sessionId);
+              sessionListEl.appendChild(item);
+            }
+          } catch (error) {
+            console.error('Failed to load sessions', error);
+          }
+        }
+
+        // Messages fetched per page of history
+        const HISTORY_PAGE = 50;
+
+        function renderStoredMessage(msg) {
+          const bubble = addMessage(msg.content, msg.role);
+          addSafety(bubble, msg.safety);
+          renderSolution(bubble, msg.solution);
+          addAttachments(bubble, msg.attachments);
+          addCitations(bubble, msg.citations);
+          addSimilarCases(bubble, msg.similarCases);
+          addToolRuns(bubble, msg.toolRuns);
+          if (msg.role === 'assistant') addFeedback(bubble, msg.id, msg.stage === 'solution', msg.feedback);
+        }
+
+        // Offers the page of history before the oldest message shown, right after the greeting
+        function showLoadEarlier(nextBefore) {
+          const button = document.createElement('button');
+          button.id = 'loadEarlierBtn';
+          button.textContent = 'Load earlier messages';
+          button.onclick = () => loadEarlier(button, nextBefore);
+          chatEl.insertBefore(button, chatEl.children[1] || null);
+        }
+
+        async function loadEarlier(button, before) {
+          button.disabled = true;
+          try {
+            const response = await api('/api/history/' + encodeURIComponent(sessionId) + '?limit=' + HISTORY_PAGE + '&before=' + before);
+            if (!response.ok) throw new Error('HTTP ' + response.status);
+            const data = await response.json();
+
+            // Render the older page at the end, then move the newer messages back after it
+            const scrollFromBottom = chatEl.scrollHeight - chatEl.scrollTop;
+            const newer = [];
+            while (button.nextSibling) newer.push(chatEl.removeChild(button.nextSibling));
+            button.remove();
+            for (const msg of data.history || []) renderStoredMessage(msg);
+            for (const node of newer) chatEl.appendChild(node);
+            if (data.hasMore) showLoadEarlier(data.nextBefore);
+            chatEl.scrollTop = chatEl.scrollHeight - scrollFromBottom;
+          } catch (error) {
+            button.disabled = false;
+            console.error('Failed to load earlier messages', error);
+          }
+        }
+
+        // Renders the latest page of a stored session's history into the chat pane
+        async function openSession(id) {
+          if (isWaiting) return;
+          if (!id) return newSession();
+          if (socketSession !== id) disconnectSocket();
+          setSessionId(id);
+          chatEl.innerHTML = '';
+          addMessage(greeting, 'assistant');
+
+          try {
+            const response = await api('/api/history/' + encodeURIComponent(sessionId) + '?limit=' + HISTORY_PAGE);
+            // Deleted, or owned by an earlier guest identity
+            if (response.status === 404 || response.status === 403) return newSession();
+            const data = await response.json();
+            for (const msg of data.history || []) renderStoredMessage(msg);
+            if (data.hasMore) showLoadEarlier(data.nextBefore);
+            setHandoff(data.handoff);
+            setStage(data.stage, data.verification, data.outcome, data.playbookId);
+            profileSelect.value = data.profileId || '';
+            connectSocket();
+          } catch (error) {
+            addMessage('Network error: ' + error.message, 'assistant');
+          }
+          loadSessions();
+          loadUsage();
+          inputEl.focus();
+        }
+
+        function newSession() {
+          if (isWaiting) return;
+          disconnectSocket();
+          setSessionId(null);
+          chatEl.innerHTML = '';
+          addMessage(greeting, 'assistant');
+          setHandoff(null);
+          setStage('initial');
+          loadSessions();
+          loadUsage();
+          inputEl.focus();
+        }
+
+        async function renameSession(session) {
+          const title = prompt('Rename diagnosis', session.title);
+          if (!title || !title.trim()) return;
+          await api('/api/session/' + encodeURIComponent(session.sessionId), {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ title: title.trim() })
+          });
+          loadSessions();
+        }
+
+        async function deleteSession(session) {
+          if (!confirm('Delete "' + session.title + '"? This cannot be undone.')) return;
+          await api('/api/session/' + encodeURIComponent(session.sessionId), { method: 'DELETE' });
+          if (session.sessionId === sessionId) {
+            newSession();
+          } else {
+            loadSessions();
+          }
+        }
+
+        async function resetSession() {
+          if (isWaiting || !sessionId || !confirm('Clear this conversation and start the diagnosis over?')) return;
+          await api('/api/session/' + encodeURIComponent(sessionId) + '/reset', { method: 'POST' });
+          // Connected pages, this one included, reload when the socket reports the reset
+          if (!socket) openSession(sessionId);
+        }
+
+        sendBtn.onclick = () => sendMessage();
+        passBtn.onclick = () => sendMessage(passBtn.textContent.includes('Fixed') ? "Yes, it's fixed." : 'Done, that step worked.', 'pass');
+        failBtn.onclick = () => sendMessage(failBtn.textContent.includes('Still') ? 'No, it still happens.' : "That step didn't work.", 'fail');
+        skipBtn.onclick = () => sendMessage('I skipped that step.', 'skipped');
+        escalateBtn.onclick = () => sendMessage('Please escalate this to a technician.');
+        inputEl.onkeypress = (e) => { if (e.key === 'Enter') sendMessage(); };
+        inputEl.addEventListener('input', () => setTyping(!!inputEl.value.trim()));
+        newSessionBtn.onclick = newSession;
+        resetBtn.onclick = resetSession;
+        expertBtn.onclick = askExpert;
+        endHandoffBtn.onclick = endExpertHandoff;
+        reportLink.onclick = async (e) => {
+          e.preventDefault();
+          try {
+            window.open(await blobUrl('/api/session/' + encodeURIComponent(sessionId) + '/report?format=html'), '_blank');
+          } catch (error) {
+            alert('Could not export the report: ' + error.message);
+          }
+        };
+        attachBtn.onclick = () => fileInput.click();
+        fileInput.onchange = () => { addFiles([...fileInput.files]); fileInput.value = ''; };
+        inputEl.addEventListener('paste', (e) => {
+          const files = [...(e.clipboardData ? e.clipboardData.files : [])];
+          if (files.length) {
+            e.preventDefault();
+            addFiles(files);
+          }
+        });
+
+        ensureToken()
+          .then(loadProfiles)
+          .then(loadPlaybooks)
+          .then(() => openSession(sessionId))
+          .catch(error => addMessage('Sign-in failed: ' + error.message, 'assistant'));
+      </script>
+    </body>
+    </html>
+  `, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
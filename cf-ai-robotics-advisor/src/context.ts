@@ -0,0 +1,201 @@
+/**
+ * Context - What of a Long Session the Model Sees
+ *
+ * Recent messages are sent verbatim up to a token budget. When the history
+ * outgrows it, the oldest messages are folded into a running summary that is
+ * stored with the session and added to the system prompt, so facts from the
+ * start of a long session (the robot, the first symptom, what was already
+ * measured) are condensed rather than dropped.
+ *
+ * @module context
+ */
+
+import { AiMessage, LlmProvider } from './providers';
+import { ChatMessage } from './types';
+import { Attachment, formatAttachmentContext } from './attachments';
+import { formatToolRuns } from './calculators';
+import { estimateTokens } from './rateLimit';
+
+/**
+ * Condensed account of the messages that no longer fit in the prompt
+ */
+export interface ConversationSummary {
+  /** Summary text */
+  text: string;
+  /** How many messages, from the start of the history, the summary covers */
+  messageCount: number;
+  /** When the summary was last extended (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Environment variables read by `resolveContextBudget`
+ */
+export interface ContextEnv {
+  /** Tokens of recent history sent verbatim before older messages are summarized */
+  CONTEXT_TOKEN_BUDGET?: string | number;
+}
+
+/**
+ * Split of the history for one prompt
+ */
+export interface ContextPlan {
+  /** Messages sent verbatim, oldest first */
+  recent: ChatMessage[];
+  /** Messages past the summary that no longer fit and should be folded into it */
+  overflow: ChatMessage[];
+}
+
+/** Default budget for recent history */
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 2000;
+
+/** Messages always sent verbatim, even past the budget */
+const MIN_RECENT_MESSAGES = 2;
+
+/** Label on a human expert's messages in the prompt */
+const EXPERT_MESSAGE_PREFIX = '[Human expert] ';
+
+/**
+ * Reads the history budget from environment vars
+ *
+ * @param env - Environment with optional `CONTEXT_TOKEN_BUDGET`
+ * @returns Budget in tokens
+ */
+export function resolveContextBudget(env: ContextEnv): number {
+  const budget = Number(env.CONTEXT_TOKEN_BUDGET);
+  return budget > 0 ? budget : DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+/**
+ * Appends attachment descriptions and log digests to a message for the model
+ *
+ * @param content - Message text
+ * @param attachments - Attachments sent with it, if any
+ * @returns Text the model sees
+ */
+export function withAttachmentContext(content: string, attachments: Attachment[] | undefined): string {
+  const context = formatAttachmentContext(attachments);
+  return context ? `${content}\n\n${context}`.trim() : content;
+}
+
+/**
+ * Text the model sees for a stored message: with its attachment context, or the calculator
+ * results behind a reply
+ */
+function messageContext(message: ChatMessage): string {
+  const content = withAttachmentContext(String(message.content), message.attachments);
+  return message.toolRuns?.length ? `${formatToolRuns(message.toolRuns)}\n\n${content}` : content;
+}
+
+/**
+ * Decides which messages go into the prompt verbatim
+ *
+ * Messages the summary already covers are skipped. If the rest fits the budget,
+ * all of it is sent; otherwise the newest messages that fit half the budget are
+ * kept and the older ones overflow, so the summary is extended in batches rather
+ * than on every turn.
+ *
+ * @param history - Conversation history, or its tail when older messages were left out
+ * @param summary - Running summary, if any
+ * @param budget - Token budget for verbatim messages
+ * @param offset - Number of messages left out before `history`
+ * @returns Recent messages and those to fold into the summary
+ */
+export function planContext(history: ChatMessage[], summary: ConversationSummary | null, budget: number, offset = 0): ContextPlan {
+  const unsummarized = history.slice(Math.max((summary?.messageCount || 0) - offset, 0));
+  const sizes = unsummarized.map(m => estimateTokens(messageContext(m)));
+  if (sizes.reduce((sum, size) => sum + size, 0) <= budget) {
+    return { recent: unsummarized, overflow: [] };
+  }
+
+  let kept = 0;
+  let used = 0;
+  while (kept < unsummarized.length) {
+    const size = sizes[unsummarized.length - 1 - kept];
+    if (kept >= MIN_RECENT_MESSAGES && used + size > budget / 2) break;
+    used += size;
+    kept++;
+  }
+
+  const split = unsummarized.length - kept;
+  return { recent: unsummarized.slice(split), overflow: unsummarized.slice(0, split) };
+}
+
+/**
+ * Folds messages into the running summary
+ *
+ * @param provider - Model provider used for the summary
+ * @param previous - Summary so far, if any
+ * @param overflow - Messages that follow it and no longer fit in the prompt
+ * @returns Extended summary, or null if the call failed (the messages are retried next turn)
+ */
+export async function condenseHistory(
+  provider: LlmProvider,
+  previous: ConversationSummary | null,
+  overflow: ChatMessage[]
+): Promise<ConversationSummary | null> {
+  const transcript = overflow
+    .map(m => `${m.role.toUpperCase()}: ${messageContext(m)}`)
+    .join('\n\n');
+
+  try {
+    const text = await provider.complete({
+      purpose: 'condense',
+      messages: [
+        {
+          role: 'system',
+          content: `You condense the earlier part of a robotics troubleshooting conversation so the advisor can continue it without the full transcript.
+Extend the existing summary with the new messages. Keep every concrete fact: the robot and its hardware, each symptom and when it happens, measurements and settings, what the user already tried and what happened, and what the advisor concluded or asked. Drop greetings and repetition.
+Write at most 200 words of plain prose or short bullet points. Respond with only the summary.`
+        },
+        {
+          role: 'user',
+          content: `Existing summary:\n${previous?.text || '(none)'}\n\nNew messages:\n${transcript}`
+        }
+      ]
+    });
+
+    if (!text.trim()) {
+      console.warn('History summary came back empty');
+      return null;
+    }
+
+    return {
+      text: text.trim(),
+      messageCount: (previous?.messageCount || 0) + overflow.length,
+      updatedAt: Date.now()
+    };
+  } catch (error: any) {
+    console.warn('History summary failed:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Builds the messages for the chat call
+ *
+ * @param systemPrompt - Stage prompt from the workflow
+ * @param summary - Running summary, if any
+ * @param recent - Messages sent verbatim
+ * @param userMessage - Current user message, with its attachment context
+ * @returns Model messages: system prompt (with the summary), recent history, current message; a human
+ *   expert's messages are passed as labelled user messages, so the model builds on them without taking them as its own
+ */
+export function buildContextMessages(
+  systemPrompt: string,
+  summary: ConversationSummary | null,
+  recent: ChatMessage[],
+  userMessage: string
+): AiMessage[] {
+  const system = summary
+    ? `${systemPrompt}\n\nSummary of the earlier conversation (those messages are no longer shown):\n${summary.text}`
+    : systemPrompt;
+
+  return [
+    { role: 'system', content: system },
+    ...recent.filter(m => m && m.role && (m.content || m.attachments)).map(m => (m.role === 'expert'
+      ? { role: 'user' as const, content: `${EXPERT_MESSAGE_PREFIX}${messageContext(m)}` }
+      : { role: m.role, content: messageContext(m) })),
+    { role: 'user', content: userMessage }
+  ];
+}
@@ -0,0 +1,159 @@
+/**
+ * Embeddings - Pluggable Text Embedders
+ *
+ * Turns text into vectors for similarity search. Workers AI is used in production;
+ * the hashing embedder is a deterministic local stand-in that needs no model, so
+ * retrieval also works offline and in tests.
+ *
+ * @module embeddings
+ */
+
+import { Ai } from './providers';
+
+/**
+ * Common interface for all embedders
+ */
+export interface Embedder {
+  /** Embedder name, stored with vectors so mixed-up indexes can be detected */
+  readonly name: string;
+  /**
+   * Embeds a batch of texts
+   *
+   * @param texts - Texts to embed
+   * @returns One unit-length vector per text
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Environment variables read by `createEmbedder`
+ */
+export interface EmbedderEnv {
+  /** Workers AI binding */
+  AI: Ai;
+  /** `workers-ai` or `hashing`; defaults to `hashing` when the mock LLM provider is active */
+  EMBEDDER?: string;
+  /** Workers AI embedding model override */
+  EMBEDDING_MODEL?: string;
+  /** LLM provider, used to pick the default embedder */
+  LLM_PROVIDER?: string;
+}
+
+/** Default Workers AI embedding model */
+const DEFAULT_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+
+/** Texts per Workers AI embedding call */
+const EMBED_BATCH_SIZE = 50;
+
+/** Dimensions of the hashing embedder's vectors */
+const HASHING_DIMENSIONS = 512;
+
+/** Words longer than this are truncated, a crude stemmer ("oscillates" ~ "oscillating") */
+const STEM_LENGTH = 6;
+
+/** Common words that carry no meaning for retrieval */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'if', 'in',
+  'is', 'it', 'its', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'when', 'with'
+]);
+
+/**
+ * Creates the embedder selected by `EMBEDDER`
+ *
+ * @param env - Environment bindings and vars
+ * @returns Configured embedder
+ */
+export function createEmbedder(env: EmbedderEnv): Embedder {
+  const choice = env.EMBEDDER || (env.LLM_PROVIDER === 'mock' ? 'hashing' : 'workers-ai');
+
+  switch (choice) {
+    case 'workers-ai':
+      return new WorkersAiEmbedder(env.AI, env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL);
+    case 'hashing':
+      return new HashingEmbedder();
+    default:
+      throw new Error(`Unknown EMBEDDER: ${env.EMBEDDER}`);
+  }
+}
+
+/**
+ * Embedder backed by a Workers AI text embedding model
+ */
+export class WorkersAiEmbedder implements Embedder {
+  readonly name: string;
+  ai: Ai;
+  model: string;
+
+  constructor(ai: Ai, model: string) {
+    this.ai = ai;
+    this.model = model;
+    this.name = `workers-ai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const result = await this.ai.run(this.model, { text: texts.slice(i, i + EMBED_BATCH_SIZE) });
+      vectors.push(...result.data.map(normalize));
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Deterministic local embedder using feature hashing of stemmed words and word pairs
+ *
+ * Only captures lexical overlap, but that is enough to find the manual section
+ * that mentions "encoder" when the user says their encoder counts drop.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name = 'hashing';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(HASHING_DIMENSIONS).fill(0);
+      const words = (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+        .filter(word => !STOPWORDS.has(word))
+        .map(word => word.slice(0, STEM_LENGTH));
+
+      for (let i = 0; i < words.length; i++) {
+        vector[hash(words[i]) % HASHING_DIMENSIONS] += 1;
+        if (i > 0) {
+          vector[hash(words[i - 1] + ' ' + words[i]) % HASHING_DIMENSIONS] += 0.5;
+        }
+      }
+      return normalize(vector);
+    });
+  }
+}
+
+/**
+ * Cosine similarity of two unit-length vectors
+ *
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Similarity in [-1, 1]; 0 if the lengths differ
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length ? vector.map(v => v / length) : vector;
+}
+
+/** FNV-1a string hash */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,103 @@
+/**
+ * Env - Worker Bindings and the Durable Objects Behind Them
+ *
+ * The bindings every route receives, and the stub of each Durable Object the
+ * routes talk to. Stubs retry idempotent requests through an instance reset
+ * (see `stubs`).
+ *
+ * @module env
+ */
+
+import { Ai, ProviderEnv } from './providers';
+import { DurableObjectNamespace, DurableObjectStub } from './types';
+import { retryingStub } from './stubs';
+import { EmbedderEnv } from './embeddings';
+import { AuthEnv } from './auth';
+import { ContextEnv } from './context';
+import { AnalyticsEnv } from './analytics';
+import { RateLimitEnv } from './rateLimit';
+
+/**
+ * Environment bindings available to the Worker
+ */
+export interface Env extends ProviderEnv, EmbedderEnv, AuthEnv, RateLimitEnv, ContextEnv, AnalyticsEnv {
+  /** Workers AI binding for LLM inference */
+  AI: Ai;
+  /** Durable Object namespace for session persistence */
+  ADVISOR_STATE: DurableObjectNamespace;
+  /** Durable Object namespace holding each user's list of sessions */
+  SESSION_REGISTRY: DurableObjectNamespace;
+  /** Durable Object namespace for the shared manuals and known-issue notes */
+  KNOWLEDGE_BASE: DurableObjectNamespace;
+  /** Durable Object namespace for the team's robot profiles */
+  ROBOT_PROFILES: DurableObjectNamespace;
+  /** Durable Object namespace for the shared index of resolved cases */
+  CASE_INDEX: DurableObjectNamespace;
+  /** Durable Object namespace counting requests and tokens per user and per client IP */
+  USAGE_LIMITER: DurableObjectNamespace;
+  /** Durable Object namespace of the local stand-in for the analytics database */
+  ANALYTICS_LOG: DurableObjectNamespace;
+}
+
+/**
+ * Returns the Durable Object stub for a session
+ * 
+ * @param env - Environment bindings
+ * @param sessionId - Session identifier
+ * @returns `AdvisorState` stub
+ */
+export function getSessionStub(env: Env, sessionId: string): DurableObjectStub {
+  return retryingStub(() => env.ADVISOR_STATE.get(env.ADVISOR_STATE.idFromName(sessionId)));
+}
+
+/**
+ * Returns the session registry stub for a user
+ * 
+ * @param env - Environment bindings
+ * @param userId - User whose sessions to list
+ * @returns `SessionRegistry` stub
+ */
+export function getRegistryStub(env: Env, userId: string): DurableObjectStub {
+  return retryingStub(() => env.SESSION_REGISTRY.get(env.SESSION_REGISTRY.idFromName(userId)));
+}
+
+/**
+ * Returns the stub of the shared knowledge base
+ * 
+ * @param env - Environment bindings
+ * @returns `KnowledgeBase` stub
+ */
+export function getKnowledgeStub(env: Env): DurableObjectStub {
+  return retryingStub(() => env.KNOWLEDGE_BASE.get(env.KNOWLEDGE_BASE.idFromName('global')));
+}
+
+/**
+ * Returns the stub of the shared robot profile registry
+ * 
+ * @param env - Environment bindings
+ * @returns `RobotProfileRegistry` stub
+ */
+export function getProfileStub(env: Env): DurableObjectStub {
+  return retryingStub(() => env.ROBOT_PROFILES.get(env.ROBOT_PROFILES.idFromName('global')));
+}
+
+/**
+ * Returns the stub of the shared resolved-case index
+ * 
+ * @param env - Environment bindings
+ * @returns `CaseIndex` stub
+ */
+export function getCaseIndexStub(env: Env): DurableObjectStub {
+  return retryingStub(() => env.CASE_INDEX.get(env.CASE_INDEX.idFromName('global')));
+}
+
+/**
+ * Returns the stub of the limiter for one caller
+ * 
+ * @param env - Environment bindings
+ * @param key - `user:<id>` or `ip:<address>`
+ * @returns `UsageLimiter` stub
+ */
+export function getLimiterStub(env: Env, key: string): DurableObjectStub {
+  return retryingStub(() => env.USAGE_LIMITER.get(env.USAGE_LIMITER.idFromName(key)));
+}
@@ -0,0 +1,188 @@
+/**
+ * Feedback - User Ratings of Assistant Replies
+ *
+ * Users rate each assistant reply with a thumbs up or down and an optional
+ * comment, and answer "Did this solve your problem?" under a solution. Feedback
+ * is stored with the message in its session and copied to the analytics store
+ * together with the stage and prompt version the reply was written with, so
+ * prompt changes can be compared by how their replies were received.
+ *
+ * @module feedback
+ */
+
+/**
+ * Thumbs up or down
+ */
+export type Rating = 'up' | 'down';
+
+export const RATINGS: Rating[] = ['up', 'down'];
+
+/** Longest comment kept */
+export const MAX_FEEDBACK_COMMENT = 2000;
+
+/** Formats of the feedback export */
+export const FEEDBACK_FORMATS = ['json', 'csv'] as const;
+
+export type FeedbackFormat = typeof FEEDBACK_FORMATS[number];
+
+/**
+ * Feedback on one assistant reply
+ */
+export interface MessageFeedback {
+  /** Thumbs up or down, null when not rated */
+  rating: Rating | null;
+  /** Free-text comment, null when none */
+  comment: string | null;
+  /** Answer to "Did this solve your problem?", null until answered */
+  solved: boolean | null;
+  /** When the feedback last changed (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Fields a user may set; fields not sent keep their stored value, null clears one
+ */
+export type FeedbackEdit = Partial<Pick<MessageFeedback, 'rating' | 'comment' | 'solved'>>;
+
+/**
+ * Feedback with the reply it is about, as exported for prompt comparison
+ */
+export interface FeedbackEntry extends MessageFeedback {
+  sessionId: string;
+  /** Row id of the rated message in its session */
+  messageId: number;
+  /** Session owner */
+  userId: string;
+  /** Stage the reply was written in */
+  stage: string | null;
+  /** Prompt version the reply was written with, null for replies that didn't call the model */
+  promptVersion: string | null;
+}
+
+/**
+ * How the replies of one prompt version were received
+ */
+export interface PromptFeedbackStats {
+  promptVersion: string | null;
+  /** Replies with any feedback */
+  replies: number;
+  up: number;
+  down: number;
+  /** Thumbs up as a fraction of rated replies, null when none were rated */
+  approval: number | null;
+  /** "Did this solve your problem?" answers */
+  solved: number;
+  unsolved: number;
+  /** Solved as a fraction of answers, null when there are none */
+  solveRate: number | null;
+  comments: number;
+}
+
+/**
+ * Validates a feedback update
+ *
+ * @param input - Parsed request body
+ * @returns Fields to merge, or the reasons they were rejected
+ */
+export function validateFeedback(input: unknown): { edit: FeedbackEdit; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { edit: {}, errors: ['Expected a JSON object'] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const edit: FeedbackEdit = {};
+  const errors: string[] = [];
+
+  if (body.rating !== undefined) {
+    if (body.rating !== null && !RATINGS.includes(body.rating as Rating)) {
+      errors.push(`rating must be one of: ${RATINGS.join(', ')}, or null`);
+    } else {
+      edit.rating = body.rating as Rating | null;
+    }
+  }
+
+  if (body.comment !== undefined) {
+    if (body.comment !== null && typeof body.comment !== 'string') {
+      errors.push('comment must be a string or null');
+    } else if (typeof body.comment === 'string' && body.comment.length > MAX_FEEDBACK_COMMENT) {
+      errors.push(`comment must be at most ${MAX_FEEDBACK_COMMENT} characters`);
+    } else {
+      edit.comment = typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : null;
+    }
+  }
+
+  if (body.solved !== undefined) {
+    if (body.solved !== null && typeof body.solved !== 'boolean') {
+      errors.push('solved must be a boolean or null');
+    } else {
+      edit.solved = body.solved as boolean | null;
+    }
+  }
+
+  if (!errors.length && !Object.keys(edit).length) {
+    errors.push('Send at least one of: rating, comment, solved');
+  }
+
+  return { edit, errors };
+}
+
+/**
+ * Groups feedback by prompt version
+ *
+ * @param entries - Exported feedback
+ * @returns One entry per prompt version, sorted by version label
+ */
+export function summarizeFeedback(entries: FeedbackEntry[]): PromptFeedbackStats[] {
+  const groups = new Map<string | null, PromptFeedbackStats>();
+  for (const entry of entries) {
+    const stats = groups.get(entry.promptVersion) || {
+      promptVersion: entry.promptVersion,
+      replies: 0,
+      up: 0,
+      down: 0,
+      approval: null,
+      solved: 0,
+      unsolved: 0,
+      solveRate: null,
+      comments: 0
+    };
+    stats.replies++;
+    if (entry.rating === 'up') stats.up++;
+    if (entry.rating === 'down') stats.down++;
+    if (entry.solved === true) stats.solved++;
+    if (entry.solved === false) stats.unsolved++;
+    if (entry.comment) stats.comments++;
+    groups.set(entry.promptVersion, stats);
+  }
+
+  const rate = (count: number, total: number) => (total ? Math.round((count / total) * 1000) / 1000 : null);
+  return [...groups.values()]
+    .map(stats => ({ ...stats, approval: rate(stats.up, stats.up + stats.down), solveRate: rate(stats.solved, stats.solved + stats.unsolved) }))
+    .sort((a, b) => (a.promptVersion || '').localeCompare(b.promptVersion || ''));
+}
+
+const CSV_COLUMNS: (keyof FeedbackEntry)[] = [
+  'sessionId', 'messageId', 'userId', 'stage', 'promptVersion', 'rating', 'solved', 'comment', 'updatedAt'
+];
+
+/**
+ * Quotes a CSV field when it holds a separator, quote or line break
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders exported feedback as CSV, with a header row and ISO timestamps
+ *
+ * @param entries - Exported feedback
+ * @returns CSV text
+ */
+export function renderFeedbackCsv(entries: FeedbackEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvField(
+    column === 'updatedAt' ? new Date(entry.updatedAt).toISOString() : entry[column]
+  )).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
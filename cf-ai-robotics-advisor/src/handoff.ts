@@ -0,0 +1,231 @@
+/**
+ * Handoff - Escalating a Session to a Human Expert
+ *
+ * When the advisor isn't getting anywhere, the owner escalates the session. The
+ * Worker issues a signed, expiring share link to a read-only view of the transcript
+ * and case file, and the session waits for an expert. Anyone with the link can read
+ * the session until the link expires or the handoff ends; an expert (the `expert` or
+ * `admin` role) can also reply into it, and those messages are stored with the
+ * `expert` role.
+ *
+ * The first expert to reply claims the session and the advisor is paused: the
+ * owner's messages are stored for the expert without an AI reply, and other experts
+ * can't reply. When the owner or that expert ends the handoff the advisor takes over
+ * again, with the expert's messages in its context.
+ *
+ * @module handoff
+ */
+
+import { CaseFile } from './caseFile';
+import { ChatMessage } from './types';
+import { SessionOutcome } from './verification';
+import { Stage } from './playbook';
+
+/**
+ * Where a handoff stands: waiting for an expert, being handled by one (the advisor
+ * is paused), or over
+ */
+export type HandoffStatus = 'waiting' | 'active' | 'ended';
+
+/** Lifetime of a share link when the request doesn't set one */
+export const DEFAULT_SHARE_TTL_HOURS = 72;
+
+/** Longest a share link may stay valid */
+export const MAX_SHARE_TTL_HOURS = 30 * 24;
+
+/** Longest reason kept with an escalation */
+export const MAX_HANDOFF_REASON = 500;
+
+/** Longest message an expert may post */
+export const MAX_EXPERT_MESSAGE = 4000;
+
+/**
+ * A session's handoff to a human expert, as stored with the session
+ */
+export interface Handoff {
+  /** Identifies this escalation; its share links stop working when it ends */
+  id: string;
+  status: HandoffStatus;
+  /** What the owner wants the expert to look at, null when not given */
+  reason: string | null;
+  /** When the session was escalated (ms since epoch) */
+  requestedAt: number;
+  /** Owner who escalated it */
+  requestedBy: string;
+  /** Expert who claimed the session with the first reply, null until one has */
+  expertId: string | null;
+  /** When an expert first replied (ms since epoch), null until one has */
+  joinedAt: number | null;
+  /** When the handoff ended (ms since epoch), null while it is open */
+  endedAt: number | null;
+  /** User who ended it, null while it is open */
+  endedBy: string | null;
+}
+
+/**
+ * Escalation options
+ */
+export interface HandoffRequest {
+  reason: string | null;
+  /** Lifetime of the share link */
+  ttlHours: number;
+}
+
+/**
+ * Read-only view of a session behind a share link
+ */
+export interface SharedSession {
+  sessionId: string;
+  title: string | null;
+  stage: Stage;
+  outcome: SessionOutcome | null;
+  handoff: Handoff | null;
+  caseFile: CaseFile;
+  /** The case file as a bullet list, empty when nothing is known yet */
+  caseSummary: string;
+  /** Full transcript, without the owner's feedback */
+  history: ChatMessage[];
+  /** When the link stops working (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Validates an escalation request; an empty body takes the defaults
+ *
+ * @param input - Parsed request body, or null when there was none
+ * @returns Options, or the reasons they were rejected
+ */
+export function validateHandoffRequest(input: unknown): { request: HandoffRequest; errors: string[] } {
+  const request: HandoffRequest = { reason: null, ttlHours: DEFAULT_SHARE_TTL_HOURS };
+  if (input === null || input === undefined) {
+    return { request, errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { request, errors: ['Expected a JSON object'] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (body.reason !== undefined && body.reason !== null) {
+    if (typeof body.reason !== 'string') {
+      errors.push('reason must be a string');
+    } else if (body.reason.length > MAX_HANDOFF_REASON) {
+      errors.push(`reason must be at most ${MAX_HANDOFF_REASON} characters`);
+    } else {
+      request.reason = body.reason.trim() || null;
+    }
+  }
+
+  if (body.expiresInHours !== undefined) {
+    const hours = body.expiresInHours;
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0 || hours > MAX_SHARE_TTL_HOURS) {
+      errors.push(`expiresInHours must be greater than 0 and at most ${MAX_SHARE_TTL_HOURS}`);
+    } else {
+      request.ttlHours = hours;
+    }
+  }
+
+  return { request, errors };
+}
+
+/**
+ * Validates a message an expert posts into a session
+ *
+ * @param input - Parsed request body
+ * @returns The trimmed message, or why it was rejected
+ */
+export function validateExpertMessage(input: unknown): { content: string | null; error: string | null } {
+  const message = (input as Record<string, unknown> | null)?.message;
+  if (typeof message !== 'string' || !message.trim()) {
+    return { content: null, error: 'message must be a non-empty string' };
+  }
+  if (message.length > MAX_EXPERT_MESSAGE) {
+    return { content: null, error: `message must be at most ${MAX_EXPERT_MESSAGE} characters` };
+  }
+  return { content: message.trim(), error: null };
+}
+
+/**
+ * Whether a handoff is waiting for or being handled by an expert
+ */
+export function isHandoffOpen(handoff: Handoff | null): handoff is Handoff {
+  return !!handoff && handoff.status !== 'ended';
+}
+
+/**
+ * Whether the advisor should hold its replies because an expert is handling the session
+ */
+export function isAdvisorPaused(handoff: Handoff | null): boolean {
+  return handoff?.status === 'active';
+}
+
+/**
+ * Escalates a session, or updates the reason of a handoff that is still open
+ *
+ * @param current - Stored handoff, if any
+ * @param request - Escalation options
+ * @param userId - Owner escalating the session
+ * @param now - Current time (ms since epoch)
+ * @returns Handoff to store
+ */
+export function openHandoff(current: Handoff | null, request: HandoffRequest, userId: string, now: number): Handoff {
+  if (isHandoffOpen(current)) {
+    return { ...current, reason: request.reason ?? current.reason };
+  }
+  return {
+    id: crypto.randomUUID(),
+    status: 'waiting',
+    reason: request.reason,
+    requestedAt: now,
+    requestedBy: userId,
+    expertId: null,
+    joinedAt: null,
+    endedAt: null,
+    endedBy: null
+  };
+}
+
+/**
+ * Whether another expert has claimed the session
+ *
+ * @param handoff - Stored handoff
+ * @param userId - Expert who wants to act on it
+ */
+export function isClaimedByOther(handoff: Handoff, userId: string): boolean {
+  return handoff.expertId !== null && handoff.expertId !== userId;
+}
+
+/**
+ * Records an expert's reply, which pauses the advisor; the first expert to reply claims the session
+ *
+ * @param handoff - Open handoff, not claimed by another expert
+ * @param expertId - Expert who replied
+ * @param now - Current time (ms since epoch)
+ * @returns Active handoff
+ */
+export function joinHandoff(handoff: Handoff, expertId: string, now: number): Handoff {
+  return { ...handoff, status: 'active', expertId: handoff.expertId ?? expertId, joinedAt: handoff.joinedAt ?? now };
+}
+
+/**
+ * Ends a handoff; the advisor replies again from the next message
+ *
+ * @param handoff - Open handoff
+ * @param userId - Owner or expert ending it
+ * @param now - Current time (ms since epoch)
+ * @returns Ended handoff
+ */
+export function endHandoff(handoff: Handoff, userId: string, now: number): Handoff {
+  return { ...handoff, status: 'ended', endedAt: now, endedBy: userId };
+}
+
+/**
+ * Strips what only the owner should see from a transcript before it is shared
+ *
+ * @param history - Stored messages
+ * @returns Messages without feedback
+ */
+export function shareTranscript(history: ChatMessage[]): ChatMessage[] {
+  return history.map(({ feedback: _feedback, ...message }) => message);
+}
@@ -0,0 +1,235 @@
+/**
+ * Handoff Routes - Handlers for Sessions Handed Off to a Human Expert
+ *
+ * Escalating a session with a share link, the read-only view behind the link, an
+ * expert's replies, and handing the session back to the advisor. While the advisor is
+ * paused, the owner's chat messages are held for the expert (see `handoff`).
+ *
+ * @module handoffRoutes
+ */
+
+import { CaseFile, emptyCaseFile, formatCaseFile } from './caseFile';
+import { DurableObjectStub } from './types';
+import { Principal, signShareToken, verifyShareToken } from './auth';
+import { Handoff, SharedSession, isHandoffOpen, shareTranscript, validateExpertMessage, validateHandoffRequest } from './handoff';
+import { Env, getSessionStub } from './env';
+
+/**
+ * Escalates a session to a human expert and issues a read-only share link to it
+ * 
+ * Escalating a session that is already handed off keeps the handoff and issues a new link.
+ * Links only work while the handoff they were issued for is open.
+ * 
+ * @param sessionId - Session to escalate
+ * @param request - Request whose optional body sets `reason` and `expiresInHours` (default 72, at most 720)
+ * @param url - Request URL, for the link's origin
+ * @param principal - Caller, who owns the session
+ * @param env - Environment bindings
+ * @returns JSON `{ sessionId, handoff, shareUrl, expiresAt }` (201); 400 for an invalid body
+ */
+export async function escalateSession(sessionId: string, request: Request, url: URL, principal: Principal, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => null);
+  const { request: options, errors } = validateHandoffRequest(body);
+
+  if (errors.length) {
+    return new Response(JSON.stringify({ error: errors.join('; ') }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!env.AUTH_SECRET) {
+    return new Response(JSON.stringify({ error: 'AUTH_SECRET is not configured' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const escalateReq = new Request('http://do/handoff', {
+      method: 'POST',
+      body: JSON.stringify({ ...options, userId: principal.userId })
+    });
+    const { handoff } = await (await getSessionStub(env, sessionId).fetch(escalateReq)).json() as { handoff: Handoff };
+
+    const ttlSeconds = Math.round(options.ttlHours * 60 * 60);
+    const token = await signShareToken(env.AUTH_SECRET, sessionId, handoff.id, ttlSeconds);
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+
+    return new Response(JSON.stringify({ sessionId, handoff, shareUrl: `${url.origin}/share/${token}`, expiresAt }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Ends a session's handoff; the advisor answers the owner's next message
+ * 
+ * @param sessionId - Handed-off session
+ * @param principal - The owner, or an expert
+ * @param env - Environment bindings
+ * @returns JSON `{ handoff }`, 409 if the session isn't handed off, or 403 if another expert claimed it
+ */
+export async function endSessionHandoff(sessionId: string, principal: Principal, env: Env): Promise<Response> {
+  const endReq = new Request('http://do/handoff', { method: 'DELETE', body: JSON.stringify({ userId: principal.userId }) });
+  const res = await getSessionStub(env, sessionId).fetch(endReq);
+  return new Response(await res.text(), { status: res.status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Posts an expert's reply into a handed-off session; the advisor is paused until the handoff ends
+ * 
+ * @param sessionId - Handed-off session
+ * @param request - Request whose body is `{ message }`
+ * @param principal - Expert or admin
+ * @param env - Environment bindings
+ * @returns JSON `{ sessionId, messageId, handoff }` (201); 400 for an empty message, 409 if the session
+ *   isn't handed off, 403 if another expert claimed it
+ */
+export async function postExpertMessage(sessionId: string, request: Request, principal: Principal, env: Env): Promise<Response> {
+  const { content, error } = validateExpertMessage(await request.json().catch(() => null));
+  if (error) {
+    return new Response(JSON.stringify({ error }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const postReq = new Request('http://do/messages', {
+    method: 'POST',
+    body: JSON.stringify({ role: 'expert', content, author: principal.userId })
+  });
+  const res = await getSessionStub(env, sessionId).fetch(postReq);
+  const saved = await res.json() as any;
+
+  return new Response(JSON.stringify(res.ok ? { sessionId, ...saved } : saved), {
+    status: res.status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Stores an owner's message for the expert handling the session instead of answering it
+ * 
+ * @param doStub - Session's `AdvisorState`
+ * @param sessionId - Session the message is for
+ * @param userMessage - Owner's message
+ * @param files - Attached files, which can't be held
+ * @param turnId - Client's id for the turn, sent back on the `message` frame
+ * @returns JSON `{ sessionId, message: null, paused: true, messageId, handoff }` (202); 409 with attachments
+ */
+export async function holdForExpert(doStub: DurableObjectStub, sessionId: string, userMessage: string, files: File[], turnId: unknown): Promise<Response> {
+  if (files.length) {
+    return new Response(JSON.stringify({ error: "Attachments can't be sent while an expert is handling the session" }), {
+      status: 409,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const postReq = new Request('http://do/messages', {
+    method: 'POST',
+    body: JSON.stringify({ role: 'user', content: userMessage, turnId: typeof turnId === 'string' ? turnId : undefined })
+  });
+  const res = await doStub.fetch(postReq);
+  const saved = await res.json() as any;
+  if (!res.ok) {
+    return new Response(JSON.stringify(saved), { status: res.status, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  return new Response(JSON.stringify({ sessionId, message: null, paused: true, messageId: saved.messageId, handoff: saved.handoff }), {
+    status: 202,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Returns the read-only view of a session behind a share link
+ * 
+ * @param token - Share token from the link
+ * @param env - Environment bindings
+ * @returns JSON `SharedSession`; 404 when the link is forged or expired, its handoff has ended,
+ *   or the session was deleted
+ */
+export async function getSharedSession(token: string, env: Env): Promise<Response> {
+  const grant = env.AUTH_SECRET ? await verifyShareToken(env.AUTH_SECRET, token) : null;
+  if (!grant) {
+    return new Response(JSON.stringify({ error: 'Share link is invalid or has expired' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const doStub = getSessionStub(env, grant.sessionId);
+    const { owner } = await (await doStub.fetch(new Request('http://do/owner', { method: 'GET' }))).json() as { owner: string | null };
+    if (!owner) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const state = await (await doStub.fetch(new Request('http://do/state', { method: 'GET' }))).json() as any;
+    if (!isHandoffOpen(state.handoff) || state.handoff.id !== grant.handoffId) {
+      return new Response(JSON.stringify({ error: 'Share link is no longer valid; the handoff has ended' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const caseFile: CaseFile = state.caseFile || emptyCaseFile();
+    const shared: SharedSession = {
+      sessionId: grant.sessionId,
+      title: state.title,
+      stage: state.stage,
+      outcome: state.outcome,
+      handoff: state.handoff,
+      caseFile,
+      caseSummary: formatCaseFile(caseFile),
+      history: shareTranscript(state.history || []),
+      expiresAt: grant.expiresAt
+    };
+
+    return new Response(JSON.stringify(shared), { headers: { 'Content-Type': 'application/json' } });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Checks that the caller is an expert (or admin) and the session exists; experts work on sessions
+ * they don't own
+ * 
+ * @param env - Environment bindings
+ * @param principal - Caller
+ * @param sessionId - Session being accessed
+ * @returns 403 or 404 response, or null if the caller may act as the session's expert
+ */
+export async function authorizeExpert(env: Env, principal: Principal, sessionId: string): Promise<Response | null> {
+  if (principal.role === 'user') {
+    return new Response(JSON.stringify({ error: 'Expert role required' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const ownerRes = await getSessionStub(env, sessionId).fetch(new Request('http://do/owner', { method: 'GET' }));
+  const { owner } = await ownerRes.json() as { owner: string | null };
+  if (!owner) {
+    return new Response(JSON.stringify({ error: 'Session not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return null;
+}
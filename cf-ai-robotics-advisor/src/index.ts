@@ -1,599 +1,373 @@
 /**
  * Robotics Troubleshooting Advisor - Main Worker Entry Point
  * 
- * This file contains the Cloudflare Worker that handles:
- * - Serving the chat UI
- * - Processing chat messages with AI
- * - Managing session state via Durable Objects
+ * This file contains the Cloudflare Worker's router, which authenticates each API
+ * request and hands it to the module that handles it:
+ * - `chatPage`, `adminPage` and `sharePage` serve the chat UI, the analytics dashboard and the share view
+ * - `chat` processes chat messages with AI
+ * - `sessionRoutes`, `libraryRoutes`, `usageRoutes`, `adminRoutes` and `handoffRoutes` handle the rest of the API
+ * - `advisorState` manages session state in a Durable Object per session
  * 
  * @module index
  */
 
-/**
- * Environment bindings available to the Worker
- */
-interface Env {
-  /** Workers AI binding for LLM inference */
-  AI: Ai;
-  /** Durable Object namespace for session persistence */
-  ADVISOR_STATE: DurableObjectNamespace;
-}
+import { SessionRegistry } from './sessionRegistry';
+import { KnowledgeBase } from './knowledge';
+import { RobotProfileRegistry } from './profiles';
+import { Principal, authenticate } from './auth';
+import { CaseIndex } from './caseIndex';
+import { AnalyticsLog } from './analytics';
+import { UsageLimiter } from './rateLimit';
+import { Env } from './env';
+import { AdvisorState } from './advisorState';
+import { handleChat } from './chat';
+import { authorizeSession, connectSocket, createSession, deleteSession, getAttachment, getCase, getHistory, getReport, getSafetyLog, getTelemetry, ingestTelemetry, listSessions, listTelemetry, renameSession, resetSession, saveFeedback } from './sessionRoutes';
+import { getUsage, issueGuestToken } from './usageRoutes';
+import { createProfile, deleteCase, deleteDocument, deleteProfile, editCase, forwardProfileRequest, getResolvedCase, ingestDocument, listCases, listDocuments, listPlaybooks, listProfiles, updateProfile } from './libraryRoutes';
+import { exportFeedback, getAnalytics } from './adminRoutes';
+import { authorizeExpert, endSessionHandoff, escalateSession, getSharedSession, postExpertMessage } from './handoffRoutes';
+import { serveUI } from './chatPage';
+import { serveAdmin } from './adminPage';
+import { serveShare } from './sharePage';
+
+export { SessionRegistry, KnowledgeBase, RobotProfileRegistry, CaseIndex, UsageLimiter, AnalyticsLog, AdvisorState };
 
 /**
- * Workers AI interface for running LLM models
+ * Rejects a path the routes can't percent-decode
+ * 
+ * Routes decode their `:id` segments with `decodeURIComponent`, which throws on a
+ * malformed escape such as `%E0%A4%A`; checking the whole path up front covers every
+ * segment, since an escape can't span a `/`.
+ * 
+ * @param path - Request path, still encoded
+ * @returns 400 response when the path doesn't decode, otherwise null
  */
-interface Ai {
-  run(model: string, options: AiOptions): Promise<AiResponse>;
+function badPathEncoding(path: string): Response | null {
+  try {
+    decodeURIComponent(path);
+    return null;
+  } catch (error) {
+    if (!(error instanceof URIError)) throw error;
+    return new Response(JSON.stringify({ error: 'Malformed percent-encoding in the path' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 }
 
 /**
- * Configuration options for AI model execution
+ * Rejects callers without the admin role
+ * 
+ * @param principal - Caller
+ * @returns 403 response, or null if the caller is an admin
  */
-interface AiOptions {
-  /** Array of messages forming the conversation context */
-  messages: AiMessage[];
-  /** Temperature (0-1) controlling response randomness */
-  temperature: number;
-  /** Maximum tokens to generate in response */
-  max_tokens: number;
-}
+function requireAdmin(principal: Principal): Response | null {
+  if (principal.role === 'admin') return null;
 
-/**
- * Individual message in the conversation
- */
-interface AiMessage {
-  /** Role of the message sender */
-  role: 'system' | 'user' | 'assistant';
-  /** Content of the message */
-  content: string;
+  return new Response(JSON.stringify({ error: 'Admin role required' }), {
+    status: 403,
+    headers: { 'Content-Type': 'application/json' }
+  });
 }
 
-/**
- * Response from the AI model
- */
-interface AiResponse {
-  /** Generated response text */
-  response?: string;
-  [key: string]: any;
-}
+// ============================================================================
+// WORKER
+// ============================================================================
 
 /**
- * Durable Object namespace for creating and accessing instances
+ * Main Worker Export
+ * Handles HTTP requests and routes to appropriate handlers
  */
-interface DurableObjectNamespace {
-  get(id: DurableObjectId): DurableObjectStub;
-  idFromName(name: string): DurableObjectId;
-}
+const worker = {
+  /**
+   * Main request handler for the Worker
+   * Routes requests based on path:
+   * - GET / → Serves chat UI
+   * - GET /admin → Serves the analytics dashboard (its data needs an admin credential)
+   * - POST /api/auth/guest → Issues a signed token for a new guest user (limited per client IP)
+   * - GET /share/:token → Serves the read-only view of a shared session, where experts can also reply
+   * - GET /api/share/:token → Retrieves a shared session's transcript and case summary while its link is valid
+   * 
+   * Every other route needs a caller (see `authenticate`), and session routes need
+   * the session's owner unless noted:
+   * - POST /api/sessions → Creates a session owned by the caller
+   * - POST /api/chat → Processes chat messages (JSON, or SSE when streaming is requested); 429 once a
+   *   rate limit or token budget is reached
+   * - GET /api/usage?sessionId= → Returns the caller's remaining quota
+   * - GET /api/history/:id?before=&limit= → Retrieves session state with its history, or one page of it
+   * - GET /api/session/:id/case → Retrieves the session's structured case file
+   * - GET /api/session/:id/attachments/:attachmentId → Serves an attached image
+   * - GET /api/session/:id/report?format=md|json|html → Exports a maintenance report
+   * - GET /api/session/:id/safety → Lists the session's turns flagged by the safety guardrails (admin)
+   * - POST /api/session/:id/telemetry?name=&timeUnit=s|ms → Stores sensor data (JSON or CSV) with its statistics
+   *   and anomaly flags, which the diagnostic and solution prompts then use
+   * - GET /api/session/:id/telemetry → Lists the session's telemetry uploads with their analysis
+   * - GET /api/session/:id/telemetry/:telemetryId → Retrieves one upload with its samples
+   * - GET /api/session/:id/socket?token= → Opens a WebSocket to the session (see `realtime`): messages sent over it
+   *   are streamed to every device on the session, with presence and typing indicators
+   * - POST /api/session/:id/handoff → Escalates a session to a human expert (see `handoff`) and returns a signed,
+   *   expiring read-only share link
+   * - DELETE /api/session/:id/handoff → Ends the handoff so the advisor replies again (the owner, or the expert
+   *   who joined it)
+   * - POST /api/session/:id/expert → Posts an expert's reply into a handed-off session, pausing the advisor
+   *   (expert or admin)
+   * - GET /api/sessions → Lists the caller's sessions
+   * - PATCH /api/session/:id → Renames a session
+   * - POST /api/session/:id/reset → Restarts a session's diagnosis
+   * - PUT /api/session/:id/messages/:messageId/feedback → Rates an assistant reply: thumbs up or down, a comment,
+   *   and whether it solved the problem
+   * - DELETE /api/session/:id → Deletes a session
+   * - GET /api/knowledge → Lists ingested documents
+   * - POST /api/knowledge → Chunks, embeds and stores a document (admin)
+   * - DELETE /api/knowledge/:id → Removes a document (admin)
+   * - GET /api/playbooks → Lists the diagnosis playbooks with their facts and prompt versions
+   * - GET /api/profiles → Lists robot profiles
+   * - POST /api/profiles → Creates a robot profile (admin)
+   * - GET /api/profiles/:id → Retrieves a robot profile
+   * - PUT /api/profiles/:id → Updates a robot profile, keeping fields not sent (admin)
+   * - DELETE /api/profiles/:id → Removes a robot profile (admin)
+   * - GET /api/cases → Lists resolved cases, including hidden ones (admin)
+   * - GET /api/cases/:id → Retrieves a resolved case (admin)
+   * - PATCH /api/cases/:id → Curates a resolved case: corrects fields, verifies or hides it (admin)
+   * - DELETE /api/cases/:id → Removes a resolved case (admin)
+   * - GET /api/admin/analytics?days= → Aggregates diagnosis events over the last days (admin)
+   * - GET /api/admin/sessions/:id?before=&limit= → Retrieves any session's state and transcript (admin)
+   * - GET /api/admin/feedback?days=&format=json|csv → Exports feedback on replies with their prompt versions (admin)
+   * 
+   * @param request - Incoming HTTP request
+   * @param env - Environment bindings (AI, Durable Objects)
+   * @param ctx - Execution context, used to keep streamed responses alive
+   * @returns Response (HTML or JSON)
+   */
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
 
-/**
- * Stub for communicating with a Durable Object instance
- */
-interface DurableObjectStub {
-  fetch(request: Request): Promise<Response>;
-}
+    if (path === '/' && request.method === 'GET') {
+      return serveUI();
+    }
 
-/**
- * Unique identifier for a Durable Object instance
- */
-interface DurableObjectId {}
+    if (path === '/admin' && request.method === 'GET') {
+      return serveAdmin();
+    }
 
-/**
- * State interface for Durable Object storage
- */
-interface DurableObjectState {
-  storage: {
-    get(key: string): Promise<any>;
-    put(key: string, value: any): Promise<void>;
-  };
-}
+    if (path === '/api/auth/guest' && request.method === 'POST') {
+      return await issueGuestToken(request, env);
+    }
 
-/**
- * Message format stored in conversation history
- */
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: number;
-}
+    const badPath = badPathEncoding(path);
+    if (badPath) {
+      return badPath;
+    }
 
-/**
- * Session state structure stored in Durable Object
- */
-interface SessionState {
-  stage: string;
-  history: ChatMessage[];
-}
+    // Share links carry their own signed token
+    const sharePageMatch = path.match(/^\/share\/([^/]+)$/);
+    if (sharePageMatch && request.method === 'GET') {
+      return serveShare();
+    }
 
-import { DiagnosisWorkflow } from './workflow';
+    const shareMatch = path.match(/^\/api\/share\/([^/]+)$/);
+    if (shareMatch && request.method === 'GET') {
+      return await getSharedSession(decodeURIComponent(shareMatch[1]), env);
+    }
 
-// ============================================================================
-// DURABLE OBJECT
-// ============================================================================
+    // Everything below needs to know who is calling
+    const { principal, error } = await authenticate(request, env);
+    if (!principal) {
+      return new Response(JSON.stringify({ error }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' }
+      });
+    }
 
-/**
- * AdvisorState - Durable Object for Session Persistence
- * 
- * Manages conversation history and diagnosis stage for each user session.
- * Each session gets its own instance, identified by session ID.
- */
-export class AdvisorState {
-  state: DurableObjectState;
+    if (path === '/api/sessions' && request.method === 'POST') {
+      return await createSession(principal, env);
+    }
 
-  constructor(state: DurableObjectState) {
-    this.state = state;
-  }
+    if (path === '/api/chat' && request.method === 'POST') {
+      return await handleChat(request, env, ctx, principal);
+    }
 
-  /**
-   * Handles incoming requests to the Durable Object
-   * Routes to appropriate handler based on pathname
-   * 
-   * @param request - HTTP request from the Worker
-   * @returns Response with requested data or error
-   */
-  async fetch(request: Request): Promise<Response> {
-    const url = new URL(request.url);
+    if (path === '/api/usage' && request.method === 'GET') {
+      const sessionId = url.searchParams.get('sessionId');
+      return (sessionId && await authorizeSession(env, principal, sessionId)) || await getUsage(principal, sessionId, env);
+    }
 
-    if (url.pathname === '/message' && request.method === 'POST') {
-      return await this.handleMessage(request);
+    const historyMatch = path.match(/^\/api\/history\/([^/]+)$/);
+    if (historyMatch && request.method === 'GET') {
+      const sessionId = decodeURIComponent(historyMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await getHistory(sessionId, url, env);
     }
 
-    if (url.pathname === '/state' && request.method === 'GET') {
-      return await this.getState();
+    const caseMatch = path.match(/^\/api\/session\/([^/]+)\/case$/);
+    if (caseMatch && request.method === 'GET') {
+      const sessionId = decodeURIComponent(caseMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await getCase(sessionId, env);
     }
 
-    return new Response('Not found', { status: 404 });
-  }
+    const reportMatch = path.match(/^\/api\/session\/([^/]+)\/report$/);
+    if (reportMatch && request.method === 'GET') {
+      const sessionId = decodeURIComponent(reportMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await getReport(sessionId, url, env);
+    }
 
-  /**
-   * Stores a new message pair (user + assistant) in conversation history
-   * Updates the current diagnosis stage
-   * 
-   * @param request - Request containing userMessage, assistantMessage, and nextStage
-   * @returns Success response with updated message count and stage
-   */
-  async handleMessage(request: Request): Promise<Response> {
-    try {
-      const { userMessage, assistantMessage, nextStage } = await request.json() as any;
+    const safetyMatch = path.match(/^\/api\/session\/([^/]+)\/safety$/);
+    if (safetyMatch && request.method === 'GET') {
+      return requireAdmin(principal) || await getSafetyLog(decodeURIComponent(safetyMatch[1]), env);
+    }
 
-      const historyStr = await this.state.storage.get('history') || '[]';
-      const history = JSON.parse(historyStr);
+    const attachmentMatch = path.match(/^\/api\/session\/([^/]+)\/attachments\/([^/]+)$/);
+    if (attachmentMatch && request.method === 'GET') {
+      const sessionId = decodeURIComponent(attachmentMatch[1]);
+      return await authorizeSession(env, principal, sessionId) ||
+        await getAttachment(sessionId, decodeURIComponent(attachmentMatch[2]), env);
+    }
 
-      history.push({ role: 'user', content: userMessage, timestamp: Date.now() });
-      history.push({ role: 'assistant', content: assistantMessage, timestamp: Date.now() });
+    const telemetryMatch = path.match(/^\/api\/session\/([^/]+)\/telemetry$/);
+    if (telemetryMatch && request.method === 'POST') {
+      const sessionId = decodeURIComponent(telemetryMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await ingestTelemetry(sessionId, request, url, env);
+    }
 
-      await this.state.storage.put('history', JSON.stringify(history));
-      await this.state.storage.put('stage', nextStage);
+    if (telemetryMatch && request.method === 'GET') {
+      const sessionId = decodeURIComponent(telemetryMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await listTelemetry(sessionId, env);
+    }
 
-      return new Response(
-        JSON.stringify({ success: true, messageCount: history.length, stage: nextStage }),
-        { headers: { 'Content-Type': 'application/json' } }
-      );
-    } catch (error: any) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
+    const telemetryUploadMatch = path.match(/^\/api\/session\/([^/]+)\/telemetry\/(\d+)$/);
+    if (telemetryUploadMatch && request.method === 'GET') {
+      const sessionId = decodeURIComponent(telemetryUploadMatch[1]);
+      return await authorizeSession(env, principal, sessionId) ||
+        await getTelemetry(sessionId, Number(telemetryUploadMatch[2]), env);
     }
-  }
 
-  /**
-   * Retrieves current session state (stage and conversation history)
-   * 
-   * @returns Session state including stage, message count, and full history
-   */
-  async getState(): Promise<Response> {
-    try {
-      const historyStr = await this.state.storage.get('history') || '[]';
-      const stage = await this.state.storage.get('stage') || 'initial';
-      const history = JSON.parse(historyStr);
-
-      return new Response(
-        JSON.stringify({ stage, messageCount: history.length, history }),
-        { headers: { 'Content-Type': 'application/json' } }
-      );
-    } catch (error: any) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
+    const socketMatch = path.match(/^\/api\/session\/([^/]+)\/socket$/);
+    if (socketMatch && request.method === 'GET') {
+      const sessionId = decodeURIComponent(socketMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await connectSocket(sessionId, request, principal, env);
     }
-  }
-}
 
-// ============================================================================
-// WORKER
-// ============================================================================
+    const handoffMatch = path.match(/^\/api\/session\/([^/]+)\/handoff$/);
+    if (handoffMatch && request.method === 'POST') {
+      const sessionId = decodeURIComponent(handoffMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await escalateSession(sessionId, request, url, principal, env);
+    }
 
-/**
- * Main Worker Export
- * Handles HTTP requests and routes to appropriate handlers
- */
-export default {
-  /**
-   * Main request handler for the Worker
-   * Routes requests based on path:
-   * - GET / → Serves chat UI
-   * - POST /api/chat → Processes chat messages
-   * - GET /api/history/:id → Retrieves session history
-   * 
-   * @param request - Incoming HTTP request
-   * @param env - Environment bindings (AI, Durable Objects)
-   * @returns Response (HTML or JSON)
-   */
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
-    const path = url.pathname;
+    if (handoffMatch && request.method === 'DELETE') {
+      const sessionId = decodeURIComponent(handoffMatch[1]);
+      const denied = principal.role === 'user'
+        ? await authorizeSession(env, principal, sessionId)
+        : await authorizeExpert(env, principal, sessionId);
+      return denied || await endSessionHandoff(sessionId, principal, env);
+    }
 
-    if (path === '/' && request.method === 'GET') {
-      return this.serveUI();
+    const expertMatch = path.match(/^\/api\/session\/([^/]+)\/expert$/);
+    if (expertMatch && request.method === 'POST') {
+      const sessionId = decodeURIComponent(expertMatch[1]);
+      return await authorizeExpert(env, principal, sessionId) || await postExpertMessage(sessionId, request, principal, env);
     }
 
-    if (path === '/api/chat' && request.method === 'POST') {
-      return await this.handleChat(request, env);
+    if (path === '/api/sessions' && request.method === 'GET') {
+      return await listSessions(principal, env);
     }
 
-    if (path.startsWith('/api/history/') && request.method === 'GET') {
-      return await this.getHistory(request, env);
+    const resetMatch = path.match(/^\/api\/session\/([^/]+)\/reset$/);
+    if (resetMatch && request.method === 'POST') {
+      const sessionId = decodeURIComponent(resetMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await resetSession(sessionId, principal, env);
     }
 
-    return new Response(JSON.stringify({ error: 'Not found' }), { 
-      status: 404,
-      headers: { 'Content-Type': 'application/json' } 
-    });
-  },
-
-  serveUI(): Response {
-    return new Response(`
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Robotics Troubleshooting Advisor</title>
-        <style>
-          * { margin: 0; padding: 0; box-sizing: border-box; }
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            min-height: 100vh;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            padding: 20px;
-          }
-          .container {
-            width: 100%;
-            max-width: 700px;
-            background: white;
-            border-radius: 12px;
-            box-shadow: 0 20px 60px rgba(0,0,0,0.3);
-            display: flex;
-            flex-direction: column;
-            height: 85vh;
-          }
-          .header {
-            padding: 20px;
-            border-bottom: 1px solid #eee;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white;
-          }
-          .header h1 {
-            font-size: 24px;
-            margin-bottom: 5px;
-          }
-          .header p {
-            font-size: 14px;
-            opacity: 0.9;
-          }
-          #chat {
-            flex: 1;
-            overflow-y: auto;
-            padding: 20px;
-            background: #f9f9f9;
-          }
-          .message {
-            margin-bottom: 15px;
-            animation: fadeIn 0.3s ease-in;
-          }
-          @keyframes fadeIn {
-            from { opacity: 0; transform: translateY(10px); }
-            to { opacity: 1; transform: translateY(0); }
-          }
-          .message.user {
-            text-align: right;
-          }
-          .message.assistant {
-            text-align: left;
-          }
-          .message-content {
-            display: inline-block;
-            max-width: 85%;
-            padding: 12px 16px;
-            border-radius: 8px;
-            word-wrap: break-word;
-            line-height: 1.5;
-          }
-          .message.user .message-content {
-            background: #667eea;
-            color: white;
-            border-bottom-right-radius: 2px;
-          }
-          .message.assistant .message-content {
-            background: #e9ecef;
-            color: #333;
-            border-bottom-left-radius: 2px;
-          }
-          .footer {
-            padding: 20px;
-            border-top: 1px solid #eee;
-            background: white;
-            display: flex;
-            gap: 10px;
-          }
-          #userInput {
-            flex: 1;
-            padding: 12px 16px;
-            border: 1px solid #ddd;
-            border-radius: 8px;
-            font-size: 14px;
-            outline: none;
-          }
-          #userInput:focus {
-            border-color: #667eea;
-          }
-          #sendBtn {
-            padding: 12px 24px;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white;
-            border: none;
-            border-radius: 8px;
-            cursor: pointer;
-            font-weight: 600;
-          }
-          #sendBtn:hover {
-            transform: translateY(-2px);
-          }
-          .stage-indicator {
-            font-size: 12px;
-            color: #999;
-            padding: 0 20px 10px 20px;
-          }
-          .typing {
-            display: inline-block;
-            width: 20px;
-            height: 12px;
-          }
-          .typing span {
-            display: inline-block;
-            width: 4px;
-            height: 12px;
-            background: #667eea;
-            border-radius: 2px;
-            margin: 0 2px;
-            animation: typing 1.4s infinite;
-          }
-          .typing span:nth-child(2) { animation-delay: 0.2s; }
-          .typing span:nth-child(3) { animation-delay: 0.4s; }
-          @keyframes typing {
-            0%, 60%, 100% { opacity: 0.3; }
-            30% { opacity: 1; }
-          }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>🤖 Robotics Troubleshooting Advisor</h1>
-            <p>Describe your robot problem and I'll help diagnose it</p>
-          </div>
-          <div class="stage-indicator">
-            <span id="stageLabel">Stage: Initial Diagnosis</span>
-          </div>
-          <div id="chat"></div>
-          <div class="footer">
-            <input type="text" id="userInput" placeholder="E.g., My line follower oscillates...">
-            <button id="sendBtn">Send</button>
-          </div>
-        </div>
-
-        <script>
-          let sessionId = 'session_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-          let isWaiting = false;
-
-          const chatEl = document.getElementById('chat');
-          const inputEl = document.getElementById('userInput');
-          const sendBtn = document.getElementById('sendBtn');
-          const stageLabel = document.getElementById('stageLabel');
-
-          const stageNames = { initial: 'Initial Diagnosis', diagnostic: 'Diagnostic Phase', solution: 'Solution Generation' };
-
-          function addMessage(text, role) {
-            const msgDiv = document.createElement('div');
-            msgDiv.className = 'message ' + role;
-            const content = document.createElement('div');
-            content.className = 'message-content';
-            content.textContent = text;
-            msgDiv.appendChild(content);
-            chatEl.appendChild(msgDiv);
-            chatEl.scrollTop = chatEl.scrollHeight;
-          }
-
-          function showTyping() {
-            const msgDiv = document.createElement('div');
-            msgDiv.className = 'message assistant';
-            msgDiv.id = 'typing-indicator';
-            const content = document.createElement('div');
-            content.className = 'message-content';
-            content.innerHTML = '<div class="typing"><span></span><span></span><span></span></div>';
-            msgDiv.appendChild(content);
-            chatEl.appendChild(msgDiv);
-            chatEl.scrollTop = chatEl.scrollHeight;
-          }
-
-          function removeTyping() {
-            const typing = document.getElementById('typing-indicator');
-            if (typing) typing.remove();
-          }
-
-          async function sendMessage() {
-            const message = inputEl.value.trim();
-            if (!message || isWaiting) return;
-
-            addMessage(message, 'user');
-            inputEl.value = '';
-            inputEl.disabled = true;
-            sendBtn.disabled = true;
-            isWaiting = true;
-
-            showTyping();
-
-            try {
-              const response = await fetch('/api/chat', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ sessionId, userMessage: message })
-              });
-
-              const data = await response.json();
-              removeTyping();
-
-              if (data.error) {
-                addMessage('Error: ' + data.error, 'assistant');
-              } else {
-                addMessage(data.message, 'assistant');
-                stageLabel.textContent = 'Stage: ' + (stageNames[data.stage] || 'Processing');
-              }
-            } catch (error) {
-              removeTyping();
-              addMessage('Network error: ' + error.message, 'assistant');
-            } finally {
-              inputEl.disabled = false;
-              sendBtn.disabled = false;
-              isWaiting = false;
-              inputEl.focus();
-            }
-          }
-
-          sendBtn.onclick = sendMessage;
-          inputEl.onkeypress = (e) => { if (e.key === 'Enter') sendMessage(); };
-
-          addMessage("Hi! I'm your robotics troubleshooting expert. Please describe the problem you're experiencing with your robot.", 'assistant');
-          inputEl.focus();
-        </script>
-      </body>
-      </html>
-    `, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
-  },
+    const feedbackMatch = path.match(/^\/api\/session\/([^/]+)\/messages\/(\d+)\/feedback$/);
+    if (feedbackMatch && request.method === 'PUT') {
+      const sessionId = decodeURIComponent(feedbackMatch[1]);
+      return await authorizeSession(env, principal, sessionId) ||
+        await saveFeedback(sessionId, Number(feedbackMatch[2]), request, principal, env);
+    }
 
-  /**
-   * Handles chat message processing
-   * 
-   * Flow:
-   * 1. Validate input (sessionId, userMessage)
-   * 2. Retrieve session state from Durable Object
-   * 3. Run diagnosis workflow to determine stage and system prompt
-   * 4. Build messages array with conversation history
-   * 5. Call Llama AI model for response
-   * 6. Save conversation to Durable Object
-   * 7. Return AI response with updated stage
-   * 
-   * @param request - Request with sessionId and userMessage
-   * @param env - Environment bindings
-   * @returns JSON response with AI message and stage
-   */
-  async handleChat(request: Request, env: Env): Promise<Response> {
-    try {
-      const { sessionId, userMessage } = await request.json() as any;
-
-      if (!sessionId || !userMessage) {
-        return new Response(JSON.stringify({ error: 'sessionId and userMessage required' }), {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-
-      // Retrieve session state from Durable Object
-      const doId = env.ADVISOR_STATE.idFromName(sessionId);
-      const doStub = env.ADVISOR_STATE.get(doId);
-
-      const stateReq = new Request('http://do/state', { method: 'GET' });
-      const stateRes = await doStub.fetch(stateReq);
-      const sessionState = await stateRes.json() as any;
-
-      const currentStage = sessionState.stage || 'initial';
-      const conversationHistory = sessionState.history || [];
-
-      // Run diagnosis workflow to determine next stage and get system prompt
-      const diagnosisWorkflow = new DiagnosisWorkflow();
-      const workflowResult = await diagnosisWorkflow.run({
-        sessionId,
-        userMessage,
-        conversationHistory,
-        currentStage
-      });
+    const sessionMatch = path.match(/^\/api\/session\/([^/]+)$/);
+    if (sessionMatch && request.method === 'PATCH') {
+      const sessionId = decodeURIComponent(sessionMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await renameSession(sessionId, request, principal, env);
+    }
 
-      const { systemPrompt, nextStage } = workflowResult;
-
-      // Build messages array for AI model
-      // - System prompt for current stage
-      // - Last 8 messages from history (for context window)
-      // - Current user message
-      const messages = [
-        { role: 'system', content: systemPrompt },
-        ...conversationHistory.slice(-8).filter((m: any) => m && m.role && m.content).map((m: any) => ({
-          role: String(m.role),
-          content: String(m.content)
-        })),
-        { role: 'user', content: userMessage }
-      ];
-
-      // Call Llama 3.3 model via Workers AI
-      const aiResponse = await env.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
-        messages,
-        temperature: 0.5,  // Balanced between deterministic and creative
-        max_tokens: 400    // Limit response length
-      });
+    if (sessionMatch && request.method === 'DELETE') {
+      const sessionId = decodeURIComponent(sessionMatch[1]);
+      return await authorizeSession(env, principal, sessionId) || await deleteSession(sessionId, principal, env);
+    }
 
-      const assistantMessage = String(aiResponse.response || aiResponse);
+    if (path === '/api/knowledge' && request.method === 'GET') {
+      return await listDocuments(env);
+    }
 
-      // Persist conversation to Durable Object
-      const saveReq = new Request('http://do/message', {
-        method: 'POST',
-        body: JSON.stringify({ userMessage, assistantMessage, nextStage })
-      });
-      await doStub.fetch(saveReq);
+    if (path === '/api/knowledge' && request.method === 'POST') {
+      return requireAdmin(principal) || await ingestDocument(request, env);
+    }
 
-      return new Response(
-        JSON.stringify({ message: assistantMessage, stage: nextStage, sessionId }),
-        { headers: { 'Content-Type': 'application/json' } }
-      );
-    } catch (error: any) {
-      console.error('Chat error:', error);
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
+    const documentMatch = path.match(/^\/api\/knowledge\/([^/]+)$/);
+    if (documentMatch && request.method === 'DELETE') {
+      return requireAdmin(principal) || await deleteDocument(decodeURIComponent(documentMatch[1]), env);
     }
-  },
 
-  async getHistory(request: Request, env: Env): Promise<Response> {
-    try {
-      const sessionId = new URL(request.url).pathname.split('/api/history/')[1];
+    if (path === '/api/playbooks' && request.method === 'GET') {
+      return listPlaybooks();
+    }
 
-      const doId = env.ADVISOR_STATE.idFromName(sessionId);
-      const doStub = env.ADVISOR_STATE.get(doId);
+    if (path === '/api/profiles' && request.method === 'GET') {
+      return await listProfiles(env);
+    }
 
-      const stateReq = new Request('http://do/state', { method: 'GET' });
-      const stateRes = await doStub.fetch(stateReq);
+    if (path === '/api/profiles' && request.method === 'POST') {
+      return requireAdmin(principal) || await createProfile(request, env);
+    }
 
-      return new Response(JSON.stringify(await stateRes.json()), {
-        headers: { 'Content-Type': 'application/json' }
-      });
-    } catch (error: any) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
+    const profileMatch = path.match(/^\/api\/profiles\/([^/]+)$/);
+    if (profileMatch && request.method === 'GET') {
+      return await forwardProfileRequest(decodeURIComponent(profileMatch[1]), 'GET', null, env);
     }
+
+    if (profileMatch && request.method === 'PUT') {
+      return requireAdmin(principal) || await updateProfile(decodeURIComponent(profileMatch[1]), request, env);
+    }
+
+    if (profileMatch && request.method === 'DELETE') {
+      return requireAdmin(principal) || await deleteProfile(decodeURIComponent(profileMatch[1]), env);
+    }
+
+    if (path === '/api/cases' && request.method === 'GET') {
+      return requireAdmin(principal) || await listCases(env);
+    }
+
+    const caseEntryMatch = path.match(/^\/api\/cases\/([^/]+)$/);
+    if (caseEntryMatch && request.method === 'GET') {
+      return requireAdmin(principal) || await getResolvedCase(decodeURIComponent(caseEntryMatch[1]), env);
+    }
+
+    if (caseEntryMatch && request.method === 'PATCH') {
+      return requireAdmin(principal) || await editCase(decodeURIComponent(caseEntryMatch[1]), request, env);
+    }
+
+    if (caseEntryMatch && request.method === 'DELETE') {
+      return requireAdmin(principal) || await deleteCase(decodeURIComponent(caseEntryMatch[1]), env);
+    }
+
+    if (path === '/api/admin/analytics' && request.method === 'GET') {
+      return requireAdmin(principal) || await getAnalytics(url, env);
+    }
+
+    const adminSessionMatch = path.match(/^\/api\/admin\/sessions\/([^/]+)$/);
+    if (adminSessionMatch && request.method === 'GET') {
+      return requireAdmin(principal) || await getHistory(decodeURIComponent(adminSessionMatch[1]), url, env);
+    }
+
+    if (path === '/api/admin/feedback' && request.method === 'GET') {
+      return requireAdmin(principal) || await exportFeedback(url, env);
+    }
+
+    return new Response(JSON.stringify({ error: 'Not found' }), { 
+      status: 404,
+      headers: { 'Content-Type': 'application/json' } 
+    });
   }
-}
+};
+
+export default worker;
@@ -0,0 +1,318 @@
+/**
+ * Knowledge Base - Team Manuals and Known-Issue Notes for Retrieval
+ *
+ * Documents (datasheets, servo and motor-controller manuals, internal "known
+ * failure" notes) are split into overlapping chunks, embedded by the Worker and
+ * stored in a single `KnowledgeBase` instance. Each chat turn searches it and the
+ * best passages are injected into the diagnostic and solution prompts as citable
+ * references.
+ *
+ * @module knowledge
+ */
+
+import { DurableObjectState } from './types';
+import { cosineSimilarity } from './embeddings';
+
+/**
+ * Kinds of documents the knowledge base accepts
+ */
+export type DocumentKind = 'manual' | 'datasheet' | 'known-issue' | 'note';
+
+/** Valid document kinds, for request validation */
+export const DOCUMENT_KINDS: DocumentKind[] = ['manual', 'datasheet', 'known-issue', 'note'];
+
+/**
+ * Stored metadata for an ingested document
+ */
+export interface KnowledgeDocument {
+  /** Document identifier */
+  docId: string;
+  /** Human-readable title shown in citations */
+  title: string;
+  /** Where the document came from (file name, URL, page range) */
+  source: string | null;
+  /** Document kind */
+  kind: DocumentKind;
+  /** Number of chunks stored for the document */
+  chunkCount: number;
+  /** Embedder that produced the vectors */
+  embedder: string;
+  /** When the document was ingested (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * One embedded chunk of a document
+ */
+interface StoredChunk {
+  docId: string;
+  index: number;
+  text: string;
+  embedding: number[];
+}
+
+/**
+ * A retrieved passage, as injected into prompts and returned as a citation
+ */
+export interface Passage {
+  /** Document the passage came from */
+  docId: string;
+  /** Document title */
+  title: string;
+  /** Document source, if recorded */
+  source: string | null;
+  /** Document kind */
+  kind: DocumentKind;
+  /** Passage text */
+  text: string;
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+/**
+ * Looks up passages relevant to a query
+ */
+export type Retriever = (query: string) => Promise<Passage[]>;
+
+/** Target chunk length in characters */
+const CHUNK_SIZE = 800;
+
+/** Characters carried over from the end of one chunk into the next */
+const CHUNK_OVERLAP = 150;
+
+/** Passages below this similarity are not worth citing */
+export const MIN_PASSAGE_SCORE = 0.2;
+
+/** Storage key prefixes */
+const DOC_PREFIX = 'doc:';
+const CHUNK_PREFIX = 'chunk:';
+
+/**
+ * Splits a document into overlapping chunks on paragraph boundaries where possible
+ *
+ * Paragraphs are packed together up to `CHUNK_SIZE`; a paragraph longer than that
+ * is cut on sentence boundaries, then hard-cut as a last resort. Each chunk after
+ * the first starts with the tail of the previous one so a fact split across the
+ * boundary still appears whole in one chunk.
+ *
+ * @param text - Document text
+ * @returns Chunks in document order
+ */
+export function chunkText(text: string): string[] {
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean)) {
+    if (paragraph.length <= CHUNK_SIZE) {
+      pieces.push(paragraph);
+      continue;
+    }
+    for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]) {
+      for (let i = 0; i < sentence.length; i += CHUNK_SIZE) {
+        pieces.push(sentence.slice(i, i + CHUNK_SIZE).trim());
+      }
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces.filter(Boolean)) {
+    if (current && current.length + piece.length + 1 > CHUNK_SIZE) {
+      chunks.push(current);
+      const tail = current.slice(-CHUNK_OVERLAP);
+      current = tail.slice(tail.indexOf(' ') + 1) + ' ' + piece;
+    } else {
+      current = current ? current + ' ' + piece : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Renders retrieved passages as a numbered prompt section
+ *
+ * @param passages - Passages to include, best first
+ * @returns Prompt section, or an empty string if there are no passages
+ */
+export function formatReferences(passages: Passage[]): string {
+  if (!passages.length) return '';
+
+  const entries = passages.map((p, i) => {
+    const source = p.source ? ` (${p.source})` : '';
+    return `[${i + 1}] ${p.title}${source} - ${p.kind}\n${p.text}`;
+  });
+
+  return `Reference material from the team's manuals and known-issue notes:
+
+${entries.join('\n\n')}
+
+When a reference is relevant, use it and cite it inline as [n]. Prefer a known-issue note over general knowledge when it matches the symptoms. Don't cite references that don't apply.`;
+}
+
+/**
+ * KnowledgeBase - Durable Object holding embedded document chunks
+ *
+ * A single instance (named `global`) holds every document. Search is a brute-force
+ * cosine scan, which is fine for a team's worth of manuals.
+ *
+ * Internal routes:
+ * - GET /documents → Metadata for every document
+ * - POST /documents → Stores a document with its pre-embedded chunks
+ * - DELETE /documents/:id → Removes a document and its chunks
+ * - POST /search → Top passages for a query embedding
+ */
+export class KnowledgeBase {
+  state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object
+   *
+   * @param request - HTTP request from the Worker
+   * @returns Response with requested data or error
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/documents' && request.method === 'GET') {
+      return await this.listDocuments();
+    }
+
+    if (url.pathname === '/documents' && request.method === 'POST') {
+      return await this.addDocument(request);
+    }
+
+    const match = url.pathname.match(/^\/documents\/([^/]+)$/);
+    if (match && request.method === 'DELETE') {
+      return await this.deleteDocument(decodeURIComponent(match[1]));
+    }
+
+    if (url.pathname === '/search' && request.method === 'POST') {
+      return await this.search(request);
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Lists every stored document
+   *
+   * @returns JSON `{ documents }`, newest first
+   */
+  async listDocuments(): Promise<Response> {
+    const entries = await this.state.storage.list({ prefix: DOC_PREFIX });
+    const documents = [...entries.values()] as KnowledgeDocument[];
+    documents.sort((a, b) => b.createdAt - a.createdAt);
+
+    return new Response(JSON.stringify({ documents }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Stores a document and its chunks, replacing any document with the same id
+   *
+   * @param request - Request whose body holds `{ document, chunks: [{ text, embedding }] }`
+   * @returns The stored document metadata
+   */
+  async addDocument(request: Request): Promise<Response> {
+    try {
+      const { document, chunks } = await request.json() as {
+        document: KnowledgeDocument;
+        chunks: { text: string; embedding: number[] }[];
+      };
+
+      await this.removeChunks(document.docId);
+      for (let i = 0; i < chunks.length; i++) {
+        const chunk: StoredChunk = { docId: document.docId, index: i, text: chunks[i].text, embedding: chunks[i].embedding };
+        await this.state.storage.put(chunkKey(document.docId, i), chunk);
+      }
+
+      const stored: KnowledgeDocument = { ...document, chunkCount: chunks.length };
+      await this.state.storage.put(DOC_PREFIX + document.docId, stored);
+
+      return new Response(JSON.stringify(stored), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Removes a document and its chunks
+   *
+   * @param docId - Document to remove
+   * @returns JSON `{ deleted }`, false if the document didn't exist
+   */
+  async deleteDocument(docId: string): Promise<Response> {
+    await this.removeChunks(docId);
+    const deleted = await this.state.storage.delete(DOC_PREFIX + docId);
+    return new Response(JSON.stringify({ deleted }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Finds the chunks most similar to a query embedding
+   *
+   * Only one passage per document is returned so a single long manual can't crowd
+   * out everything else.
+   *
+   * @param request - Request whose body holds `{ embedding, topK, embedder }`
+   * @returns JSON `{ passages }`, best first
+   */
+  async search(request: Request): Promise<Response> {
+    try {
+      const { embedding, topK, embedder } = await request.json() as { embedding: number[]; topK: number; embedder: string };
+      const documents = await this.state.storage.list({ prefix: DOC_PREFIX });
+      const chunks = await this.state.storage.list({ prefix: CHUNK_PREFIX });
+
+      const best = new Map<string, Passage>();
+      for (const chunk of chunks.values() as IterableIterator<StoredChunk>) {
+        const document = documents.get(DOC_PREFIX + chunk.docId) as KnowledgeDocument | undefined;
+        // Vectors from a different embedder live in a different space
+        if (!document || document.embedder !== embedder) continue;
+
+        const score = cosineSimilarity(embedding, chunk.embedding);
+        if (score < MIN_PASSAGE_SCORE) continue;
+
+        const current = best.get(chunk.docId);
+        if (!current || score > current.score) {
+          best.set(chunk.docId, {
+            docId: chunk.docId,
+            title: document.title,
+            source: document.source,
+            kind: document.kind,
+            text: chunk.text,
+            score
+          });
+        }
+      }
+
+      const passages = [...best.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+      return new Response(JSON.stringify({ passages }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Deletes every stored chunk of a document
+   *
+   * @param docId - Document whose chunks to delete
+   */
+  async removeChunks(docId: string): Promise<void> {
+    const existing = await this.state.storage.list({ prefix: `${CHUNK_PREFIX}${docId}:` });
+    for (const key of existing.keys()) {
+      await this.state.storage.delete(key);
+    }
+  }
+}
+
+function chunkKey(docId: string, index: number): string {
+  return `${CHUNK_PREFIX}${docId}:${String(index).padStart(5, '0')}`;
+}
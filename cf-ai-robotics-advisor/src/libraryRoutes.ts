@@ -0,0 +1,424 @@
+/**
+ * Library Routes - Handlers for What the Team Shares
+ *
+ * Knowledge documents, diagnosis playbooks, robot profiles and the index of resolved
+ * cases. Anyone signed in can read documents, playbooks and profiles; the router
+ * leaves changing them, and curating cases, to admins.
+ *
+ * @module libraryRoutes
+ */
+
+import { promptVersion } from './workflow';
+import { PLAYBOOKS, playbookStages } from './playbook';
+import { DOCUMENT_KINDS, KnowledgeDocument, chunkText } from './knowledge';
+import { createEmbedder } from './embeddings';
+import { RobotProfile, validateProfileFields } from './profiles';
+import { ResolvedCase, caseSearchText, validateCaseEdit } from './caseIndex';
+import { Env, getCaseIndexStub, getKnowledgeStub, getProfileStub } from './env';
+
+/**
+ * Chunks, embeds and stores a document in the knowledge base
+ * 
+ * Re-ingesting with the same `docId` replaces the earlier version.
+ * 
+ * @param request - Request with `title`, `text`, optional `source`, `kind` and `docId`
+ * @param env - Environment bindings
+ * @returns JSON metadata of the stored document
+ */
+export async function ingestDocument(request: Request, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => null) as any;
+  const { title, text, source, kind = 'manual', docId } = body || {};
+
+  if (typeof title !== 'string' || typeof text !== 'string' || !title.trim() || !text.trim()) {
+    return new Response(JSON.stringify({ error: 'title and text required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!DOCUMENT_KINDS.includes(kind)) {
+    return new Response(JSON.stringify({ error: `kind must be one of: ${DOCUMENT_KINDS.join(', ')}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (docId !== undefined && (typeof docId !== 'string' || !/^[\w-]+$/.test(docId))) {
+    return new Response(JSON.stringify({ error: 'docId may only contain letters, digits, _ and -' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const embedder = createEmbedder(env);
+    const chunks = chunkText(text);
+    const embeddings = await embedder.embed(chunks);
+
+    const document: KnowledgeDocument = {
+      docId: docId || crypto.randomUUID(),
+      title: title.trim(),
+      source: typeof source === 'string' && source.trim() ? source.trim() : null,
+      kind,
+      chunkCount: chunks.length,
+      embedder: embedder.name,
+      createdAt: Date.now()
+    };
+
+    const addReq = new Request('http://do/documents', {
+      method: 'POST',
+      body: JSON.stringify({ document, chunks: chunks.map((chunk, i) => ({ text: chunk, embedding: embeddings[i] })) })
+    });
+    const stored = await (await getKnowledgeStub(env).fetch(addReq)).json();
+
+    return new Response(JSON.stringify(stored), { headers: { 'Content-Type': 'application/json' } });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Lists the documents in the knowledge base
+ * 
+ * @param env - Environment bindings
+ * @returns JSON `{ documents }`
+ */
+export async function listDocuments(env: Env): Promise<Response> {
+  try {
+    const listRes = await getKnowledgeStub(env).fetch(new Request('http://do/documents', { method: 'GET' }));
+
+    return new Response(JSON.stringify(await listRes.json()), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Removes a document from the knowledge base
+ * 
+ * @param docId - Document to remove
+ * @param env - Environment bindings
+ * @returns JSON `{ docId, deleted }`
+ */
+export async function deleteDocument(docId: string, env: Env): Promise<Response> {
+  try {
+    const deleteReq = new Request(`http://do/documents/${encodeURIComponent(docId)}`, { method: 'DELETE' });
+    const { deleted } = await (await getKnowledgeStub(env).fetch(deleteReq)).json() as any;
+
+    return new Response(JSON.stringify({ docId, deleted }), {
+      status: deleted ? 200 : 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Reads a robot profile for a chat turn or report
+ * 
+ * @param env - Environment bindings
+ * @param profileId - Profile to read
+ * @returns The profile, or null if it doesn't exist
+ */
+export async function fetchProfile(env: Env, profileId: string): Promise<RobotProfile | null> {
+  const res = await getProfileStub(env).fetch(new Request(`http://do/profiles/${encodeURIComponent(profileId)}`, { method: 'GET' }));
+  return res.ok ? await res.json() as RobotProfile : null;
+}
+
+/**
+ * Lists the diagnosis playbooks, the default first
+ * 
+ * @returns JSON `{ playbooks }` with each playbook's id, name, description, the facts it checks,
+ *   its stages in order (with the names of those it adds) and the prompt version label of each stage
+ */
+export function listPlaybooks(): Response {
+  const playbooks = PLAYBOOKS.map(playbook => ({
+    id: playbook.id,
+    name: playbook.name,
+    description: playbook.description,
+    facts: playbook.facts.map(({ id, description }) => ({ id, description })),
+    stages: playbookStages(playbook).map(stage => ({ id: stage, name: playbook.stages[stage].name || null })),
+    promptVersions: Object.fromEntries(playbookStages(playbook).map(stage => [stage, promptVersion(playbook, stage)]))
+  }));
+
+  return new Response(JSON.stringify({ playbooks }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Lists the team's robot profiles
+ * 
+ * @param env - Environment bindings
+ * @returns JSON `{ profiles }`
+ */
+export async function listProfiles(env: Env): Promise<Response> {
+  try {
+    const listRes = await getProfileStub(env).fetch(new Request('http://do/profiles', { method: 'GET' }));
+
+    return new Response(JSON.stringify(await listRes.json()), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Creates a robot profile
+ * 
+ * @param request - Request with `name`, optional `profileId`, `model`, `controller`, `firmwareVersion`,
+ *   `actuators`, `sensors`, `maintenanceHistory` and `notes`
+ * @param env - Environment bindings
+ * @returns The stored profile (201), or 409 if `profileId` is taken
+ */
+export async function createProfile(request: Request, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => null) as any;
+  const { fields, errors } = validateProfileFields(body, false);
+
+  if (body && body.profileId !== undefined && (typeof body.profileId !== 'string' || !/^[\w-]+$/.test(body.profileId))) {
+    errors.push('profileId may only contain letters, digits, _ and -');
+  }
+
+  if (errors.length) {
+    return new Response(JSON.stringify({ error: errors.join('; ') }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const createReq = new Request('http://do/profiles', {
+      method: 'POST',
+      body: JSON.stringify({ profileId: body.profileId || crypto.randomUUID(), fields })
+    });
+    const res = await getProfileStub(env).fetch(createReq);
+
+    return new Response(JSON.stringify(await res.json()), {
+      status: res.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Updates a robot profile; fields not in the body are kept
+ * 
+ * @param profileId - Profile to update
+ * @param request - Request with the fields to change
+ * @param env - Environment bindings
+ * @returns The stored profile, or 404
+ */
+export async function updateProfile(profileId: string, request: Request, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => null);
+  const { fields, errors } = validateProfileFields(body, true);
+
+  if (errors.length) {
+    return new Response(JSON.stringify({ error: errors.join('; ') }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return await forwardProfileRequest(profileId, 'PATCH', fields, env);
+}
+
+/**
+ * Removes a robot profile; sessions attached to it carry on without one
+ * 
+ * @param profileId - Profile to remove
+ * @param env - Environment bindings
+ * @returns JSON `{ profileId, deleted }`
+ */
+export async function deleteProfile(profileId: string, env: Env): Promise<Response> {
+  try {
+    const deleteReq = new Request(`http://do/profiles/${encodeURIComponent(profileId)}`, { method: 'DELETE' });
+    const { deleted } = await (await getProfileStub(env).fetch(deleteReq)).json() as any;
+
+    return new Response(JSON.stringify({ profileId, deleted }), {
+      status: deleted ? 200 : 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Passes a single-profile request to the registry and relays its status
+ * 
+ * @param profileId - Profile the request is about
+ * @param method - GET or PATCH
+ * @param fields - Validated fields to merge (PATCH only)
+ * @param env - Environment bindings
+ * @returns The registry's JSON response
+ */
+export async function forwardProfileRequest(profileId: string, method: 'GET' | 'PATCH', fields: unknown, env: Env): Promise<Response> {
+  try {
+    const res = await getProfileStub(env).fetch(new Request(`http://do/profiles/${encodeURIComponent(profileId)}`, {
+      method,
+      body: fields ? JSON.stringify(fields) : undefined
+    }));
+
+    return new Response(JSON.stringify(await res.json()), {
+      status: res.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Lists every resolved case in the index, for admins to browse
+ * 
+ * @param env - Environment bindings
+ * @returns JSON `{ cases }`, most recently resolved first
+ */
+export async function listCases(env: Env): Promise<Response> {
+  try {
+    const listRes = await getCaseIndexStub(env).fetch(new Request('http://do/cases', { method: 'GET' }));
+
+    return new Response(JSON.stringify(await listRes.json()), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Retrieves one resolved case
+ * 
+ * @param caseId - Case to read
+ * @param env - Environment bindings
+ * @returns The case, or 404
+ */
+export async function getResolvedCase(caseId: string, env: Env): Promise<Response> {
+  try {
+    const res = await getCaseIndexStub(env).fetch(new Request(`http://do/cases/${encodeURIComponent(caseId)}`, { method: 'GET' }));
+
+    return new Response(JSON.stringify(await res.json()), {
+      status: res.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Curates a resolved case: corrects its fields, marks it verified or hides it from lookups
+ * 
+ * Changing the title, robot type or symptoms re-embeds the case so lookups match
+ * the corrected text.
+ * 
+ * @param caseId - Case to edit
+ * @param request - Request with any of `title`, `robotType`, `symptoms`, `rootCause`, `fix`,
+ *   `prevention`, `verified`, `hidden` and `notes`
+ * @param env - Environment bindings
+ * @returns The stored case, or 404
+ */
+export async function editCase(caseId: string, request: Request, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => null);
+  const { edit, errors } = validateCaseEdit(body);
+
+  if (errors.length) {
+    return new Response(JSON.stringify({ error: errors.join('; ') }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const stub = getCaseIndexStub(env);
+    const caseUrl = `http://do/cases/${encodeURIComponent(caseId)}`;
+    const existingRes = await stub.fetch(new Request(caseUrl, { method: 'GET' }));
+    if (!existingRes.ok) {
+      return new Response(JSON.stringify(await existingRes.json()), {
+        status: existingRes.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const existing = await existingRes.json() as ResolvedCase;
+
+    let embedding: number[] | undefined;
+    let embedder: string | undefined;
+    if (edit.title !== undefined || edit.robotType !== undefined || edit.symptoms !== undefined) {
+      const caseEmbedder = createEmbedder(env);
+      [embedding] = await caseEmbedder.embed([caseSearchText({ ...existing, ...edit })]);
+      embedder = caseEmbedder.name;
+    }
+
+    const res = await stub.fetch(new Request(caseUrl, {
+      method: 'PATCH',
+      body: JSON.stringify({ edit, embedding, embedder })
+    }));
+
+    return new Response(JSON.stringify(await res.json()), {
+      status: res.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Removes a resolved case from the index; the session it came from is untouched
+ * 
+ * @param caseId - Case to remove
+ * @param env - Environment bindings
+ * @returns JSON `{ caseId, deleted }`
+ */
+export async function deleteCase(caseId: string, env: Env): Promise<Response> {
+  try {
+    const deleteReq = new Request(`http://do/cases/${encodeURIComponent(caseId)}`, { method: 'DELETE' });
+    const { deleted } = await (await getCaseIndexStub(env).fetch(deleteReq)).json() as any;
+
+    return new Response(JSON.stringify({ caseId, deleted }), {
+      status: deleted ? 200 : 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Playbooks - Configurable Diagnosis Facts, Stage Prompts and Transition Rules
+ *
+ * A playbook defines how a diagnosis runs: the facts the advisor needs (checked by
+ * the stage classifier or its keyword fallback), the prompt and prompt version of
+ * each stage, and the checklist rules for leaving the stages that gather facts.
+ * Playbooks are JSON files in `src/playbooks`, validated when the Worker loads.
+ *
+ * Every playbook has the built-in stages. Its `flow` lists the fact-gathering stages
+ * in order, from `initial` through `diagnostic` and any stages the playbook adds
+ * (with a name, prompt and rule of their own); `solution` and `verification` follow
+ * them. A rule may only advance to a later stage of the playbook's own flow, or to
+ * the solution.
+ *
+ * `general` is the default. Domain playbooks extend it, adding facts and replacing
+ * stage prompts and rules, and are picked from the user's description while the
+ * conversation is in the initial stage.
+ *
+ * @module playbook
+ */
+
+import general from './playbooks/general.json';
+import droneFlightInstability from './playbooks/drone-flight-instability.json';
+import robotArmJointError from './playbooks/robot-arm-joint-error.json';
+import mobileBaseOdometryDrift from './playbooks/mobile-base-odometry-drift.json';
+import competitionRobot from './playbooks/competition-robot.json';
+
+/**
+ * Built-in stages of the diagnosis process, in order; every playbook has them
+ */
+export const STAGES = ['initial', 'diagnostic', 'solution', 'verification'] as const;
+
+/**
+ * Stages of the diagnosis process: a built-in one or one a playbook adds to its flow
+ */
+export type Stage = (typeof STAGES)[number] | (string & {});
+
+/** Playbook used when no domain playbook matches, and for sessions from before playbooks */
+export const DEFAULT_PLAYBOOK_ID = 'general';
+
+/** Marks where the solution prompt gets the JSON shape solutions are parsed with */
+export const SOLUTION_FORMAT_PLACEHOLDER = '{{solutionFormat}}';
+
+/** Flow of a playbook that doesn't set one and extends none */
+const DEFAULT_FLOW: Stage[] = ['initial', 'diagnostic'];
+
+/** Stages after the flow, which follow the user's replies instead of a checklist rule */
+const CLOSING_STAGES: Stage[] = ['solution', 'verification'];
+
+/**
+ * A piece of information the advisor needs before leaving a stage
+ */
+export interface ChecklistItem {
+  /** Stable identifier used in classifier output */
+  id: string;
+  /** Plain-language description given to the classifier */
+  description: string;
+  /** Pattern the keyword fallback tests against the lowercased user messages */
+  pattern: RegExp;
+}
+
+/**
+ * Rule for leaving a stage
+ */
+export interface StageRule {
+  /** Checklist item ids that count towards sufficiency */
+  required: string[];
+  /** Fraction of required items (0-1) that must be known to advance */
+  threshold: number;
+  /** Stage to move to once the threshold is met */
+  advanceTo: Stage;
+}
+
+/**
+ * Prompt and exit rule of one stage
+ */
+export interface PlaybookStage {
+  /** Label shown in the UI; required for stages a playbook adds */
+  name?: string;
+  /** Bump whenever the prompt changes, so feedback can be compared across prompt changes */
+  version: number;
+  /** System prompt; for verification, the opening the walkthrough progress is added to */
+  prompt: string;
+  /** Exit rule (stages of the flow only) */
+  rule?: StageRule;
+}
+
+/**
+ * A loaded playbook, with everything it inherits filled in
+ */
+export interface Playbook {
+  id: string;
+  name: string;
+  description: string;
+  /** Terms in the user's description that select this playbook */
+  match: RegExp[];
+  /** Facts the classifier checks, in prompt order */
+  facts: ChecklistItem[];
+  /** Stages that gather facts, in order, starting with initial */
+  flow: Stage[];
+  stages: Record<Stage, PlaybookStage>;
+}
+
+/**
+ * Playbook picked for a description, with the terms that picked it
+ */
+export interface PlaybookSelection {
+  playbook: Playbook;
+  /** Matched terms, lowercased; empty when the default was used */
+  matched: string[];
+}
+
+/**
+ * Compiles a pattern from a playbook file
+ *
+ * @returns The pattern, or null if it isn't a valid regular expression
+ */
+function compile(source: string, flags = ''): RegExp | null {
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates a playbook definition and resolves what it inherits
+ *
+ * @param input - Parsed playbook JSON
+ * @param loaded - Playbooks it may extend
+ * @returns The playbook, or null with every problem found
+ */
+export function validatePlaybook(input: unknown, loaded: Playbook[] = []): { playbook: Playbook | null; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { playbook: null, errors: ['Expected a JSON object'] };
+  }
+
+  const body = input as Record<string, any>;
+  const errors: string[] = [];
+
+  if (typeof body.id !== 'string' || !/^[a-z0-9-]+$/.test(body.id)) {
+    errors.push('id may only contain lowercase letters, digits and -');
+  }
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    errors.push('name must be a non-empty string');
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  let base: Playbook | null = null;
+  if (body.extends !== undefined) {
+    base = loaded.find(playbook => playbook.id === body.extends) || null;
+    if (!base) errors.push(`extends names an unknown playbook: ${body.extends}`);
+  }
+
+  const match: RegExp[] = [];
+  if (!Array.isArray(body.match ?? [])) {
+    errors.push('match must be an array of patterns');
+  } else {
+    for (const term of body.match ?? []) {
+      const pattern = typeof term === 'string' && term ? compile(`\\b(?:${term})\\b`, 'i') : null;
+      if (pattern) match.push(pattern);
+      else errors.push(`match has an invalid pattern: ${term}`);
+    }
+  }
+
+  // Facts replace inherited ones with the same id and add to the rest
+  const facts = [...(base?.facts || [])];
+  const seen = new Set<string>();
+  if (!Array.isArray(body.facts ?? [])) {
+    errors.push('facts must be an array');
+  } else {
+    for (const [i, fact] of (body.facts ?? []).entries()) {
+      if (typeof fact?.id !== 'string' || !/^\w+$/.test(fact.id) || seen.has(fact.id)) {
+        errors.push(`facts[${i}].id must be a unique word`);
+        continue;
+      }
+      const pattern = typeof fact.pattern === 'string' ? compile(fact.pattern) : null;
+      if (typeof fact.description !== 'string' || !fact.description.trim() || !pattern) {
+        errors.push(`facts[${i}] needs a description and a valid pattern`);
+        continue;
+      }
+      seen.add(fact.id);
+      const item = { id: fact.id, description: fact.description, pattern };
+      const inherited = facts.findIndex(existing => existing.id === fact.id);
+      if (inherited >= 0) facts[inherited] = item;
+      else facts.push(item);
+    }
+  }
+  if (!facts.length) {
+    errors.push('facts must not be empty');
+  }
+
+  // The flow is inherited as a whole; it names the stages this playbook adds
+  let flow = base?.flow || DEFAULT_FLOW;
+  if (body.flow !== undefined) {
+    const ids = Array.isArray(body.flow) ? body.flow : [];
+    const valid = ids.length > 0
+      && ids.every((id: unknown) => typeof id === 'string' && /^[a-z][a-z0-9-]*$/.test(id) && !CLOSING_STAGES.includes(id))
+      && new Set(ids).size === ids.length;
+    if (!valid || ids[0] !== 'initial') {
+      errors.push('flow must be a list of unique stage ids starting with initial, without solution or verification');
+    } else if (!ids.includes('diagnostic')) {
+      errors.push('flow must include diagnostic');
+    } else {
+      flow = ids;
+    }
+  }
+
+  // Stages replace inherited fields one by one, so a domain playbook can change a prompt and keep the rule
+  const stagesValid = body.stages === undefined || (!!body.stages && typeof body.stages === 'object' && !Array.isArray(body.stages));
+  if (!stagesValid) {
+    errors.push('stages must be an object');
+  }
+  const definitions: Record<string, any> = stagesValid ? body.stages ?? {} : {};
+  const stageIds = [...flow, ...CLOSING_STAGES];
+  for (const key of Object.keys(definitions)) {
+    if (!stageIds.includes(key)) errors.push(`stages has a stage that isn't in flow: ${key}`);
+  }
+
+  const stages = {} as Record<Stage, PlaybookStage>;
+  const factIds = new Set(facts.map(fact => fact.id));
+  for (const stage of stageIds) {
+    const definition = definitions[stage] ?? {};
+    const resolved = { ...base?.stages[stage], ...definition } as Record<string, any>;
+
+    if (resolved.name !== undefined && (typeof resolved.name !== 'string' || !resolved.name.trim())) {
+      errors.push(`stages.${stage}.name must be a non-empty string`);
+    } else if (resolved.name === undefined && !(STAGES as readonly string[]).includes(stage)) {
+      errors.push(`stages.${stage}.name is required`);
+    }
+
+    if (!Number.isInteger(resolved.version) || resolved.version < 1) {
+      errors.push(`stages.${stage}.version must be a positive integer`);
+    }
+    if (typeof resolved.prompt !== 'string' || !resolved.prompt.trim()) {
+      errors.push(`stages.${stage}.prompt must be a non-empty string`);
+    } else if (stage === 'solution' && !resolved.prompt.includes(SOLUTION_FORMAT_PLACEHOLDER)) {
+      errors.push(`stages.solution.prompt must contain ${SOLUTION_FORMAT_PLACEHOLDER}`);
+    }
+
+    const rule = resolved.rule;
+    if (!flow.includes(stage)) {
+      if (rule !== undefined) errors.push(`stages.${stage} can't have a rule`);
+    } else if (!rule || typeof rule !== 'object') {
+      errors.push(`stages.${stage}.rule is required`);
+    } else {
+      const later = [...flow.slice(flow.indexOf(stage) + 1), 'solution'];
+      if (!Array.isArray(rule.required) || !rule.required.length) {
+        errors.push(`stages.${stage}.rule.required must list facts`);
+      } else {
+        for (const id of rule.required) {
+          if (!factIds.has(id)) errors.push(`stages.${stage}.rule.required has an unknown fact: ${id}`);
+        }
+      }
+      if (typeof rule.threshold !== 'number' || rule.threshold <= 0 || rule.threshold > 1) {
+        errors.push(`stages.${stage}.rule.threshold must be greater than 0 and at most 1`);
+      }
+      if (!later.includes(rule.advanceTo)) {
+        errors.push(`stages.${stage}.rule.advanceTo must be one of: ${later.join(', ')}`);
+      }
+    }
+
+    stages[stage] = resolved as PlaybookStage;
+  }
+
+  if (errors.length) {
+    return { playbook: null, errors };
+  }
+
+  return {
+    playbook: {
+      id: body.id,
+      name: body.name.trim(),
+      description: body.description ?? base?.description ?? '',
+      match,
+      facts,
+      flow,
+      stages
+    },
+    errors: []
+  };
+}
+
+/**
+ * Loads playbook definitions in order; each may extend one loaded before it
+ *
+ * @param definitions - Parsed playbook JSON
+ * @returns The playbooks
+ * @throws If a definition is invalid or reuses an id
+ */
+export function loadPlaybooks(definitions: unknown[]): Playbook[] {
+  const playbooks: Playbook[] = [];
+  for (const definition of definitions) {
+    const { playbook, errors } = validatePlaybook(definition, playbooks);
+    const id = (definition as any)?.id;
+    if (!playbook) {
+      throw new Error(`Invalid playbook ${id}: ${errors.join('; ')}`);
+    }
+    if (playbooks.some(existing => existing.id === playbook.id)) {
+      throw new Error(`Duplicate playbook ${id}`);
+    }
+    playbooks.push(playbook);
+  }
+  return playbooks;
+}
+
+/**
+ * Built-in playbooks; the default comes first
+ */
+export const PLAYBOOKS: Playbook[] = loadPlaybooks([
+  general,
+  droneFlightInstability,
+  robotArmJointError,
+  mobileBaseOdometryDrift,
+  competitionRobot
+]);
+
+/**
+ * Picks the playbook whose terms come up most often in a description
+ *
+ * Each distinct term counts once; ties go to the playbook listed first. Without
+ * any match the default playbook is used.
+ *
+ * @param text - What the user has described so far
+ * @param playbooks - Playbooks to choose from
+ * @returns The playbook and the terms that picked it
+ */
+export function selectPlaybook(text: string, playbooks: Playbook[] = PLAYBOOKS): PlaybookSelection {
+  let best: PlaybookSelection | null = null;
+  for (const playbook of playbooks) {
+    const matched = [...new Set(playbook.match.map(pattern => text.match(pattern)?.[0].toLowerCase()).filter((term): term is string => !!term))];
+    if (matched.length && (!best || matched.length > best.matched.length)) {
+      best = { playbook, matched };
+    }
+  }
+  return best || { playbook: defaultPlaybook(playbooks), matched: [] };
+}
+
+/**
+ * Looks up a playbook by id, falling back to the default
+ *
+ * @param id - Stored playbook id; null for sessions from before playbooks
+ * @param playbooks - Playbooks to choose from
+ * @returns The playbook
+ */
+export function findPlaybook(id: string | null | undefined, playbooks: Playbook[] = PLAYBOOKS): Playbook {
+  return playbooks.find(playbook => playbook.id === id) || defaultPlaybook(playbooks);
+}
+
+/**
+ * Lists a playbook's stages in order: its flow, then solution and verification
+ *
+ * @param playbook - Playbook to list
+ * @returns Stage ids
+ */
+export function playbookStages(playbook: Playbook): Stage[] {
+  return [...playbook.flow, ...CLOSING_STAGES];
+}
+
+/**
+ * The default playbook of a set, or its first one
+ */
+function defaultPlaybook(playbooks: Playbook[]): Playbook {
+  return playbooks.find(playbook => playbook.id === DEFAULT_PLAYBOOK_ID) || playbooks[0];
+}
@@ -0,0 +1,340 @@
+/**
+ * Robot Profiles - Known Hardware for the Team's Fleet
+ *
+ * A profile records what the team already knows about one robot: model,
+ * controller, firmware, actuators, sensors and its maintenance history. A chat
+ * session can be attached to a profile, so the advisor skips the questions the
+ * profile answers and every stage prompt carries the robot's hardware context.
+ * Profiles are shared by the whole team in a single `RobotProfileRegistry`.
+ *
+ * @module profiles
+ */
+
+import { DurableObjectState } from './types';
+
+/**
+ * One entry in a robot's maintenance log
+ */
+export interface MaintenanceEntry {
+  /** When the work was done (ISO date, e.g. "2026-03-14") */
+  date: string;
+  /** What was done */
+  description: string;
+}
+
+/**
+ * Stored robot profile
+ */
+export interface RobotProfile {
+  /** Profile identifier */
+  profileId: string;
+  /** Name the team uses for the robot (e.g. "Line follower #3") */
+  name: string;
+  /** Robot model or kind (e.g. "differential-drive line follower") */
+  model: string | null;
+  /** Controller board or compute (e.g. "Arduino Uno", "Jetson Orin Nano") */
+  controller: string | null;
+  /** Firmware or software version running on it */
+  firmwareVersion: string | null;
+  /** Motors, servos and their drivers */
+  actuators: string[];
+  /** Sensors fitted */
+  sensors: string[];
+  /** Past repairs and servicing, oldest first */
+  maintenanceHistory: MaintenanceEntry[];
+  /** Anything else worth knowing */
+  notes: string | null;
+  /** When the profile was created (ms since epoch) */
+  createdAt: number;
+  /** When the profile last changed (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Profile fields a client may set
+ */
+export type ProfileFields = Partial<Omit<RobotProfile, 'profileId' | 'createdAt' | 'updatedAt'>>;
+
+/** Upper bound on actuator and sensor lists */
+const MAX_LIST_ENTRIES = 20;
+
+/** Upper bound on stored maintenance entries; the oldest are dropped first */
+const MAX_MAINTENANCE_ENTRIES = 50;
+
+/** Maintenance entries shown in prompts, most recent */
+const PROMPT_MAINTENANCE_ENTRIES = 5;
+
+/** Storage key prefix for profiles */
+const PROFILE_PREFIX = 'profile:';
+
+const TEXT_FIELDS = ['model', 'controller', 'firmwareVersion', 'notes'] as const;
+const LIST_FIELDS = ['actuators', 'sensors'] as const;
+
+/**
+ * Validates profile fields from a request body
+ *
+ * @param input - Parsed request body
+ * @param partial - True for updates, where every field is optional
+ * @returns Trimmed fields, or the reasons they were rejected
+ */
+export function validateProfileFields(input: unknown, partial: boolean): { fields: ProfileFields; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { fields: {}, errors: ['Expected a JSON object'] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const fields: ProfileFields = {};
+  const errors: string[] = [];
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      errors.push('name must be a non-empty string');
+    } else {
+      fields.name = body.name.trim();
+    }
+  }
+
+  for (const key of TEXT_FIELDS) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && typeof body[key] !== 'string') {
+      errors.push(`${key} must be a string or null`);
+    } else {
+      fields[key] = typeof body[key] === 'string' && body[key].trim() ? body[key].trim() : null;
+    }
+  }
+
+  for (const key of LIST_FIELDS) {
+    if (body[key] === undefined) continue;
+    const value = body[key];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      errors.push(`${key} must be an array of strings`);
+    } else if (value.length > MAX_LIST_ENTRIES) {
+      errors.push(`${key} may have at most ${MAX_LIST_ENTRIES} entries`);
+    } else {
+      fields[key] = (value as string[]).map(item => item.trim()).filter(Boolean);
+    }
+  }
+
+  if (body.maintenanceHistory !== undefined) {
+    const entries = body.maintenanceHistory;
+    const valid = Array.isArray(entries) && entries.every(entry =>
+      entry && typeof entry === 'object' &&
+      typeof entry.date === 'string' && !isNaN(Date.parse(entry.date)) &&
+      typeof entry.description === 'string' && entry.description.trim()
+    );
+    if (!valid) {
+      errors.push('maintenanceHistory must be an array of { date, description } with a valid date');
+    } else {
+      fields.maintenanceHistory = (entries as MaintenanceEntry[])
+        .map(entry => ({ date: entry.date.trim(), description: entry.description.trim() }))
+        .sort((a, b) => Date.parse(a.date) - Date.parse(b.date))
+        .slice(-MAX_MAINTENANCE_ENTRIES);
+    }
+  }
+
+  return { fields, errors };
+}
+
+/**
+ * Checklist items (see `DiagnosisWorkflow`) a profile already answers
+ *
+ * @param profile - Robot profile
+ * @returns Checklist item ids
+ */
+export function answeredChecklistItems(profile: RobotProfile): string[] {
+  const answered: string[] = [];
+  if (profile.model) answered.push('robotType');
+  if (profile.controller || profile.actuators.length || profile.sensors.length) answered.push('hardwareDetails');
+  return answered;
+}
+
+/**
+ * Renders a profile for stage prompts
+ *
+ * @param profile - Robot profile
+ * @returns Bulleted list of known hardware and recent maintenance
+ */
+export function formatProfile(profile: RobotProfile): string {
+  const lines = [`- Name: ${profile.name}`];
+  if (profile.model) lines.push(`- Model: ${profile.model}`);
+  if (profile.controller) lines.push(`- Controller: ${profile.controller}`);
+  if (profile.firmwareVersion) lines.push(`- Firmware: ${profile.firmwareVersion}`);
+  if (profile.actuators.length) lines.push(`- Actuators: ${profile.actuators.join(', ')}`);
+  if (profile.sensors.length) lines.push(`- Sensors: ${profile.sensors.join(', ')}`);
+  if (profile.notes) lines.push(`- Notes: ${profile.notes}`);
+
+  const recent = profile.maintenanceHistory.slice(-PROMPT_MAINTENANCE_ENTRIES);
+  if (recent.length) {
+    lines.push('- Recent maintenance:', ...recent.map(entry => `  - ${entry.date}: ${entry.description}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * RobotProfileRegistry - Durable Object holding the team's robot profiles
+ *
+ * A single instance (named `global`) holds every profile.
+ *
+ * Internal routes:
+ * - GET /profiles → Every profile, sorted by name
+ * - POST /profiles → Creates a profile (409 if the id is taken)
+ * - GET /profiles/:id → One profile
+ * - PATCH /profiles/:id → Updates a profile (partial fields merge)
+ * - DELETE /profiles/:id → Removes a profile
+ */
+export class RobotProfileRegistry {
+  state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object
+   *
+   * @param request - HTTP request from the Worker
+   * @returns Response with requested data or error
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/profiles' && request.method === 'GET') {
+      return await this.listProfiles();
+    }
+
+    if (url.pathname === '/profiles' && request.method === 'POST') {
+      return await this.createProfile(request);
+    }
+
+    const match = url.pathname.match(/^\/profiles\/([^/]+)$/);
+    if (match && request.method === 'GET') {
+      return await this.getProfile(decodeURIComponent(match[1]));
+    }
+
+    if (match && request.method === 'PATCH') {
+      return await this.updateProfile(decodeURIComponent(match[1]), request);
+    }
+
+    if (match && request.method === 'DELETE') {
+      return await this.deleteProfile(decodeURIComponent(match[1]));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Lists every profile
+   *
+   * @returns JSON `{ profiles }` sorted by name
+   */
+  async listProfiles(): Promise<Response> {
+    const entries = await this.state.storage.list({ prefix: PROFILE_PREFIX });
+    const profiles = [...entries.values()] as RobotProfile[];
+    profiles.sort((a, b) => a.name.localeCompare(b.name));
+
+    return new Response(JSON.stringify({ profiles }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Returns one profile
+   *
+   * @param profileId - Profile to read
+   * @returns The profile, or 404
+   */
+  async getProfile(profileId: string): Promise<Response> {
+    const profile = await this.state.storage.get(PROFILE_PREFIX + profileId);
+    if (!profile) {
+      return new Response(JSON.stringify({ error: 'Robot profile not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(profile), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Creates a profile from validated fields
+   *
+   * @param request - Request whose body holds `{ profileId, fields }`
+   * @returns The stored profile, or 409 if the id is taken
+   */
+  async createProfile(request: Request): Promise<Response> {
+    try {
+      const { profileId, fields } = await request.json() as { profileId: string; fields: ProfileFields };
+      const key = PROFILE_PREFIX + profileId;
+      if (await this.state.storage.get(key)) {
+        return new Response(JSON.stringify({ error: `Robot profile ${profileId} already exists` }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const now = Date.now();
+      const profile: RobotProfile = {
+        profileId,
+        name: fields.name || profileId,
+        model: fields.model ?? null,
+        controller: fields.controller ?? null,
+        firmwareVersion: fields.firmwareVersion ?? null,
+        actuators: fields.actuators || [],
+        sensors: fields.sensors || [],
+        maintenanceHistory: fields.maintenanceHistory || [],
+        notes: fields.notes ?? null,
+        createdAt: now,
+        updatedAt: now
+      };
+      await this.state.storage.put(key, profile);
+
+      return new Response(JSON.stringify(profile), { status: 201, headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Merges validated fields into an existing profile
+   *
+   * @param profileId - Profile to update
+   * @param request - Request whose body holds the fields to set
+   * @returns The stored profile, or 404
+   */
+  async updateProfile(profileId: string, request: Request): Promise<Response> {
+    try {
+      const fields = await request.json() as ProfileFields;
+      const key = PROFILE_PREFIX + profileId;
+      const existing = await this.state.storage.get(key) as RobotProfile | undefined;
+      if (!existing) {
+        return new Response(JSON.stringify({ error: 'Robot profile not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const profile: RobotProfile = { ...existing, ...fields, profileId, createdAt: existing.createdAt, updatedAt: Date.now() };
+      await this.state.storage.put(key, profile);
+
+      return new Response(JSON.stringify(profile), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Removes a profile
+   *
+   * @param profileId - Profile to remove
+   * @returns JSON `{ deleted }`, false if it didn't exist
+   */
+  async deleteProfile(profileId: string): Promise<Response> {
+    const deleted = await this.state.storage.delete(PROFILE_PREFIX + profileId);
+    return new Response(JSON.stringify({ deleted }), { headers: { 'Content-Type': 'application/json' } });
+  }
+}
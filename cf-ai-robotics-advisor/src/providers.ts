@@ -0,0 +1,669 @@
+/**
+ * LLM Providers - Pluggable Model Backends
+ *
+ * Every model call in the advisor goes through an `LlmProvider`, which hides the
+ * backend (Workers AI, an OpenAI-compatible server such as llama.cpp or Ollama,
+ * or the scripted mock) and resolves the model and sampling parameters for each
+ * purpose from `wrangler.jsonc` vars.
+ *
+ * @module providers
+ */
+
+import { Stage } from './playbook';
+
+/**
+ * Workers AI interface for running LLM models
+ */
+export interface Ai {
+  run(model: string, options: AiOptions & { stream: true }): Promise<ReadableStream<Uint8Array>>;
+  run(model: string, options: AiOptions): Promise<AiResponse>;
+  run(model: string, options: AiEmbeddingOptions): Promise<AiEmbeddingResponse>;
+}
+
+/**
+ * Options for Workers AI text embedding models
+ */
+export interface AiEmbeddingOptions {
+  /** Texts to embed */
+  text: string[];
+}
+
+/**
+ * Response from a Workers AI text embedding model
+ */
+export interface AiEmbeddingResponse {
+  /** One vector per input text */
+  data: number[][];
+}
+
+/**
+ * Configuration options for AI model execution
+ */
+export interface AiOptions {
+  /** Array of messages forming the conversation context */
+  messages: AiMessage[];
+  /** Temperature (0-1) controlling response randomness */
+  temperature: number;
+  /** Maximum tokens to generate in response */
+  max_tokens: number;
+  /** Return a server-sent event stream of tokens instead of the full response */
+  stream?: boolean;
+  /** Image bytes for vision models */
+  image?: number[];
+  /** Functions the model may call instead of replying */
+  tools?: AiTool[];
+}
+
+/**
+ * Individual message in the conversation
+ *
+ * Tool rounds use the OpenAI message shape, which Workers AI accepts as well: an
+ * assistant message carrying `tool_calls`, then one `tool` message per call with its result.
+ */
+export interface AiMessage {
+  /** Role of the message sender */
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  /** Content of the message */
+  content: string;
+  /** Function calls the model asked for (assistant messages of a tool round) */
+  tool_calls?: AiToolCall[];
+  /** Call whose result this is (tool messages) */
+  tool_call_id?: string;
+}
+
+/**
+ * A function on offer, in the OpenAI `tools` shape
+ */
+export interface AiTool {
+  type: 'function';
+  function: ToolDefinition;
+}
+
+/**
+ * A function call in the OpenAI message shape; `arguments` is JSON text
+ */
+export interface AiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/**
+ * A function the model may call
+ */
+export interface ToolDefinition {
+  /** Name the model calls it by */
+  name: string;
+  /** What it computes and when to use it */
+  description: string;
+  /** JSON schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * A function call requested by the model, with parsed arguments
+ */
+export interface ToolCall {
+  /** Call identifier, sent back with the result */
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Reply to a model call that offered tools: either text, or calls to run before asking again
+ */
+export interface ToolCompletion {
+  /** Generated text; usually empty when there are tool calls */
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Response from the AI model
+ */
+export interface AiResponse {
+  /** Generated response text */
+  response?: string;
+  [key: string]: any;
+}
+
+/**
+ * What a model call is for; each purpose can use its own model and parameters
+ * - Stage names are the chat replies for that stage; stages a playbook adds itself
+ *   use the `diagnostic` config unless `LLM_STAGE_CONFIG` names them
+ * - `classifier` is the stage transition classifier
+ * - `extraction` is the case file extraction
+ * - `vision` describes attached photos (needs a vision-capable model)
+ * - `summary` summarizes attached logs
+ * - `condense` folds older messages of a long session into its running summary
+ */
+export type ModelPurpose = Stage | 'classifier' | 'extraction' | 'vision' | 'summary' | 'condense';
+
+/**
+ * Model and sampling parameters for one purpose
+ */
+export interface ModelConfig {
+  /** Model identifier understood by the provider */
+  model: string;
+  /** Temperature (0-1) controlling response randomness */
+  temperature: number;
+  /** Maximum tokens to generate */
+  maxTokens: number;
+}
+
+/**
+ * A single model call
+ */
+export interface CompletionRequest {
+  /** Purpose used to pick the model config */
+  purpose: ModelPurpose;
+  /** Conversation to send to the model */
+  messages: AiMessage[];
+  /** Image sent along with the last user message (vision purposes only) */
+  image?: { data: Uint8Array; contentType: string };
+}
+
+/**
+ * A model call that offers functions to call
+ */
+export interface ToolCompletionRequest extends CompletionRequest {
+  /** Functions on offer */
+  tools: ToolDefinition[];
+}
+
+/**
+ * Common interface for all model backends
+ */
+export interface LlmProvider {
+  /** Provider name, for logging and responses */
+  readonly name: string;
+  /**
+   * Runs a model call and returns the full response text
+   *
+   * @param request - Purpose and messages
+   * @returns Generated text
+   */
+  complete(request: CompletionRequest): Promise<string>;
+  /**
+   * Runs a model call and yields text chunks as they are generated
+   *
+   * Errors raised before generation starts reject the returned promise;
+   * errors after that are thrown from the iterator.
+   *
+   * @param request - Purpose and messages
+   * @returns Async iterator of text chunks
+   */
+  stream(request: CompletionRequest): Promise<AsyncIterable<string>>;
+  /**
+   * Runs a model call that may answer with function calls instead of text
+   *
+   * @param request - Purpose, messages and the functions on offer
+   * @returns Reply text, or the calls to run and answer before asking again
+   */
+  completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion>;
+}
+
+/**
+ * Environment variables read by `createProvider`
+ */
+export interface ProviderEnv {
+  /** Workers AI binding */
+  AI: Ai;
+  /** Backend to use: `workers-ai` (default), `openai` or `mock` */
+  LLM_PROVIDER?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. `http://localhost:11434/v1` */
+  LLM_BASE_URL?: string;
+  /** API key for the OpenAI-compatible API (set as a secret) */
+  LLM_API_KEY?: string;
+  /** Default model for every purpose, overriding the built-in default */
+  LLM_MODEL?: string;
+  /** Per-purpose overrides: `{ "solution": { "model": "...", "temperature": 0.3, "maxTokens": 600 } }` */
+  LLM_STAGE_CONFIG?: string | Partial<Record<ModelPurpose, Partial<ModelConfig>>>;
+  /** Scripted replies for the mock provider (see `MockRule`) */
+  MOCK_LLM_SCRIPT?: string | MockRule[];
+}
+
+/** Default Workers AI model */
+const DEFAULT_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+/** Default Workers AI model for the `vision` purpose; `LLM_MODEL` doesn't apply since it may be text-only */
+const DEFAULT_VISION_MODEL = '@cf/meta/llama-3.2-11b-vision-instruct';
+
+/**
+ * Built-in parameters per purpose, used when `LLM_STAGE_CONFIG` doesn't override them
+ */
+const DEFAULT_PARAMS: Record<ModelPurpose, Omit<ModelConfig, 'model'>> = {
+  initial: { temperature: 0.5, maxTokens: 400 },
+  diagnostic: { temperature: 0.5, maxTokens: 400 },
+  solution: { temperature: 0.5, maxTokens: 400 },
+  verification: { temperature: 0.4, maxTokens: 300 },
+  classifier: { temperature: 0, maxTokens: 300 },
+  extraction: { temperature: 0, maxTokens: 400 },
+  vision: { temperature: 0.2, maxTokens: 300 },
+  summary: { temperature: 0.2, maxTokens: 300 },
+  condense: { temperature: 0.2, maxTokens: 400 }
+};
+
+/**
+ * Resolves the model config for every purpose from environment vars
+ *
+ * `LLM_STAGE_CONFIG` may also name stages a playbook adds itself; they start from
+ * the `diagnostic` parameters.
+ *
+ * @param env - Environment with optional `LLM_MODEL` and `LLM_STAGE_CONFIG`
+ * @returns Complete config for each purpose
+ */
+export function resolveModelConfigs(env: ProviderEnv): Record<ModelPurpose, ModelConfig> {
+  const overrides = parseJsonVar<Partial<Record<ModelPurpose, Partial<ModelConfig>>>>(env.LLM_STAGE_CONFIG, 'LLM_STAGE_CONFIG') || {};
+  const defaultModel = env.LLM_MODEL || DEFAULT_MODEL;
+
+  const configs = {} as Record<ModelPurpose, ModelConfig>;
+  const purposes = new Set([...Object.keys(DEFAULT_PARAMS), ...Object.keys(overrides)]) as Set<ModelPurpose>;
+  for (const purpose of purposes) {
+    const override = overrides[purpose] || {};
+    const defaults = Object.hasOwn(DEFAULT_PARAMS, purpose) ? DEFAULT_PARAMS[purpose] : DEFAULT_PARAMS.diagnostic;
+    configs[purpose] = {
+      model: override.model || (purpose === 'vision' ? DEFAULT_VISION_MODEL : defaultModel),
+      temperature: typeof override.temperature === 'number' ? override.temperature : defaults.temperature,
+      maxTokens: typeof override.maxTokens === 'number' ? override.maxTokens : defaults.maxTokens
+    };
+  }
+  return configs;
+}
+
+/**
+ * Picks the config for a model call; a stage with no config of its own (one a
+ * playbook added) uses the `diagnostic` config
+ *
+ * @param configs - Resolved configs
+ * @param purpose - What the call is for
+ * @returns Model and sampling parameters
+ */
+function configFor(configs: Record<ModelPurpose, ModelConfig>, purpose: ModelPurpose): ModelConfig {
+  return Object.hasOwn(configs, purpose) ? configs[purpose] : configs.diagnostic;
+}
+
+/**
+ * Creates the provider selected by `LLM_PROVIDER`
+ *
+ * @param env - Environment bindings and vars
+ * @returns Configured provider
+ */
+export function createProvider(env: ProviderEnv): LlmProvider {
+  const configs = resolveModelConfigs(env);
+
+  switch (env.LLM_PROVIDER || 'workers-ai') {
+    case 'workers-ai':
+      return new WorkersAiProvider(env.AI, configs);
+    case 'openai':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER is "openai"');
+      }
+      return new OpenAiCompatibleProvider(env.LLM_BASE_URL, env.LLM_API_KEY, configs);
+    case 'mock':
+      return new MockProvider(parseJsonVar<MockRule[]>(env.MOCK_LLM_SCRIPT, 'MOCK_LLM_SCRIPT') || undefined);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${env.LLM_PROVIDER}`);
+  }
+}
+
+// ============================================================================
+// WORKERS AI
+// ============================================================================
+
+/**
+ * Provider backed by the Workers AI binding
+ */
+export class WorkersAiProvider implements LlmProvider {
+  readonly name = 'workers-ai';
+  ai: Ai;
+  configs: Record<ModelPurpose, ModelConfig>;
+
+  constructor(ai: Ai, configs: Record<ModelPurpose, ModelConfig>) {
+    this.ai = ai;
+    this.configs = configs;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const config = configFor(this.configs, request.purpose);
+    const options: AiOptions = {
+      messages: request.messages,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens
+    };
+    if (request.image) {
+      options.image = [...request.image.data];
+    }
+    const aiResponse = await this.ai.run(config.model, options);
+
+    // JSON-mode models may return an object instead of a string
+    const raw = aiResponse?.response ?? aiResponse;
+    return typeof raw === 'string' ? raw : JSON.stringify(raw);
+  }
+
+  async stream(request: CompletionRequest): Promise<AsyncIterable<string>> {
+    const config = configFor(this.configs, request.purpose);
+    const aiStream = await this.ai.run(config.model, {
+      messages: request.messages,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream: true
+    });
+
+    return readSseTokens(aiStream, parsed => parsed.response);
+  }
+
+  async completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion> {
+    const config = configFor(this.configs, request.purpose);
+    const aiResponse = await this.ai.run(config.model, {
+      messages: request.messages,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      tools: request.tools.map(toAiTool)
+    });
+
+    const raw = aiResponse?.response ?? '';
+    return {
+      text: typeof raw === 'string' ? raw : JSON.stringify(raw),
+      toolCalls: parseToolCalls(aiResponse?.tool_calls)
+    };
+  }
+}
+
+// ============================================================================
+// OPENAI-COMPATIBLE
+// ============================================================================
+
+/**
+ * Provider for any server implementing the OpenAI `/chat/completions` API
+ * (OpenAI, llama.cpp server, Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+  baseUrl: string;
+  apiKey?: string;
+  configs: Record<ModelPurpose, ModelConfig>;
+
+  constructor(baseUrl: string, apiKey: string | undefined, configs: Record<ModelPurpose, ModelConfig>) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.configs = configs;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const res = await this.post(request, false);
+    const data = await res.json() as any;
+    return String(data?.choices?.[0]?.message?.content ?? '');
+  }
+
+  async stream(request: CompletionRequest): Promise<AsyncIterable<string>> {
+    const res = await this.post(request, true);
+    if (!res.body) {
+      throw new Error('OpenAI-compatible endpoint returned an empty stream');
+    }
+    return readSseTokens(res.body, parsed => parsed?.choices?.[0]?.delta?.content);
+  }
+
+  async completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion> {
+    const res = await this.post(request, false, request.tools);
+    const message = (await res.json() as any)?.choices?.[0]?.message;
+    return { text: String(message?.content ?? ''), toolCalls: parseToolCalls(message?.tool_calls) };
+  }
+
+  /**
+   * Sends a chat completion request
+   *
+   * @param request - Purpose and messages
+   * @param stream - Whether to request a server-sent event stream
+   * @param tools - Functions on offer, if any
+   * @returns Successful HTTP response
+   */
+  async post(request: CompletionRequest, stream: boolean, tools?: ToolDefinition[]): Promise<Response> {
+    const config = configFor(this.configs, request.purpose);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages: request.image ? withImage(request.messages, request.image) : request.messages,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        stream,
+        ...(tools ? { tools: tools.map(toAiTool) } : {})
+      })
+    });
+
+    if (!res.ok) {
+      throw new Error(`OpenAI-compatible endpoint returned ${res.status}: ${await res.text()}`);
+    }
+    return res;
+  }
+}
+
+// ============================================================================
+// MOCK
+// ============================================================================
+
+/**
+ * One scripted reply for the mock provider
+ */
+export interface MockRule {
+  /** Only match calls for this purpose */
+  purpose?: ModelPurpose;
+  /** Only match when this regex (case-insensitive) matches the last user message */
+  match?: string;
+  /** Text to return */
+  reply: string;
+  /** Function calls to answer with when tools are offered, before their results are in */
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+/**
+ * Default script: canned replies per stage. Classifier and extraction calls get `{}`,
+ * which the workflow and case file treat as "no model opinion" and fall back to
+ * their keyword heuristics.
+ */
+const DEFAULT_MOCK_SCRIPT: MockRule[] = [
+  { purpose: 'initial', reply: 'Thanks for the details. What type of robot is it, and what exactly happens when the problem occurs?' },
+  { purpose: 'diagnostic', reply: 'That helps narrow it down. When does it happen — all the time, only under load, or only at higher speeds?' },
+  {
+    purpose: 'solution',
+    reply: JSON.stringify({
+      rootCause: 'Control loop gains are too aggressive for the current speed.',
+      steps: ['Reduce Kp by 30%', 'Add a small Kd term', 'Re-test at low speed before increasing it'],
+      prevention: 'Re-tune gains whenever speed or mass changes.',
+      partsTools: [],
+      confidence: 'medium'
+    })
+  },
+  { purpose: 'verification', reply: 'Let\'s take it one step at a time. Try the current step, then tell me whether it worked, failed or you had to skip it.' },
+  { purpose: 'classifier', reply: '{}' },
+  { purpose: 'extraction', reply: '{}' },
+  { purpose: 'vision', reply: 'The photo shows the robot\'s wiring and controller board; no obvious damage or loose connectors are visible.' },
+  { purpose: 'summary', reply: 'The log shows the errors listed in its key lines; no other failures stand out.' },
+  { purpose: 'condense', reply: 'Earlier in this session the user described the robot and its symptom, and answered the advisor\'s first questions.' }
+];
+
+/**
+ * Deterministic provider for offline development and tests
+ *
+ * Replies come from an ordered list of rules; the first rule whose purpose and
+ * pattern match wins, falling back to the default script. Every call is recorded
+ * in `calls` so tests can inspect the prompts that were sent.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+  script: MockRule[];
+  calls: CompletionRequest[] = [];
+
+  constructor(script: MockRule[] = []) {
+    this.script = [...script, ...DEFAULT_MOCK_SCRIPT];
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.calls.push(request);
+    return this.findRule(request)?.reply || '';
+  }
+
+  async completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion> {
+    this.calls.push(request);
+    const rule = this.findRule(request);
+
+    // Call the scripted tools once; after their results come back, reply
+    const answered = request.messages[request.messages.length - 1]?.role === 'tool';
+    if (rule?.toolCalls && !answered) {
+      return { text: '', toolCalls: rule.toolCalls.map((call, i) => ({ id: `call_${i}`, ...call })) };
+    }
+    return { text: rule?.reply || '', toolCalls: [] };
+  }
+
+  /**
+   * First rule whose purpose and pattern match the call
+   */
+  findRule(request: CompletionRequest): MockRule | undefined {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+    return this.script.find(r =>
+      (!r.purpose || r.purpose === request.purpose) &&
+      (!r.match || new RegExp(r.match, 'i').test(lastUser))
+    );
+  }
+
+  async stream(request: CompletionRequest): Promise<AsyncIterable<string>> {
+    const reply = await this.complete(request);
+
+    // Emit word-sized chunks, keeping the whitespace so the chunks join back to the reply
+    return (async function* () {
+      for (const token of reply.match(/\S+\s*|\s+/g) || []) {
+        yield token;
+      }
+    })();
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Reads a server-sent event stream and yields the text chunks it carries
+ *
+ * Both Workers AI and OpenAI-compatible servers emit lines of the form
+ * `data: {...}` and end with `data: [DONE]`; only the payload shape differs.
+ *
+ * @param stream - Raw byte stream
+ * @param pick - Extracts the text chunk from a parsed event payload
+ * @returns Async iterator of text chunks
+ */
+async function* readSseTokens(stream: ReadableStream<Uint8Array>, pick: (parsed: any) => unknown): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice('data:'.length).trim();
+        if (payload === '[DONE]') return;
+
+        try {
+          const token = pick(JSON.parse(payload));
+          if (token) yield String(token);
+        } catch {
+          // Ignore keep-alive or malformed event lines
+        }
+      }
+    }
+  } finally {
+    // Stop the upstream model stream if the consumer bailed out early
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Wraps a tool definition in the OpenAI `tools` shape
+ */
+function toAiTool(tool: ToolDefinition): AiTool {
+  return { type: 'function', function: tool };
+}
+
+/**
+ * Reads the function calls of a model response
+ *
+ * Accepts the OpenAI shape (`{ id, function: { name, arguments } }` with JSON text arguments)
+ * and the flat Workers AI shape (`{ name, arguments }` with an object).
+ *
+ * @param raw - `tool_calls` of the response
+ * @returns Calls with parsed arguments; calls without a name are dropped
+ */
+export function parseToolCalls(raw: unknown): ToolCall[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((call: any, i): ToolCall[] => {
+    const name = call?.function?.name ?? call?.name;
+    if (typeof name !== 'string' || !name) return [];
+
+    let args = call?.function?.arguments ?? call?.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args || '{}');
+      } catch {
+        args = {};
+      }
+    }
+    return [{ id: typeof call.id === 'string' && call.id ? call.id : `call_${i}`, name, arguments: args && typeof args === 'object' ? args : {} }];
+  });
+}
+
+/**
+ * Attaches an image to the last user message using OpenAI content parts
+ *
+ * @param messages - Text-only conversation
+ * @param image - Image bytes and MIME type
+ * @returns Messages with the last user message turned into text + image parts
+ */
+function withImage(messages: AiMessage[], image: { data: Uint8Array; contentType: string }): unknown[] {
+  const lastUser = messages.map(m => m.role).lastIndexOf('user');
+  let binary = '';
+  for (const byte of image.data) {
+    binary += String.fromCharCode(byte);
+  }
+  const url = `data:${image.contentType};base64,${btoa(binary)}`;
+
+  return messages.map((m, i) => i === lastUser
+    ? { role: m.role, content: [{ type: 'text', text: m.content }, { type: 'image_url', image_url: { url } }] }
+    : m);
+}
+
+/**
+ * Reads a var that may be a JSON object (from `wrangler.jsonc`) or a JSON string (from `.dev.vars`)
+ *
+ * @param value - Raw var value
+ * @param name - Var name for the error message
+ * @returns Parsed value, or null when unset
+ */
+export function parseJsonVar<T>(value: unknown, name: string): T | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') return value as T;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
+}
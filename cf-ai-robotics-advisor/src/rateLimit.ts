@@ -0,0 +1,381 @@
+/**
+ * Rate Limits - Request Throttling and Token Budgets
+ *
+ * Every chat turn runs several model calls, so callers are throttled twice:
+ * - A sliding window of chat requests per minute, per user
+ * - A daily budget of model tokens per user, and a smaller one per session
+ *
+ * Token usage is estimated from prompt and response length (see `estimateTokens`),
+ * since not every provider reports it. Budgets reset at midnight UTC. A turn is
+ * admitted while the budget isn't used up, so the last turn of the day may go
+ * slightly over it.
+ *
+ * Guest tokens are also limited per client IP, so a script can't sidestep the
+ * per-user limits by minting a new identity for every request.
+ *
+ * @module rateLimit
+ */
+
+import { AiMessage, CompletionRequest, LlmProvider, ToolCompletion, ToolCompletionRequest, parseJsonVar } from './providers';
+import { DurableObjectState } from './types';
+
+/**
+ * Configurable limits
+ */
+export interface UsageLimits {
+  /** Chat requests per user per minute */
+  requestsPerMinute: number;
+  /** Estimated model tokens per user per UTC day */
+  dailyTokens: number;
+  /** Estimated model tokens per session per UTC day */
+  sessionDailyTokens: number;
+  /** Guest tokens issued per client IP per hour */
+  guestTokensPerHour: number;
+}
+
+/**
+ * Environment variables read by `resolveUsageLimits`
+ */
+export interface RateLimitEnv {
+  /** Overrides for `DEFAULT_LIMITS`: `{ "requestsPerMinute": 10, "dailyTokens": 100000 }` */
+  RATE_LIMITS?: string | Partial<UsageLimits>;
+}
+
+/**
+ * Counters kept by a `UsageLimiter`
+ */
+export interface UsageCounters {
+  /** Requests in the current window */
+  requests: number;
+  /** Seconds until the oldest request leaves the window (0 when none are in it) */
+  windowResetSeconds: number;
+  /** Tokens used today */
+  tokens: number;
+  /** Tokens used today by the requested session, if any */
+  sessionTokens: number | null;
+  /** Seconds until the daily budgets reset */
+  dayResetSeconds: number;
+}
+
+/**
+ * Outcome of asking a `UsageLimiter` to admit a request
+ */
+export interface AcquireResult {
+  allowed: boolean;
+  /** Which limit refused the request */
+  reason: string | null;
+  /** Seconds until the request would be admitted */
+  retryAfter: number;
+  counters: UsageCounters;
+}
+
+/**
+ * Remaining quota, as returned by `GET /api/usage`
+ */
+export interface UsageReport {
+  requests: { used: number; limit: number; remaining: number; resetsInSeconds: number };
+  tokens: { used: number; limit: number; remaining: number; resetsInSeconds: number };
+  session: { sessionId: string; used: number; limit: number; remaining: number } | null;
+}
+
+/** Limits used unless `RATE_LIMITS` overrides them */
+const DEFAULT_LIMITS: UsageLimits = {
+  requestsPerMinute: 20,
+  dailyTokens: 200000,
+  sessionDailyTokens: 60000,
+  guestTokensPerHour: 10
+};
+
+/** Rough characters per token for English text and code */
+const CHARS_PER_TOKEN = 4;
+
+/** Fixed per-message overhead of chat formatting */
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Resolves the limits from environment vars
+ *
+ * @param env - Environment with optional `RATE_LIMITS`
+ * @returns Complete limits, with non-positive or missing values taken from the defaults
+ */
+export function resolveUsageLimits(env: RateLimitEnv): UsageLimits {
+  const overrides = parseJsonVar<Partial<UsageLimits>>(env.RATE_LIMITS, 'RATE_LIMITS') || {};
+  const limits = { ...DEFAULT_LIMITS };
+  for (const key of Object.keys(DEFAULT_LIMITS) as (keyof UsageLimits)[]) {
+    const value = overrides[key];
+    if (typeof value === 'number' && value > 0) limits[key] = value;
+  }
+  return limits;
+}
+
+/**
+ * Estimates the token count of a text
+ *
+ * @param text - Prompt or response text
+ * @returns Approximate tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the token count of a prompt
+ *
+ * @param messages - Messages sent to the model
+ * @returns Approximate tokens, including per-message overhead
+ */
+export function estimatePromptTokens(messages: AiMessage[]): number {
+  return messages.reduce((sum, m) =>
+    sum + TOKENS_PER_MESSAGE + estimateTokens(m.content) + (m.tool_calls ? estimateTokens(JSON.stringify(m.tool_calls)) : 0), 0);
+}
+
+/**
+ * Builds the `GET /api/usage` report from a limiter's counters
+ *
+ * @param counters - Counters from `UsageLimiter`
+ * @param limits - Configured limits
+ * @param sessionId - Session the counters were read for, if any
+ * @returns Used and remaining quota
+ */
+export function describeUsage(counters: UsageCounters, limits: UsageLimits, sessionId: string | null): UsageReport {
+  return {
+    requests: {
+      used: counters.requests,
+      limit: limits.requestsPerMinute,
+      remaining: Math.max(0, limits.requestsPerMinute - counters.requests),
+      resetsInSeconds: counters.windowResetSeconds
+    },
+    tokens: {
+      used: counters.tokens,
+      limit: limits.dailyTokens,
+      remaining: Math.max(0, limits.dailyTokens - counters.tokens),
+      resetsInSeconds: counters.dayResetSeconds
+    },
+    session: sessionId === null ? null : {
+      sessionId,
+      used: counters.sessionTokens || 0,
+      limit: limits.sessionDailyTokens,
+      remaining: Math.max(0, limits.sessionDailyTokens - (counters.sessionTokens || 0))
+    }
+  };
+}
+
+/**
+ * Provider wrapper that adds up the estimated tokens of every call
+ *
+ * Wraps the provider for one chat turn, so the classifier, extraction, attachment
+ * and repair calls are charged along with the reply itself.
+ */
+export class MeteredProvider implements LlmProvider {
+  readonly name: string;
+  inner: LlmProvider;
+  /** Estimated tokens of all calls so far */
+  tokens = 0;
+
+  constructor(inner: LlmProvider) {
+    this.name = inner.name;
+    this.inner = inner;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.tokens += estimatePromptTokens(request.messages);
+    const text = await this.inner.complete(request);
+    this.tokens += estimateTokens(text);
+    return text;
+  }
+
+  async stream(request: CompletionRequest): Promise<AsyncIterable<string>> {
+    this.tokens += estimatePromptTokens(request.messages);
+    const chunks = await this.inner.stream(request);
+    const meter = this;
+    return (async function* () {
+      for await (const chunk of chunks) {
+        meter.tokens += estimateTokens(chunk);
+        yield chunk;
+      }
+    })();
+  }
+
+  async completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion> {
+    this.tokens += estimatePromptTokens(request.messages) + estimateTokens(JSON.stringify(request.tools));
+    const completion = await this.inner.completeWithTools(request);
+    this.tokens += estimateTokens(completion.text) + estimateTokens(JSON.stringify(completion.toolCalls));
+    return completion;
+  }
+}
+
+/** Storage key for the request timestamps in the current window */
+const WINDOW_KEY = 'window';
+
+/** Storage key for today's token counters */
+const DAY_KEY = 'day';
+
+/**
+ * Token counters for one UTC day
+ */
+interface DayUsage {
+  /** UTC date, `YYYY-MM-DD` */
+  day: string;
+  tokens: number;
+  /** Tokens per session id */
+  sessions: Record<string, number>;
+}
+
+/**
+ * UsageLimiter - Durable Object counting one caller's requests and tokens
+ *
+ * The Worker keeps one instance per user (`user:<id>`) and one per client IP
+ * (`ip:<address>`) for guest token issuance. Limits are sent with each request,
+ * so changing `RATE_LIMITS` takes effect immediately.
+ *
+ * Internal routes:
+ * - POST /acquire → Admits and records a request if no limit is reached
+ *   (`{ maxRequests, windowSeconds, dailyTokens?, sessionId?, sessionDailyTokens? }`)
+ * - POST /record → Adds tokens to today's counters (`{ tokens, sessionId? }`)
+ * - GET /usage?windowSeconds=&sessionId= → Current counters
+ */
+export class UsageLimiter {
+  state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object
+   *
+   * @param request - HTTP request from the Worker
+   * @returns Response with requested data or error
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/acquire' && request.method === 'POST') {
+      return await this.acquire(request);
+    }
+
+    if (url.pathname === '/record' && request.method === 'POST') {
+      return await this.record(request);
+    }
+
+    if (url.pathname === '/usage' && request.method === 'GET') {
+      const windowSeconds = Number(url.searchParams.get('windowSeconds')) || 60;
+      const counters = await this.readCounters(Date.now(), windowSeconds, url.searchParams.get('sessionId'));
+      return new Response(JSON.stringify(counters), { headers: { 'Content-Type': 'application/json' } });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Admits a request unless the window is full or a token budget is used up
+   *
+   * @param request - Request whose body holds the limits to apply
+   * @returns JSON `AcquireResult`
+   */
+  async acquire(request: Request): Promise<Response> {
+    try {
+      const { maxRequests, windowSeconds, dailyTokens, sessionId, sessionDailyTokens } = await request.json() as {
+        maxRequests: number;
+        windowSeconds: number;
+        dailyTokens?: number;
+        sessionId?: string;
+        sessionDailyTokens?: number;
+      };
+      const now = Date.now();
+      const counters = await this.readCounters(now, windowSeconds, sessionId || null);
+
+      let reason: string | null = null;
+      let retryAfter = 0;
+      if (dailyTokens && counters.tokens >= dailyTokens) {
+        reason = 'Daily token budget used up';
+        retryAfter = counters.dayResetSeconds;
+      } else if (sessionDailyTokens && (counters.sessionTokens || 0) >= sessionDailyTokens) {
+        reason = "This session's daily token budget is used up";
+        retryAfter = counters.dayResetSeconds;
+      } else if (counters.requests >= maxRequests) {
+        reason = `Too many requests (limit ${maxRequests} per ${windowSeconds === 60 ? 'minute' : `${windowSeconds} seconds`})`;
+        retryAfter = counters.windowResetSeconds;
+      }
+
+      if (!reason) {
+        const window = (await this.state.storage.get(WINDOW_KEY) as number[] | undefined) || [];
+        const recent = window.filter(t => t > now - windowSeconds * 1000);
+        recent.push(now);
+        await this.state.storage.put(WINDOW_KEY, recent);
+        counters.requests = recent.length;
+        counters.windowResetSeconds = Math.max(1, Math.ceil((recent[0] + windowSeconds * 1000 - now) / 1000));
+      }
+
+      const result: AcquireResult = { allowed: !reason, reason, retryAfter, counters };
+      return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Adds a turn's tokens to today's counters
+   *
+   * @param request - Request whose body holds `{ tokens, sessionId? }`
+   * @returns JSON `{ tokens }`, today's total
+   */
+  async record(request: Request): Promise<Response> {
+    try {
+      const { tokens, sessionId } = await request.json() as { tokens: number; sessionId?: string };
+      const usage = await this.today(Date.now());
+      usage.tokens += tokens;
+      if (sessionId) {
+        usage.sessions[sessionId] = (usage.sessions[sessionId] || 0) + tokens;
+      }
+      await this.state.storage.put(DAY_KEY, usage);
+
+      return new Response(JSON.stringify({ tokens: usage.tokens }), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Reads the request window and today's tokens
+   *
+   * @param now - Current time (ms since epoch)
+   * @param windowSeconds - Length of the request window
+   * @param sessionId - Session whose tokens to include, if any
+   * @returns Current counters
+   */
+  async readCounters(now: number, windowSeconds: number, sessionId: string | null): Promise<UsageCounters> {
+    const window = ((await this.state.storage.get(WINDOW_KEY) as number[] | undefined) || [])
+      .filter(t => t > now - windowSeconds * 1000);
+    const usage = await this.today(now);
+
+    const midnight = new Date(now);
+    midnight.setUTCHours(24, 0, 0, 0);
+
+    return {
+      requests: window.length,
+      windowResetSeconds: window.length ? Math.max(1, Math.ceil((window[0] + windowSeconds * 1000 - now) / 1000)) : 0,
+      tokens: usage.tokens,
+      sessionTokens: sessionId ? usage.sessions[sessionId] || 0 : null,
+      dayResetSeconds: Math.ceil((midnight.getTime() - now) / 1000)
+    };
+  }
+
+  /**
+   * Today's token counters, starting over when the UTC date changes
+   *
+   * @param now - Current time (ms since epoch)
+   * @returns Counters for today
+   */
+  async today(now: number): Promise<DayUsage> {
+    const day = new Date(now).toISOString().slice(0, 10);
+    const stored = await this.state.storage.get(DAY_KEY) as DayUsage | undefined;
+    return stored && stored.day === day ? stored : { day, tokens: 0, sessions: {} };
+  }
+}
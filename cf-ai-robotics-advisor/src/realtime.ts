@@ -0,0 +1,171 @@
+/**
+ * Realtime - WebSocket Frames Shared by the Clients of a Session
+ *
+ * Every browser attached to a session keeps a WebSocket to the session's
+ * `AdvisorState`, which accepts it with the hibernation API so an idle session
+ * costs nothing while its sockets stay open. Clients send chat turns and typing
+ * state over the socket; the object runs each turn through the same pipeline as
+ * `POST /api/chat` and relays its events to every client, so an engineer at the
+ * bench and one at a laptop see the same conversation as it is written.
+ *
+ * Frames are JSON objects with a `type`. From the client:
+ * - `chat` → `{ turnId?, userMessage, stepOutcome?, profileId? }` sends a message, like `POST /api/chat`
+ * - `typing` → `{ typing }` while the user is (or stops) typing
+ *
+ * From the server:
+ * - `presence` → `{ you, connections: [{ connectionId, userId }] }` to everyone when a client connects or leaves
+ * - `typing` → `{ connectionId, userId, typing }` to everyone else
+ * - `user` → `{ turnId, userId, userMessage, attachments }` to everyone else once a turn is under way
+ * - `token`, `tool`, `done`, `error` → the turn's stream events (see `streamChat`) with its `turnId`, to everyone
+ * - `error` → `{ turnId, status, error }` to the sender only, when the turn is rejected before it starts
+ * - `stage` → `{ stage, playbookId, verification, outcome }` to everyone after each saved turn,
+ *   including turns sent over HTTP, which are not relayed as they are written
+ * - `reset` → `{ stage }` to everyone when the diagnosis is restarted
+ * - `handoff` → `{ handoff }` to everyone when the session is handed off to an expert, an expert
+ *   takes it over or the handoff ends (see `handoff`)
+ * - `message` → `{ turnId, message }` to everyone when a message is exchanged with the expert: an
+ *   expert's reply, or a message held for them while the advisor is paused (with its `turnId`)
+ *
+ * Sockets are closed with `SESSION_DELETED_CLOSE_CODE` when the session is deleted. The caller
+ * is only authorized when the socket is opened, so each frame is checked again before it is
+ * handled: once the caller's token has expired the socket is closed with
+ * `CREDENTIAL_EXPIRED_CLOSE_CODE`, and once the session no longer belongs to the caller
+ * with `ACCESS_REVOKED_CLOSE_CODE`.
+ *
+ * @module realtime
+ */
+
+import { Principal } from './auth';
+
+/** Longest frame a client may send, in characters */
+export const MAX_FRAME_LENGTH = 64_000;
+
+/** Close code sent to every client of a session when it is deleted */
+export const SESSION_DELETED_CLOSE_CODE = 4404;
+
+/** Close code sent to a client whose token expired while its socket was open */
+export const CREDENTIAL_EXPIRED_CLOSE_CODE = 4001;
+
+/** Close code (policy violation) sent to a client whose session was deleted or now belongs to someone else */
+export const ACCESS_REVOKED_CLOSE_CODE = 1008;
+
+/**
+ * A client's socket, as serialized on the socket so it survives hibernation
+ */
+export interface Connection {
+  /** Random id of this socket; one user may be connected from several devices */
+  connectionId: string;
+  sessionId: string;
+  /** Caller the Worker authorized when the socket was opened */
+  principal: Principal;
+  /** When the socket was opened (ms since epoch) */
+  connectedAt: number;
+}
+
+/**
+ * A message sent over the socket
+ */
+export interface ChatFrame {
+  type: 'chat';
+  /** Id the client tracks the turn by; echoed on every frame of the turn */
+  turnId: string;
+  userMessage: unknown;
+  stepOutcome?: unknown;
+  profileId?: unknown;
+}
+
+/**
+ * A change in whether the user is typing
+ */
+export interface TypingFrame {
+  type: 'typing';
+  typing: boolean;
+}
+
+/**
+ * Frame sent by a client
+ */
+export type ClientFrame = ChatFrame | TypingFrame;
+
+/**
+ * Reads a frame sent by a client
+ *
+ * The chat fields are checked by the chat pipeline, as they are for `POST /api/chat`.
+ *
+ * @param data - Raw WebSocket message
+ * @returns The frame, or null with the reason it was rejected
+ */
+export function parseClientFrame(data: string | ArrayBuffer): { frame: ClientFrame | null; error: string | null } {
+  if (typeof data !== 'string') {
+    return { frame: null, error: 'Frames must be JSON text' };
+  }
+  if (data.length > MAX_FRAME_LENGTH) {
+    return { frame: null, error: `Frames may be at most ${MAX_FRAME_LENGTH} characters` };
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(data);
+  } catch {
+    return { frame: null, error: 'Frames must be JSON text' };
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { frame: null, error: 'Frames must be JSON objects' };
+  }
+
+  if (body.type === 'typing') {
+    return { frame: { type: 'typing', typing: body.typing === true }, error: null };
+  }
+
+  if (body.type === 'chat') {
+    if (body.turnId !== undefined && (typeof body.turnId !== 'string' || !/^[\w-]{1,64}$/.test(body.turnId))) {
+      return { frame: null, error: 'turnId may only contain letters, digits, _ and - (at most 64)' };
+    }
+    return {
+      frame: {
+        type: 'chat',
+        turnId: body.turnId ?? crypto.randomUUID(),
+        userMessage: body.userMessage,
+        stepOutcome: body.stepOutcome,
+        profileId: body.profileId
+      },
+      error: null
+    };
+  }
+
+  return { frame: null, error: `Unknown frame type: ${body.type}` };
+}
+
+/**
+ * Checks that the caller a socket was opened for may still use it
+ *
+ * @param connection - The socket's connection
+ * @param owner - Current owner of the session, null once it has been deleted
+ * @param now - Current time (ms since epoch)
+ * @returns Close code and reason when the socket must be closed, otherwise null
+ */
+export function revokedConnection(connection: Connection, owner: string | null, now: number): { code: number; reason: string } | null {
+  const { expiresAt, userId } = connection.principal;
+  if (expiresAt !== null && expiresAt <= now) {
+    return { code: CREDENTIAL_EXPIRED_CLOSE_CODE, reason: 'Credential expired' };
+  }
+  if (owner !== userId) {
+    return { code: ACCESS_REVOKED_CLOSE_CODE, reason: 'Session access revoked' };
+  }
+  return null;
+}
+
+/**
+ * Builds the presence frame for one client
+ *
+ * @param connections - Every open socket of the session
+ * @param you - Connection id of the client the frame is for
+ * @returns `presence` frame
+ */
+export function presenceFrame(connections: Connection[], you: string): Record<string, unknown> {
+  return {
+    type: 'presence',
+    you,
+    connections: connections.map(({ connectionId, principal }) => ({ connectionId, userId: principal.userId }))
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * Maintenance Report - Exportable Summary of a Completed Diagnosis
+ *
+ * Assembles a session's case file and history into a report technicians can
+ * attach to a work order: robot description, symptom timeline, diagnosis, steps
+ * (with their walkthrough results), parts list and how the session ended. Rendered as Markdown, JSON or print-ready HTML (browsers can
+ * save that as PDF).
+ *
+ * @module report
+ */
+
+import { CaseFile, emptyCaseFile } from './caseFile';
+import { ChatMessage } from './types';
+import { parseSolutionSections } from './solution';
+import { SessionOutcome, StepOutcome, Verification } from './verification';
+import { RobotProfile } from './profiles';
+
+/**
+ * Formats the report can be exported in
+ */
+export type ReportFormat = 'md' | 'json' | 'html';
+
+/** Valid report formats, for request validation */
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'json', 'html'];
+
+/**
+ * One entry in the symptom timeline
+ */
+export interface TimelineEntry {
+  /** When the user reported it (ms since epoch) */
+  timestamp: number;
+  /** What the user said, shortened */
+  description: string;
+  /** Names of photos and logs sent with it */
+  attachments: string[];
+}
+
+/**
+ * Structured maintenance report
+ */
+export interface MaintenanceReport {
+  sessionId: string;
+  /** Session title */
+  title: string;
+  /** When the report was generated (ms since epoch) */
+  generatedAt: number;
+  /** Robot description from the case file, filled in from the robot profile */
+  robot: {
+    /** Name of the attached robot profile */
+    profile: string | null;
+    type: string | null;
+    platform: string | null;
+    environment: string | null;
+  };
+  /** Symptoms recorded in the case file */
+  symptoms: string[];
+  /** What the user reported, in order */
+  timeline: TimelineEntry[];
+  /** Fixes tried before or during the session */
+  attemptedFixes: string[];
+  /** Diagnosis from the latest solution */
+  diagnosis: {
+    rootCause: string | null;
+    suspectedSubsystems: string[];
+    /** Model confidence in the root cause, when the solution was structured */
+    confidence: string | null;
+  };
+  /** Ordered fix steps */
+  steps: string[];
+  /** Walkthrough result of each step, null where it wasn't reached or walked through */
+  stepOutcomes: (StepOutcome | null)[];
+  /** How to avoid a recurrence */
+  prevention: string | null;
+  /** Parts and tools needed */
+  partsTools: string[];
+  /** Manuals and notes the solution cited */
+  references: { title: string; source: string | null }[];
+  /** The solution reply as the advisor wrote it */
+  solutionText: string;
+  /** How the session ended, or null while it is still open */
+  outcome: { status: SessionOutcome['status']; reason: string; decidedAt: number } | null;
+}
+
+/** Longest timeline description, in characters */
+const MAX_TIMELINE_TEXT = 300;
+
+/** How each session outcome is written in reports */
+const OUTCOME_LABELS: Record<SessionOutcome['status'], string> = { resolved: 'Resolved', escalate: 'Escalated' };
+
+/**
+ * Finds the latest complete solution-stage reply in a history
+ *
+ * @param history - Session history
+ * @returns The assistant message, or null if the session never reached the solution stage
+ */
+export function findSolution(history: ChatMessage[]): ChatMessage | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    if (message.role === 'assistant' && message.stage === 'solution' && !message.partial) {
+      return message;
+    }
+  }
+  return null;
+}
+
+/**
+ * Assembles a maintenance report from stored session state
+ *
+ * @param sessionId - Session identifier
+ * @param state - Stored title, case file, history, and the fix walkthrough, outcome and robot profile if any
+ * @param solution - Solution-stage reply to report on (see `findSolution`)
+ * @returns Report ready for rendering
+ */
+export function buildReport(
+  sessionId: string,
+  state: {
+    title: string | null;
+    caseFile: CaseFile | null;
+    history: ChatMessage[];
+    verification?: Verification | null;
+    outcome?: SessionOutcome | null;
+    profile?: RobotProfile | null;
+  },
+  solution: ChatMessage
+): MaintenanceReport {
+  const caseFile = state.caseFile || emptyCaseFile();
+  const profile = state.profile || null;
+  const profilePlatform = profile?.controller
+    ? `${profile.controller}${profile.firmwareVersion ? ` (firmware ${profile.firmwareVersion})` : ''}`
+    : null;
+  // Structured solutions are used as-is; older Markdown replies are parsed
+  const sections = solution.solution || parseSolutionSections(solution.content);
+
+  // Step results only apply if the last walkthrough was of this solution
+  const walked = state.verification?.steps || [];
+  const sameSteps = walked.length === sections.steps.length && walked.every((s, i) => s.step === sections.steps[i]);
+  const stepOutcomes = sections.steps.map((_, i) => (sameSteps ? walked[i].outcome : null));
+
+  const timeline = state.history
+    .filter(m => m.role === 'user' && m.timestamp <= solution.timestamp)
+    .map(m => {
+      const text = m.content.replace(/\s+/g, ' ').trim();
+      return {
+        timestamp: m.timestamp,
+        description: text.length > MAX_TIMELINE_TEXT ? text.slice(0, MAX_TIMELINE_TEXT - 1) + '…' : text,
+        attachments: (m.attachments || []).map(a => a.name)
+      };
+    });
+
+  return {
+    sessionId,
+    title: state.title || 'Diagnosis',
+    generatedAt: Date.now(),
+    robot: {
+      profile: profile?.name || null,
+      type: caseFile.robotType || profile?.model || null,
+      platform: caseFile.platform || profilePlatform,
+      environment: caseFile.environment
+    },
+    symptoms: caseFile.symptoms,
+    timeline,
+    attemptedFixes: caseFile.attemptedFixes,
+    diagnosis: {
+      rootCause: sections.rootCause,
+      suspectedSubsystems: caseFile.suspectedSubsystems,
+      confidence: solution.solution?.confidence || null
+    },
+    steps: sections.steps,
+    stepOutcomes,
+    prevention: sections.prevention || null,
+    partsTools: sections.partsTools,
+    references: (solution.citations || []).map(c => ({ title: c.title, source: c.source })),
+    solutionText: solution.content,
+    outcome: state.outcome
+      ? { status: state.outcome.status, reason: state.outcome.reason, decidedAt: state.outcome.decidedAt }
+      : null
+  };
+}
+
+/**
+ * Renders a report as Markdown
+ *
+ * @param report - Report to render
+ * @returns Markdown document
+ */
+export function renderMarkdown(report: MaintenanceReport): string {
+  const lines: string[] = [
+    `# Maintenance Report: ${report.title}`,
+    '',
+    `- Session: ${report.sessionId}`,
+    `- Generated: ${new Date(report.generatedAt).toISOString()}`,
+    '',
+    '## Robot',
+    '',
+    ...(report.robot.profile ? [`- Profile: ${report.robot.profile}`] : []),
+    `- Type: ${report.robot.type || 'Not recorded'}`,
+    `- Platform/controller: ${report.robot.platform || 'Not recorded'}`,
+    `- Environment: ${report.robot.environment || 'Not recorded'}`,
+    '',
+    '## Symptoms',
+    '',
+    ...bulletList(report.symptoms),
+    '',
+    '### Timeline',
+    '',
+    ...(report.timeline.length
+      ? report.timeline.map(t => `- ${new Date(t.timestamp).toISOString()}: ${t.description}${t.attachments.length ? ` (attached: ${t.attachments.join(', ')})` : ''}`)
+      : ['- None recorded']),
+    '',
+    '## Already Tried',
+    '',
+    ...bulletList(report.attemptedFixes),
+    '',
+    '## Diagnosis',
+    '',
+    report.diagnosis.rootCause || 'Not stated',
+    ...(report.diagnosis.suspectedSubsystems.length ? ['', `Subsystems: ${report.diagnosis.suspectedSubsystems.join(', ')}`] : []),
+    ...(report.diagnosis.confidence ? ['', `Confidence: ${report.diagnosis.confidence}`] : []),
+    '',
+    '## Steps',
+    '',
+    ...(report.steps.length
+      ? report.steps.map((step, i) => `${i + 1}. [${report.stepOutcomes[i] === 'pass' ? 'x' : ' '}] ${step}${outcomeNote(report.stepOutcomes[i])}`)
+      : ['None listed']),
+    '',
+    '## Prevention',
+    '',
+    report.prevention || 'Not stated',
+    '',
+    '## Parts/Tools',
+    '',
+    ...bulletList(report.partsTools)
+  ];
+
+  if (report.outcome) {
+    lines.push('', '## Outcome', '', `${OUTCOME_LABELS[report.outcome.status]}: ${report.outcome.reason} (${new Date(report.outcome.decidedAt).toISOString()})`);
+  }
+
+  if (report.references.length) {
+    lines.push('', '## References', '', ...report.references.map((r, i) => `${i + 1}. ${r.title}${r.source ? ` (${r.source})` : ''}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders a report as a standalone, print-friendly HTML page
+ *
+ * @param report - Report to render
+ * @returns HTML document
+ */
+export function renderHtml(report: MaintenanceReport): string {
+  const list = (items: string[]) => items.length
+    ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '<p class="none">None recorded</p>';
+  const field = (value: string | null) => value ? escapeHtml(value) : '<span class="none">Not recorded</span>';
+
+  const timeline = report.timeline.map(t => `<tr><td>${escapeHtml(new Date(t.timestamp).toISOString().replace('T', ' ').slice(0, 16))}</td>`
+    + `<td>${escapeHtml(t.description)}${t.attachments.length ? ` <em>(attached: ${escapeHtml(t.attachments.join(', '))})</em>` : ''}</td></tr>`).join('');
+
+  const steps = report.steps.length
+    ? `<ol class="steps">${report.steps.map((step, i) => `<li><span class="box">${report.stepOutcomes[i] === 'pass' ? '✓' : ''}</span>`
+      + `${escapeHtml(step)}${escapeHtml(outcomeNote(report.stepOutcomes[i]))}</li>`).join('')}</ol>`
+    : '<p class="none">None listed</p>';
+
+  const references = report.references.length
+    ? `<h2>References</h2><ol>${report.references.map(r => `<li>${escapeHtml(r.title)}${r.source ? ` (${escapeHtml(r.source)})` : ''}</li>`).join('')}</ol>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Maintenance Report: ${escapeHtml(report.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #222; max-width: 800px; margin: 40px auto; padding: 0 20px; line-height: 1.5; }
+  h1 { font-size: 22px; border-bottom: 2px solid #667eea; padding-bottom: 8px; }
+  h2 { font-size: 16px; margin-top: 24px; color: #444; text-transform: uppercase; letter-spacing: 0.5px; }
+  .meta { color: #666; font-size: 13px; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  td { border-bottom: 1px solid #eee; padding: 6px 8px; vertical-align: top; }
+  td:first-child { white-space: nowrap; color: #666; width: 1%; }
+  .steps { list-style: none; padding: 0; counter-reset: step; }
+  .steps li { counter-increment: step; margin-bottom: 8px; display: flex; gap: 8px; }
+  .steps li::before { content: counter(step) "."; font-weight: 600; }
+  .box { display: inline-block; width: 14px; height: 14px; border: 1px solid #888; flex-shrink: 0; margin-top: 4px; font-size: 11px; line-height: 14px; text-align: center; }
+  .none { color: #999; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Maintenance Report: ${escapeHtml(report.title)}</h1>
+<p class="meta">Session ${escapeHtml(report.sessionId)} · Generated ${escapeHtml(new Date(report.generatedAt).toISOString())}</p>
+<h2>Robot</h2>
+<table>
+${report.robot.profile ? `<tr><td>Profile</td><td>${escapeHtml(report.robot.profile)}</td></tr>` : ''}
+<tr><td>Type</td><td>${field(report.robot.type)}</td></tr>
+<tr><td>Platform/controller</td><td>${field(report.robot.platform)}</td></tr>
+<tr><td>Environment</td><td>${field(report.robot.environment)}</td></tr>
+</table>
+<h2>Symptoms</h2>
+${list(report.symptoms)}
+<h2>Timeline</h2>
+${timeline ? `<table>${timeline}</table>` : '<p class="none">None recorded</p>'}
+<h2>Already Tried</h2>
+${list(report.attemptedFixes)}
+<h2>Diagnosis</h2>
+<p>${field(report.diagnosis.rootCause)}</p>
+${report.diagnosis.suspectedSubsystems.length ? `<p class="meta">Subsystems: ${escapeHtml(report.diagnosis.suspectedSubsystems.join(', '))}</p>` : ''}
+${report.diagnosis.confidence ? `<p class="meta">Confidence: ${escapeHtml(report.diagnosis.confidence)}</p>` : ''}
+<h2>Steps</h2>
+${steps}
+<h2>Prevention</h2>
+<p>${field(report.prevention)}</p>
+<h2>Parts/Tools</h2>
+${list(report.partsTools)}
+${report.outcome ? `<h2>Outcome</h2><p>${OUTCOME_LABELS[report.outcome.status]}: ${escapeHtml(report.outcome.reason)}</p>` : ''}
+${references}
+</body>
+</html>
+`;
+}
+
+function outcomeNote(outcome: StepOutcome | null): string {
+  if (outcome === 'fail') return ' (failed)';
+  if (outcome === 'skipped') return ' (skipped)';
+  return '';
+}
+
+function bulletList(items: string[]): string[] {
+  return items.length ? items.map(item => `- ${item}`) : ['- None recorded'];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,354 @@
+/**
+ * Safety - Hazard Guardrails for Repair Advice
+ *
+ * Both the user's message and the advisor's reply are classified for hazards
+ * (high voltage, lithium battery fire, pinch points, mains power). The workflow
+ * tells the model about hazards in the user's situation; replies that involve a
+ * hazard get a mandatory lockout/tagout and PPE notice, and solutions start with
+ * a lockout step. Clearly dangerous instructions (working live, bypassing a BMS
+ * or an e-stop, puncturing cells) are refused: a user asking for one has the session
+ * escalated to a qualified person, and a reply proposing one is replaced by a warning.
+ * Instructions that are negated in their clause ("never bypass the BMS") only count
+ * as a mention of the hazard. Every flagged turn is logged with the session for review.
+ *
+ * @module safety
+ */
+
+import { Solution, formatSolutionText } from './solution';
+import { SessionOutcome, Verification } from './verification';
+
+/**
+ * Kinds of hazard the guardrails look for
+ */
+export type HazardKind = 'high-voltage' | 'battery-fire' | 'pinch-point' | 'mains-power';
+
+/**
+ * How dangerous a text is: no hazard, a hazard that needs precautions, or an
+ * instruction that must not be followed at all
+ */
+export type SafetyLevel = 'none' | 'caution' | 'danger';
+
+/**
+ * Hazards found in one text
+ */
+export interface SafetyAssessment {
+  level: SafetyLevel;
+  /** Every hazard mentioned */
+  hazards: HazardKind[];
+  /** Hazards with a clearly dangerous instruction or request */
+  dangers: HazardKind[];
+  /** Phrases that matched, for reviewers */
+  matches: string[];
+}
+
+/**
+ * What the guardrails did with a turn, stored with the reply and in the session's safety log
+ */
+export interface SafetyReview {
+  level: Exclude<SafetyLevel, 'none'>;
+  /** `warned`: the reply went out with a safety notice; `refused`: it was replaced by a refusal */
+  action: 'warned' | 'refused';
+  /** Where hazards were found */
+  sources: ('user' | 'reply')[];
+  hazards: HazardKind[];
+  /** Phrases that matched, for reviewers */
+  matches: string[];
+  /** Human-readable summary of the decision */
+  reason: string;
+}
+
+/**
+ * Reply after the guardrails ran
+ */
+export interface GuardedReply {
+  /** Text to store and send */
+  text: string;
+  /** Structured solution, with a lockout step when it involves a hazard (null if refused) */
+  solution: Solution | null;
+  /** Review to log, or null if nothing was flagged */
+  safety: SafetyReview | null;
+  /** Escalation outcome when the user's request was refused */
+  outcome: SessionOutcome | null;
+}
+
+/**
+ * How one hazard is recognized and made safe
+ */
+interface HazardRule {
+  label: string;
+  /** Mentions of the hazard */
+  pattern: RegExp;
+  /** Instructions or requests that must be refused */
+  dangers: RegExp[];
+  /** Lockout/tagout: how to make it safe before touching anything */
+  lockout: string;
+  /** Protective equipment and working practice */
+  ppe: string;
+}
+
+/** Hazard rules, in the order notices list them */
+const HAZARD_RULES: Record<HazardKind, HazardRule> = {
+  'mains-power': {
+    label: 'Mains power',
+    pattern: /\b(mains|wall (outlet|socket|power)|line voltage|ac (input|mains|line|power)|(110|115|120|220|230|240) ?v(ac)?|power supply unit|psu|atx supply|plugged into the wall)\b/,
+    dangers: [
+      /\b(open\w*|prob\w*|work(ing)? (on|inside)|touch\w*|repair\w*)\b.{0,60}\b(while|with) (it |the \w+ )?(is |was |'s )?(still )?(plugged in|live|energi[sz]ed|connected to (the )?mains)\b/,
+      /\b(bypass|replace|jumper)\w* (the )?fuse with (a |some )?(wire|foil|paperclip|nail|coin)\b/,
+      /\b(remove|cut|disconnect)\w* (the )?(ground|earth) (pin|wire|lead|connection)\b/
+    ],
+    lockout: 'Unplug it from the wall, not just the switch, keep the plug where you can see it (or lock out the breaker and tag it), and give the supply capacitors a few minutes to discharge.',
+    ppe: 'Opening mains equipment is a job for a qualified electrician; never work on it while it is connected.'
+  },
+  'high-voltage': {
+    label: 'High voltage',
+    pattern: /\b(high[- ]voltage|hv (bus|battery|side)|dc bus|bus capacitors?|capacitor bank|inverter|motor drive|servo drive|vfd|(4[89]|[5-9]\d|[1-9]\d{2,3}) ?(vdc|v dc|volts? dc|v (bus|battery|pack)))\b/,
+    dangers: [
+      /\b(short\w*|discharg\w*) (out )?(the )?(caps?|capacitors?|bus)\w* with (a |the )?(screwdriver|wire|pliers|paperclip|finger)\b/,
+      /\btouch\w* (the )?(bus|terminals|capacitors?)\b.{0,30}\b(while|with|when) (it'?s |it is )?(still )?(on|live|energi[sz]ed|powered|charged)\b/,
+      /\bwork(ing)? on (it|the \w+) (while it'?s |while )?live\b/
+    ],
+    lockout: 'Switch off and lock out the supply, then measure with a meter rated for the voltage that the DC bus and capacitors are below 50 V before touching anything.',
+    ppe: 'Wear safety glasses, use insulated tools, and keep one hand away from the circuit.'
+  },
+  'battery-fire': {
+    label: 'Battery fire',
+    pattern: /\b(lipo|li-?po|li-?ion|lithium|18650|battery packs?|(swollen|puffy|puffed|bloated) (battery|pack|cell))\b/,
+    dangers: [
+      /\b(puncture|pierce|drill (into|through)|cut (into|open)|crush)\w* (the )?(battery|pack|cells?|lipo)\b/,
+      /\bshort\w* (the )?(battery |pack |cell |lipo )?(terminals|leads)\b/,
+      /\bsolder\w* (directly )?(on|onto|to) (the )?cells?\b/,
+      /\b(charge|charging|use|using|keep using) (a |the |it |this )?(swollen|puffy|puffed|bloated|damaged|punctured|leaking)\b/,
+      /\b(bypass|disable|remove)\w* (the )?bms\b/
+    ],
+    lockout: 'Disconnect the pack at its main connector and set it on a non-flammable surface (or in a LiPo bag); never charge or use a swollen, punctured or hot pack.',
+    ppe: 'Wear safety glasses and keep a fire extinguisher or a bucket of sand within reach.'
+  },
+  'pinch-point': {
+    label: 'Pinch points',
+    pattern: /\b(pinch points?|crush(ing)? hazard|high[- ]torque|gearbox|gripper|harmonic drive|brake release|release the brakes?|belt drive|chain drive|linear actuator|robot arm|manipulator)\b/,
+    dangers: [
+      /\b(reach\w*|put\w* your (hand|fingers?)|hand|fingers?) (in|into|inside|between)\b.{0,40}\b(while|when) (it'?s |it is |the \w+ is )?(running|moving|powered|enabled|energi[sz]ed|on)\b/,
+      /\b(bypass|disable|defeat|jumper|override)\w* (the )?(e-?stop|emergency stop|interlocks?|light curtains?|safety (switch|relay|circuit|scanner))\b/,
+      /\b(release|disengage)\w* (the )?brakes? (while|with)\b.{0,30}\b(load|payload|powered)\b/
+    ],
+    lockout: 'Press the e-stop, disable and lock out motor power, and block or support any axis that could drop under gravity before reaching in.',
+    ppe: 'Keep hands, hair and loose clothing clear of joints, gears and belts, and never rely on software limits for protection.'
+  }
+};
+
+/** Words that turn a dangerous instruction into a warning against it when they come earlier in its clause */
+const NEGATION = /\b(never|do not|does not|did not|don['’]?t|doesn['’]?t|didn['’]?t|without|avoid\w*)\b/;
+
+/** Punctuation that ends a clause, for the negation check */
+const CLAUSE_END = /[.;:!?,\n]/;
+
+/** Stages whose replies give hands-on steps, and so carry a notice whenever the situation is hazardous */
+const STEP_STAGES = ['solution', 'verification'];
+
+/**
+ * Classifies a text for hazards
+ *
+ * @param text - User message or model reply
+ * @returns Hazards mentioned and any clearly dangerous instruction
+ */
+export function assessHazards(text: string): SafetyAssessment {
+  const lower = text.toLowerCase();
+  const hazards: HazardKind[] = [];
+  const dangers: HazardKind[] = [];
+  const matches: string[] = [];
+
+  for (const [kind, rule] of Object.entries(HAZARD_RULES) as [HazardKind, HazardRule][]) {
+    const found = rule.dangers.flatMap(pattern => [...lower.matchAll(new RegExp(pattern.source, 'g'))]);
+    const dangerMatches = found.filter(match => !isNegated(lower, match.index!)).map(match => match[0]);
+    // A warning against the instruction still mentions the hazard
+    const mention = lower.match(rule.pattern)?.[0] || found[0]?.[0];
+    if (!mention && !dangerMatches.length) continue;
+
+    hazards.push(kind);
+    if (dangerMatches.length) dangers.push(kind);
+    matches.push(...(dangerMatches.length ? dangerMatches : [mention!]).map(m => m.trim()));
+  }
+
+  return { level: dangers.length ? 'danger' : hazards.length ? 'caution' : 'none', hazards, dangers, matches };
+}
+
+/**
+ * Classifies the user's situation
+ *
+ * Hazards count from the message and from what is already known about the robot,
+ * but only the message itself can make a request dangerous.
+ *
+ * @param userMessage - Latest user message
+ * @param context - Known facts about the robot and case, as prompt text
+ * @returns Hazards of the situation and any dangerous request in the message
+ */
+export function assessSituation(userMessage: string, context: string): SafetyAssessment {
+  const message = assessHazards(userMessage);
+  const background = assessHazards(context);
+  const hazards = union(message.hazards, background.hazards);
+
+  return {
+    level: message.dangers.length ? 'danger' : hazards.length ? 'caution' : 'none',
+    hazards,
+    dangers: message.dangers,
+    matches: union(message.matches, background.matches)
+  };
+}
+
+/**
+ * Builds the system prompt addition for a hazardous situation
+ *
+ * @param situation - Assessment of the user's message
+ * @returns Prompt text, or an empty string if there is no hazard
+ */
+export function formatSafetyPrompt(situation: SafetyAssessment): string {
+  if (!situation.hazards.length) return '';
+
+  const rules = situation.hazards.map(kind => HAZARD_RULES[kind]);
+  return `SAFETY: This situation involves ${listLabels(situation.hazards).toLowerCase()}. Before any hands-on instruction, tell the user how to make it safe:
+${rules.map(rule => `- ${rule.label}: ${rule.lockout} ${rule.ppe}`).join('\n')}
+Never suggest working on live circuits, bypassing a BMS, fuse, interlock or e-stop, or handling damaged lithium cells; recommend a qualified technician instead.`;
+}
+
+/**
+ * Renders the mandatory safety notice put in front of a hazardous reply
+ *
+ * @param hazards - Hazards the reply or situation involves
+ * @returns Markdown notice
+ */
+export function formatSafetyNotice(hazards: HazardKind[]): string {
+  const lines = hazards.map(kind => HAZARD_RULES[kind]).map(rule => `- **${rule.label}**: ${rule.lockout} ${rule.ppe}`);
+  return `⚠️ **Safety first — lock out, tag out and wear PPE before you start:**\n${lines.join('\n')}`;
+}
+
+/**
+ * Adds a lockout/tagout step in front of a solution's steps, unless it already starts with one
+ *
+ * @param solution - Validated solution
+ * @param hazards - Hazards it involves
+ * @returns Solution whose first step makes the robot safe
+ */
+export function withLockoutStep(solution: Solution, hazards: HazardKind[]): Solution {
+  if (/lock ?out|tag ?out/i.test(solution.steps[0] || '')) return solution;
+
+  const step = `Lock out and tag out before starting: ${hazards.map(kind => HAZARD_RULES[kind].lockout).join(' ')}`;
+  return { ...solution, steps: [step, ...solution.steps] };
+}
+
+/**
+ * Refuses a turn that would involve a clearly dangerous instruction
+ *
+ * A dangerous request from the user escalates the session to a qualified person.
+ * Dangerous advice from the model is only withheld: the warning replaces the reply
+ * and the session stays open.
+ *
+ * @param assessment - Assessment with at least one danger
+ * @param source - Whether the user asked for it or the model proposed it
+ * @param situation - Assessment of the user's message, merged into the review
+ * @param verification - Current walkthrough, whose results go into the escalation outcome
+ * @returns Refusal text, the review to log and, for a user request, the escalation outcome
+ */
+export function refuseUnsafe(
+  assessment: SafetyAssessment,
+  source: 'user' | 'reply',
+  situation: SafetyAssessment,
+  verification: Verification | null
+): GuardedReply {
+  const labels = listLabels(assessment.dangers);
+  const reason = source === 'user'
+    ? `Refused an unsafe request (${labels})`
+    : `Refused unsafe advice (${labels})`;
+  const rules = assessment.dangers.map(kind => HAZARD_RULES[kind]);
+
+  const text = `⚠️ **I can't help with that safely.** ${source === 'user' ? 'What you describe' : 'The fix I was about to suggest'} involves a serious ${labels.toLowerCase()} hazard that can cause injury or fire.
+
+Please stop and make the robot safe:
+${rules.map(rule => `- ${rule.lockout}`).join('\n')}
+
+${source === 'user'
+    ? "Then hand this over to a qualified technician. I've closed this session as escalated so they can pick up from the case notes."
+    : "Tell me what you've checked so far and I'll look for a safe way forward, or hand this over to a qualified technician."}`;
+
+  return {
+    text,
+    solution: null,
+    safety: {
+      level: 'danger',
+      action: 'refused',
+      sources: source === 'user' ? ['user'] : sourcesOf(situation, true),
+      hazards: union(situation.hazards, assessment.hazards),
+      matches: union(situation.matches, assessment.matches),
+      reason
+    },
+    outcome: source === 'user' ? { status: 'escalate', reason, steps: verification?.steps || [], decidedAt: Date.now() } : null
+  };
+}
+
+/**
+ * Checks a generated reply and applies the guardrails
+ *
+ * A clearly dangerous reply is replaced by a warning. A reply that involves a hazard, or a
+ * hands-on reply (solution or walkthrough) in a hazardous situation, gets the
+ * safety notice, and its solution gets a lockout step.
+ *
+ * @param stage - Stage the reply was generated in
+ * @param situation - Assessment of the user's message
+ * @param text - Generated reply
+ * @param solution - Structured solution, for solution-stage replies
+ * @param verification - Current walkthrough, for the escalation outcome
+ * @returns Reply to store and send, with its review
+ */
+export function reviewReply(
+  stage: string,
+  situation: SafetyAssessment,
+  text: string,
+  solution: Solution | null,
+  verification: Verification | null
+): GuardedReply {
+  const reply = assessHazards(solution ? [solution.rootCause, ...solution.steps, ...solution.partsTools].join('\n') : text);
+  if (reply.level === 'danger') {
+    return refuseUnsafe(reply, 'reply', situation, verification);
+  }
+
+  const situationApplies = STEP_STAGES.includes(stage) && situation.hazards.length > 0;
+  if (!reply.hazards.length && !situationApplies) {
+    return { text, solution, safety: null, outcome: null };
+  }
+
+  const hazards = union(reply.hazards, situationApplies ? situation.hazards : []);
+  const guarded = solution ? withLockoutStep(solution, hazards) : null;
+  return {
+    text: `${formatSafetyNotice(hazards)}\n\n${guarded ? formatSolutionText(guarded) : text}`,
+    solution: guarded,
+    safety: {
+      level: 'caution',
+      action: 'warned',
+      sources: sourcesOf(situationApplies ? situation : null, reply.hazards.length > 0),
+      hazards,
+      matches: union(situationApplies ? situation.matches : [], reply.matches),
+      reason: `Added lockout/tagout and PPE warnings for ${listLabels(hazards).toLowerCase()}`
+    },
+    outcome: null
+  };
+}
+
+function isNegated(text: string, index: number): boolean {
+  const before = text.slice(0, index);
+  const clause = before.split(CLAUSE_END).pop() || '';
+  return NEGATION.test(clause);
+}
+
+function sourcesOf(situation: SafetyAssessment | null, fromReply: boolean): ('user' | 'reply')[] {
+  const sources: ('user' | 'reply')[] = situation?.hazards.length ? ['user'] : [];
+  if (fromReply) sources.push('reply');
+  return sources;
+}
+
+function listLabels(hazards: HazardKind[]): string {
+  const labels = hazards.map(kind => HAZARD_RULES[kind].label);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0] || '';
+}
+
+function union<T>(a: T[], b: T[]): T[] {
+  return [...new Set([...a, ...b])];
+}
@@ -0,0 +1,253 @@
+/**
+ * Schema - Versioned SQLite Migrations for Durable Objects and D1
+ *
+ * Each SQLite-backed Durable Object records the migrations it has applied in a
+ * `schema_migrations` table. On startup, `migrate` applies the newer ones in
+ * order, each in its own transaction together with its version row, so an
+ * object is never left half-migrated. `migrateDatabase` does the same for a D1
+ * database, with one batch per migration. Migrations are append-only: ship schema
+ * changes as a new version, never by editing an applied one.
+ *
+ * @module schema
+ */
+
+import { DurableObjectState } from './types';
+
+/**
+ * One schema change
+ */
+export interface Migration {
+  /** Version number, increasing by one from 1 */
+  version: number;
+  /** What the migration does, stored with the version */
+  description: string;
+  /** Statements run in order inside one transaction */
+  statements: string[];
+}
+
+/**
+ * Migrations of the `AdvisorState` database
+ *
+ * Version 1 matches the `messages` table sessions created before migrations
+ * were versioned, so it is a no-op for them.
+ */
+export const SESSION_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Messages, one row each',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        extra TEXT
+      )`
+    ]
+  },
+  {
+    version: 2,
+    description: 'Stage transitions, linked to the reply they led to',
+    statements: [
+      `CREATE TABLE stage_transitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id INTEGER NOT NULL,
+        from_stage TEXT NOT NULL,
+        to_stage TEXT NOT NULL,
+        method TEXT NOT NULL,
+        reasons TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      )`,
+      'CREATE INDEX stage_transitions_message ON stage_transitions (message_id)'
+    ]
+  },
+  {
+    version: 3,
+    description: 'Session metadata, one row',
+    statements: [
+      `CREATE TABLE session (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        owner TEXT,
+        title TEXT,
+        stage TEXT NOT NULL DEFAULT 'initial',
+        profile_id TEXT,
+        case_file TEXT,
+        verification TEXT,
+        outcome TEXT,
+        summary TEXT,
+        updated_at INTEGER
+      )`,
+      'INSERT INTO session (id) VALUES (1)'
+    ]
+  },
+  {
+    version: 4,
+    description: 'Safety log of flagged turns, kept across resets',
+    statements: [
+      `CREATE TABLE safety_flags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id INTEGER NOT NULL,
+        level TEXT NOT NULL,
+        action TEXT NOT NULL,
+        sources TEXT NOT NULL,
+        hazards TEXT NOT NULL,
+        matches TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        user_message TEXT NOT NULL,
+        reply TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 5,
+    description: 'User feedback on assistant replies',
+    statements: [
+      `CREATE TABLE feedback (
+        message_id INTEGER PRIMARY KEY,
+        rating TEXT,
+        comment TEXT,
+        solved INTEGER,
+        updated_at INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 6,
+    description: 'Telemetry uploads with their samples and analysis',
+    statements: [
+      `CREATE TABLE telemetry (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        format TEXT NOT NULL,
+        series TEXT NOT NULL,
+        analysis TEXT NOT NULL,
+        uploaded_at INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 7,
+    description: 'Diagnosis playbook of the session',
+    statements: ['ALTER TABLE session ADD COLUMN playbook_id TEXT']
+  },
+  {
+    version: 8,
+    description: 'Handoff of the session to a human expert',
+    statements: ['ALTER TABLE session ADD COLUMN handoff TEXT']
+  }
+];
+
+/**
+ * Migrations of the analytics events and feedback tables, used by both the D1 database and
+ * its `AnalyticsLog` stand-in
+ */
+export const ANALYTICS_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Diagnosis events, one per saved turn',
+    statements: [
+      `CREATE TABLE events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        from_stage TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        turn INTEGER NOT NULL,
+        title TEXT,
+        outcome TEXT,
+        subsystems TEXT NOT NULL,
+        robot_type TEXT
+      )`,
+      'CREATE INDEX events_session ON events (session_id)',
+      'CREATE INDEX events_timestamp ON events (timestamp)'
+    ]
+  },
+  {
+    version: 2,
+    description: 'Feedback on assistant replies, with their prompt version',
+    statements: [
+      `CREATE TABLE feedback (
+        session_id TEXT NOT NULL,
+        message_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        stage TEXT,
+        prompt_version TEXT,
+        rating TEXT,
+        comment TEXT,
+        solved INTEGER,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (session_id, message_id)
+      )`,
+      'CREATE INDEX feedback_updated ON feedback (updated_at)'
+    ]
+  }
+];
+
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  description TEXT NOT NULL,
+  applied_at INTEGER NOT NULL
+)`;
+
+const CURRENT_VERSION = 'SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations';
+
+const RECORD_VERSION = 'INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)';
+
+/**
+ * Applies the migrations a database hasn't seen yet
+ *
+ * @param storage - Durable Object storage with the SQL API
+ * @param migrations - All migrations, in version order
+ * @returns Schema version after migrating
+ */
+export function migrate(storage: DurableObjectState['storage'], migrations: Migration[]): number {
+  storage.sql.exec(CREATE_MIGRATIONS_TABLE);
+
+  let version = storage.sql.exec(CURRENT_VERSION).one().version as number;
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    if (migration.version !== version + 1) {
+      throw new Error(`Migration ${migration.version} doesn't follow version ${version}`);
+    }
+
+    storage.transactionSync(() => {
+      for (const statement of migration.statements) {
+        storage.sql.exec(statement);
+      }
+      storage.sql.exec(RECORD_VERSION, migration.version, migration.description, Date.now());
+    });
+    version = migration.version;
+  }
+  return version;
+}
+
+/**
+ * Applies the migrations a D1 database hasn't seen yet
+ *
+ * Two isolates migrating at once can't both apply a version: the slower batch
+ * fails on what the other one created, rolls back and throws.
+ *
+ * @param db - D1 database
+ * @param migrations - All migrations, in version order
+ * @returns Schema version after migrating
+ */
+export async function migrateDatabase(db: D1Database, migrations: Migration[]): Promise<number> {
+  await db.prepare(CREATE_MIGRATIONS_TABLE).run();
+
+  let version = (await db.prepare(CURRENT_VERSION).first<{ version: number }>())?.version || 0;
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    if (migration.version !== version + 1) {
+      throw new Error(`Migration ${migration.version} doesn't follow version ${version}`);
+    }
+
+    await db.batch([
+      ...migration.statements.map(statement => db.prepare(statement)),
+      db.prepare(RECORD_VERSION).bind(migration.version, migration.description, Date.now())
+    ]);
+    version = migration.version;
+  }
+  return version;
+}
@@ -0,0 +1,127 @@
+/**
+ * Session Registry - Per-User Directory of Diagnosis Sessions
+ *
+ * `AdvisorState` instances are isolated, so nothing can enumerate them. Each user
+ * gets one `SessionRegistry` instance (keyed by user id) that records a summary of
+ * every session they own, which the UI uses to list and resume past diagnoses.
+ *
+ * @module sessionRegistry
+ */
+
+import { DurableObjectState } from './types';
+
+/**
+ * Directory entry for one session
+ */
+export interface SessionSummary {
+  /** Session identifier (the `AdvisorState` name) */
+  sessionId: string;
+  /** User-visible title, defaulting to the first message */
+  title: string;
+  /** Last known diagnosis stage */
+  stage: string;
+  /** When the session was first registered (ms since epoch) */
+  createdAt: number;
+  /** When the session last changed (ms since epoch) */
+  updatedAt: number;
+}
+
+/** Storage key prefix for session summaries */
+const SESSION_PREFIX = 'session:';
+
+/**
+ * SessionRegistry - Durable Object listing one user's sessions
+ *
+ * Internal routes:
+ * - GET /sessions → All summaries, most recently updated first
+ * - PUT /sessions/:id → Creates or updates a summary (partial fields merge)
+ * - DELETE /sessions/:id → Removes a summary
+ */
+export class SessionRegistry {
+  state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  /**
+   * Handles incoming requests to the Durable Object
+   *
+   * @param request - HTTP request from the Worker
+   * @returns Response with requested data or error
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/sessions' && request.method === 'GET') {
+      return await this.listSessions();
+    }
+
+    const match = url.pathname.match(/^\/sessions\/([^/]+)$/);
+    if (match && request.method === 'PUT') {
+      return await this.upsertSession(decodeURIComponent(match[1]), request);
+    }
+
+    if (match && request.method === 'DELETE') {
+      return await this.deleteSession(decodeURIComponent(match[1]));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Lists every registered session
+   *
+   * @returns JSON `{ sessions }` sorted by most recent activity
+   */
+  async listSessions(): Promise<Response> {
+    const entries = await this.state.storage.list({ prefix: SESSION_PREFIX });
+    const sessions = [...entries.values()] as SessionSummary[];
+    sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+
+    return new Response(JSON.stringify({ sessions }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  /**
+   * Creates or updates a session summary
+   *
+   * @param sessionId - Session to register
+   * @param request - Request whose body holds the fields to set (title, stage)
+   * @returns The stored summary
+   */
+  async upsertSession(sessionId: string, request: Request): Promise<Response> {
+    try {
+      const update = await request.json() as Partial<SessionSummary>;
+      const key = SESSION_PREFIX + sessionId;
+      const existing = await this.state.storage.get(key) as SessionSummary | undefined;
+      const now = Date.now();
+
+      const summary: SessionSummary = {
+        sessionId,
+        title: update.title || existing?.title || 'New diagnosis',
+        stage: update.stage || existing?.stage || 'initial',
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      };
+      await this.state.storage.put(key, summary);
+
+      return new Response(JSON.stringify(summary), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Removes a session summary
+   *
+   * @param sessionId - Session to remove
+   * @returns JSON `{ deleted }`, false if it wasn't registered
+   */
+  async deleteSession(sessionId: string): Promise<Response> {
+    const deleted = await this.state.storage.delete(SESSION_PREFIX + sessionId);
+    return new Response(JSON.stringify({ deleted }), { headers: { 'Content-Type': 'application/json' } });
+  }
+}
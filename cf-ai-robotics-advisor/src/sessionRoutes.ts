@@ -0,0 +1,570 @@
+/**
+ * Session Routes - Handlers for a Caller's Diagnosis Sessions
+ *
+ * Creating, listing, renaming, resetting and deleting sessions, and reading what a
+ * session holds: its history, case file, report, attachments, telemetry, safety log
+ * and feedback. Handlers given a session id expect the router to have checked that
+ * the caller owns it (`authorizeSession`), or is an admin where the route says so.
+ *
+ * @module sessionRoutes
+ */
+
+import { promptVersion } from './workflow';
+import { SessionSummary } from './sessionRegistry';
+import { REPORT_FORMATS, ReportFormat, buildReport, findSolution, renderHtml, renderMarkdown } from './report';
+import { Principal } from './auth';
+import { MAX_TELEMETRY_BYTES, TelemetryFormat, TelemetryUpload, analyzeTelemetry, parseTelemetry } from './telemetry';
+import { validateFeedback } from './feedback';
+import { createEventStore } from './analytics';
+import { Env, getRegistryStub, getSessionStub } from './env';
+import { fetchProfile } from './libraryRoutes';
+
+/** Most messages returned by one page of `GET /api/history/:id` */
+const MAX_HISTORY_PAGE = 100;
+
+/**
+ * Returns the structured case file for a session
+ * 
+ * @param sessionId - Session whose case file to read
+ * @param env - Environment bindings
+ * @returns JSON case file
+ */
+export async function getCase(sessionId: string, env: Env): Promise<Response> {
+  try {
+    const doStub = getSessionStub(env, sessionId);
+
+    const caseRes = await doStub.fetch(new Request('http://do/case', { method: 'GET' }));
+
+    return new Response(JSON.stringify(await caseRes.json()), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Returns the turns of a session the safety guardrails flagged, for review
+ * 
+ * @param sessionId - Session whose safety log to read
+ * @param env - Environment bindings
+ * @returns JSON `{ sessionId, flags }`, oldest first
+ */
+export async function getSafetyLog(sessionId: string, env: Env): Promise<Response> {
+  try {
+    const safetyRes = await getSessionStub(env, sessionId).fetch(new Request('http://do/safety', { method: 'GET' }));
+    const { flags } = await safetyRes.json() as { flags: unknown[] };
+
+    return new Response(JSON.stringify({ sessionId, flags }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Parses, analyzes and stores telemetry posted for a session
+ * 
+ * @param sessionId - Session the data belongs to
+ * @param request - Request whose body is JSON or CSV (`text/csv`; other types are told apart by the
+ *   first character), at most `MAX_TELEMETRY_BYTES`
+ * @param url - Request URL carrying the optional `name` and `timeUnit` (`s` by default, or `ms` for
+ *   millisecond counters) query parameters
+ * @param env - Environment bindings
+ * @returns 201 JSON `{ sessionId, telemetryId, name, format, uploadedAt, analysis }`; 400 when the data
+ *   can't be read, 413 when it is too large
+ */
+export async function ingestTelemetry(sessionId: string, request: Request, url: URL, env: Env): Promise<Response> {
+  const timeUnit = url.searchParams.get('timeUnit') || 's';
+  if (timeUnit !== 's' && timeUnit !== 'ms') {
+    return new Response(JSON.stringify({ error: 'timeUnit must be one of: s, ms' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_TELEMETRY_BYTES) {
+    return new Response(JSON.stringify({ error: `Telemetry is larger than ${Math.floor(MAX_TELEMETRY_BYTES / 1000)} kB` }), {
+      status: 413,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const contentType = request.headers.get('Content-Type') || '';
+  const format: TelemetryFormat = contentType.includes('csv') ? 'csv'
+    : contentType.includes('json') ? 'json'
+    : /^\s*[[{]/.test(text) ? 'json' : 'csv';
+  const { series, name: bodyName, errors } = parseTelemetry(text, format, timeUnit);
+  if (!series) {
+    return new Response(JSON.stringify({ error: errors.join('; ') }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const name = url.searchParams.get('name')?.trim() || bodyName || `telemetry.${format}`;
+    const analysis = analyzeTelemetry(series);
+    const postReq = new Request('http://do/telemetry', {
+      method: 'POST',
+      body: JSON.stringify({ name, format, series, analysis })
+    });
+    const { id, uploadedAt } = await (await getSessionStub(env, sessionId).fetch(postReq)).json() as any;
+
+    return new Response(JSON.stringify({ sessionId, telemetryId: id, name, format, uploadedAt, analysis }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Lists a session's telemetry uploads
+ * 
+ * @param sessionId - Session identifier
+ * @param env - Environment bindings
+ * @returns JSON `{ sessionId, uploads }`, oldest first, without samples
+ */
+export async function listTelemetry(sessionId: string, env: Env): Promise<Response> {
+  try {
+    const res = await getSessionStub(env, sessionId).fetch(new Request('http://do/telemetry', { method: 'GET' }));
+    const { uploads } = await res.json() as { uploads: TelemetryUpload[] };
+    return new Response(JSON.stringify({ sessionId, uploads }), { headers: { 'Content-Type': 'application/json' } });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Retrieves one telemetry upload of a session with its samples
+ * 
+ * @param sessionId - Session identifier
+ * @param telemetryId - Upload id, as returned when it was posted
+ * @param env - Environment bindings
+ * @returns The upload with its analysis and `series`, or 404
+ */
+export async function getTelemetry(sessionId: string, telemetryId: number, env: Env): Promise<Response> {
+  try {
+    return await getSessionStub(env, sessionId).fetch(new Request(`http://do/telemetry/${telemetryId}`, { method: 'GET' }));
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Exports a maintenance report for a session that has reached the solution stage
+ * 
+ * @param sessionId - Session to report on
+ * @param url - Request URL carrying the optional `format` query parameter (default `md`)
+ * @param env - Environment bindings
+ * @returns The report as Markdown, JSON or HTML; 409 if there is no solution yet
+ */
+export async function getReport(sessionId: string, url: URL, env: Env): Promise<Response> {
+  const format = (url.searchParams.get('format') || 'md') as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    return new Response(JSON.stringify({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const stateRes = await getSessionStub(env, sessionId).fetch(new Request('http://do/state', { method: 'GET' }));
+    const state = await stateRes.json() as any;
+
+    const solution = findSolution(state.history || []);
+    if (!solution) {
+      return new Response(JSON.stringify({ error: 'Session has not reached the solution stage yet' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const profile = state.profileId ? await fetchProfile(env, state.profileId) : null;
+    const report = buildReport(sessionId, { ...state, profile }, solution);
+    const filename = `maintenance-report-${sessionId.replace(/[^\w-]/g, '_')}.${format}`;
+
+    if (format === 'json') {
+      return new Response(JSON.stringify(report), { headers: { 'Content-Type': 'application/json' } });
+    }
+
+    return new Response(format === 'html' ? renderHtml(report) : renderMarkdown(report), {
+      headers: {
+        'Content-Type': format === 'html' ? 'text/html; charset=utf-8' : 'text/markdown; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}"`
+      }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Serves an image attached to a session
+ * 
+ * @param sessionId - Session the image was sent in
+ * @param attachmentId - Attachment identifier
+ * @param env - Environment bindings
+ * @returns The image, or a JSON 404
+ */
+export async function getAttachment(sessionId: string, attachmentId: string, env: Env): Promise<Response> {
+  try {
+    const getReq = new Request(`http://do/attachments/${encodeURIComponent(attachmentId)}`, { method: 'GET' });
+    const stored = await getSessionStub(env, sessionId).fetch(getReq);
+
+    if (!stored.ok) {
+      return new Response(JSON.stringify({ error: 'Attachment not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(stored.body, {
+      headers: {
+        'Content-Type': stored.headers.get('Content-Type') || 'application/octet-stream',
+        'Cache-Control': 'private, max-age=86400'
+      }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Hands a WebSocket upgrade to the session's Durable Object, which keeps the socket
+ * 
+ * @param sessionId - Session to connect to
+ * @param request - Upgrade request
+ * @param principal - Caller, who owns the session
+ * @param env - Environment bindings
+ * @returns 101 response with the socket, or 426 for a request that isn't an upgrade
+ */
+export async function connectSocket(sessionId: string, request: Request, principal: Principal, env: Env): Promise<Response> {
+  if (request.headers.get('Upgrade') !== 'websocket') {
+    return new Response(JSON.stringify({ error: 'Expected a WebSocket upgrade' }), {
+      status: 426,
+      headers: { 'Content-Type': 'application/json', 'Upgrade': 'websocket' }
+    });
+  }
+
+  return await getSessionStub(env, sessionId).fetch(new Request('http://do/socket', {
+    headers: { 'Upgrade': 'websocket', 'X-Session-Id': sessionId, 'X-Principal': JSON.stringify(principal) }
+  }));
+}
+
+/**
+ * Creates or updates a session's entry in the user's registry
+ * 
+ * @param env - Environment bindings
+ * @param userId - Owner of the session
+ * @param sessionId - Session to register
+ * @param fields - Summary fields to set
+ */
+export async function registerSession(env: Env, userId: string, sessionId: string, fields: Partial<SessionSummary>): Promise<void> {
+  const putReq = new Request(`http://do/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(fields)
+  });
+  await getRegistryStub(env, userId).fetch(putReq);
+}
+
+/**
+ * Checks that a session exists and belongs to the caller
+ * 
+ * @param env - Environment bindings
+ * @param principal - Caller
+ * @param sessionId - Session being accessed
+ * @returns 404 or 403 response, or null if the caller owns the session
+ */
+export async function authorizeSession(env: Env, principal: Principal, sessionId: string): Promise<Response | null> {
+  const ownerRes = await getSessionStub(env, sessionId).fetch(new Request('http://do/owner', { method: 'GET' }));
+  const { owner } = await ownerRes.json() as { owner: string | null };
+
+  if (!owner) {
+    return new Response(JSON.stringify({ error: 'Session not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (owner !== principal.userId) {
+    return new Response(JSON.stringify({ error: 'This session belongs to another user' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Creates a session owned by the caller
+ * 
+ * Session ids are random UUIDs minted here, so they can't be guessed; the session
+ * shows up in the caller's registry once its first message is sent.
+ * 
+ * @param principal - Caller, who becomes the owner
+ * @param env - Environment bindings
+ * @returns JSON `{ sessionId }` (201)
+ */
+export async function createSession(principal: Principal, env: Env): Promise<Response> {
+  try {
+    const sessionId = `session_${crypto.randomUUID()}`;
+    const claimReq = new Request('http://do/owner', { method: 'POST', body: JSON.stringify({ userId: principal.userId }) });
+    const claimRes = await getSessionStub(env, sessionId).fetch(claimReq);
+    if (!claimRes.ok) {
+      throw new Error((await claimRes.json() as any).error);
+    }
+
+    return new Response(JSON.stringify({ sessionId }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Lists the caller's sessions, most recent first
+ * 
+ * @param principal - Caller
+ * @param env - Environment bindings
+ * @returns JSON `{ sessions }`
+ */
+export async function listSessions(principal: Principal, env: Env): Promise<Response> {
+  try {
+    const listRes = await getRegistryStub(env, principal.userId).fetch(new Request('http://do/sessions', { method: 'GET' }));
+
+    return new Response(JSON.stringify(await listRes.json()), {
+      status: listRes.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Renames a session
+ * 
+ * @param sessionId - Session to rename
+ * @param request - Request with `title`
+ * @param principal - Caller, who owns the session
+ * @param env - Environment bindings
+ * @returns JSON with the stored title
+ */
+export async function renameSession(sessionId: string, request: Request, principal: Principal, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => null) as any;
+  const title = typeof body?.title === 'string' ? body.title.trim() : '';
+
+  if (!title) {
+    return new Response(JSON.stringify({ error: 'title required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const titleReq = new Request('http://do/title', { method: 'PUT', body: JSON.stringify({ title }) });
+    await getSessionStub(env, sessionId).fetch(titleReq);
+
+    await registerSession(env, principal.userId, sessionId, { title });
+
+    return new Response(JSON.stringify({ sessionId, title }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Restarts a session's diagnosis from the initial stage, keeping its title
+ * 
+ * @param sessionId - Session to reset
+ * @param principal - Caller, who owns the session
+ * @param env - Environment bindings
+ * @returns JSON with the reset stage
+ */
+export async function resetSession(sessionId: string, principal: Principal, env: Env): Promise<Response> {
+  try {
+    await getSessionStub(env, sessionId).fetch(new Request('http://do/reset', { method: 'POST' }));
+    await registerSession(env, principal.userId, sessionId, { stage: 'initial' });
+
+    return new Response(JSON.stringify({ sessionId, stage: 'initial' }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Deletes a session and removes it from the user's registry
+ * 
+ * @param sessionId - Session to delete
+ * @param principal - Caller, who owns the session
+ * @param env - Environment bindings
+ * @returns JSON confirmation
+ */
+export async function deleteSession(sessionId: string, principal: Principal, env: Env): Promise<Response> {
+  try {
+    await getSessionStub(env, sessionId).fetch(new Request('http://do/', { method: 'DELETE' }));
+
+    const deleteReq = new Request(`http://do/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+    await getRegistryStub(env, principal.userId).fetch(deleteReq);
+
+    return new Response(JSON.stringify({ sessionId, deleted: true }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Returns session state with its history, or one page of the history
+ * 
+ * Pages run newest first: without `before` the latest `limit` messages are returned, and
+ * `nextBefore` from the response fetches the page before them.
+ * 
+ * @param sessionId - Session identifier
+ * @param url - Request URL with optional `before` (a message id) and `limit` (1-100)
+ * @param env - Environment bindings
+ * @returns Session state (see `AdvisorState.getState`), or 400 for an invalid cursor or limit
+ */
+export async function getHistory(sessionId: string, url: URL, env: Env): Promise<Response> {
+  const before = url.searchParams.get('before');
+  const limit = url.searchParams.get('limit');
+  if (before !== null && !/^[1-9]\d*$/.test(before)) {
+    return new Response(JSON.stringify({ error: 'before must be a message id' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  if (limit !== null && (!/^[1-9]\d*$/.test(limit) || Number(limit) > MAX_HISTORY_PAGE)) {
+    return new Response(JSON.stringify({ error: `limit must be between 1 and ${MAX_HISTORY_PAGE}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const doStub = getSessionStub(env, sessionId);
+
+    const query = new URLSearchParams();
+    if (before !== null) query.set('before', before);
+    if (limit !== null) query.set('limit', limit);
+    const stateReq = new Request(`http://do/state?${query}`, { method: 'GET' });
+    const stateRes = await doStub.fetch(stateReq);
+
+    return new Response(JSON.stringify(await stateRes.json()), {
+      status: stateRes.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Stores the owner's feedback on an assistant reply and copies it to the analytics store
+ * 
+ * @param sessionId - Session the reply belongs to
+ * @param messageId - Row id of the reply (`messageId` in chat responses, `id` in history)
+ * @param request - Request whose body sets any of `rating` ("up", "down" or null), `comment` and `solved`
+ * @param principal - Caller, who owns the session
+ * @param env - Environment bindings
+ * @returns JSON `{ sessionId, messageId, feedback }`; 400 for an invalid body, 404 when the message isn't
+ *   an assistant reply
+ */
+export async function saveFeedback(sessionId: string, messageId: number, request: Request, principal: Principal, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => null);
+  const { edit, errors } = validateFeedback(body);
+
+  if (errors.length) {
+    return new Response(JSON.stringify({ error: errors.join('; ') }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const putReq = new Request(`http://do/messages/${messageId}/feedback`, { method: 'PUT', body: JSON.stringify(edit) });
+    const res = await getSessionStub(env, sessionId).fetch(putReq);
+    const saved = await res.json() as any;
+    if (!res.ok) {
+      return new Response(JSON.stringify(saved), {
+        status: res.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // The session copy is what the UI shows; the analytics copy only feeds the export
+    try {
+      await createEventStore(env).recordFeedback({
+        ...saved.feedback,
+        sessionId,
+        messageId,
+        userId: principal.userId,
+        stage: saved.stage,
+        promptVersion: saved.promptVersion
+      });
+    } catch (error: any) {
+      console.error('Analytics feedback failed:', error);
+    }
+
+    return new Response(JSON.stringify({ sessionId, messageId, feedback: saved.feedback }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Share Page - The Read-Only Session View Served at `/share/:token`
+ *
+ * One self-contained HTML page with its styles and script inline.
+ *
+ * @module sharePage
+ */
+
+
+
+/**
+ * Serves the read-only view behind a share link; its data comes from `GET /api/share/:token`.
+ * Experts paste an expert or admin API key or token to reply and to hand the session back,
+ * which the page keeps in local storage
+ */
+export function serveShare(): Response {
+  return new Response(`
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta name="referrer" content="no-referrer">
+      <title>Shared Diagnosis</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          min-height: 100vh;
+          padding: 20px;
+        }
+        .container {
+          max-width: 800px;
+          margin: 0 auto;
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+          padding: 20px;
+        }
+        h1 { font-size: 20px; color: #333; margin-bottom: 4px; }
+        h2 { font-size: 13px; color: #555; margin: 16px 0 8px 0; }
+        #meta { font-size: 12px; color: #777; }
+        #status { font-size: 13px; color: #c0392b; margin-top: 8px; }
+        #caseSummary { font-size: 13px; color: #333; white-space: pre-wrap; background: #f5f6ff; border-radius: 8px; padding: 10px 12px; }
+        .message { padding: 8px 12px; border-radius: 8px; margin-bottom: 6px; font-size: 13px; white-space: pre-wrap; }
+        .message.user { background: #667eea; color: white; margin-left: 20%; }
+        .message.assistant { background: #f5f5f5; color: #333; margin-right: 20%; }
+        .message.expert { background: #fff8e6; color: #333; border: 1px solid #f0c36d; margin-right: 20%; }
+        .message .meta { display: block; font-size: 10px; opacity: 0.7; margin-bottom: 2px; }
+        #expertPanel { margin-top: 16px; border-top: 1px solid #eee; padding-top: 12px; }
+        #expertPanel input, #expertPanel textarea {
+          width: 100%;
+          padding: 8px;
+          border: 1px solid #ddd;
+          border-radius: 6px;
+          font-size: 13px;
+          font-family: inherit;
+          margin-bottom: 8px;
+        }
+        #expertPanel button {
+          padding: 6px 14px;
+          background: #667eea;
+          color: white;
+          border: none;
+          border-radius: 6px;
+          cursor: pointer;
+          font-weight: 600;
+        }
+        #expertPanel button.secondary { background: none; color: #667eea; border: 1px solid #667eea; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1 id="title">Shared diagnosis</h1>
+        <div id="meta"></div>
+        <div id="status"></div>
+        <h2>Case summary</h2>
+        <div id="caseSummary"></div>
+        <h2>Transcript</h2>
+        <div id="messages"></div>
+        <div id="expertPanel" hidden>
+          <h2>Reply as the expert</h2>
+          <input type="password" id="credential" placeholder="Expert API key or token">
+          <textarea id="replyInput" rows="4" placeholder="Your advice; the advisor is paused once you reply"></textarea>
+          <button id="replyBtn">Send reply</button>
+          <button id="endBtn" class="secondary">Hand back to the advisor</button>
+        </div>
+      </div>
+
+      <script>
+        const token = location.pathname.split('/').pop();
+        const credentialEl = document.getElementById('credential');
+        const replyInput = document.getElementById('replyInput');
+        const statusEl = document.getElementById('status');
+        const messagesEl = document.getElementById('messages');
+        const expertPanel = document.getElementById('expertPanel');
+        // The transcript is polled, so replies written in the session show up here too
+        const POLL_MS = 10000;
+        let shared = null;
+
+        credentialEl.value = localStorage.getItem('advisorExpertCredential') || '';
+
+        // Signed tokens and JWTs contain dots and go in the Authorization header; anything else is an API key
+        async function expertApi(path, options) {
+          const credential = credentialEl.value.trim();
+          localStorage.setItem('advisorExpertCredential', credential);
+          const auth = credential.includes('.') ? { 'Authorization': 'Bearer ' + credential } : { 'X-API-Key': credential };
+          const response = await fetch(path, { ...options, headers: { ...auth, 'Content-Type': 'application/json' } });
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || response.statusText);
+          return data;
+        }
+
+        function describeHandoff(handoff) {
+          if (!handoff) return 'Not handed off';
+          if (handoff.status === 'active') return 'An expert is handling it; the advisor is paused';
+          if (handoff.status === 'waiting') return 'Waiting for an expert' + (handoff.reason ? ': ' + handoff.reason : '');
+          return 'Handed back to the advisor';
+        }
+
+        function render(data) {
+          document.getElementById('title').textContent = data.title || 'Shared diagnosis';
+          document.getElementById('meta').textContent = 'Stage: ' + data.stage +
+            (data.outcome ? ' · ' + data.outcome.status : '') + ' · ' + describeHandoff(data.handoff) +
+            ' · Link valid until ' + new Date(data.expiresAt).toLocaleString();
+          document.getElementById('caseSummary').textContent = data.caseSummary || 'Nothing recorded yet';
+
+          const atBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 20;
+          messagesEl.innerHTML = '';
+          for (const message of data.history) {
+            const el = document.createElement('div');
+            el.className = 'message ' + message.role;
+            const meta = document.createElement('span');
+            meta.className = 'meta';
+            const who = message.role === 'expert' ? 'Expert ' + message.author : message.role === 'user' ? 'Owner' : 'Advisor';
+            meta.textContent = who + ' · ' + new Date(message.timestamp).toLocaleString();
+            const attachments = (message.attachments || []).map(a => a.name).join(', ');
+            el.append(meta, message.content + (attachments ? ' [attached: ' + attachments + ']' : ''));
+            messagesEl.appendChild(el);
+          }
+          if (atBottom) window.scrollTo(0, document.body.scrollHeight);
+
+          // Replies are only taken while the session is handed off
+          expertPanel.hidden = !data.handoff || data.handoff.status === 'ended';
+          // Only the expert who joined can hand it back, so there is nothing to end before a reply
+          document.getElementById('endBtn').hidden = !data.handoff || data.handoff.status !== 'active';
+        }
+
+        async function load() {
+          try {
+            const response = await fetch('/api/share/' + encodeURIComponent(token));
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || response.statusText);
+            shared = data;
+            statusEl.textContent = '';
+            render(data);
+          } catch (error) {
+            statusEl.textContent = 'Could not load the diagnosis: ' + error.message;
+          }
+        }
+
+        async function reply() {
+          const message = replyInput.value.trim();
+          if (!message || !shared) return;
+          try {
+            await expertApi('/api/session/' + encodeURIComponent(shared.sessionId) + '/expert', {
+              method: 'POST',
+              body: JSON.stringify({ message })
+            });
+            replyInput.value = '';
+            await load();
+          } catch (error) {
+            statusEl.textContent = 'Could not send the reply: ' + error.message;
+          }
+        }
+
+        async function handBack() {
+          if (!shared) return;
+          try {
+            await expertApi('/api/session/' + encodeURIComponent(shared.sessionId) + '/handoff', { method: 'DELETE' });
+            await load();
+          } catch (error) {
+            statusEl.textContent = 'Could not end the handoff: ' + error.message;
+          }
+        }
+
+        document.getElementById('replyBtn').onclick = reply;
+        document.getElementById('endBtn').onclick = handBack;
+        load();
+        setInterval(load, POLL_MS);
+      </script>
+    </body>
+    </html>
+  `, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
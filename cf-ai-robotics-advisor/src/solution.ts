@@ -0,0 +1,291 @@
+/**
+ * Solution - Structured, Validated Solution-Stage Output
+ *
+ * The solution stage asks the model for a JSON object instead of free-form
+ * Markdown. The reply is validated against the schema below; malformed output is
+ * sent back to the model for repair, and as a last resort a Markdown reply is
+ * parsed section by section. The structured solution is stored alongside a
+ * Markdown rendering of it, which is what history, reports and later prompts see.
+ *
+ * @module solution
+ */
+
+import { AiMessage, LlmProvider } from './providers';
+
+/**
+ * How sure the model is of the root cause
+ */
+export type Confidence = 'low' | 'medium' | 'high';
+
+const CONFIDENCE_LEVELS: Confidence[] = ['low', 'medium', 'high'];
+
+/**
+ * Structured solution, as requested from the model in the solution stage
+ */
+export interface Solution {
+  /** What is causing the problem */
+  rootCause: string;
+  /** Actions to perform, in order */
+  steps: string[];
+  /** How to avoid a recurrence */
+  prevention: string;
+  /** Components and tools needed (may be empty) */
+  partsTools: string[];
+  /** How sure the model is of the root cause */
+  confidence: Confidence;
+}
+
+/**
+ * Result of generating a solution
+ */
+export interface SolutionResult {
+  /** Markdown text stored as the message content */
+  text: string;
+  /** Validated solution, or null if the model never produced a usable one */
+  solution: Solution | null;
+}
+
+/**
+ * Sections of a solution-stage reply
+ */
+export interface SolutionSections {
+  rootCause: string | null;
+  steps: string[];
+  prevention: string | null;
+  partsTools: string[];
+}
+
+/** Markdown section headers of a solution reply, mapped to solution fields */
+const SECTION_HEADERS: [RegExp, keyof SolutionSections][] = [
+  [/^root cause/i, 'rootCause'],
+  [/^solution steps|^steps/i, 'steps'],
+  [/^prevention/i, 'prevention'],
+  [/^parts|^tools/i, 'partsTools']
+];
+
+/** Repair requests sent after the first malformed reply */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** Upper bound on solution steps */
+const MAX_STEPS = 12;
+
+/** JSON shape given to the model in the solution prompt and repair requests */
+export const SOLUTION_FORMAT = `{
+  "rootCause": "What is causing the problem",
+  "steps": ["First action", "Second action", "Third action"],
+  "prevention": "How to avoid this in future",
+  "partsTools": ["Component or tool needed"],
+  "confidence": "low" | "medium" | "high"
+}`;
+
+/**
+ * Asks the model for a solution and validates it, requesting repairs as needed
+ *
+ * @param provider - Model provider
+ * @param messages - Solution-stage prompt and conversation
+ * @returns Markdown text plus the structured solution (null if every attempt failed)
+ */
+export async function generateSolution(provider: LlmProvider, messages: AiMessage[]): Promise<SolutionResult> {
+  let conversation = messages;
+  let raw = '';
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    raw = await provider.complete({ purpose: 'solution', messages: conversation });
+    const { solution, errors } = parseSolution(raw);
+    if (solution) {
+      return { text: formatSolutionText(solution), solution };
+    }
+
+    console.warn(`Solution output failed validation (attempt ${attempt + 1}):`, errors.join('; '));
+    conversation = [
+      ...messages,
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your reply did not match the required format:\n${errors.map(e => `- ${e}`).join('\n')}\n\nReply again with only the corrected JSON object in this shape, no prose:\n${SOLUTION_FORMAT}`
+      }
+    ];
+  }
+
+  // Keep whatever structure a Markdown answer has rather than losing it entirely
+  const sections = parseSolutionSections(raw);
+  if (sections.rootCause && sections.steps.length) {
+    const solution: Solution = {
+      rootCause: sections.rootCause,
+      steps: sections.steps,
+      prevention: sections.prevention || '',
+      partsTools: sections.partsTools,
+      confidence: 'low'
+    };
+    return { text: formatSolutionText(solution), solution };
+  }
+
+  return { text: raw, solution: null };
+}
+
+/**
+ * Extracts and validates a solution from model output
+ *
+ * @param text - Raw model output, possibly wrapped in prose or code fences
+ * @returns The solution, or null with the reasons it was rejected
+ */
+export function parseSolution(text: string): { solution: Solution | null; errors: string[] } {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return { solution: null, errors: ['No JSON object found'] };
+  }
+
+  try {
+    return validateSolution(JSON.parse(match[0]));
+  } catch {
+    return { solution: null, errors: ['Invalid JSON'] };
+  }
+}
+
+/**
+ * Validates a parsed object against the solution schema
+ *
+ * Values are trimmed and list items lose any "1." or "-" prefix, but nothing
+ * missing is made up: every problem is reported so the model can fix it.
+ *
+ * @param data - Parsed JSON
+ * @returns The normalized solution, or null with the reasons it was rejected
+ */
+export function validateSolution(data: unknown): { solution: Solution | null; errors: string[] } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { solution: null, errors: ['Expected a JSON object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const rootCause = typeof input.rootCause === 'string' ? input.rootCause.trim() : '';
+  if (!rootCause) errors.push('rootCause must be a non-empty string');
+
+  const steps = asItemList(input.steps);
+  if (!steps || !steps.length) {
+    errors.push('steps must be a non-empty array of strings');
+  } else if (steps.length > MAX_STEPS) {
+    errors.push(`steps must have at most ${MAX_STEPS} entries`);
+  }
+
+  if (typeof input.prevention !== 'string') errors.push('prevention must be a string');
+
+  const partsTools = asItemList(input.partsTools);
+  if (!partsTools) errors.push('partsTools must be an array of strings (use [] if nothing is needed)');
+
+  const confidence = typeof input.confidence === 'string' ? input.confidence.trim().toLowerCase() : '';
+  if (!CONFIDENCE_LEVELS.includes(confidence as Confidence)) {
+    errors.push('confidence must be "low", "medium" or "high"');
+  }
+
+  if (errors.length) {
+    return { solution: null, errors };
+  }
+
+  return {
+    solution: {
+      rootCause,
+      steps: steps!,
+      prevention: (input.prevention as string).trim(),
+      partsTools: partsTools!,
+      confidence: confidence as Confidence
+    },
+    errors: []
+  };
+}
+
+/**
+ * Renders a solution as Markdown in the layout the solution stage used to produce
+ *
+ * @param solution - Validated solution
+ * @returns Markdown text
+ */
+export function formatSolutionText(solution: Solution): string {
+  const sections = [
+    `**Root Cause**: ${solution.rootCause}`,
+    `**Solution Steps**:\n${solution.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`
+  ];
+  if (solution.prevention) sections.push(`**Prevention**: ${solution.prevention}`);
+  sections.push(`**Parts/Tools**: ${solution.partsTools.length ? solution.partsTools.join(', ') : 'None'}`);
+  sections.push(`**Confidence**: ${solution.confidence}`);
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Splits a Markdown solution reply into its sections
+ *
+ * Used for replies from models that ignore the JSON format and for messages
+ * stored before solutions were structured.
+ *
+ * Headers may be bold (`**Root Cause**:`), Markdown headings (`## Root Cause`) or
+ * plain (`Root Cause:`). Steps are taken from numbered or bulleted lines.
+ *
+ * @param text - Solution-stage reply
+ * @returns Parsed sections; missing ones are null or empty
+ */
+export function parseSolutionSections(text: string): SolutionSections {
+  const buckets: Partial<Record<keyof SolutionSections, string[]>> = {};
+  let current: keyof SolutionSections | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const header = matchHeader(line);
+    if (header) {
+      // Unknown headers (e.g. "**Confidence**") end the previous section
+      current = header.section;
+      if (current) {
+        buckets[current] = buckets[current] || [];
+        if (header.rest) buckets[current]!.push(header.rest);
+      }
+      continue;
+    }
+
+    if (current) {
+      buckets[current]!.push(line);
+    }
+  }
+
+  const prose = (lines?: string[]) => (lines && lines.length ? lines.map(stripMarkdown).join(' ') : null);
+  const list = (lines?: string[]) => (lines || [])
+    .map(line => stripMarkdown(line.replace(/^(\d+[.)]|[-*•])\s+/, '')))
+    .filter(item => item && !/^none\.?$/i.test(item));
+
+  return {
+    rootCause: prose(buckets.rootCause),
+    steps: list(buckets.steps),
+    prevention: prose(buckets.prevention),
+    partsTools: list(buckets.partsTools).flatMap(item => item.split(/,\s*/)).filter(Boolean)
+  };
+}
+
+/**
+ * Recognizes a section header line
+ *
+ * @param line - Trimmed line
+ * @returns Section (null for an unknown bold or heading header) and any text after
+ *   the header on the same line, or null if the line isn't a header
+ */
+function matchHeader(line: string): { section: keyof SolutionSections | null; rest: string } | null {
+  const marked = /^(#{1,6}\s|\*\*|__)/.test(line);
+  const plain = line.replace(/^#{1,6}\s*/, '').replace(/\*\*|__/g, '');
+  const match = plain.match(/^([A-Za-z/ ]{3,40}?)\s*(:|$)\s*(.*)$/);
+  // Unmarked lines only count as headers when followed by a colon
+  if (!match || (!marked && match[2] !== ':')) return null;
+
+  const entry = SECTION_HEADERS.find(([pattern]) => pattern.test(match[1].trim()));
+  if (entry) return { section: entry[1], rest: match[3] };
+  return marked ? { section: null, rest: match[3] } : null;
+}
+
+function stripMarkdown(text: string): string {
+  return text.replace(/\*\*|__|`/g, '').trim();
+}
+
+function asItemList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) return null;
+  return (value as string[]).map(item => item.replace(/^(\d+[.)]|[-*•])\s+/, '').trim()).filter(Boolean);
+}
@@ -0,0 +1,52 @@
+/**
+ * Stubs - Durable Object Requests That Survive an Instance Reset
+ *
+ * A new version of the Worker (a deploy, or a module reload between test files)
+ * resets the running Durable Object instances, and a request caught by the reset
+ * fails with a `retryable` or `durableObjectReset` error. A fresh stub reaches the
+ * new instance, but whether the failed request got there first can't be told, so
+ * only idempotent methods are sent again; writes fail as they did.
+ *
+ * @module stubs
+ */
+
+import { DurableObjectStub } from './types';
+
+/** Attempts at an idempotent request before its error is passed on */
+const MAX_ATTEMPTS = 3;
+
+/** Methods that are safe to send again when the first attempt may have reached the object */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+/**
+ * Properties the runtime sets on the error of a request that didn't complete
+ */
+interface StubError {
+  retryable?: boolean;
+  /** The object is overloaded; retrying only adds to the load */
+  overloaded?: boolean;
+  durableObjectReset?: boolean;
+}
+
+/**
+ * Wraps a Durable Object's stub so idempotent requests are retried after a reset
+ *
+ * @param getStub - Returns a fresh stub for the instance
+ * @returns Stub that retries idempotent requests
+ */
+export function retryingStub(getStub: () => DurableObjectStub): DurableObjectStub {
+  return {
+    async fetch(request: Request): Promise<Response> {
+      const idempotent = IDEMPOTENT_METHODS.includes(request.method);
+      for (let attempt = 1; ; attempt++) {
+        const last = !idempotent || attempt >= MAX_ATTEMPTS;
+        try {
+          return await getStub().fetch(last ? request : request.clone());
+        } catch (error) {
+          const { retryable, overloaded, durableObjectReset } = (error ?? {}) as StubError;
+          if (last || overloaded || !(retryable || durableObjectReset)) throw error;
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,536 @@
+/**
+ * Telemetry - Sensor and Log Data Posted by Robots
+ *
+ * Robots (or their users) post time-series data to a session as JSON or CSV:
+ * battery voltage and motor current, encoder counts, a line follower's error
+ * signal, fault codes. Each upload is stored with the session together with
+ * per-channel statistics and anomaly flags - voltage sag under load, oscillation
+ * in an error signal, encoder dropouts, fault codes - which are given to the
+ * diagnostic and solution prompts so the model reasons over measured numbers.
+ *
+ * @module telemetry
+ */
+
+/**
+ * Formats a telemetry upload may be sent in
+ */
+export type TelemetryFormat = 'json' | 'csv';
+
+/**
+ * What a channel measures, guessed from its name; decides which anomaly checks apply
+ */
+export type ChannelKind = 'voltage' | 'current' | 'encoder' | 'error' | 'code' | 'other';
+
+/**
+ * Time-series data, one array per channel aligned with `time`
+ */
+export interface TelemetrySeries {
+  /** Seconds since the first sample, ascending */
+  time: number[];
+  /** Values per channel; null where a sample lacks the channel, strings only in fault code channels */
+  channels: Record<string, (number | string | null)[]>;
+}
+
+/**
+ * Summary statistics of a numeric channel
+ */
+export interface ChannelStats {
+  name: string;
+  kind: ChannelKind;
+  /** Samples with a value */
+  samples: number;
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  /** First and last values, to show drift */
+  first: number;
+  last: number;
+}
+
+/**
+ * Kinds of anomalies the checks look for
+ */
+export type AnomalyKind = 'voltage-sag' | 'oscillation' | 'encoder-dropout' | 'fault-code';
+
+/**
+ * Something in the data that points at a fault
+ */
+export interface TelemetryAnomaly {
+  kind: AnomalyKind;
+  /** Channel it was found in */
+  channel: string;
+  /** One-line description with the numbers behind it */
+  summary: string;
+  /** Seconds since the first sample where it (first) shows, if it has a single place */
+  at: number | null;
+}
+
+/**
+ * What was computed from one upload
+ */
+export interface TelemetryAnalysis {
+  sampleCount: number;
+  /** Seconds from the first to the last sample */
+  duration: number;
+  /** Statistics of the numeric channels, in upload order */
+  stats: ChannelStats[];
+  anomalies: TelemetryAnomaly[];
+}
+
+/**
+ * A stored upload without its samples
+ */
+export interface TelemetryUpload {
+  id: number;
+  name: string;
+  format: TelemetryFormat;
+  /** When it was uploaded (ms since epoch) */
+  uploadedAt: number;
+  analysis: TelemetryAnalysis;
+}
+
+/** Largest upload accepted, in bytes */
+export const MAX_TELEMETRY_BYTES = 1_000_000;
+
+/** Most samples in one upload */
+export const MAX_TELEMETRY_SAMPLES = 5000;
+
+/** Most channels in one upload, besides time; keeps a stored upload well under the 2 MB value limit */
+export const MAX_TELEMETRY_CHANNELS = 16;
+
+/** Most recent uploads whose findings are put in the prompt */
+export const MAX_PROMPT_TELEMETRY = 3;
+
+/** Names accepted for the time column, in order of preference */
+const TIME_KEYS = ['t', 'time', 'timestamp', 'ts'];
+
+/** Time values from this size on are read as epoch milliseconds rather than seconds */
+const EPOCH_MS_THRESHOLD = 1e11;
+
+/** Channel name patterns, checked in order; names are split at `_`, `-`, `.`, spaces and camel case first */
+const CHANNEL_KINDS: [ChannelKind, RegExp][] = [
+  ['code', /\b(fault|code|status|errno|alarm)s?\b/],
+  ['error', /\b(err|error|deviation|offset|line|cte|setpoint error)\b/],
+  ['current', /\b(current|curr|amps?|ibat|imotor|i)\b/],
+  ['voltage', /\b(volt|voltage|volts|vbat|vbus|vcc|batt|battery|v)\b/],
+  ['encoder', /\b(enc|encoder|ticks?|counts?|odom)\b/]
+];
+
+/** Fractional drop of loaded voltage below resting voltage flagged as sag */
+const SAG_THRESHOLD = 0.1;
+
+/** Fewest zero crossings (three cycles) reported as oscillation */
+const MIN_CROSSINGS = 6;
+
+/** Largest coefficient of variation of half periods for the swings to count as periodic */
+const MAX_PERIOD_SPREAD = 0.5;
+
+/** Deviations from the mean smaller than this fraction of the amplitude don't count as crossings */
+const CROSSING_HYSTERESIS = 0.1;
+
+/** Smallest typical change per sample (counts) at which a stalled encoder can't be slow motion */
+const MIN_ENCODER_STEP = 2;
+
+/** Values of a fault code channel that mean "no fault" */
+const NO_FAULT = /^(0|ok|none|no_?fault|normal)?$/i;
+
+/**
+ * Guesses what a channel measures from its name
+ *
+ * @param name - Channel name, e.g. "battery_voltage", "leftEncoder", "line_error"
+ * @returns Channel kind, `other` when nothing matches
+ */
+export function channelKind(name: string): ChannelKind {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_\-.]+/g, ' ').toLowerCase();
+  return CHANNEL_KINDS.find(([, pattern]) => pattern.test(words))?.[0] || 'other';
+}
+
+/**
+ * Reads one value; numeric text becomes a number, other text is only kept for fault codes
+ */
+function readValue(value: unknown, kind: ChannelKind): number | string | null | undefined {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'boolean') return Number(value);
+  if (typeof value !== 'string') return undefined;
+  const number = Number(value.trim());
+  if (value.trim() && Number.isFinite(number)) return number;
+  return kind === 'code' ? value.trim() : undefined;
+}
+
+/**
+ * Reads a time value: seconds, epoch milliseconds (or milliseconds when `timeUnit` is `ms`) or an ISO date
+ */
+function readTime(value: unknown, timeUnit: 's' | 'ms'): number | null {
+  if (typeof value === 'string' && value.trim() && !Number.isFinite(Number(value))) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed / 1000;
+  }
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return null;
+  return timeUnit === 'ms' || number >= EPOCH_MS_THRESHOLD ? number / 1000 : number;
+}
+
+/**
+ * Builds a series from rows of named values, checking limits, times and values
+ */
+function buildSeries(rows: Record<string, unknown>[], columns: string[], timeUnit: 's' | 'ms'): { series: TelemetrySeries | null; errors: string[] } {
+  const timeKey = TIME_KEYS.find(key => columns.some(column => column.toLowerCase() === key));
+  const timeColumn = timeKey && columns.find(column => column.toLowerCase() === timeKey);
+  const channelNames = columns.filter(column => column !== timeColumn);
+  const errors: string[] = [];
+
+  if (!rows.length) errors.push('No samples');
+  if (!timeColumn) errors.push(`Each sample needs a time (${TIME_KEYS.join(', ')})`);
+  if (!channelNames.length) errors.push('No channels besides time');
+  if (rows.length > MAX_TELEMETRY_SAMPLES) errors.push(`At most ${MAX_TELEMETRY_SAMPLES} samples per upload`);
+  if (channelNames.length > MAX_TELEMETRY_CHANNELS) errors.push(`At most ${MAX_TELEMETRY_CHANNELS} channels per upload`);
+  if (errors.length) return { series: null, errors };
+
+  const kinds = channelNames.map(channelKind);
+  const samples: { time: number; values: (number | string | null)[] }[] = [];
+  for (const [index, row] of rows.entries()) {
+    const time = readTime(row[timeColumn!], timeUnit);
+    if (time === null) {
+      errors.push(`Sample ${index + 1} has no valid time`);
+      break;
+    }
+    const values = channelNames.map((name, c) => readValue(row[name], kinds[c]));
+    const invalid = values.findIndex(value => value === undefined);
+    if (invalid >= 0) {
+      errors.push(`Sample ${index + 1} has a non-numeric ${channelNames[invalid]}`);
+      break;
+    }
+    samples.push({ time, values: values as (number | string | null)[] });
+  }
+  if (errors.length) return { series: null, errors };
+
+  // Loggers don't always write in order; times are kept relative to the first sample
+  samples.sort((a, b) => a.time - b.time);
+  const start = samples[0].time;
+  const series: TelemetrySeries = { time: samples.map(s => roundTo(s.time - start, 6)), channels: {} };
+  channelNames.forEach((name, c) => {
+    series.channels[name] = samples.map(s => s.values[c]);
+  });
+  return { series, errors };
+}
+
+/**
+ * Splits a CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string, separator: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Parses a telemetry upload
+ *
+ * JSON is an array of samples (`[{ "t": 0.01, "battery_voltage": 12.3 }, ...]`) or an object
+ * with a `samples` array and an optional `name`. CSV has a header row; comma, semicolon and tab
+ * separators are recognized and lines starting with `#` are skipped. Either way, one column is the
+ * time (`t`, `time`, `timestamp` or `ts`) in seconds, epoch milliseconds or ISO dates.
+ *
+ * @param text - Upload body
+ * @param format - Whether the body is JSON or CSV
+ * @param timeUnit - Unit of numeric times below the epoch range; `ms` for e.g. Arduino `millis()`
+ * @returns The series and the name given in a JSON body, or the reasons it was rejected
+ */
+export function parseTelemetry(text: string, format: TelemetryFormat, timeUnit: 's' | 'ms' = 's'): { series: TelemetrySeries | null; name: string | null; errors: string[] } {
+  if (format === 'json') {
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return { series: null, name: null, errors: ['Body is not valid JSON'] };
+    }
+    const rows = Array.isArray(body) ? body : body?.samples;
+    if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      return { series: null, name: null, errors: ['Expected an array of sample objects, or an object with a samples array'] };
+    }
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    const name = !Array.isArray(body) && typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null;
+    return { ...buildSeries(rows, columns, timeUnit), name };
+  }
+
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.trimStart().startsWith('#'));
+  if (!lines.length) {
+    return { series: null, name: null, errors: ['No header row'] };
+  }
+  const separator = lines[0].includes('\t') ? '\t' : lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const columns = splitCsvLine(lines[0], separator);
+  const rows = lines.slice(1).map(line => {
+    const fields = splitCsvLine(line, separator);
+    return Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? null]));
+  });
+  return { ...buildSeries(rows, columns, timeUnit), name: null };
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Rounds a value for display to three significant digits and four decimals (keeping large values whole)
+ */
+function show(value: number): string {
+  return Math.abs(value) >= 1000 ? String(Math.round(value)) : String(Number(roundTo(value, 4).toPrecision(3)));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+/**
+ * Samples of a channel that have a numeric value, with their times
+ */
+function numericPoints(series: TelemetrySeries, name: string): { t: number; v: number }[] {
+  return series.channels[name]
+    .map((v, i) => ({ t: series.time[i], v }))
+    .filter((point): point is { t: number; v: number } => typeof point.v === 'number');
+}
+
+function channelStats(name: string, kind: ChannelKind, values: number[]): ChannelStats {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return {
+    name,
+    kind,
+    samples: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: roundTo(mean, 4),
+    stdDev: roundTo(Math.sqrt(variance), 4),
+    first: values[0],
+    last: values[values.length - 1]
+  };
+}
+
+/**
+ * Flags a voltage that drops when current is high (or dips sharply, without a current channel)
+ */
+function findVoltageSag(series: TelemetrySeries, voltage: string, current: string | undefined): TelemetryAnomaly | null {
+  if (current) {
+    const pairs = series.channels[voltage]
+      .map((v, i) => ({ t: series.time[i], v, c: series.channels[current][i] }))
+      .filter((p): p is { t: number; v: number; c: number } => typeof p.v === 'number' && typeof p.c === 'number');
+    const currents = pairs.map(p => p.c).sort((a, b) => a - b);
+    if (pairs.length >= 10) {
+      const idleLimit = quantile(currents, 0.25);
+      const loadLimit = quantile(currents, 0.75);
+      if (loadLimit > idleLimit) {
+        const resting = median(pairs.filter(p => p.c <= idleLimit).map(p => p.v));
+        const lowest = pairs.filter(p => p.c >= loadLimit).reduce((low, p) => (p.v < low.v ? p : low));
+        const drop = resting > 0 ? (resting - lowest.v) / resting : 0;
+        if (drop < SAG_THRESHOLD) return null;
+        return {
+          kind: 'voltage-sag',
+          channel: voltage,
+          summary: `${voltage} sags from ${show(resting)} at rest to ${show(lowest.v)} (-${Math.round(drop * 100)}%) when ${current} is high (${show(lowest.c)})`,
+          at: lowest.t
+        };
+      }
+    }
+  }
+
+  const points = numericPoints(series, voltage);
+  if (points.length < 10) return null;
+  const typical = median(points.map(p => p.v));
+  const lowest = points.reduce((low, p) => (p.v < low.v ? p : low));
+  const drop = typical > 0 ? (typical - lowest.v) / typical : 0;
+  if (drop < SAG_THRESHOLD) return null;
+  return {
+    kind: 'voltage-sag',
+    channel: voltage,
+    summary: `${voltage} dips from a typical ${show(typical)} to ${show(lowest.v)} (-${Math.round(drop * 100)}%)`,
+    at: lowest.t
+  };
+}
+
+/**
+ * Flags a periodic swing around the mean, estimating its frequency from zero crossings
+ */
+function findOscillation(series: TelemetrySeries, channel: string): TelemetryAnomaly | null {
+  const points = numericPoints(series, channel);
+  if (points.length < 8) return null;
+  const mean = points.reduce((sum, p) => sum + p.v, 0) / points.length;
+  const amplitude = (Math.max(...points.map(p => p.v)) - Math.min(...points.map(p => p.v))) / 2;
+  if (!amplitude) return null;
+
+  // Count sign changes of the deviation, ignoring noise close to the mean
+  const crossings: number[] = [];
+  let sign = 0;
+  for (const p of points) {
+    const deviation = p.v - mean;
+    if (Math.abs(deviation) < CROSSING_HYSTERESIS * amplitude) continue;
+    const next = Math.sign(deviation);
+    if (sign && next !== sign) crossings.push(p.t);
+    sign = next;
+  }
+  if (crossings.length < MIN_CROSSINGS) return null;
+
+  const halfPeriods = crossings.slice(1).map((t, i) => t - crossings[i]);
+  const meanHalf = halfPeriods.reduce((sum, d) => sum + d, 0) / halfPeriods.length;
+  const spread = Math.sqrt(halfPeriods.reduce((sum, d) => sum + (d - meanHalf) ** 2, 0) / halfPeriods.length) / meanHalf;
+  if (!meanHalf || spread > MAX_PERIOD_SPREAD) return null;
+
+  const cycles = Math.floor(crossings.length / 2);
+  const span = crossings[crossings.length - 1] - crossings[0];
+  return {
+    kind: 'oscillation',
+    channel,
+    summary: `${channel} oscillates at about ${show(1 / (2 * meanHalf))} Hz (±${show(amplitude)} around ${show(mean)}), ${cycles} cycles in ${show(span)} s`,
+    at: crossings[0]
+  };
+}
+
+/**
+ * Flags an encoder that stops counting for a few samples while the wheel keeps turning on both sides
+ */
+function findEncoderDropouts(series: TelemetrySeries, channel: string): TelemetryAnomaly | null {
+  const points = numericPoints(series, channel);
+  const steps = points.slice(1).map((p, i) => ({ t: points[i].t, delta: p.v - points[i].v, end: p.t }));
+  const moving = steps.filter(s => s.delta !== 0).map(s => Math.abs(s.delta));
+  const typical = moving.length ? median(moving) : 0;
+  if (moving.length < 5 || typical < MIN_ENCODER_STEP) return null;
+  // The robot coming to a stop slows down first; a dropout cuts out at speed
+  const atSpeed = (delta: number) => Math.abs(delta) >= typical / 2;
+
+  const dropouts: { start: number; length: number }[] = [];
+  let runStart = -1;
+  for (let i = 0; i < steps.length; i++) {
+    if (steps[i].delta === 0) {
+      if (runStart < 0) runStart = i;
+      continue;
+    }
+    // A stall of two or more samples between moving steps
+    if (runStart > 0 && i - runStart >= 2 && atSpeed(steps[runStart - 1].delta) && atSpeed(steps[i].delta)) {
+      dropouts.push({ start: steps[runStart].t, length: steps[i - 1].end - steps[runStart].t });
+    }
+    runStart = -1;
+  }
+  if (!dropouts.length) return null;
+
+  const longest = Math.max(...dropouts.map(d => d.length));
+  return {
+    kind: 'encoder-dropout',
+    channel,
+    summary: `${channel} stops counting ${dropouts.length === 1 ? 'once' : `${dropouts.length} times`} while moving (first at ${show(dropouts[0].start)} s, longest ${show(longest)} s)`,
+    at: dropouts[0].start
+  };
+}
+
+/**
+ * Lists the fault codes reported in a channel, with when each first appeared
+ */
+function findFaultCodes(series: TelemetrySeries, channel: string): TelemetryAnomaly | null {
+  const codes = new Map<string, { first: number; count: number }>();
+  series.channels[channel].forEach((value, i) => {
+    if (value === null || NO_FAULT.test(String(value))) return;
+    const code = String(value);
+    const seen = codes.get(code);
+    if (seen) seen.count++;
+    else codes.set(code, { first: series.time[i], count: 1 });
+  });
+  if (!codes.size) return null;
+
+  const listed = [...codes.entries()].map(([code, { first, count }]) => `${code} (first at ${show(first)} s, ${count} sample${count === 1 ? '' : 's'})`);
+  return {
+    kind: 'fault-code',
+    channel,
+    summary: `${channel} reports ${listed.join(', ')}`,
+    at: [...codes.values()][0].first
+  };
+}
+
+/**
+ * Computes statistics of the numeric channels and runs the anomaly checks that apply to each
+ * channel's kind: voltage sag (against the first current channel, if any), oscillation of error
+ * signals, encoder dropouts and fault codes
+ *
+ * @param series - Parsed telemetry
+ * @returns Statistics and anomalies
+ */
+export function analyzeTelemetry(series: TelemetrySeries): TelemetryAnalysis {
+  const names = Object.keys(series.channels);
+  const kinds = new Map(names.map(name => [name, channelKind(name)]));
+  const current = names.find(name => kinds.get(name) === 'current');
+
+  const stats: ChannelStats[] = [];
+  const anomalies: TelemetryAnomaly[] = [];
+  for (const name of names) {
+    const kind = kinds.get(name)!;
+    const values = series.channels[name].filter((v): v is number => typeof v === 'number');
+    const numeric = values.length && series.channels[name].every(v => v === null || typeof v === 'number');
+    if (numeric) stats.push(channelStats(name, kind, values));
+
+    const anomaly = kind === 'code' ? findFaultCodes(series, name)
+      : !numeric ? null
+      : kind === 'voltage' ? findVoltageSag(series, name, current)
+      : kind === 'error' ? findOscillation(series, name)
+      : kind === 'encoder' ? findEncoderDropouts(series, name)
+      : null;
+    if (anomaly) anomalies.push(anomaly);
+  }
+
+  return {
+    sampleCount: series.time.length,
+    duration: series.time.length ? series.time[series.time.length - 1] : 0,
+    stats,
+    anomalies
+  };
+}
+
+/**
+ * Formats uploads' findings for the diagnostic and solution prompts
+ *
+ * @param uploads - Uploads to include, oldest first
+ * @returns Prompt section, or an empty string without uploads
+ */
+export function formatTelemetryFindings(uploads: TelemetryUpload[]): string {
+  if (!uploads.length) return '';
+
+  const sections = uploads.map(({ name, analysis }) => {
+    const lines = [`[${name}] ${analysis.sampleCount} samples over ${show(analysis.duration)} s`];
+    for (const s of analysis.stats) {
+      lines.push(`- ${s.name}: ${show(s.min)} to ${show(s.max)}, mean ${show(s.mean)}, std dev ${show(s.stdDev)} (first ${show(s.first)}, last ${show(s.last)})`);
+    }
+    lines.push(analysis.anomalies.length
+      ? `Anomalies:\n${analysis.anomalies.map(a => `- ${a.summary}`).join('\n')}`
+      : 'No anomalies found.');
+    return lines.join('\n');
+  });
+
+  return `Telemetry recorded on the robot (computed from the raw samples; treat anomalies as evidence, cite the numbers, and don't ask the user to measure these again):\n${sections.join('\n\n')}`;
+}
@@ -0,0 +1,127 @@
+/**
+ * Shared Types - Durable Object and Session Shapes
+ * 
+ * Hand-written interfaces for the Durable Object APIs the advisor uses, plus the
+ * stored session structures shared by the Worker and its Durable Objects.
+ * 
+ * @module types
+ */
+
+import { CaseFile } from './caseFile';
+import { Passage } from './knowledge';
+import { Attachment } from './attachments';
+import { Solution } from './solution';
+import { CaseMatches } from './caseIndex';
+import { ConversationSummary } from './context';
+import { SafetyReview } from './safety';
+import { MessageFeedback } from './feedback';
+import { ToolRun } from './calculators';
+import { Stage } from './playbook';
+
+/**
+ * Durable Object namespace for creating and accessing instances
+ */
+export interface DurableObjectNamespace {
+  get(id: DurableObjectId): DurableObjectStub;
+  idFromName(name: string): DurableObjectId;
+}
+
+/**
+ * Stub for communicating with a Durable Object instance
+ */
+export interface DurableObjectStub {
+  fetch(request: Request): Promise<Response>;
+}
+
+/**
+ * Unique identifier for a Durable Object instance
+ */
+export interface DurableObjectId {}
+
+/**
+ * State interface for Durable Object storage
+ */
+export interface DurableObjectState {
+  storage: {
+    get(key: string): Promise<any>;
+    put(key: string, value: any): Promise<void>;
+    delete(key: string): Promise<boolean>;
+    deleteAll(): Promise<void>;
+    list(options?: { prefix?: string }): Promise<Map<string, any>>;
+    /** SQLite database of classes declared in `new_sqlite_classes` */
+    sql: SqlStorage;
+    /** Runs `callback` in a SQLite transaction, rolled back if it throws */
+    transactionSync<T>(callback: () => T): T;
+  };
+  /** Runs `callback` before the object handles any other event (used for setup in constructors) */
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T>;
+  /** Keeps the object alive until `promise` settles */
+  waitUntil(promise: Promise<unknown>): void;
+  /** Takes over a WebSocket so the object can hibernate while it stays open; `tags` filter `getWebSockets` */
+  acceptWebSocket(ws: WebSocket, tags?: string[]): void;
+  /** WebSockets accepted by this object that are still open, optionally only those with `tag` */
+  getWebSockets(tag?: string): WebSocket[];
+}
+
+/**
+ * SQL API of a SQLite-backed Durable Object
+ */
+export interface SqlStorage {
+  /** Runs a statement with `?` placeholders bound to `bindings` */
+  exec(query: string, ...bindings: unknown[]): SqlStorageCursor;
+}
+
+/**
+ * Result rows of `SqlStorage.exec`
+ */
+export interface SqlStorageCursor {
+  toArray(): Record<string, any>[];
+  /** The only row; throws if there isn't exactly one */
+  one(): Record<string, any>;
+}
+
+/**
+ * Message format stored in conversation history
+ */
+export interface ChatMessage {
+  /** Row id, set on stored messages; the cursor for paginated history reads */
+  id?: number;
+  /** `expert` messages are written by a human expert the session was handed off to (see `handoff`) */
+  role: 'user' | 'assistant' | 'expert';
+  content: string;
+  timestamp: number;
+  /** User id of the expert who wrote an expert message */
+  author?: string;
+  /** Stage the assistant reply was generated in */
+  stage?: Stage;
+  /** Version of the stage prompt the assistant reply was generated with (see `PROMPT_VERSIONS`) */
+  promptVersion?: string;
+  /** Set when a streamed response was cut short because the client disconnected */
+  partial?: boolean;
+  /** Photos and logs sent with a user message */
+  attachments?: Attachment[];
+  /** Structured solution, for replies generated in the solution stage */
+  solution?: Solution;
+  /** Knowledge base passages the reply was grounded in, numbered [1]..[n] in order */
+  citations?: Passage[];
+  /** Resolved past cases shown with a diagnostic reply */
+  similarCases?: CaseMatches;
+  /** What the safety guardrails did with an assistant reply, when they flagged it */
+  safety?: SafetyReview;
+  /** The user's rating of an assistant reply, on stored messages that have one */
+  feedback?: MessageFeedback;
+  /** Calculator calls the model made while writing an assistant reply, in order */
+  toolRuns?: ToolRun[];
+}
+
+/**
+ * Session state structure stored in Durable Object
+ */
+export interface SessionState {
+  stage: Stage;
+  history: ChatMessage[];
+  caseFile: CaseFile;
+  title: string | null;
+  /** Running summary of the messages that no longer fit in the prompt */
+  summary: ConversationSummary | null;
+}
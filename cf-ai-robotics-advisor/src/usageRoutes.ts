@@ -0,0 +1,163 @@
+/**
+ * Usage Routes - Guest Tokens, Chat Quotas and Usage Reports
+ *
+ * Handlers that go through the `UsageLimiter` objects (see `rateLimit`): issuing
+ * guest tokens (limited per client IP), admitting and charging chat turns, and
+ * reporting a caller's remaining quota.
+ *
+ * @module usageRoutes
+ */
+
+import { GUEST_TOKEN_TTL_SECONDS, Principal, signToken } from './auth';
+import { AcquireResult, UsageCounters, UsageReport, describeUsage, resolveUsageLimits } from './rateLimit';
+import { Env, getLimiterStub } from './env';
+
+/**
+ * Builds the 429 response for a request a limiter refused
+ * 
+ * @param result - Limiter decision
+ * @param usage - Caller's quota, if it applies (not for guest token issuance)
+ * @returns 429 response with `Retry-After`
+ */
+function tooManyRequests(result: AcquireResult, usage: UsageReport | null): Response {
+  return new Response(JSON.stringify({ error: result.reason, retryAfter: result.retryAfter, usage }), {
+    status: 429,
+    headers: { 'Content-Type': 'application/json', 'Retry-After': String(result.retryAfter) }
+  });
+}
+
+/**
+ * Passes on a limiter's failure; without its answer a request is neither admitted nor refused
+ * 
+ * @param res - Failed limiter response
+ * @returns The limiter's error, with its status
+ */
+async function limiterFailure(res: Response): Promise<Response> {
+  const { error } = await res.json() as { error: string };
+  console.error('Usage limiter error:', error);
+  return new Response(JSON.stringify({ error }), { status: res.status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Issues a signed token for a new guest user, which the UI keeps in local storage
+ * 
+ * Each client IP gets `guestTokensPerHour` tokens, so the per-user limits can't be
+ * sidestepped by minting a new identity for every request.
+ * 
+ * @param request - Incoming request, for the client IP
+ * @param env - Environment bindings
+ * @returns JSON `{ token, userId, expiresAt }`, 403 when guest access is disabled, 429 past the IP's limit
+ */
+export async function issueGuestToken(request: Request, env: Env): Promise<Response> {
+  if (env.GUEST_ACCESS === 'false') {
+    return new Response(JSON.stringify({ error: 'Guest access is disabled' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!env.AUTH_SECRET) {
+    return new Response(JSON.stringify({ error: 'AUTH_SECRET is not configured' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const limits = resolveUsageLimits(env);
+  const clientIp = request.headers.get('CF-Connecting-IP') || 'unknown';
+  const acquireReq = new Request('http://do/acquire', {
+    method: 'POST',
+    body: JSON.stringify({ maxRequests: limits.guestTokensPerHour, windowSeconds: 3600 })
+  });
+  const acquireRes = await getLimiterStub(env, `ip:${clientIp}`).fetch(acquireReq);
+  if (!acquireRes.ok) {
+    return await limiterFailure(acquireRes);
+  }
+  const result = await acquireRes.json() as AcquireResult;
+  if (!result.allowed) {
+    return tooManyRequests(result, null);
+  }
+
+  const userId = `user_${crypto.randomUUID()}`;
+  const token = await signToken(env.AUTH_SECRET, userId, 'user', GUEST_TOKEN_TTL_SECONDS);
+  const expiresAt = Date.now() + GUEST_TOKEN_TTL_SECONDS * 1000;
+
+  return new Response(JSON.stringify({ token, userId, expiresAt }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Admits a chat turn if the caller is within their request rate and token budgets
+ * 
+ * @param env - Environment bindings
+ * @param principal - Caller
+ * @param sessionId - Session the turn is for
+ * @returns 429 response with `Retry-After` and the caller's quota, the limiter's error if it failed,
+ *   or null if the turn may run
+ */
+export async function acquireChatQuota(env: Env, principal: Principal, sessionId: string): Promise<Response | null> {
+  const limits = resolveUsageLimits(env);
+  const acquireReq = new Request('http://do/acquire', {
+    method: 'POST',
+    body: JSON.stringify({
+      maxRequests: limits.requestsPerMinute,
+      windowSeconds: 60,
+      dailyTokens: limits.dailyTokens,
+      sessionId,
+      sessionDailyTokens: limits.sessionDailyTokens
+    })
+  });
+  const acquireRes = await getLimiterStub(env, `user:${principal.userId}`).fetch(acquireReq);
+  if (!acquireRes.ok) {
+    return await limiterFailure(acquireRes);
+  }
+  const result = await acquireRes.json() as AcquireResult;
+  return result.allowed ? null : tooManyRequests(result, describeUsage(result.counters, limits, sessionId));
+}
+
+/**
+ * Charges a turn's estimated tokens to the caller and the session
+ * 
+ * @param env - Environment bindings
+ * @param userId - Caller
+ * @param sessionId - Session the turn was for
+ * @param tokens - Estimated tokens of every model call in the turn
+ */
+export async function recordUsage(env: Env, userId: string, sessionId: string, tokens: number): Promise<void> {
+  if (!tokens) return;
+  const recordReq = new Request('http://do/record', { method: 'POST', body: JSON.stringify({ tokens, sessionId }) });
+  const recordRes = await getLimiterStub(env, `user:${userId}`).fetch(recordReq);
+  if (!recordRes.ok) {
+    throw new Error((await recordRes.json() as { error: string }).error);
+  }
+}
+
+/**
+ * Returns the caller's used and remaining quota
+ * 
+ * @param principal - Caller
+ * @param sessionId - Session whose token budget to include, if any (checked to be the caller's)
+ * @param env - Environment bindings
+ * @returns JSON `UsageReport`
+ */
+export async function getUsage(principal: Principal, sessionId: string | null, env: Env): Promise<Response> {
+  try {
+    const params = new URLSearchParams({ windowSeconds: '60' });
+    if (sessionId) params.set('sessionId', sessionId);
+    const usageRes = await getLimiterStub(env, `user:${principal.userId}`).fetch(new Request(`http://do/usage?${params}`, { method: 'GET' }));
+    if (!usageRes.ok) {
+      return await limiterFailure(usageRes);
+    }
+    const counters = await usageRes.json() as UsageCounters;
+
+    return new Response(JSON.stringify(describeUsage(counters, resolveUsageLimits(env), sessionId)), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Verification - Step-by-Step Fix Walkthrough and Session Outcome
+ *
+ * After a solution is given, the advisor walks the user through its steps one at
+ * a time and records whether each one passed, failed or was skipped. A failed
+ * step or a symptom that persists sends the conversation back to diagnosis with
+ * the results as evidence; the walkthrough ends the session as resolved once the
+ * user confirms the fix, or as escalated when it keeps failing or they ask for help.
+ *
+ * @module verification
+ */
+
+/**
+ * Result of one solution step
+ */
+export type StepOutcome = 'pass' | 'fail' | 'skipped';
+
+/** Valid step outcomes, for request validation */
+export const STEP_OUTCOMES: StepOutcome[] = ['pass', 'fail', 'skipped'];
+
+/**
+ * What the user's reply means for the walkthrough: a step outcome, a request to
+ * escalate, or null when it's neither (e.g. a question about the step)
+ */
+export type StepReply = StepOutcome | 'escalate' | null;
+
+/**
+ * One solution step and what happened when the user tried it
+ */
+export interface StepResult {
+  /** Step text from the solution */
+  step: string;
+  /** Outcome, or null if the user hasn't reached it */
+  outcome: StepOutcome | null;
+  /** What the user said when reporting the outcome */
+  note: string | null;
+  /** When the outcome was recorded (ms since epoch) */
+  recordedAt: number | null;
+}
+
+/**
+ * Progress through the current solution's steps, stored per session
+ */
+export interface Verification {
+  /** Steps in order with their outcomes */
+  steps: StepResult[];
+  /** Index of the step being worked on; equals `steps.length` while confirming the fix */
+  current: number;
+  /** Number of earlier walkthroughs in this session that ended back in diagnosis */
+  round: number;
+  /** When the walkthrough started (ms since epoch) */
+  startedAt: number;
+}
+
+/**
+ * How a session ended
+ */
+export interface SessionOutcome {
+  /** Fixed, or handed off to someone who can look at the robot */
+  status: 'resolved' | 'escalate';
+  /** Why the session ended this way */
+  reason: string;
+  /** Step results of the last walkthrough */
+  steps: StepResult[];
+  /** When the outcome was decided (ms since epoch) */
+  decidedAt: number;
+}
+
+/**
+ * Verification state after applying the user's reply
+ */
+export interface VerificationUpdate {
+  /** Updated walkthrough progress */
+  verification: Verification;
+  /** Set when this reply ends the session */
+  outcome: SessionOutcome | null;
+  /** True when a failed step or persisting symptom sends the conversation back to diagnosis */
+  backToDiagnosis: boolean;
+  /** Human-readable reason for the change, if anything changed */
+  reason: string | null;
+}
+
+/** Walkthroughs that may end back in diagnosis before the session is escalated */
+export const MAX_VERIFICATION_ROUNDS = 3;
+
+/** Longest note kept with a step outcome */
+const MAX_NOTE_LENGTH = 300;
+
+/** User asks for a human instead of more troubleshooting */
+const ESCALATE_PATTERN = /\b(escalat\w*|(need|get|call|talk to|contact) (a |an )?(human|technician|tech|expert|engineer|support|someone)|give up|giving up)\b/;
+
+/** User reports a step went wrong or the problem is still there */
+const FAIL_PATTERN = /(didn'?t|did not|doesn'?t|does not|hasn'?t|has not|won'?t|couldn'?t|could not|can'?t get it to) (work|help|fix|change|solve|move|turn|budge|fit)|still (happen|oscillat|wobbl|drift|stall|overheat|jitter|doing|the same|broken|not|has|there)|no (change|luck|difference)|same (problem|issue|thing)|not fixed|made it worse|(it'?s|is) worse|\bfail(ed|s)?\b|\bnope\b|^no\b/;
+
+/** User skipped a step or can't do it */
+const SKIP_PATTERN = /\b(skip(ped|ping)?|don'?t have|do not have|can'?t do|cannot do|not applicable|n\/a|no access|move on|next step)\b/;
+
+/** User reports a step done or the problem gone */
+const PASS_PATTERN = /\b(done|did (it|that)|finished|completed?|worked|works( now)?|fixed|solved|resolved|success(ful)?|ok(ay)?|yes|yep|yeah|gone|better|good|great|perfect|ready)\b|✅/;
+
+/**
+ * Starts a walkthrough of a solution's steps
+ *
+ * @param steps - Solution steps in order
+ * @param previous - Earlier walkthrough in this session, if any (its round count carries over)
+ * @returns Fresh verification state at the first step
+ */
+export function startVerification(steps: string[], previous?: Verification | null): Verification {
+  return {
+    steps: steps.map(step => ({ step, outcome: null, note: null, recordedAt: null })),
+    current: 0,
+    round: previous ? previous.round + 1 : 0,
+    startedAt: Date.now()
+  };
+}
+
+/**
+ * Reads a step outcome out of a free-text reply
+ *
+ * Escalation wins over everything, then failure over skipping over success, so
+ * "ok, done, but it still jitters" counts as a failure.
+ *
+ * @param message - Latest user message
+ * @returns What the reply means for the walkthrough
+ */
+export function classifyStepReply(message: string): StepReply {
+  const lower = message.toLowerCase().trim();
+  if (ESCALATE_PATTERN.test(lower)) return 'escalate';
+  if (FAIL_PATTERN.test(lower)) return 'fail';
+  if (SKIP_PATTERN.test(lower)) return 'skipped';
+  if (PASS_PATTERN.test(lower)) return 'pass';
+  return null;
+}
+
+/**
+ * Applies the user's reply to the walkthrough
+ *
+ * While a step is active, pass and skipped move to the next step and fail ends the
+ * walkthrough. Once every step has an outcome the user is asked whether the symptom
+ * is gone: pass resolves the session and fail ends the walkthrough. An ended
+ * walkthrough goes back to diagnosis, or escalates after `MAX_VERIFICATION_ROUNDS`.
+ * Replies that are none of these (questions about the step) change nothing.
+ *
+ * @param verification - Progress before this reply
+ * @param reply - Meaning of the reply (see `classifyStepReply`)
+ * @param message - Reply text, kept as the step's note
+ * @returns Updated progress and, if the session ends, its outcome
+ */
+export function applyStepReply(verification: Verification, reply: StepReply, message: string): VerificationUpdate {
+  const steps = verification.steps.map(s => ({ ...s }));
+  const updated: Verification = { ...verification, steps };
+  const note = message.replace(/\s+/g, ' ').trim().slice(0, MAX_NOTE_LENGTH) || null;
+  const unchanged: VerificationUpdate = { verification: updated, outcome: null, backToDiagnosis: false, reason: null };
+  const end = (status: SessionOutcome['status'], reason: string): VerificationUpdate => ({
+    verification: updated,
+    outcome: { status, reason, steps, decidedAt: Date.now() },
+    backToDiagnosis: false,
+    reason
+  });
+  const fail = (reason: string): VerificationUpdate => verification.round + 1 >= MAX_VERIFICATION_ROUNDS
+    ? end('escalate', `${reason}; ${MAX_VERIFICATION_ROUNDS} walkthroughs have not fixed it`)
+    : { verification: updated, outcome: null, backToDiagnosis: true, reason: `${reason}; returning to diagnosis` };
+
+  if (reply === 'escalate') {
+    return end('escalate', 'User asked to escalate');
+  }
+
+  // Confirming the fix after the last step
+  if (verification.current >= steps.length) {
+    if (reply === 'pass') return end('resolved', 'User confirmed the problem is fixed');
+    if (reply === 'fail') return fail('Symptom persists after all steps');
+    return unchanged;
+  }
+
+  if (!reply) return unchanged;
+
+  const step = steps[verification.current];
+  step.outcome = reply;
+  step.note = note;
+  step.recordedAt = Date.now();
+
+  if (reply === 'fail') {
+    return fail(`Step ${verification.current + 1} failed`);
+  }
+
+  updated.current = verification.current + 1;
+  return { ...unchanged, reason: `Step ${verification.current + 1} ${reply === 'pass' ? 'passed' : 'skipped'}` };
+}
+
+/**
+ * Renders step results for prompts and reports
+ *
+ * @param steps - Step results
+ * @returns One numbered line per step with its outcome and the user's note
+ */
+export function formatStepResults(steps: StepResult[]): string {
+  const labels: Record<StepOutcome, string> = { pass: 'done', fail: 'FAILED', skipped: 'skipped' };
+  return steps.map((s, i) => {
+    const status = s.outcome ? labels[s.outcome] : 'not reached';
+    return `${i + 1}. ${s.step} - ${status}${s.note && s.outcome ? ` (user: "${s.note}")` : ''}`;
+  }).join('\n');
+}
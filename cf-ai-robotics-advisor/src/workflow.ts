@@ -1,19 +1,57 @@
 /**
  * Diagnosis Workflow - Multi-Stage Troubleshooting Logic
  * 
- * Orchestrates the robotics troubleshooting process through three stages:
+ * Orchestrates the robotics troubleshooting process through four stages:
  * 1. Initial - Gather basic information
  * 2. Diagnostic - Narrow down root cause
  * 3. Solution - Provide actionable fixes
+ * 4. Verification - Walk through the fix step by step until it is resolved or escalated
+ * 
+ * The facts checked, the stage prompts and the rules for moving on come from the
+ * session's playbook (see `playbook.ts`).
  * 
  * @module workflow
  */
 
+import { CaseFile, formatCaseFile } from './caseFile';
+import { AiMessage, LlmProvider } from './providers';
+import { Passage, Retriever, formatReferences } from './knowledge';
+import { SOLUTION_FORMAT } from './solution';
+import { CaseFinder, SimilarCase, formatSimilarCases } from './caseIndex';
+import { RobotProfile, answeredChecklistItems, formatProfile } from './profiles';
+import { SafetyAssessment, assessSituation, formatSafetyPrompt } from './safety';
+import { TelemetryUpload, formatTelemetryFindings } from './telemetry';
+import { CalculatorName, formatCalculatorPrompt, selectCalculators } from './calculators';
+import { ChecklistItem, DEFAULT_PLAYBOOK_ID, PLAYBOOKS, Playbook, SOLUTION_FORMAT_PLACEHOLDER, Stage, findPlaybook, selectPlaybook } from './playbook';
+import {
+  SessionOutcome,
+  StepOutcome,
+  Verification,
+  VerificationUpdate,
+  applyStepReply,
+  classifyStepReply,
+  formatStepResults,
+  startVerification
+} from './verification';
+
+/**
+ * Labels the prompt a reply was written with, so user feedback can be compared
+ * across prompt changes
+ * 
+ * @param playbook - Playbook of the session
+ * @param stage - Stage the reply is written in
+ * @returns Version label, e.g. "solution@1", or "drone-flight-instability/solution@1" outside the default playbook
+ */
+export function promptVersion(playbook: Playbook, stage: Stage): string {
+  const label = `${stage}@${playbook.stages[stage].version}`;
+  return playbook.id === DEFAULT_PLAYBOOK_ID ? label : `${playbook.id}/${label}`;
+}
+
 /**
  * Individual message in conversation history
  */
 interface Message {
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'expert';
   content: string;
   timestamp?: number;
 }
@@ -26,10 +64,54 @@ interface DiagnosisInput {
   sessionId: string;
   /** Current user message */
   userMessage: string;
-  /** Complete conversation history */
+  /** Conversation history the running summary doesn't cover yet */
   conversationHistory: Message[];
   /** Current stage in diagnosis process */
-  currentStage: 'initial' | 'diagnostic' | 'solution';
+  currentStage: Stage;
+  /** Structured facts gathered so far in this session */
+  caseFile?: CaseFile;
+  /** Robot profile attached to the session, if any */
+  profile?: RobotProfile | null;
+  /** Steps of the latest solution, walked through in the verification stage */
+  solutionSteps?: string[];
+  /** Progress of the current or last fix walkthrough */
+  verification?: Verification | null;
+  /** Step outcome picked explicitly by the user (otherwise read from the message) */
+  stepOutcome?: StepOutcome;
+  /** Latest telemetry uploads of the session with their statistics and anomalies */
+  telemetry?: TelemetryUpload[];
+  /** Playbook the session uses; while in the initial stage it is picked again from the description */
+  playbookId?: string | null;
+}
+
+/**
+ * Transition decision with the evidence behind it
+ */
+export interface StageTransition {
+  /** Stage the conversation was in before this message */
+  from: Stage;
+  /** Stage used to answer this message and persisted for the next one */
+  to: Stage;
+  /** Whether the model classifier or the keyword fallback made the decision */
+  method: 'model' | 'heuristic';
+  /** Fraction (0-1) of the current stage's checklist that is known */
+  sufficiency: number;
+  /** Per-item result of the checklist evaluation */
+  checklist: Record<string, boolean>;
+  /** True when the user reports that a suggested fix did not work */
+  fixFailed: boolean;
+  /** Human-readable reasons for the decision */
+  reasons: string[];
+}
+
+/**
+ * Raw classification of the conversation, before a stage rule is applied
+ */
+interface Classification {
+  checklist: Record<string, boolean>;
+  fixFailed: boolean;
+  wantsSolution: boolean;
+  reasons: string[];
 }
 
 /**
@@ -39,11 +121,53 @@ interface DiagnosisOutput {
   /** System prompt for AI based on current stage */
   systemPrompt: string;
   /** Next stage in the diagnosis flow */
-  nextStage: 'initial' | 'diagnostic' | 'solution';
+  nextStage: Stage;
+  /** Version of the stage prompt the system prompt was built from (see `promptVersion`) */
+  promptVersion: string;
+  /** Playbook the prompt and transition rules came from */
+  playbookId: string;
+  /** Transition decision and the reasons behind it */
+  transition: StageTransition;
   /** Session identifier (passthrough) */
   sessionId: string;
+  /** Reference passages injected into the prompt, in citation order ([1] first) */
+  references: Passage[];
+  /** Resolved past cases injected into the diagnostic prompt, closest first */
+  similarCases: SimilarCase[];
+  /** Fix walkthrough progress to store (unchanged outside the verification stage) */
+  verification: Verification | null;
+  /** Set when this message ends the session */
+  outcome: SessionOutcome | null;
+  /** Hazards of the user's situation, and any dangerous request the caller must refuse */
+  safety: SafetyAssessment;
+  /** Calculators to offer the model as tools for this reply */
+  calculators: CalculatorName[];
 }
 
+/**
+ * Phrases in the advisor's last reply showing it already has a likely cause in mind
+ */
+const SOLUTION_KEYWORDS = [
+  'root cause', 'likely cause', 'problem is', 'issue is',
+  'reduce', 'increase', 'replace', 'upgrade', 'try this',
+  'adjust', 'calibrate', 'check the', 'verify the'
+];
+
+/** User reports that a suggested fix didn't help */
+const FIX_FAILED_PATTERN = /(didn'?t|did not|doesn'?t|does not|hasn'?t|has not) (work|help|fix|change|solve)|still (happen|oscillat|wobbl|drift|stall|overheat|jitter|doing|the same|broken|not|has|there)|no (change|luck|difference)|same (problem|issue|thing)|not fixed|made it worse|(it'?s|is) worse/;
+
+/** Stages whose prompts get reference material from the knowledge base */
+const RETRIEVAL_STAGES: Stage[] = ['diagnostic', 'solution'];
+
+/** Stages whose prompts get the findings of uploaded telemetry */
+const TELEMETRY_STAGES: Stage[] = ['diagnostic', 'solution'];
+
+/** Stages whose replies may call calculators; solutions use results from earlier replies */
+const CALCULATOR_STAGES: Stage[] = ['diagnostic', 'verification'];
+
+/** User explicitly asks for the fix instead of more questions */
+const WANTS_SOLUTION_PATTERN = /(just tell me|what should i do|how (do|can) i fix|give me (the|a) (fix|solution)|what'?s the (fix|solution)|skip the questions)/;
+
 /**
  * DiagnosisWorkflow Class
  * 
@@ -51,124 +175,469 @@ interface DiagnosisOutput {
  * for each phase of the troubleshooting process.
  */
 export class DiagnosisWorkflow {
+  /** Optional provider used to classify the conversation; without it the keyword fallback is used */
+  provider?: LlmProvider;
+  /** Optional knowledge base lookup; without it prompts carry no reference material */
+  retriever?: Retriever;
+  /** Optional resolved-case lookup; without it diagnosis doesn't see past cases */
+  caseFinder?: CaseFinder;
+  /** Playbooks to pick from; the default one is used when none matches */
+  playbooks: Playbook[];
+
+  constructor(provider?: LlmProvider, retriever?: Retriever, caseFinder?: CaseFinder, playbooks: Playbook[] = PLAYBOOKS) {
+    this.provider = provider;
+    this.retriever = retriever;
+    this.caseFinder = caseFinder;
+    this.playbooks = playbooks;
+  }
+
   /**
    * Executes the workflow logic
-   * Determines next stage and provides appropriate system prompt
+   * Decides the stage for this message and provides the matching system prompt
+   * 
+   * The decision is made with the latest user message included, so a reply to
+   * "that didn't work" is already generated with the diagnostic prompt.
    * 
    * @param trigger - Input containing session data and conversation context
-   * @returns Workflow output with system prompt and next stage
+   * @returns Workflow output with system prompt, next stage and the transition decision
    */
   async run(trigger: DiagnosisInput): Promise<DiagnosisOutput> {
-    // Retrieve stage-appropriate system prompt
-    const systemPrompt = getSystemPromptForStage(trigger.currentStage);
+    // Pick the playbook from the description until the diagnosis gets going, then keep it
+    const { playbook, matched } = trigger.currentStage === 'initial'
+      ? selectPlaybook(describeProblem(trigger), this.playbooks)
+      : { playbook: findPlaybook(trigger.playbookId, this.playbooks), matched: [] };
+
+    // Score the conversation against the playbook's checklist; an attached robot profile answers part of it
+    const classification = await this.classify(trigger, playbook.facts);
+    if (matched.length) {
+      classification.reasons.push(`Using the ${playbook.name} playbook (matched ${matched.join(', ')})`);
+    }
+    if (trigger.profile) {
+      const answered = answeredChecklistItems(trigger.profile).filter(id => !classification.checklist[id]);
+      for (const id of answered) classification.checklist[id] = true;
+      if (answered.length) classification.reasons.push(`Robot profile answers ${answered.join(', ')}`);
+    }
+    // A stage the playbook no longer has (its flow changed since) continues as diagnosis
+    const currentStage = playbook.stages[trigger.currentStage] ? trigger.currentStage : 'diagnostic';
+    const transition = decideTransition(playbook, currentStage, classification, trigger.solutionSteps || []);
 
-    // Calculate next stage based on conversation progress
-    const nextStage = determineNextStage(trigger.currentStage, trigger.userMessage, trigger.conversationHistory);
+    // Start or advance the fix walkthrough; a failed step sends the conversation back to diagnosis
+    let verification = trigger.verification || null;
+    let update: VerificationUpdate | null = null;
+    if (transition.to === 'verification' && transition.from !== 'verification') {
+      verification = startVerification(trigger.solutionSteps || [], verification);
+    } else if (transition.from === 'verification' && verification) {
+      let reply = trigger.stepOutcome || classifyStepReply(trigger.userMessage);
+      if (transition.fixFailed && reply !== 'escalate' && !trigger.stepOutcome) {
+        reply = 'fail';
+      }
+      update = applyStepReply(verification, reply, trigger.userMessage);
+      verification = update.verification;
+      if (update.reason) transition.reasons.push(update.reason);
+      if (update.backToDiagnosis) transition.to = 'diagnostic';
+    }
+
+    // Retrieve the system prompt for the stage we are moving into
+    let systemPrompt = transition.to === 'verification' && verification
+      ? getVerificationPrompt(playbook, verification, update?.outcome || null)
+      : getStagePrompt(playbook, transition.to);
+    if (transition.from === 'solution' && transition.to === 'diagnostic') {
+      systemPrompt += `\n\nThe user reports that the previously suggested fix did not work. Acknowledge it, ask what changed (if anything) after trying it, and look for a different cause.`;
+    }
+    if (transition.from === 'verification' && transition.to === 'diagnostic') {
+      systemPrompt += `\n\nThe user walked through the suggested fix and it did not solve the problem. Acknowledge it and look for a different cause, using the step results below as evidence.`;
+    }
+
+    // A finished walkthrough is evidence for the next diagnosis and solution
+    if (verification && (transition.to === 'diagnostic' || transition.to === 'solution') && verification.steps.some(s => s.outcome)) {
+      systemPrompt += `\n\nResults of the last fix walkthrough (don't suggest failed steps again unchanged):\n${formatStepResults(verification.steps)}`;
+    }
+
+    // Every stage knows the attached robot's hardware and maintenance history
+    if (trigger.profile) {
+      systemPrompt += `\n\nRobot profile for this session (known hardware, don't ask about it again):\n${formatProfile(trigger.profile)}`;
+    }
+
+    // Carry forward facts that may no longer be in the recent message window
+    const knownFacts = trigger.caseFile ? formatCaseFile(trigger.caseFile) : '';
+    if (knownFacts) {
+      systemPrompt += `\n\nKnown facts about this case (don't ask for these again):\n${knownFacts}`;
+    }
+
+    // Measured data is evidence for narrowing down the cause and sizing the fix
+    const telemetryFindings = TELEMETRY_STAGES.includes(transition.to) ? formatTelemetryFindings(trigger.telemetry || []) : '';
+    if (telemetryFindings) {
+      systemPrompt += `\n\n${telemetryFindings}`;
+    }
+
+    // Offer calculators when the conversation has numbers they can work with
+    const calculators = CALCULATOR_STAGES.includes(transition.to) ? selectCalculators(`${trigger.userMessage}\n${knownFacts}`) : [];
+    const calculatorPrompt = formatCalculatorPrompt(calculators);
+    if (calculatorPrompt) {
+      systemPrompt += `\n\n${calculatorPrompt}`;
+    }
+
+    // Hazards of the situation (the message, the case and the robot) make the model lead with how to work safely
+    const safety = assessSituation(trigger.userMessage, `${knownFacts}\n${trigger.profile ? formatProfile(trigger.profile) : ''}`);
+    const safetyPrompt = formatSafetyPrompt(safety);
+    if (safetyPrompt) {
+      systemPrompt += `\n\n${safetyPrompt}`;
+    }
+
+    // Ground diagnosis and fixes in the team's own manuals and known-issue notes
+    const references = RETRIEVAL_STAGES.includes(transition.to) ? await this.retrieve(trigger) : [];
+    if (references.length) {
+      systemPrompt += `\n\n${formatReferences(references)}`;
+    }
+
+    // Show diagnosis how the team fixed similar problems before
+    const similarCases = transition.to === 'diagnostic' ? await this.findSimilarCases(trigger) : [];
+    if (similarCases.length) {
+      systemPrompt += `\n\n${formatSimilarCases(similarCases)}`;
+    }
 
     // Return structured workflow result
     return {
       systemPrompt,
-      nextStage,
-      sessionId: trigger.sessionId
+      nextStage: transition.to,
+      promptVersion: promptVersion(playbook, transition.to),
+      playbookId: playbook.id,
+      transition,
+      sessionId: trigger.sessionId,
+      references,
+      similarCases,
+      verification,
+      outcome: update?.outcome || null,
+      safety,
+      calculators
     };
   }
+
+  /**
+   * Retrieves reference passages for the latest message
+   * 
+   * The query combines the message with the robot type (from the case file or robot
+   * profile) and symptoms, so a short reply like "yes, only under load" still finds
+   * the right manual.
+   * Retrieval failures are logged and treated as "no references".
+   * 
+   * @param trigger - Input containing session data and conversation context
+   * @returns Passages to cite, best first
+   */
+  async retrieve(trigger: DiagnosisInput): Promise<Passage[]> {
+    if (!this.retriever) return [];
+
+    try {
+      return await this.retriever(searchQuery(trigger));
+    } catch (error: any) {
+      console.warn('Knowledge retrieval failed, continuing without references:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Looks up resolved past cases similar to this one
+   * 
+   * Uses the same query as `retrieve`. Lookup failures are logged and treated as
+   * "no similar cases".
+   * 
+   * @param trigger - Input containing session data and conversation context
+   * @returns Similar cases, closest first
+   */
+  async findSimilarCases(trigger: DiagnosisInput): Promise<SimilarCase[]> {
+    if (!this.caseFinder) return [];
+
+    try {
+      return await this.caseFinder(searchQuery(trigger));
+    } catch (error: any) {
+      console.warn('Case lookup failed, continuing without similar cases:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Classifies the conversation with the model, falling back to keyword heuristics
+   * when no model is configured or its output cannot be parsed
+   * 
+   * @param trigger - Input containing session data and conversation context
+   * @param facts - Checklist of the session's playbook
+   * @returns Checklist results plus fix-failed and wants-solution flags
+   */
+  async classify(trigger: DiagnosisInput, facts: ChecklistItem[]): Promise<Classification & { method: 'model' | 'heuristic' }> {
+    if (this.provider) {
+      try {
+        const raw = await this.provider.complete({
+          purpose: 'classifier',
+          messages: buildClassifierMessages(trigger.userMessage, trigger.conversationHistory, facts, trigger.caseFile)
+        });
+        const parsed = parseClassification(raw, facts);
+        if (parsed) {
+          return { ...parsed, method: 'model' };
+        }
+        console.warn('Stage classifier returned unparseable output, using keyword fallback');
+      } catch (error: any) {
+        console.warn('Stage classifier failed, using keyword fallback:', error.message);
+      }
+    }
+
+    return { ...classifyWithKeywords(trigger.userMessage, trigger.conversationHistory, facts, trigger.caseFile), method: 'heuristic' };
+  }
+}
+
+/**
+ * Builds a search query from the robot type, known symptoms and latest message
+ * 
+ * @param trigger - Input containing session data and conversation context
+ * @returns Query text for knowledge and case lookups
+ */
+function searchQuery(trigger: DiagnosisInput): string {
+  return [
+    trigger.caseFile?.robotType || trigger.profile?.model || '',
+    ...(trigger.caseFile?.symptoms || []),
+    trigger.userMessage
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Collects what the user has described so far, for picking a playbook
+ * 
+ * @param trigger - Input containing session data and conversation context
+ * @returns The user's messages, the case file and the robot's model
+ */
+function describeProblem(trigger: DiagnosisInput): string {
+  return [
+    ...trigger.conversationHistory.filter(m => m.role === 'user').map(m => m.content),
+    trigger.caseFile ? formatCaseFile(trigger.caseFile) : '',
+    trigger.profile?.model || '',
+    trigger.userMessage
+  ].filter(Boolean).join('\n');
 }
 
 /**
- * Retrieves the appropriate system prompt for a given stage
+ * Retrieves the playbook's system prompt for a stage
  * 
- * Each stage has a specialized prompt that guides the AI to:
- * - Initial: Ask foundational questions
- * - Diagnostic: Narrow down root cause
- * - Solution: Provide actionable fixes
+ * The solution prompt gets the JSON shape solutions are parsed with in place of
+ * its placeholder.
  * 
- * @param stage - Current diagnosis stage
+ * @param playbook - Playbook of the session
+ * @param stage - Stage the reply is written in
  * @returns System prompt text for the AI model
  */
-function getSystemPromptForStage(stage: string): string {
-  const prompts: { [key: string]: string } = {
-    initial: `You are a robotics troubleshooting expert. A user is describing a robot problem.
+function getStagePrompt(playbook: Playbook, stage: Stage): string {
+  return playbook.stages[stage].prompt.replace(SOLUTION_FORMAT_PLACEHOLDER, SOLUTION_FORMAT);
+}
 
-Ask only the most essential questions you need to understand the situation. Start with basic context:
-- What type of robot and what problem are they experiencing?
+/**
+ * Builds the system prompt for one turn of the fix walkthrough
+ * 
+ * @param playbook - Playbook of the session, whose verification prompt opens the walkthrough
+ * @param verification - Walkthrough progress after the user's reply
+ * @param outcome - Outcome if this reply ended the session
+ * @returns System prompt text for the AI model
+ */
+function getVerificationPrompt(playbook: Playbook, verification: Verification, outcome: SessionOutcome | null): string {
+  const intro = `${playbook.stages.verification.prompt}
 
-If the user already provided details, acknowledge them and ask follow-up questions as needed. Don't ask questions they've already answered.
+Steps and results so far:
+${formatStepResults(verification.steps)}`;
 
-Be conversational, friendly, and concise.`,
+  if (outcome?.status === 'resolved') {
+    return `${intro}
 
-    diagnostic: `You are a robotics troubleshooting expert analyzing a specific robot problem.
+The user confirmed the problem is fixed. Congratulate them briefly, say which steps made the difference, and remind them how to keep it from coming back, in 2-3 sentences. This session is now closed.`;
+  }
 
-Based on what the user has told you:
-- If you strongly suspect a specific cause, ask 1-2 targeted questions to confirm it
-- If the issue is still unclear, ask the most relevant diagnostic question
+  if (outcome?.status === 'escalate') {
+    return `${intro}
 
-Consider:
-- Mechanical issues (misalignment, wear, binding)
-- Electrical issues (power, servo failures, wiring)
-- Control issues (PID tuning, sensor calibration)
-- Software issues (bugs, incorrect parameters)
-- And a lot more
+This problem needs to be escalated to a technician or expert (${outcome.reason}). Write a short handoff note they can pass on: the robot and its symptoms, the steps tried with their results, and the most likely remaining causes. Tell the user this session is now closed.`;
+  }
 
-Be efficient - don't ask unnecessary questions if you can already identify the problem.`,
+  if (verification.current >= verification.steps.length) {
+    return `${intro}
 
-    solution: `You are a robotics troubleshooting expert. You have gathered sufficient information.
+Every step has been tried. Briefly recap what was done and ask whether the original symptom is gone now.`;
+  }
 
-Provide a clear, structured diagnosis with BLANK LINES between each section:
+  return `${intro}
 
-**Root Cause**: What is causing the problem
+Current step (${verification.current + 1} of ${verification.steps.length}): ${verification.steps[verification.current].step}
 
-**Solution Steps**: 
-1. First action
-2. Second action
-3. Third action
+If the user asked a question, answer it first. Then explain how to carry out only the current step: what to do, what to look for and any safety precautions, in a few sentences. End by asking them to report whether the step worked, failed or had to be skipped. Don't describe later steps yet.`;
+}
 
-**Prevention**: How to avoid this in future
+/**
+ * Applies the stage rules to a classification
+ * 
+ * Transition logic:
+ * - Solution → Diagnostic: the user reports that the fix did not work
+ * - Solution → Verification: any other reply, once the solution has steps to walk through
+ * - Verification stays put here; the walkthrough itself decides when to leave (see `run`)
+ * - Otherwise move to the playbook rule's `advanceTo` stage when the stage's checklist sufficiency
+ *   meets the rule's threshold (in the default playbook: robot and symptom to leave initial, 4 of 5
+ *   facts to leave diagnostic), or when the user explicitly asks for a fix during the diagnostic stage
+ * 
+ * @param playbook - Playbook whose stage rules apply
+ * @param currentStage - Current position in workflow
+ * @param classification - Checklist results and flags from the classifier
+ * @param solutionSteps - Steps of the latest solution, if any
+ * @returns Transition decision with reasons
+ */
+function decideTransition(
+  playbook: Playbook,
+  currentStage: Stage,
+  classification: Classification & { method: 'model' | 'heuristic' },
+  solutionSteps: string[]
+): StageTransition {
+  const { checklist, fixFailed, wantsSolution, method } = classification;
+  const reasons = [...classification.reasons];
 
-**Parts/Tools**: List any components needed
+  // Solution and verification have no rule of their own; report sufficiency against the diagnostic checklist
+  const rule = playbook.stages[currentStage].rule || playbook.stages.diagnostic.rule!;
+  const known = rule.required.filter(id => checklist[id]);
+  const sufficiency = known.length / rule.required.length;
+  const missing = rule.required.filter(id => !checklist[id]);
 
-IMPORTANT: Add two line breaks (NEW LINES) between each Solution step for readability. Be practical, actionable, and specific.`
-  };
+  if (currentStage === 'verification') {
+    return { from: currentStage, to: currentStage, method, sufficiency, checklist, fixFailed, reasons };
+  }
 
-  return prompts[stage] || prompts.initial;
+  if (currentStage === 'solution') {
+    let to: Stage = 'solution';
+    if (fixFailed) {
+      to = 'diagnostic';
+      reasons.push('User reports the suggested fix did not work; returning to diagnosis');
+    } else if (solutionSteps.length) {
+      to = 'verification';
+      reasons.push(`Walking through the ${solutionSteps.length} solution steps`);
+    }
+    return {
+      from: currentStage,
+      to,
+      method,
+      sufficiency,
+      checklist,
+      fixFailed,
+      reasons
+    };
+  }
+
+  let to: Stage = currentStage;
+  if (sufficiency >= rule.threshold) {
+    to = rule.advanceTo;
+    reasons.push(`Checklist sufficient for ${rule.advanceTo} (${known.length}/${rule.required.length} known)`);
+  } else if (currentStage === 'diagnostic' && wantsSolution) {
+    to = rule.advanceTo;
+    reasons.push('User asked for a fix directly');
+  } else {
+    reasons.push(`Still missing: ${missing.join(', ')}`);
+  }
+
+  return { from: currentStage, to, method, sufficiency, checklist, fixFailed, reasons };
 }
 
 /**
- * Determines the next stage in the diagnosis workflow
+ * Builds the prompt for the structured classifier call
  * 
- * Transition logic:
- * - Initial → Diagnostic: After 2+ messages (basic context gathered)
- * - Diagnostic → Solution: After 6+ messages (enough information collected)
+ * @param userMessage - Latest user message
+ * @param history - Conversation so far
+ * @param facts - Checklist of the session's playbook
+ * @param caseFile - Structured facts gathered so far, if any
+ * @returns Messages asking the model for a JSON classification
+ */
+function buildClassifierMessages(userMessage: string, history: Message[], facts: ChecklistItem[], caseFile?: CaseFile): AiMessage[] {
+  const knownFacts = caseFile ? formatCaseFile(caseFile) : '';
+  const transcript = [...history.slice(-12), { role: 'user', content: userMessage }]
+    .map(m => `${m.role.toUpperCase()}: ${m.content}`)
+    .join('\n');
+  const checklist = facts.map(item => `- ${item.id}: ${item.description}`).join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You evaluate a robotics troubleshooting conversation. For each checklist item, decide whether the USER has already provided that information anywhere in the conversation.
+
+Checklist:
+${checklist}
+
+Also decide:
+- fixFailed: the latest user message reports that a previously suggested fix did not work
+- wantsSolution: the latest user message explicitly asks for the fix instead of more questions
+
+Respond with only a JSON object, no prose:
+{"checklist": {"robotType": true, ...}, "fixFailed": false, "wantsSolution": false, "reasons": ["short reason", ...]}`
+    },
+    { role: 'user', content: knownFacts ? `Case file:\n${knownFacts}\n\nConversation:\n${transcript}` : transcript }
+  ];
+}
+
+/**
+ * Parses and validates the classifier's JSON output
  * 
- * @param currentStage - Current position in workflow
- * @param userMessage - Latest user message (unused currently, for future enhancements)
- * @param history - Complete conversation history for length checks
- * @returns Next stage in the workflow
+ * @param text - Raw model output, possibly wrapped in prose or code fences
+ * @param facts - Checklist of the session's playbook
+ * @returns Classification, or null if the output is not usable
  */
-function determineNextStage(currentStage: string, userMessage: string, history: Message[]): 'initial' | 'diagnostic' | 'solution' {
-  const lower = userMessage.toLowerCase();
+function parseClassification(text: string, facts: ChecklistItem[]): Classification | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
 
-  if (currentStage === 'initial') {
-    // Move to diagnostic after first user message
-    if (history.length >= 2) {
-      return 'diagnostic';
+  try {
+    const data = JSON.parse(match[0]);
+    if (!data || typeof data.checklist !== 'object' || data.checklist === null) return null;
+
+    const checklist: Record<string, boolean> = {};
+    for (const item of facts) {
+      checklist[item.id] = data.checklist[item.id] === true;
     }
-    return 'initial';
+
+    return {
+      checklist,
+      fixFailed: data.fixFailed === true,
+      wantsSolution: data.wantsSolution === true,
+      reasons: Array.isArray(data.reasons) ? data.reasons.map(String).slice(0, 5) : []
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keyword fallback classifier
+ * 
+ * Checks each checklist pattern against everything the user has said, and treats a
+ * previous advisor reply containing solution keywords as a sign the cause is converging.
+ * 
+ * @param userMessage - Latest user message
+ * @param history - Conversation so far
+ * @param facts - Checklist of the session's playbook
+ * @param caseFile - Structured facts gathered so far, if any
+ * @returns Classification built from keyword matches
+ */
+function classifyWithKeywords(userMessage: string, history: Message[], facts: ChecklistItem[], caseFile?: CaseFile): Classification {
+  const lower = userMessage.toLowerCase();
+  const userText = [
+    ...history.filter(m => m.role === 'user').map(m => m.content),
+    caseFile ? formatCaseFile(caseFile) : '',
+    userMessage
+  ].join('\n').toLowerCase();
+  const reasons: string[] = [];
+
+  const checklist: Record<string, boolean> = {};
+  for (const item of facts) {
+    checklist[item.id] = item.pattern.test(userText);
   }
 
-  if (currentStage === 'diagnostic') {
-    // Look for indicators that we have enough info for solution
-    const solutionKeywords = [
-      'root cause', 'likely cause', 'problem is', 'issue is',
-      'reduce', 'increase', 'replace', 'upgrade', 'try this',
-      'adjust', 'calibrate', 'check the', 'verify the'
-    ];
-    
-    // Move to solution after a few exchanges (earlier than before)
-    if (history.length >= 4) {
-      return 'solution';
-    }
-    return 'diagnostic';
+  const lastAssistant = [...history].reverse().find(m => m.role === 'assistant');
+  const hasHypothesis = !!lastAssistant && SOLUTION_KEYWORDS.some(k => lastAssistant.content.toLowerCase().includes(k));
+  if (hasHypothesis && checklist.observations === false) {
+    // The advisor is already converging on a cause; count the exchange as an observation
+    checklist.observations = true;
+    reasons.push('Advisor has already proposed a likely cause');
   }
 
-  return 'solution';
+  const fixFailed = FIX_FAILED_PATTERN.test(lower);
+  const wantsSolution = WANTS_SOLUTION_PATTERN.test(lower);
+
+  return { checklist, fixFailed, wantsSolution, reasons };
 }
@@ -0,0 +1,164 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { AdvisorState } from '../src/index';
+import { SESSION_MIGRATIONS, migrate } from '../src/schema';
+
+function getStub() {
+	return env.ADVISOR_STATE.get(env.ADVISOR_STATE.idFromName(`test_${crypto.randomUUID()}`));
+}
+
+function saveTurn(instance: AdvisorState, body: Record<string, unknown>) {
+	return instance.handleMessage(new Request('http://do/message', { method: 'POST', body: JSON.stringify(body) }));
+}
+
+async function readState(instance: AdvisorState, query = '') {
+	return await (await instance.getState(new URL(`http://do/state${query}`))).json() as any;
+}
+
+describe('AdvisorState', () => {
+	it('starts empty in the initial stage', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState) => {
+			const state = await readState(instance);
+			expect(state).toMatchObject({ stage: 'initial', messageCount: 0, history: [] });
+			expect(state.caseFile.symptoms).toEqual([]);
+		});
+	});
+
+	it('appends message pairs and stores the next stage', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState) => {
+			const first = await (await saveTurn(instance, { userMessage: 'u1', assistantMessage: 'a1', nextStage: 'diagnostic' })).json();
+			expect(first).toEqual({ success: true, messageId: 2, messageCount: 2, stage: 'diagnostic', title: 'u1' });
+
+			await saveTurn(instance, { userMessage: 'u2', assistantMessage: 'a2', nextStage: 'solution' });
+
+			const state = await readState(instance);
+			expect(state.stage).toBe('solution');
+			expect(state.history.map((m: any) => m.content)).toEqual(['u1', 'a1', 'u2', 'a2']);
+		});
+	});
+
+	it('marks streamed replies cut short by a disconnect as partial', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState) => {
+			await saveTurn(instance, { userMessage: 'u1', assistantMessage: 'half a rep', nextStage: 'initial', partial: true });
+
+			const state = await readState(instance);
+			expect(state.history[1]).toMatchObject({ role: 'assistant', content: 'half a rep', partial: true });
+			expect(state.history[0].partial).toBeUndefined();
+		});
+	});
+
+	it('records the stage transition with the reply it led to', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState) => {
+			const transition = { from: 'initial', to: 'diagnostic', method: 'heuristic', sufficiency: 1, checklist: {}, fixFailed: false, reasons: ['symptom described'] };
+			await saveTurn(instance, { userMessage: 'u1', assistantMessage: 'a1', nextStage: 'diagnostic', transition });
+
+			const state = await readState(instance);
+			expect(state.transitions).toEqual([
+				{ messageId: state.history[1].id, from: 'initial', to: 'diagnostic', method: 'heuristic', reasons: ['symptom described'], timestamp: state.history[1].timestamp }
+			]);
+		});
+	});
+
+	it('writes nothing when any part of a turn fails', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState) => {
+			// A transition without a from stage violates the table's NOT NULL constraint
+			const response = await saveTurn(instance, { userMessage: 'u1', assistantMessage: 'a1', nextStage: 'diagnostic', transition: { to: 'diagnostic', method: 'model', reasons: [] } });
+			expect(response.status).toBe(500);
+
+			const state = await readState(instance);
+			expect(state).toMatchObject({ stage: 'initial', messageCount: 0, history: [], transitions: [], title: null });
+		});
+	});
+
+	it('reads history a page at a time, newest first', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState) => {
+			for (const n of [1, 2, 3]) {
+				await saveTurn(instance, { userMessage: `u${n}`, assistantMessage: `a${n}`, nextStage: 'diagnostic' });
+			}
+
+			const latest = await readState(instance, '?limit=4');
+			expect(latest.history.map((m: any) => m.content)).toEqual(['u2', 'a2', 'u3', 'a3']);
+			expect(latest).toMatchObject({ messageCount: 6, hasMore: true, nextBefore: latest.history[0].id });
+
+			const earlier = await readState(instance, `?limit=4&before=${latest.nextBefore}`);
+			expect(earlier.history.map((m: any) => m.content)).toEqual(['u1', 'a1']);
+			expect(earlier).toMatchObject({ hasMore: false, nextBefore: null });
+		});
+	});
+
+	it('gives a chat turn only the messages after the summary, and the latest solution', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState) => {
+			await saveTurn(instance, { userMessage: 'u1', assistantMessage: 'fix', nextStage: 'solution' });
+			await saveTurn(instance, { userMessage: 'u2', assistantMessage: 'half a fix', nextStage: 'solution', partial: true });
+			await saveTurn(instance, { userMessage: 'u3', assistantMessage: 'a3', nextStage: 'verification' });
+			await instance.fetch(new Request('http://do/summary', { method: 'PUT', body: JSON.stringify({ text: 'Earlier', messageCount: 4, updatedAt: 0 }) }));
+
+			const context = await (await instance.getContext()).json() as any;
+			expect(context.history.map((m: any) => m.content)).toEqual(['u3', 'a3']);
+			expect(context).toMatchObject({ messageCount: 6, historyOffset: 4, stage: 'verification', summary: { messageCount: 4 } });
+			expect(context.latestSolution).toMatchObject({ role: 'assistant', content: 'fix', stage: 'solution' });
+		});
+	});
+
+	it('applies every schema migration once', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (_instance: AdvisorState, state) => {
+			const versions = state.storage.sql.exec('SELECT version FROM schema_migrations ORDER BY version').toArray();
+			expect(versions.map(row => row.version)).toEqual(SESSION_MIGRATIONS.map(m => m.version));
+			expect(migrate(state.storage as any, SESSION_MIGRATIONS)).toBe(SESSION_MIGRATIONS.length);
+		});
+	});
+
+	it('rejects a migration that skips a version', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (_instance: AdvisorState, state) => {
+			const next = SESSION_MIGRATIONS.length + 2;
+			expect(() => migrate(state.storage as any, [...SESSION_MIGRATIONS, { version: next, description: 'gap', statements: [] }]))
+				.toThrow(`Migration ${next} doesn't follow version ${next - 2}`);
+		});
+	});
+
+	it('moves state saved in key-value storage into the tables', async () => {
+		const stub = getStub();
+		await runInDurableObject(stub, async (instance: AdvisorState, state) => {
+			const legacy = [{ role: 'user', content: 'u1', timestamp: 1 }, { role: 'assistant', content: 'a1', timestamp: 2, stage: 'diagnostic' }];
+			await state.storage.put('history', JSON.stringify(legacy));
+			await state.storage.put('stage', 'diagnostic');
+			await state.storage.put('owner', 'user-1');
+			await state.storage.put('title', 'Legacy session');
+			await state.storage.put('outcome', { status: 'resolved', reason: 'fixed', steps: [], decidedAt: 3 });
+			await instance.importLegacyKeys();
+
+			const stored = await readState(instance);
+			expect(stored.history.map(({ id, ...message }: any) => message)).toEqual(legacy);
+			expect(stored).toMatchObject({ stage: 'diagnostic', title: 'Legacy session', outcome: { status: 'resolved', reason: 'fixed', steps: [], decidedAt: 3 } });
+			expect(instance.readSession().owner).toBe('user-1');
+			for (const key of ['history', 'stage', 'owner', 'title', 'outcome']) {
+				expect(await state.storage.get(key)).toBeUndefined();
+			}
+		});
+	});
+
+	it('round-trips the case file', async () => {
+		const stub = getStub();
+		const caseFile = { robotType: 'robot arm', platform: null, symptoms: ['jitter'], environment: null, attemptedFixes: [], suspectedSubsystems: ['control'], updatedAt: 1 };
+
+		const putRes = await stub.fetch(new Request('http://do/case', { method: 'PUT', body: JSON.stringify(caseFile) }));
+		expect(putRes.status).toBe(200);
+
+		const stored = await (await stub.fetch(new Request('http://do/case'))).json();
+		expect(stored).toEqual(caseFile);
+	});
+
+	it('returns 404 for unknown internal routes', async () => {
+		const response = await getStub().fetch(new Request('http://do/unknown'));
+		expect(response.status).toBe(404);
+	});
+});
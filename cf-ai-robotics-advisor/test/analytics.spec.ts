@@ -0,0 +1,144 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { SessionActivity, buildAnalyticsReport, parseReportDays } from '../src/analytics';
+import { ANALYTICS_MIGRATIONS, migrateDatabase } from '../src/schema';
+import { TEST_ADMIN, callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+const NOW = Date.UTC(2026, 2, 10, 12);
+const HOUR = 60 * 60 * 1000;
+
+function activity(fields: Partial<SessionActivity>): SessionActivity {
+	return {
+		sessionId: crypto.randomUUID(),
+		userId: 'user_a',
+		title: null,
+		startedAt: NOW - HOUR,
+		lastActivityAt: NOW,
+		turns: 1,
+		finalStage: 'diagnostic',
+		outcome: null,
+		subsystems: [],
+		robotType: null,
+		solutionTurn: null,
+		solutionAt: null,
+		...fields,
+	};
+}
+
+async function getReport(workerEnv: any, days = 1) {
+	const response = await callWorker(workerEnv, `/api/admin/analytics?days=${days}`, {}, TEST_ADMIN);
+	expect(response.status).toBe(200);
+	return await response.json() as any;
+}
+
+describe('buildAnalyticsReport', () => {
+	it('aggregates stages, time to solution, subsystems and outcomes', () => {
+		const report = buildAnalyticsReport([
+			activity({ finalStage: 'verification', outcome: 'resolved', subsystems: ['electrical'], solutionTurn: 3, solutionAt: NOW - HOUR + 20 * 60000 }),
+			activity({ finalStage: 'solution', subsystems: ['electrical', 'control'], solutionTurn: 5, solutionAt: NOW - HOUR + 40 * 60000 }),
+			activity({ finalStage: 'diagnostic', outcome: 'escalate', subsystems: ['mechanical'], startedAt: NOW - 2 * 24 * HOUR }),
+		], 7, NOW);
+
+		expect(report.sessions).toBe(3);
+		expect(report.since).toBe(Date.UTC(2026, 2, 4));
+		expect(report.sessionsPerDay).toHaveLength(7);
+		expect(report.sessionsPerDay.filter(day => day.sessions)).toEqual([{ day: '2026-03-08', sessions: 1 }, { day: '2026-03-10', sessions: 2 }]);
+		expect(report.finalStages).toEqual({ initial: 0, diagnostic: 1, solution: 1, verification: 1 });
+		expect(report.toSolution).toEqual({ sessions: 2, medianTurns: 4, averageTurns: 4, medianMinutes: 30, averageMinutes: 30 });
+		expect(report.subsystems).toEqual([
+			{ subsystem: 'electrical', sessions: 2 },
+			{ subsystem: 'control', sessions: 1 },
+			{ subsystem: 'mechanical', sessions: 1 },
+		]);
+		expect(report.outcomes).toEqual({ resolved: 1, escalated: 1, open: 1, resolutionRate: 0.333, escalationRate: 0.333 });
+	});
+
+	it('reports no rates or times without sessions', () => {
+		const report = buildAnalyticsReport([], 1, NOW);
+		expect(report.sessionsPerDay).toEqual([{ day: '2026-03-10', sessions: 0 }]);
+		expect(report.toSolution.medianTurns).toBeNull();
+		expect(report.outcomes.resolutionRate).toBeNull();
+	});
+});
+
+describe('parseReportDays', () => {
+	it('defaults to 30 days and rejects ranges out of bounds', () => {
+		expect(parseReportDays(null)).toBe(30);
+		expect(parseReportDays('7')).toBe(7);
+		expect(parseReportDays('0')).toBeNull();
+		expect(parseReportDays('366')).toBeNull();
+		expect(parseReportDays('1.5')).toBeNull();
+	});
+});
+
+describe('migrateDatabase', () => {
+	it('migrates a D1 database once', async () => {
+		expect(await migrateDatabase(env.ANALYTICS_DB, ANALYTICS_MIGRATIONS)).toBe(ANALYTICS_MIGRATIONS.length);
+		expect(await migrateDatabase(env.ANALYTICS_DB, ANALYTICS_MIGRATIONS)).toBe(ANALYTICS_MIGRATIONS.length);
+		const next = ANALYTICS_MIGRATIONS.length + 2;
+		await expect(migrateDatabase(env.ANALYTICS_DB, [...ANALYTICS_MIGRATIONS, { version: next, description: 'gap', statements: [] }]))
+			.rejects.toThrow(`Migration ${next} doesn't follow version ${ANALYTICS_MIGRATIONS.length}`);
+	});
+});
+
+describe('GET /api/admin/analytics', () => {
+	it('reports chat turns recorded in D1', async () => {
+		const workerEnv = envWithAi(createStubAi({ extraction: JSON.stringify({ robotType: 'rover', suspectedSubsystems: ['electrical'] }) }));
+		const sessionId = await createSession();
+		await postChat(workerEnv, { sessionId, userMessage: 'My rover resets when the motors start' });
+		await postChat(workerEnv, { sessionId, userMessage: 'It happens on every surface', stream: true });
+
+		const rows = await env.ANALYTICS_DB.prepare('SELECT turn, from_stage FROM events WHERE session_id = ? ORDER BY id').bind(sessionId).all();
+		expect(rows.results).toEqual([{ turn: 1, from_stage: 'initial' }, { turn: 2, from_stage: expect.any(String) }]);
+
+		const report = await getReport(workerEnv);
+		expect(report.sessions).toBeGreaterThanOrEqual(1);
+		expect(report.recentSessions.find((s: any) => s.sessionId === sessionId)).toMatchObject({
+			turns: 2,
+			outcome: null,
+			subsystems: ['electrical'],
+			robotType: 'rover',
+			title: 'My rover resets when the motors start',
+		});
+		expect(report.subsystems.find((s: any) => s.subsystem === 'electrical').sessions).toBeGreaterThanOrEqual(1);
+	});
+
+	it('falls back to the Durable Object stand-in without a D1 database', async () => {
+		const workerEnv = { ...envWithAi(createStubAi()), ANALYTICS_DB: undefined };
+		const sessionId = await createSession();
+		await postChat(workerEnv, { sessionId, userMessage: 'How do I bypass the BMS on my rover?' });
+
+		const { results } = await env.ANALYTICS_DB.prepare('SELECT id FROM events WHERE session_id = ?').bind(sessionId).all();
+		expect(results).toEqual([]);
+
+		const report = await getReport(workerEnv);
+		expect(report.recentSessions.find((s: any) => s.sessionId === sessionId)).toMatchObject({ turns: 1, outcome: 'escalate' });
+		expect(report.outcomes.escalated).toBeGreaterThanOrEqual(1);
+	});
+
+	it('is admin-only and validates the range', async () => {
+		expect((await callWorker(env, '/api/admin/analytics')).status).toBe(403);
+		expect((await callWorker(env, '/api/admin/analytics?days=0', {}, TEST_ADMIN)).status).toBe(400);
+	});
+});
+
+describe('admin drill-down', () => {
+	it("lets admins read any session's transcript", async () => {
+		const workerEnv = envWithAi(createStubAi({ chat: 'What voltage does the battery show?' }));
+		const sessionId = await createSession();
+		await postChat(workerEnv, { sessionId, userMessage: 'My arm drops its payload' });
+
+		expect((await callWorker(env, `/api/admin/sessions/${sessionId}`)).status).toBe(403);
+
+		const state = await (await callWorker(env, `/api/admin/sessions/${sessionId}?limit=1`, {}, TEST_ADMIN)).json() as any;
+		expect(state.messageCount).toBe(2);
+		expect(state.history.map((m: any) => m.content)).toEqual(['What voltage does the battery show?']);
+		expect(state.hasMore).toBe(true);
+	});
+
+	it('serves the dashboard page without credentials', async () => {
+		const response = await callWorker(env, '/admin', {}, null);
+		expect(response.headers.get('Content-Type')).toContain('text/html');
+		expect(await response.text()).toContain('Diagnosis Analytics');
+	});
+});
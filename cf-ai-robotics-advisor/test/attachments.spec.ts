@@ -0,0 +1,104 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { extractKeyLines, truncateLog } from '../src/attachments';
+import { callWorker, createSession, createStubAi, envWithAi } from './helpers';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+function postMultipart(workerEnv: any, fields: Record<string, string>, files: File[]): Promise<Response> {
+	const form = new FormData();
+	for (const [key, value] of Object.entries(fields)) form.append(key, value);
+	for (const file of files) form.append('attachments', file);
+	return callWorker(workerEnv, '/api/chat', { method: 'POST', body: form });
+}
+
+function chatCalls(ai: ReturnType<typeof createStubAi>) {
+	return ai.calls.filter(c => String(c.options.messages[0].content).startsWith('You are a robotics troubleshooting expert'));
+}
+
+describe('log digests', () => {
+	it('pulls error lines once each, ignoring timestamps', () => {
+		const log = [
+			'[INFO] [1700000000.1] motor_driver: started',
+			'[ERROR] [1700000001.2] motor_driver: overcurrent on channel 2',
+			'[ERROR] [1700000002.9] motor_driver: overcurrent on channel 2',
+			'[WARN] [1700000003.0] imu: timed out waiting for data',
+		].join('\n');
+
+		expect(extractKeyLines(log)).toEqual([
+			'[ERROR] [1700000001.2] motor_driver: overcurrent on channel 2',
+			'[WARN] [1700000003.0] imu: timed out waiting for data',
+		]);
+	});
+
+	it('keeps the start and end of long logs', () => {
+		const { excerpt, truncated } = truncateLog('BOOT\n' + 'x'.repeat(20000) + '\nPANIC');
+		expect(truncated).toBe(true);
+		expect(excerpt.startsWith('BOOT')).toBe(true);
+		expect(excerpt.endsWith('PANIC')).toBe(true);
+		expect(excerpt).toContain('characters omitted');
+	});
+});
+
+describe('POST /api/chat with attachments', () => {
+	it('describes a photo with the vision model, stores it and serves it back', async () => {
+		const ai = createStubAi({ vision: 'A loose JST connector on the servo lead.' });
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+
+		const response = await postMultipart(workerEnv, { sessionId, userMessage: 'Servo twitches, see photo' }, [
+			new File([PNG_BYTES], 'wiring.png', { type: 'image/png' }),
+		]);
+		const data = await response.json() as any;
+		expect(response.status).toBe(200);
+		expect(data.attachments[0]).toMatchObject({ kind: 'image', name: 'wiring.png', description: 'A loose JST connector on the servo lead.' });
+
+		// The vision call carries the image bytes
+		const visionCall = ai.calls.find(c => String(c.options.messages[0].content).startsWith('You describe photos'))!;
+		expect(visionCall.options.image).toEqual([...PNG_BYTES]);
+
+		// The chat model sees the description
+		expect(chatCalls(ai)[0].options.messages.at(-1).content).toContain('A loose JST connector');
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(history.history[0].attachments[0].id).toBe(data.attachments[0].id);
+
+		const image = await callWorker(workerEnv, `/api/session/${sessionId}/attachments/${data.attachments[0].id}`);
+		expect(image.headers.get('Content-Type')).toBe('image/png');
+		expect(new Uint8Array(await image.arrayBuffer())).toEqual(PNG_BYTES);
+	});
+
+	it('accepts a log without any message text and feeds its key lines to the model', async () => {
+		const ai = createStubAi({ summary: 'The IMU stopped publishing.' });
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+		const log = '[INFO] node up\n[ERROR] [imu_node]: no data for 2.0s\n[INFO] retrying';
+
+		const response = await postMultipart(workerEnv, { sessionId, userMessage: '' }, [new File([log], 'rqt.log', { type: '' })]);
+		const data = await response.json() as any;
+		expect(response.status).toBe(200);
+		expect(data.attachments[0]).toMatchObject({ kind: 'log', summary: 'The IMU stopped publishing.', keyLines: ['[ERROR] [imu_node]: no data for 2.0s'] });
+
+		const prompt = chatCalls(ai)[0].options.messages.at(-1).content;
+		expect(prompt).toContain('[Attached log "rqt.log"]');
+		expect(prompt).toContain('no data for 2.0s');
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(history.title).toBe('rqt.log');
+	});
+
+	it('rejects unsupported file types with 400', async () => {
+		const response = await postMultipart(env, { sessionId: await createSession(), userMessage: 'see bag' }, [
+			new File([new Uint8Array([0, 1, 2])], 'run.bag', { type: 'application/octet-stream' }),
+		]);
+		expect(response.status).toBe(400);
+	});
+
+	it('rejects too many or too large attachments with 413', async () => {
+		const tooMany = Array.from({ length: 5 }, (_, i) => new File(['ok'], `log${i}.txt`, { type: 'text/plain' }));
+		expect((await postMultipart(env, { sessionId: await createSession(), userMessage: 'logs' }, tooMany)).status).toBe(413);
+
+		const huge = new File([new Uint8Array(2_000_000)], 'huge.png', { type: 'image/png' });
+		expect((await postMultipart(env, { sessionId: await createSession(), userMessage: 'photo' }, [huge])).status).toBe(413);
+	});
+});
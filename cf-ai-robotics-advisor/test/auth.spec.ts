@@ -0,0 +1,133 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { signToken, verifyToken } from '../src/auth';
+import { TEST_ADMIN, callWorker, createSession, newUser, postChat } from './helpers';
+
+const JWKS_URL = 'https://idp.example.com/.well-known/jwks.json';
+
+function base64Url(bytes: Uint8Array | string): string {
+	const binary = typeof bytes === 'string' ? bytes : String.fromCharCode(...bytes);
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Signs an RS256 JWT the way an identity provider would */
+async function signJwt(key: CryptoKey, claims: Record<string, unknown>): Promise<string> {
+	const head = base64Url(JSON.stringify({ alg: 'RS256', kid: 'test-key' }));
+	const body = base64Url(JSON.stringify(claims));
+	const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${head}.${body}`));
+	return `${head}.${body}.${base64Url(new Uint8Array(signature))}`;
+}
+
+// The case index is one shared instance that other test files also touch; the
+// module reloads for this file, resetting it, and only reads are retried through
+// the reset, so a read goes first
+beforeAll(async () => {
+	await callWorker(env, '/api/cases', {}, TEST_ADMIN);
+});
+
+describe('session tokens', () => {
+	it('round-trips and rejects tampered or expired tokens', async () => {
+		const token = await signToken('secret', 'alice', 'user', 60);
+		const principal = await verifyToken('secret', token);
+		expect(principal).toEqual({ userId: 'alice', role: 'user', method: 'token', expiresAt: expect.any(Number) });
+		expect(principal!.expiresAt).toBeGreaterThan(Date.now());
+		expect(principal!.expiresAt).toBeLessThanOrEqual(Date.now() + 60_000);
+		expect(await verifyToken('other-secret', token)).toBeNull();
+		expect(await verifyToken('secret', `${token.split('.')[0]}x.${token.split('.')[1]}`)).toBeNull();
+		expect(await verifyToken('secret', await signToken('secret', 'alice', 'user', -1))).toBeNull();
+	});
+});
+
+describe('authentication', () => {
+	it('issues guest tokens that authenticate later calls', async () => {
+		const response = await callWorker(env, '/api/auth/guest', { method: 'POST' }, null);
+		expect(response.status).toBe(200);
+		const { token, userId } = await response.json() as any;
+		expect(userId).toMatch(/^user_/);
+
+		const listed = await callWorker(env, '/api/sessions', { headers: { Authorization: `Bearer ${token}` } });
+		expect(listed.status).toBe(200);
+		expect(await listed.json()).toEqual({ sessions: [] });
+	});
+
+	it('returns 401 without valid credentials', async () => {
+		const missing = await callWorker(env, '/api/sessions', {}, null);
+		expect(missing.status).toBe(401);
+		expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+
+		expect((await callWorker(env, '/api/sessions', { headers: { Authorization: 'Bearer forged.token' } })).status).toBe(401);
+		expect((await callWorker(env, '/api/sessions', { headers: { 'X-API-Key': 'wrong-key' } })).status).toBe(401);
+		expect((await callWorker(env, '/api/sessions', { headers: { Authorization: 'Bearer a.b.c' } })).status).toBe(401);
+	});
+
+	it('accepts configured API keys with their role', async () => {
+		const response = await callWorker(env, '/api/cases', { headers: { 'X-API-Key': 'test-admin-key' } });
+		expect(response.status).toBe(200);
+	});
+});
+
+describe('authorization', () => {
+	it('keeps sessions private to their owner', async () => {
+		const owner = newUser();
+		const intruder = newUser();
+		const sessionId = await createSession(owner);
+		await postChat(env, { sessionId, userMessage: 'hello' }, owner);
+
+		expect((await callWorker(env, `/api/history/${sessionId}`, {}, owner)).status).toBe(200);
+		expect((await callWorker(env, `/api/history/${sessionId}`, {}, intruder)).status).toBe(403);
+		expect((await postChat(env, { sessionId, userMessage: 'hijack' }, intruder)).status).toBe(403);
+		expect((await callWorker(env, `/api/session/${sessionId}`, { method: 'DELETE' }, intruder)).status).toBe(403);
+	});
+
+	it('returns 404 for sessions nobody created', async () => {
+		expect((await callWorker(env, '/api/history/session_never_created')).status).toBe(404);
+		expect((await postChat(env, { sessionId: 'session_never_created', userMessage: 'hello' })).status).toBe(404);
+	});
+
+	it('limits knowledge, profile and case changes to admins', async () => {
+		const user = newUser();
+		expect((await callWorker(env, '/api/knowledge', { method: 'POST', body: '{}' }, user)).status).toBe(403);
+		expect((await callWorker(env, '/api/profiles', { method: 'POST', body: '{}' }, user)).status).toBe(403);
+		expect((await callWorker(env, '/api/cases', {}, user)).status).toBe(403);
+		expect((await callWorker(env, '/api/knowledge', { method: 'POST', body: '{}' }, TEST_ADMIN)).status).toBe(400);
+	});
+});
+
+describe('JWT sign-in', () => {
+	let keys: CryptoKeyPair;
+	const jwtEnv = { ...env, JWT_JWKS_URL: JWKS_URL, JWT_ISSUER: 'https://idp.example.com/' };
+
+	beforeAll(async () => {
+		keys = await crypto.subtle.generateKey(
+			{ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+			true,
+			['sign', 'verify'],
+		) as CryptoKeyPair;
+		const jwk = await crypto.subtle.exportKey('jwk', keys.publicKey);
+
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		fetchMock.get('https://idp.example.com').intercept({ path: '/.well-known/jwks.json' }).reply(200, { keys: [{ ...jwk, kid: 'test-key' }] }).persist();
+	});
+
+	afterAll(() => {
+		fetchMock.deactivate();
+	});
+
+	it('accepts provider JWTs and maps the admin role', async () => {
+		const exp = Math.floor(Date.now() / 1000) + 300;
+		const jwt = await signJwt(keys.privateKey, { sub: 'sso-admin', iss: 'https://idp.example.com/', exp, roles: ['admin'] });
+		const response = await callWorker(jwtEnv, '/api/cases', { headers: { Authorization: `Bearer ${jwt}` } });
+		expect(response.status).toBe(200);
+	});
+
+	it('rejects expired JWTs and the wrong issuer', async () => {
+		const past = Math.floor(Date.now() / 1000) - 600;
+		const expired = await signJwt(keys.privateKey, { sub: 'sso-user', iss: 'https://idp.example.com/', exp: past });
+		expect((await callWorker(jwtEnv, '/api/sessions', { headers: { Authorization: `Bearer ${expired}` } })).status).toBe(401);
+
+		const exp = Math.floor(Date.now() / 1000) + 300;
+		const foreign = await signJwt(keys.privateKey, { sub: 'sso-user', iss: 'https://evil.example.com/', exp });
+		expect((await callWorker(jwtEnv, '/api/sessions', { headers: { Authorization: `Bearer ${foreign}` } })).status).toBe(401);
+	});
+});
@@ -0,0 +1,225 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { formatToolRuns, runCalculator, selectCalculators } from '../src/calculators';
+import { parseToolCalls } from '../src/providers';
+import { callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+/** Step response to 1 that rings with a 1 s period, each swing `decay` times the previous one */
+function ringing(decay: number) {
+	const times = Array.from({ length: 601 }, (_, i) => i / 100);
+	const values = times.map(t => 1 - Math.pow(decay, t) * Math.cos(2 * Math.PI * t));
+	return { times, values, setpoint: 1, initial: 0 };
+}
+
+const SERVO_CALL = { name: 'servo_torque_check', arguments: { loadKg: 0.5, armLengthCm: 20, armMassKg: 0.1, servoTorqueKgCm: 15 } };
+
+describe('pid_step_response', () => {
+	it('measures an underdamped response and estimates the gain margin', () => {
+		const { result, error } = runCalculator({ name: 'pid_step_response', arguments: { ...ringing(0.5), kp: 2 } });
+		expect(error).toBeNull();
+		expect(result).toMatchObject({ finalValue: expect.any(Number), verdict: 'underdamped: too much overshoot' });
+		expect(result!.oscillationPeriod).toBeCloseTo(1, 1);
+		expect(result!.decayRatio).toBeCloseTo(0.5, 1);
+		expect(result!.dampingRatio).toBeCloseTo(0.11, 1);
+		expect(result!.overshootPercent).toBeGreaterThan(60);
+		expect(result!.gainMarginEstimate).toBeCloseTo(1.33, 1);
+		expect(result!.ultimateGainEstimate).toBeCloseTo(2.67, 1);
+		expect(result!.zieglerNicholsPid).toMatchObject({ kp: expect.any(Number), ki: expect.any(Number), kd: expect.any(Number) });
+	});
+
+	it('tells sustained oscillation from growing oscillation', () => {
+		const sustained = runCalculator({ name: 'pid_step_response', arguments: ringing(1) }).result!;
+		expect(sustained.verdict).toBe('sustained oscillation: at the edge of stability');
+		expect(sustained.gainMarginEstimate).toBe(1);
+		expect(sustained.settlingTime).toBeNull();
+		expect(sustained.ultimateGainEstimate).toBeNull();
+
+		expect(runCalculator({ name: 'pid_step_response', arguments: ringing(1.5) }).result!.verdict).toBe('unstable: the oscillation grows');
+	});
+
+	it('reports a well damped response and steady-state error', () => {
+		const times = Array.from({ length: 101 }, (_, i) => i / 20);
+		const damped = runCalculator({ name: 'pid_step_response', arguments: { times, values: times.map(t => 1 - Math.exp(-3 * t)), setpoint: 1 } }).result!;
+		expect(damped).toMatchObject({ overshootPercent: 0, oscillationPeriod: null, verdict: 'well damped' });
+		expect(damped.riseTime).toBeCloseTo(0.75, 1);
+
+		const offset = runCalculator({ name: 'pid_step_response', arguments: { times, values: times.map(t => 0.8 * (1 - Math.exp(-3 * t))), setpoint: 1 } }).result!;
+		expect(offset.verdict).toBe('steady-state error: the output settles away from the setpoint');
+		expect(offset.steadyStateError).toBeCloseTo(0.2, 2);
+	});
+
+	it('rejects samples it cannot analyze', () => {
+		const call = (args: Record<string, unknown>) => runCalculator({ name: 'pid_step_response', arguments: args }).error;
+		expect(call({ times: [0, 1], values: [0], setpoint: 1 })).toBe('times and values must have the same length');
+		expect(call({ times: [0, 1, 2], values: [0, 1, 1], setpoint: 1 })).toBe('At least 5 samples are needed');
+		expect(call({ times: [0, 1, 1, 2, 3], values: [0, 1, 1, 1, 1], setpoint: 1 })).toBe('times must be increasing');
+		expect(call({ times: 'soon', values: [], setpoint: 1 })).toBe('times must be an array of numbers');
+		expect(call({ times: [0, 1, 2, 3, 4], values: [0, 0, 0, 0, 0], setpoint: 0 })).toBe('setpoint must differ from the initial value');
+	});
+});
+
+describe('servo_torque_check', () => {
+	it('compares the holding torque with the rating', () => {
+		expect(runCalculator(SERVO_CALL).result).toEqual({
+			requiredTorqueKgCm: 11,
+			requiredTorqueNm: 1.079,
+			ratedTorqueKgCm: 15,
+			utilizationPercent: 73.33,
+			recommendedMinTorqueKgCm: 22,
+			verdict: 'marginal: above half the stall torque, expect heat and jitter',
+		});
+		expect(runCalculator({ name: 'servo_torque_check', arguments: { loadKg: 1, armLengthCm: 20, servoTorqueNm: 1 } }).result).toMatchObject({
+			ratedTorqueKgCm: 10.2,
+			verdict: 'insufficient: the servo cannot hold the load horizontal',
+		});
+	});
+
+	it('needs a rating in either unit', () => {
+		expect(runCalculator({ name: 'servo_torque_check', arguments: { loadKg: 1, armLengthCm: 20 } }).error).toBe('servoTorqueKgCm or servoTorqueNm is required');
+		expect(runCalculator({ name: 'servo_torque_check', arguments: { loadKg: 1, armLengthCm: 0, servoTorqueKgCm: 5 } }).error).toBe('armLengthCm must be greater than 0');
+	});
+});
+
+describe('battery_check', () => {
+	it('estimates runtime and checks the C-rating', () => {
+		expect(runCalculator({
+			name: 'battery_check',
+			arguments: { capacityMah: 2200, averageCurrentA: 5, peakCurrentA: 40, cRating: 20, nominalVoltage: 11.1 },
+		}).result).toEqual({
+			runtimeMinutes: 21.12,
+			averageCRate: 2.273,
+			peakCRate: 18.18,
+			maxContinuousCurrentA: 44,
+			peakUtilizationPercent: 90.91,
+			energyWh: 24.42,
+			verdict: 'near the C-rating: expect voltage sag at peaks',
+		});
+		expect(runCalculator({ name: 'battery_check', arguments: { capacityMah: '1000', averageCurrentA: 2 } }).result).toMatchObject({
+			runtimeMinutes: 24,
+			verdict: 'no C-rating given; runtime only',
+		});
+	});
+
+	it('rejects impossible inputs', () => {
+		expect(runCalculator({ name: 'battery_check', arguments: { capacityMah: 2200 } }).error).toBe('averageCurrentA is required');
+		expect(runCalculator({ name: 'battery_check', arguments: { capacityMah: 2200, averageCurrentA: 'lots' } }).error).toBe('averageCurrentA must be a number');
+		expect(runCalculator({ name: 'battery_check', arguments: { capacityMah: 2200, averageCurrentA: 1, usableFraction: 2 } }).error).toBe('usableFraction must be at most 1');
+	});
+});
+
+describe('voltage_drop', () => {
+	it("applies Ohm's law to the wire run and recommends a gauge", () => {
+		const { result } = runCalculator({ name: 'voltage_drop', arguments: { currentA: 10, lengthM: 1, awg: 22, supplyVoltage: 12 } });
+		expect(result).toMatchObject({ verdict: 'too much drop: over 3% of the supply', recommendedAwg: 17 });
+		expect(result!.resistanceOhms).toBeCloseTo(0.106, 3);
+		expect(result!.dropVolts).toBeCloseTo(1.06, 2);
+		expect(result!.voltageAtLoad).toBeCloseTo(10.94, 2);
+
+		// 2.5 mm² one way: 1.724e-8 Ω·m × 2 m / 2.5e-6 m²
+		expect(runCalculator({ name: 'voltage_drop', arguments: { currentA: 10, lengthM: 2, areaMm2: 2.5, roundTrip: false } }).result).toMatchObject({
+			resistanceOhms: 0.01379,
+			dropVolts: 0.1379,
+			dropPercent: null,
+			verdict: 'no supply voltage given; drop in volts only',
+		});
+	});
+
+	it('needs a wire size', () => {
+		expect(runCalculator({ name: 'voltage_drop', arguments: { currentA: 10, lengthM: 1 } }).error).toBe('awg or areaMm2 is required');
+	});
+});
+
+describe('runCalculator', () => {
+	it('reports unknown calculators instead of throwing', () => {
+		expect(runCalculator({ name: 'warp_drive', arguments: {} })).toEqual({ name: 'warp_drive', arguments: {}, result: null, error: 'Unknown calculator: warp_drive' });
+	});
+});
+
+describe('selectCalculators', () => {
+	it('offers calculators whose topic comes up with numbers to work with', () => {
+		expect(selectCalculators('My arm servo stalls lifting 0.5 kg')).toEqual(['servo_torque_check']);
+		expect(selectCalculators('The 2200mAh pack browns out through 3 m of 22 AWG wire')).toEqual(['battery_check', 'voltage_drop']);
+		expect(selectCalculators('Kp is 2 and it overshoots')).toEqual(['pid_step_response']);
+		expect(selectCalculators('My arm servo stalls')).toEqual([]);
+		expect(selectCalculators('It moved 3 times')).toEqual([]);
+	});
+});
+
+describe('parseToolCalls', () => {
+	it('reads OpenAI and Workers AI tool calls', () => {
+		expect(parseToolCalls([{ id: 'call_a', type: 'function', function: { name: 'battery_check', arguments: '{"capacityMah":2200}' } }]))
+			.toEqual([{ id: 'call_a', name: 'battery_check', arguments: { capacityMah: 2200 } }]);
+		expect(parseToolCalls([{ name: 'voltage_drop', arguments: { currentA: 1 } }, { arguments: {} }, { name: 'battery_check', arguments: '{oops' }]))
+			.toEqual([{ id: 'call_0', name: 'voltage_drop', arguments: { currentA: 1 } }, { id: 'call_2', name: 'battery_check', arguments: {} }]);
+		expect(parseToolCalls(undefined)).toEqual([]);
+	});
+});
+
+describe('DiagnosisWorkflow calculators', () => {
+	it('offers calculators in the diagnostic prompt when the numbers are there', async () => {
+		const workflow = new DiagnosisWorkflow();
+		const input = { sessionId: 'calculators', userMessage: 'The servo stalls with a 0.5 kg payload', conversationHistory: [] };
+
+		const diagnostic = await workflow.run({ ...input, currentStage: 'diagnostic' });
+		expect(diagnostic.calculators).toEqual(['servo_torque_check']);
+		expect(diagnostic.systemPrompt).toContain('CALCULATORS: You can call these tools: servo_torque_check.');
+
+		const solution = await workflow.run({ ...input, currentStage: 'solution' });
+		expect(solution.calculators).toEqual([]);
+		expect(solution.systemPrompt).not.toContain('CALCULATORS');
+	});
+});
+
+describe('/api/chat with calculators', () => {
+	const message = 'My arm servo stalls lifting 0.5 kg on a 20 cm arm, it is rated 15 kg·cm';
+
+	it('runs the calls the model makes and stores them on the reply', async () => {
+		const ai = createStubAi({ chat: 'The servo runs at 73% of its stall torque.', toolCalls: [SERVO_CALL] });
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+
+		const reply = await (await postChat(workerEnv, { sessionId, userMessage: message })).json() as any;
+		expect(reply.message).toBe('The servo runs at 73% of its stall torque.');
+		expect(reply.toolRuns).toEqual([runCalculator(SERVO_CALL)]);
+
+		const chatCalls = ai.calls.filter(c => c.options.tools);
+		expect(chatCalls).toHaveLength(2);
+		expect(chatCalls[0].options.tools.map((t: any) => t.function.name)).toEqual(['servo_torque_check']);
+		const answer = chatCalls[1].options.messages.at(-1);
+		expect(answer).toMatchObject({ role: 'tool', tool_call_id: 'call_0' });
+		expect(JSON.parse(answer.content).utilizationPercent).toBe(73.33);
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(history.history[1].toolRuns).toEqual(reply.toolRuns);
+
+		// Later turns see the results in the history
+		const before = ai.calls.length;
+		await postChat(workerEnv, { sessionId, userMessage: 'What should I buy instead?' });
+		const replayed = ai.calls.slice(before).flatMap(c => c.options.messages)
+			.filter((m: any) => m.role === 'assistant' && String(m.content).startsWith(formatToolRuns(reply.toolRuns)));
+		expect(replayed.length).toBeGreaterThan(0);
+	});
+
+	it('streams each calculation before the reply', async () => {
+		const workerEnv = envWithAi(createStubAi({ chat: 'Buy a 25 kg·cm servo.', toolCalls: [SERVO_CALL, { name: 'servo_torque_check', arguments: {} }] }));
+		const sessionId = await createSession();
+
+		const body = await (await postChat(workerEnv, { sessionId, userMessage: message, stream: true })).text();
+		const runs = [...body.matchAll(/event: tool\ndata: (.*)\n/g)].map(m => JSON.parse(m[1]).run);
+		expect(runs.map(run => run.error)).toEqual([null, 'loadKg is required']);
+
+		const done = JSON.parse(body.split('\n\n').find(event => event.startsWith('event: done'))!.split('data: ')[1]);
+		expect(done).toMatchObject({ message: 'Buy a 25 kg·cm servo.', toolRuns: runs });
+		expect(body).not.toContain('event: token');
+	});
+
+	it('streams tokens as usual when no calculator applies', async () => {
+		const ai = createStubAi({ toolCalls: [SERVO_CALL] });
+		const sessionId = await createSession();
+
+		const reply = await (await postChat(envWithAi(ai), { sessionId, userMessage: 'My arm servo stalls' })).json() as any;
+		expect(reply.toolRuns).toEqual([]);
+		expect(ai.calls.some(c => c.options.tools)).toBe(false);
+	});
+});
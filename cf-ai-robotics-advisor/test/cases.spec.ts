@@ -0,0 +1,124 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { SimilarCase, describeSimilarCases, validateCaseEdit } from '../src/caseIndex';
+import { TEST_ADMIN, callWorker, createSession, postChat } from './helpers';
+
+const SYMPTOM = "My hexapod's rear leg servo twitches on startup";
+
+function similarCase(caseId: string, fix: string[]): SimilarCase {
+	return { caseId, title: caseId, robotType: 'hexapod', symptoms: ['servo twitches'], rootCause: 'Noisy servo power', fix, verified: false, score: 0.9 };
+}
+
+/** Drives a session with the mock provider's canned replies until it is resolved */
+async function resolveSession(sessionId: string): Promise<void> {
+	await postChat(env, { sessionId, userMessage: SYMPTOM });
+	await postChat(env, { sessionId, userMessage: 'just tell me what to do' });
+	await postChat(env, { sessionId, userMessage: 'OK, walk me through it' });
+	for (const stepOutcome of ['pass', 'skipped', 'pass']) {
+		await postChat(env, { sessionId, userMessage: 'next', stepOutcome });
+	}
+	const data = await (await postChat(env, { sessionId, userMessage: "Yes, it's fixed" })).json() as any;
+	expect(data.outcome.status).toBe('resolved');
+}
+
+// The case index is one shared instance that other test files also touch; the
+// module reloads for this file, resetting it, and only reads are retried through
+// the reset, so a read goes first
+beforeAll(async () => {
+	await callWorker(env, '/api/cases', {}, TEST_ADMIN);
+});
+
+describe('describeSimilarCases', () => {
+	it('names the fix most similar cases share', () => {
+		const matches = describeSimilarCases([similarCase('a', ['Add a capacitor']), similarCase('b', ['Retune Kd']), similarCase('c', ['retune kd'])]);
+		expect(matches?.summary).toBe('2 similar cases were resolved by "Retune Kd"');
+	});
+
+	it('names the closest case when no fix repeats', () => {
+		const matches = describeSimilarCases([similarCase('a', ['Add a capacitor']), similarCase('b', ['Retune Kd'])]);
+		expect(matches?.summary).toBe('2 similar cases were resolved before; the closest by "Add a capacitor"');
+		expect(describeSimilarCases([])).toBeNull();
+	});
+});
+
+describe('validateCaseEdit', () => {
+	it('rejects malformed fields', () => {
+		const { errors } = validateCaseEdit({ title: ' ', fix: 'one step', hidden: 'yes' });
+		expect(errors).toEqual(['title must be a non-empty string', 'fix must be an array of strings', 'hidden must be a boolean']);
+	});
+});
+
+describe('DiagnosisWorkflow similar cases', () => {
+	it('adds similar cases to the diagnostic prompt only', async () => {
+		const queries: string[] = [];
+		const workflow = new DiagnosisWorkflow(undefined, undefined, async query => {
+			queries.push(query);
+			return [similarCase('a', ['Add a capacitor'])];
+		});
+
+		const diagnostic = await workflow.run({ sessionId: 'cases-test', userMessage: SYMPTOM, conversationHistory: [], currentStage: 'initial' });
+		expect(diagnostic.nextStage).toBe('diagnostic');
+		expect(diagnostic.similarCases).toHaveLength(1);
+		expect(diagnostic.systemPrompt).toContain('Similar cases the team has resolved before:');
+		expect(diagnostic.systemPrompt).toContain('Fix that worked: Add a capacitor');
+
+		const initial = await workflow.run({ sessionId: 'cases-test', userMessage: 'hello', conversationHistory: [], currentStage: 'initial' });
+		expect(initial.similarCases).toEqual([]);
+		expect(queries).toHaveLength(1);
+	});
+});
+
+describe('case index in /api/chat', () => {
+	it('indexes a resolved session and surfaces it to later sessions', async () => {
+		const resolvedId = await createSession();
+		await resolveSession(resolvedId);
+
+		const stored = await (await callWorker(env, `/api/cases/${resolvedId}`, {}, TEST_ADMIN)).json() as any;
+		expect(stored).toMatchObject({
+			sessionId: resolvedId,
+			title: SYMPTOM,
+			rootCause: 'Control loop gains are too aggressive for the current speed.',
+			fix: ['Reduce Kp by 30%', 'Re-test at low speed before increasing it'],
+			hidden: false,
+		});
+
+		const data = await (await postChat(env, { sessionId: await createSession(), userMessage: SYMPTOM })).json() as any;
+		expect(data.stage).toBe('diagnostic');
+		expect(data.similarCases.cases[0].caseId).toBe(resolvedId);
+		expect(data.similarCases.summary).toContain('"Reduce Kp by 30%"');
+
+		// Hidden cases stay in the index but are no longer suggested
+		const hidden = await (await callWorker(env, `/api/cases/${resolvedId}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ hidden: true, notes: 'Duplicate of an older case' }),
+		}, TEST_ADMIN)).json() as any;
+		expect(hidden).toMatchObject({ hidden: true, notes: 'Duplicate of an older case', fix: stored.fix });
+
+		const after = await (await postChat(env, { sessionId: await createSession(), userMessage: SYMPTOM })).json() as any;
+		expect((after.similarCases?.cases || []).map((c: any) => c.caseId)).not.toContain(resolvedId);
+
+		const listed = await (await callWorker(env, '/api/cases', {}, TEST_ADMIN)).json() as any;
+		expect(listed.cases.map((c: any) => c.caseId)).toContain(resolvedId);
+
+		expect((await callWorker(env, `/api/cases/${resolvedId}`, { method: 'DELETE' }, TEST_ADMIN)).status).toBe(200);
+		expect((await callWorker(env, `/api/cases/${resolvedId}`, {}, TEST_ADMIN)).status).toBe(404);
+	});
+
+	it('does not suggest a session its own earlier case', async () => {
+		const sessionId = await createSession();
+		await resolveSession(sessionId);
+		await callWorker(env, `/api/session/${sessionId}/reset`, { method: 'POST', body: '{}' });
+
+		const data = await (await postChat(env, { sessionId, userMessage: SYMPTOM })).json() as any;
+		expect((data.similarCases?.cases || []).map((c: any) => c.caseId)).not.toContain(sessionId);
+
+		await callWorker(env, `/api/cases/${sessionId}`, { method: 'DELETE' }, TEST_ADMIN);
+	});
+
+	it('returns 400 for invalid edits and 404 for unknown cases', async () => {
+		expect((await callWorker(env, '/api/cases/no-such-case', { method: 'PATCH', body: '{"verified": "yes"}' }, TEST_ADMIN)).status).toBe(400);
+		expect((await callWorker(env, '/api/cases/no-such-case', { method: 'PATCH', body: '{"verified": true}' }, TEST_ADMIN)).status).toBe(404);
+		expect((await callWorker(env, '/api/cases/no-such-case', { method: 'DELETE' }, TEST_ADMIN)).status).toBe(404);
+	});
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ConversationSummary, buildContextMessages, planContext } from '../src/context';
+import { ChatMessage } from '../src/types';
+import { callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+function message(role: 'user' | 'assistant', words: number, label: string): ChatMessage {
+	return { role, content: `${label} ${'word '.repeat(words)}`.trim(), timestamp: 0 };
+}
+
+describe('planContext', () => {
+	const history = [message('user', 40, 'u1'), message('assistant', 40, 'a1'), message('user', 40, 'u2'), message('assistant', 40, 'a2')];
+
+	it('sends everything while the history fits the budget', () => {
+		expect(planContext(history, null, 1000)).toEqual({ recent: history, overflow: [] });
+	});
+
+	it('keeps the newest messages within half the budget and overflows the rest', () => {
+		// Each message is about 50 tokens
+		const { recent, overflow } = planContext(history, null, 120);
+		expect(recent.map(m => m.content.split(' ')[0])).toEqual(['u2', 'a2']);
+		expect(overflow.map(m => m.content.split(' ')[0])).toEqual(['u1', 'a1']);
+	});
+
+	it('skips messages the summary already covers', () => {
+		const summary: ConversationSummary = { text: 'Earlier', messageCount: 2, updatedAt: 0 };
+		expect(planContext(history, summary, 120)).toEqual({ recent: history.slice(2), overflow: [] });
+	});
+
+	it('counts the summary from the start of the conversation when given only its tail', () => {
+		const summary: ConversationSummary = { text: 'Earlier', messageCount: 3, updatedAt: 0 };
+		expect(planContext(history.slice(2), summary, 1000, 2)).toEqual({ recent: history.slice(3), overflow: [] });
+	});
+
+	it('always keeps the last two messages verbatim', () => {
+		const { recent } = planContext(history, null, 10);
+		expect(recent).toEqual(history.slice(2));
+	});
+});
+
+describe('buildContextMessages', () => {
+	it('adds the summary to the system prompt', () => {
+		const summary: ConversationSummary = { text: 'The robot is a TurtleBot 4.', messageCount: 6, updatedAt: 0 };
+		const messages = buildContextMessages('Stage prompt', summary, [message('assistant', 1, 'a3')], 'latest');
+		expect(messages[0].content).toBe('Stage prompt\n\nSummary of the earlier conversation (those messages are no longer shown):\nThe robot is a TurtleBot 4.');
+		expect(messages.slice(1)).toEqual([{ role: 'assistant', content: 'a3 word' }, { role: 'user', content: 'latest' }]);
+	});
+});
+
+describe('rolling summary in /api/chat', () => {
+	it('folds early messages into a stored summary once the history outgrows the budget', async () => {
+		// About 60 tokens per reply, so the third turn goes over the budget
+		const reply = `Noted. ${'Tell me more about it. '.repeat(10)}`.trim();
+		const ai = createStubAi({ chat: reply });
+		const workerEnv = { ...envWithAi(ai), CONTEXT_TOKEN_BUDGET: '120' };
+		const sessionId = await createSession();
+
+		await postChat(workerEnv, { sessionId, userMessage: 'It is a TurtleBot 4 with a Create 3 base' });
+		await postChat(workerEnv, { sessionId, userMessage: 'It drifts left when driving straight' });
+		expect(ai.calls.some(c => String(c.options.messages[0].content).startsWith('You condense'))).toBe(false);
+
+		await postChat(workerEnv, { sessionId, userMessage: 'Only on carpet' });
+
+		const condense = ai.calls.find(c => String(c.options.messages[0].content).startsWith('You condense'))!;
+		expect(condense.options.messages[1].content).toContain('TurtleBot 4');
+
+		const state = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(state.messageCount).toBe(6);
+		// The stub answers the summary call with its chat reply
+		expect(state.summary).toMatchObject({ text: reply, messageCount: 2 });
+
+		// The last chat call saw the summary instead of the oldest messages
+		const lastChat = ai.calls.filter(c => String(c.options.messages[0].content).startsWith('You are a robotics troubleshooting expert')).pop()!;
+		expect(lastChat.options.messages[0].content).toContain('Summary of the earlier conversation');
+		expect(lastChat.options.messages.slice(1).map((m: any) => m.content)).not.toContain('It is a TurtleBot 4 with a Create 3 base');
+
+		// The next turn only loads what the summary doesn't cover, and extends it from there
+		await postChat(workerEnv, { sessionId, userMessage: 'It started after a firmware update' });
+		const extended = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(extended.summary.messageCount).toBe(4);
+		const nextChat = ai.calls.filter(c => String(c.options.messages[0].content).startsWith('You are a robotics troubleshooting expert')).pop()!;
+		expect(nextChat.options.messages.slice(1).map((m: any) => m.content)).not.toContain('It drifts left when driving straight');
+	});
+});
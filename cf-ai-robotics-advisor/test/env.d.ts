@@ -1,3 +1,8 @@
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends Env {
+		/** Test-only token secret (see vitest.config.mts) */
+		AUTH_SECRET: string;
+		/** Local analytics database (see vitest.config.mts) */
+		ANALYTICS_DB: D1Database;
+	}
 }
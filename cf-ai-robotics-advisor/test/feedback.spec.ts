@@ -0,0 +1,130 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { FeedbackEntry, renderFeedbackCsv, summarizeFeedback, validateFeedback } from '../src/feedback';
+import { TEST_ADMIN, callWorker, createSession, createStubAi, envWithAi, newUser, postChat } from './helpers';
+
+function entry(fields: Partial<FeedbackEntry>): FeedbackEntry {
+	return {
+		sessionId: 's1',
+		messageId: 2,
+		userId: 'user_a',
+		stage: 'diagnostic',
+		promptVersion: 'diagnostic@1',
+		rating: null,
+		comment: null,
+		solved: null,
+		updatedAt: Date.UTC(2026, 2, 10),
+		...fields,
+	};
+}
+
+function putFeedback(sessionId: string, messageId: number, body: unknown, user?: any) {
+	return callWorker(env, `/api/session/${sessionId}/messages/${messageId}/feedback`, { method: 'PUT', body: JSON.stringify(body) }, user);
+}
+
+describe('validateFeedback', () => {
+	it('accepts ratings, comments and solved answers, and null to clear them', () => {
+		expect(validateFeedback({ rating: 'down', comment: '  Wrong motor  ' })).toEqual({ edit: { rating: 'down', comment: 'Wrong motor' }, errors: [] });
+		expect(validateFeedback({ rating: null, comment: ' ', solved: true })).toEqual({ edit: { rating: null, comment: null, solved: true }, errors: [] });
+	});
+
+	it('rejects anything else', () => {
+		expect(validateFeedback({ rating: 'meh', solved: 'yes' }).errors).toEqual([
+			'rating must be one of: up, down, or null',
+			'solved must be a boolean or null',
+		]);
+		expect(validateFeedback({}).errors).toEqual(['Send at least one of: rating, comment, solved']);
+		expect(validateFeedback({ comment: 'x'.repeat(2001) }).errors).toEqual(['comment must be at most 2000 characters']);
+	});
+});
+
+describe('summarizeFeedback', () => {
+	it('compares prompt versions by approval and solve rate', () => {
+		const stats = summarizeFeedback([
+			entry({ rating: 'up' }),
+			entry({ rating: 'down', comment: 'Asked twice' }),
+			entry({ promptVersion: 'solution@1', stage: 'solution', rating: 'up', solved: true }),
+			entry({ promptVersion: 'solution@1', stage: 'solution', solved: false }),
+			entry({ promptVersion: 'solution@1', stage: 'solution', solved: true }),
+		]);
+		expect(stats).toEqual([
+			{ promptVersion: 'diagnostic@1', replies: 2, up: 1, down: 1, approval: 0.5, solved: 0, unsolved: 0, solveRate: null, comments: 1 },
+			{ promptVersion: 'solution@1', replies: 3, up: 1, down: 0, approval: 1, solved: 2, unsolved: 1, solveRate: 0.667, comments: 0 },
+		]);
+	});
+});
+
+describe('renderFeedbackCsv', () => {
+	it('quotes comments and writes ISO timestamps', () => {
+		const csv = renderFeedbackCsv([entry({ rating: 'down', comment: 'Said "PID", meant servo, sorry' })]);
+		expect(csv).toBe(
+			'sessionId,messageId,userId,stage,promptVersion,rating,solved,comment,updatedAt\r\n' +
+			's1,2,user_a,diagnostic,diagnostic@1,down,,"Said ""PID"", meant servo, sorry",2026-03-10T00:00:00.000Z\r\n'
+		);
+	});
+});
+
+describe('PUT /api/session/:id/messages/:messageId/feedback', () => {
+	it('stores feedback with the reply and merges later updates', async () => {
+		const workerEnv = envWithAi(createStubAi({ chat: 'Which motor driver do you use?' }));
+		const sessionId = await createSession();
+		const reply = await (await postChat(workerEnv, { sessionId, userMessage: 'My rover veers left' })).json() as any;
+		expect(reply.messageId).toEqual(expect.any(Number));
+
+		const first = await putFeedback(sessionId, reply.messageId, { rating: 'down', comment: 'It already said the driver' });
+		expect(first.status).toBe(200);
+		expect(await first.json()).toMatchObject({ sessionId, messageId: reply.messageId, feedback: { rating: 'down', comment: 'It already said the driver', solved: null } });
+
+		await putFeedback(sessionId, reply.messageId, { rating: 'up' });
+
+		const history = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(history.history[1]).toMatchObject({
+			id: reply.messageId,
+			promptVersion: 'diagnostic@1',
+			feedback: { rating: 'up', comment: 'It already said the driver', solved: null },
+		});
+		expect(history.history[0].feedback).toBeUndefined();
+	});
+
+	it('only rates the owner’s assistant replies', async () => {
+		const workerEnv = envWithAi(createStubAi());
+		const sessionId = await createSession();
+		const reply = await (await postChat(workerEnv, { sessionId, userMessage: 'My arm jitters', stream: true })).text();
+		const done = JSON.parse(reply.split('\n\n').find(event => event.startsWith('event: done'))!.split('data: ')[1]);
+
+		expect((await putFeedback(sessionId, done.messageId - 1, { rating: 'up' })).status).toBe(404);
+		expect((await putFeedback(sessionId, done.messageId, { rating: 'great' })).status).toBe(400);
+		expect((await putFeedback(sessionId, done.messageId, { rating: 'up' }, newUser())).status).toBe(403);
+		expect((await putFeedback(sessionId, done.messageId, { solved: false })).status).toBe(200);
+	});
+});
+
+describe('GET /api/admin/feedback', () => {
+	it('exports feedback with prompt versions as JSON or CSV', async () => {
+		const workerEnv = envWithAi(createStubAi());
+		const sessionId = await createSession();
+		const reply = await (await postChat(workerEnv, { sessionId, userMessage: 'My gripper slips' })).json() as any;
+		await putFeedback(sessionId, reply.messageId, { rating: 'down', comment: 'Ignored the gripper model' });
+
+		const exported = await (await callWorker(env, '/api/admin/feedback?days=1', {}, TEST_ADMIN)).json() as any;
+		expect(exported.feedback).toContainEqual(expect.objectContaining({
+			sessionId,
+			messageId: reply.messageId,
+			stage: 'initial',
+			promptVersion: 'initial@1',
+			rating: 'down',
+			comment: 'Ignored the gripper model',
+		}));
+		expect(exported.byPromptVersion.find((s: any) => s.promptVersion === 'initial@1').down).toBeGreaterThanOrEqual(1);
+
+		const csv = await callWorker(env, '/api/admin/feedback?format=csv', {}, TEST_ADMIN);
+		expect(csv.headers.get('Content-Type')).toContain('text/csv');
+		expect(await csv.text()).toContain(`${sessionId},${reply.messageId},`);
+	});
+
+	it('is admin-only and validates the query', async () => {
+		expect((await callWorker(env, '/api/admin/feedback')).status).toBe(403);
+		expect((await callWorker(env, '/api/admin/feedback?format=xml', {}, TEST_ADMIN)).status).toBe(400);
+		expect((await callWorker(env, '/api/admin/feedback?days=-1', {}, TEST_ADMIN)).status).toBe(400);
+	});
+});
@@ -0,0 +1,262 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { signShareToken, signToken, verifyShareToken, verifyToken } from '../src/auth';
+import { buildContextMessages } from '../src/context';
+import { MAX_SHARE_TTL_HOURS, validateExpertMessage, validateHandoffRequest } from '../src/handoff';
+import { TEST_ADMIN, TEST_USER, TestUser, bearer, callWorker, createSession, createStubAi, envWithAi, newUser, postChat } from './helpers';
+
+const EXPERT: TestUser = { userId: 'test-expert', role: 'expert' };
+
+/** Escalates a session and returns the share token from its link */
+async function escalate(sessionId: string, body: Record<string, unknown> = {}): Promise<{ token: string; data: any }> {
+	const response = await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'POST', body: JSON.stringify(body) });
+	expect(response.status).toBe(201);
+	const data = await response.json() as any;
+	return { token: data.shareUrl.split('/share/')[1], data };
+}
+
+function postExpert(sessionId: string, message: unknown, user: TestUser = EXPERT): Promise<Response> {
+	return callWorker(env, `/api/session/${sessionId}/expert`, { method: 'POST', body: JSON.stringify({ message }) }, user);
+}
+
+describe('validateHandoffRequest', () => {
+	it('takes defaults for an empty body and checks the fields it is given', () => {
+		expect(validateHandoffRequest(null)).toEqual({ request: { reason: null, ttlHours: 72 }, errors: [] });
+		expect(validateHandoffRequest({ reason: ' Motor smells burnt ', expiresInHours: 2 }).request).toEqual({ reason: 'Motor smells burnt', ttlHours: 2 });
+		expect(validateHandoffRequest({ reason: 3, expiresInHours: MAX_SHARE_TTL_HOURS + 1 }).errors).toEqual([
+			'reason must be a string',
+			`expiresInHours must be greater than 0 and at most ${MAX_SHARE_TTL_HOURS}`,
+		]);
+		expect(validateHandoffRequest([]).errors).toEqual(['Expected a JSON object']);
+	});
+});
+
+describe('validateExpertMessage', () => {
+	it('trims the message and rejects empty ones', () => {
+		expect(validateExpertMessage({ message: ' Check the encoder cable ' })).toEqual({ content: 'Check the encoder cable', error: null });
+		expect(validateExpertMessage({ message: '  ' }).error).toBe('message must be a non-empty string');
+		expect(validateExpertMessage(null).error).toBe('message must be a non-empty string');
+	});
+});
+
+describe('share tokens', () => {
+	it('name a session and are not session tokens', async () => {
+		const token = await signShareToken('secret', 'session-1', 'handoff-1', 60);
+		expect(await verifyShareToken('secret', token)).toEqual({ sessionId: 'session-1', handoffId: 'handoff-1', expiresAt: expect.any(Number) });
+		expect(await verifyShareToken('other-secret', token)).toBeNull();
+		expect(await verifyShareToken('secret', await signShareToken('secret', 'session-1', 'handoff-1', -1))).toBeNull();
+
+		expect(await verifyToken('secret', token)).toBeNull();
+		expect(await verifyShareToken('secret', await signToken('secret', 'alice', 'user', 60))).toBeNull();
+	});
+});
+
+describe('buildContextMessages', () => {
+	it("passes an expert's messages as labelled user messages", () => {
+		const messages = buildContextMessages('System', null, [
+			{ role: 'user', content: 'It still veers left', timestamp: 1 },
+			{ role: 'expert', content: 'Swap the left and right encoders', timestamp: 2, author: 'test-expert' },
+		], 'Done, it tracks straight now');
+
+		expect(messages[2]).toEqual({ role: 'user', content: '[Human expert] Swap the left and right encoders' });
+	});
+});
+
+describe('/api/session/:id/handoff', () => {
+	it('issues an expiring read-only link to the transcript and case summary', async () => {
+		const sessionId = await createSession();
+		await postChat(env, { sessionId, userMessage: 'My rover veers left' });
+		const { token, data } = await escalate(sessionId, { reason: 'Encoders look fine', expiresInHours: 1 });
+
+		expect(data.handoff).toMatchObject({ status: 'waiting', reason: 'Encoders look fine', requestedBy: TEST_USER.userId, expertId: null });
+		expect(data.shareUrl).toBe(`http://example.com/share/${token}`);
+		expect(data.expiresAt).toBeGreaterThan(Date.now() + 59 * 60 * 1000);
+
+		// The link needs no credentials, and shows no feedback
+		const history = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		await callWorker(env, `/api/session/${sessionId}/messages/${history.history[1].id}/feedback`, { method: 'PUT', body: JSON.stringify({ rating: 'down' }) });
+		const shared = await (await callWorker(env, `/api/share/${token}`, {}, null)).json() as any;
+		expect(shared).toMatchObject({ sessionId, stage: 'diagnostic', handoff: { status: 'waiting' }, caseSummary: expect.any(String) });
+		expect(shared.history.map((m: any) => m.role)).toEqual(['user', 'assistant']);
+		expect(shared.history[1].feedback).toBeUndefined();
+
+		const page = await callWorker(env, `/share/${token}`, {}, null);
+		expect(await page.text()).toContain('Shared diagnosis');
+	});
+
+	it('only lets the owner escalate, and rejects bad links', async () => {
+		const sessionId = await createSession();
+		expect((await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'POST' }, newUser())).status).toBe(403);
+		expect((await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'POST', body: JSON.stringify({ expiresInHours: 0 }) })).status).toBe(400);
+
+		const expired = await signShareToken(env.AUTH_SECRET, sessionId, 'handoff-1', -1);
+		expect((await callWorker(env, `/api/share/${expired}`, {}, null)).status).toBe(404);
+		expect((await callWorker(env, '/api/share/forged.token', {}, null)).status).toBe(404);
+
+		// A session token doesn't open the share view
+		const sessionToken = (await bearer(TEST_USER)).slice('Bearer '.length);
+		expect((await callWorker(env, `/api/share/${sessionToken}`, {}, null)).status).toBe(404);
+
+		// Deleting the session kills its links
+		const { token } = await escalate(sessionId);
+		await callWorker(env, `/api/session/${sessionId}`, { method: 'DELETE' });
+		expect((await callWorker(env, `/api/share/${token}`, {}, null)).status).toBe(404);
+	});
+
+	it('revokes the links of a handoff when it ends', async () => {
+		const sessionId = await createSession();
+		const { token } = await escalate(sessionId);
+		const { token: second } = await escalate(sessionId);
+		expect((await callWorker(env, `/api/share/${second}`, {}, null)).status).toBe(200);
+
+		await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' });
+		for (const link of [token, second]) {
+			const response = await callWorker(env, `/api/share/${link}`, {}, null);
+			expect(response.status).toBe(404);
+			expect(await response.json()).toEqual({ error: 'Share link is no longer valid; the handoff has ended' });
+		}
+
+		// Escalating again needs a new link
+		const { token: renewed } = await escalate(sessionId);
+		expect((await callWorker(env, `/api/share/${renewed}`, {}, null)).status).toBe(200);
+		expect((await callWorker(env, `/api/share/${token}`, {}, null)).status).toBe(404);
+
+		// Starting over ends it too
+		await callWorker(env, `/api/session/${sessionId}/reset`, { method: 'POST' });
+		expect((await callWorker(env, `/api/share/${renewed}`, {}, null)).status).toBe(404);
+	});
+});
+
+describe('/api/session/:id/expert', () => {
+	it('needs the expert role and a handed-off session', async () => {
+		const sessionId = await createSession();
+		expect((await postExpert(sessionId, 'Try this', TEST_USER)).status).toBe(403);
+		expect((await postExpert('session_missing', 'Try this')).status).toBe(404);
+		expect(await (await postExpert(sessionId, 'Try this')).json()).toEqual({ error: 'Session is not handed off to an expert' });
+
+		await escalate(sessionId);
+		expect((await postExpert(sessionId, '')).status).toBe(400);
+		expect((await postExpert(sessionId, 'Admins can help too', TEST_ADMIN)).status).toBe(201);
+	});
+
+	it('pauses the advisor until the handoff ends', async () => {
+		const ai = createStubAi();
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+		await postChat(workerEnv, { sessionId, userMessage: 'My rover veers left' });
+		await escalate(sessionId);
+
+		// Waiting for an expert: the advisor still answers
+		expect((await postChat(workerEnv, { sessionId, userMessage: 'Still veering' })).status).toBe(200);
+
+		const posted = await postExpert(sessionId, 'Swap the left and right encoder cables');
+		expect(posted.status).toBe(201);
+		const { handoff } = await posted.json() as any;
+		expect(handoff).toMatchObject({ status: 'active', expertId: EXPERT.userId, joinedAt: expect.any(Number) });
+
+		const calls = ai.calls.length;
+		const held = await postChat(workerEnv, { sessionId, userMessage: 'Swapped them, now it veers right' });
+		expect(held.status).toBe(202);
+		expect(await held.json()).toMatchObject({ sessionId, message: null, paused: true, messageId: expect.any(Number), handoff: { status: 'active' } });
+		expect(ai.calls.length).toBe(calls);
+
+		const state = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(state.history.slice(-2)).toMatchObject([
+			{ role: 'expert', content: 'Swap the left and right encoder cables', author: EXPERT.userId },
+			{ role: 'user', content: 'Swapped them, now it veers right' },
+		]);
+
+		// Only the owner or an expert may end it
+		expect((await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' }, newUser())).status).toBe(403);
+		const ended = await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' });
+		expect(await ended.json()).toMatchObject({ handoff: { status: 'ended', endedBy: TEST_USER.userId } });
+		expect((await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' }, EXPERT)).status).toBe(409);
+
+		// The advisor picks up with the expert's advice in its context
+		expect((await postChat(workerEnv, { sessionId, userMessage: 'What now?' })).status).toBe(200);
+		const chat = ai.calls.filter(c => c.options.messages.at(-1).content === 'What now?').at(-1)!;
+		expect(chat.options.messages.map((m: any) => m.content)).toContain('[Human expert] Swap the left and right encoder cables');
+	});
+
+	it('can only be ended by an expert who has joined it', async () => {
+		const sessionId = await createSession();
+		const { token } = await escalate(sessionId);
+
+		const early = await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' }, EXPERT);
+		expect(early.status).toBe(403);
+		expect(await early.json()).toEqual({ error: 'Only an expert who has joined the handoff can end it' });
+		expect((await callWorker(env, `/api/share/${token}`, {}, null)).status).toBe(200);
+
+		await postExpert(sessionId, 'Check the encoder cable');
+		expect((await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' }, EXPERT)).status).toBe(200);
+	});
+
+	it('belongs to the first expert who replies', async () => {
+		const sessionId = await createSession();
+		await escalate(sessionId);
+		expect((await postExpert(sessionId, 'Check the encoder cable')).status).toBe(201);
+
+		const other: TestUser = { userId: 'other-expert', role: 'expert' };
+		const rejected = await postExpert(sessionId, 'Replace the motor', other);
+		expect(rejected.status).toBe(403);
+		expect(await rejected.json()).toEqual({ error: 'Another expert is handling this session' });
+		expect((await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' }, other)).status).toBe(403);
+
+		const state = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(state.handoff.expertId).toBe(EXPERT.userId);
+		expect(state.history.filter((m: any) => m.role === 'expert')).toHaveLength(1);
+
+		expect((await postExpert(sessionId, 'Then re-seat it')).status).toBe(201);
+		expect((await callWorker(env, `/api/session/${sessionId}/handoff`, { method: 'DELETE' }, EXPERT)).status).toBe(200);
+	});
+
+	it('is cleared by starting over', async () => {
+		const sessionId = await createSession();
+		await escalate(sessionId);
+		await postExpert(sessionId, 'Check the battery first');
+		await callWorker(env, `/api/session/${sessionId}/reset`, { method: 'POST' });
+
+		const state = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(state.handoff).toBeNull();
+		expect((await postChat(env, { sessionId, userMessage: 'My rover veers left' })).status).toBe(200);
+	});
+});
+
+describe('handoff over the session socket', () => {
+	it("sends the handoff, the expert's replies and held messages to every device", async () => {
+		const sessionId = await createSession();
+		const token = (await bearer(TEST_USER)).slice('Bearer '.length);
+		const response = await worker.fetch(
+			new Request(`http://example.com/api/session/${sessionId}/socket?token=${token}`, { headers: { Upgrade: 'websocket' } }),
+			env,
+			createExecutionContext(),
+		);
+		const ws = response.webSocket!;
+		const frames: any[] = [];
+		ws.accept();
+		ws.addEventListener('message', event => {
+			frames.push(JSON.parse(event.data as string));
+		});
+		const next = async (predicate: (frame: any) => boolean) => {
+			for (let i = 0; i < 200; i++) {
+				const frame = frames.find(predicate);
+				if (frame) return frame;
+				await new Promise(resolve => setTimeout(resolve, 10));
+			}
+			throw new Error('Timed out waiting for a frame');
+		};
+
+		await escalate(sessionId);
+		expect(await next(frame => frame.type === 'handoff')).toMatchObject({ handoff: { status: 'waiting' } });
+
+		await postExpert(sessionId, 'Check the encoder cable');
+		expect(await next(frame => frame.type === 'message')).toMatchObject({ message: { role: 'expert', content: 'Check the encoder cable', author: EXPERT.userId } });
+		await next(frame => frame.type === 'handoff' && frame.handoff.status === 'active');
+
+		ws.send(JSON.stringify({ type: 'chat', turnId: 'held-1', userMessage: 'It was loose' }));
+		expect(await next(frame => frame.type === 'message' && frame.turnId === 'held-1')).toMatchObject({ message: { role: 'user', content: 'It was loose' } });
+		expect(frames.some(frame => frame.type === 'error' || frame.type === 'token')).toBe(false);
+		ws.close(1000, 'bye');
+	});
+});
@@ -0,0 +1,156 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import worker from '../src/index';
+import { Role, signToken } from '../src/auth';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+/**
+ * A recorded call to the stubbed `AI` binding
+ */
+export interface StubAiCall {
+	model: string;
+	options: any;
+}
+
+/**
+ * Replies for each kind of model call the Worker makes
+ */
+export interface StubAiReplies {
+	/** Reply to the stage classifier (defaults to unparseable, forcing the keyword fallback) */
+	classifier?: string;
+	/** Reply to the case file extraction */
+	extraction?: string;
+	/** Reply to the photo description call */
+	vision?: string;
+	/** Reply to the log summary call */
+	summary?: string;
+	/** Reply to the chat call itself */
+	chat?: string;
+	/** Calculator calls the chat model makes when offered tools, before its reply */
+	toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+/**
+ * Creates a stand-in for the Workers AI binding that answers by call type
+ * and records every call for inspection
+ */
+export function createStubAi(replies: StubAiReplies = {}) {
+	const calls: StubAiCall[] = [];
+	const encoder = new TextEncoder();
+
+	return {
+		calls,
+		async run(model: string, options: any) {
+			calls.push({ model, options });
+
+			const system = String(options.messages?.[0]?.content || '');
+			let reply = replies.chat ?? 'Stub advisor reply.';
+			if (system.startsWith('You evaluate a robotics troubleshooting conversation')) {
+				reply = replies.classifier ?? 'not json';
+			} else if (system.startsWith('You maintain a structured case file')) {
+				reply = replies.extraction ?? '{}';
+			} else if (system.startsWith('You describe photos')) {
+				reply = replies.vision ?? 'Stub photo description.';
+			} else if (system.startsWith('You summarize robot logs')) {
+				reply = replies.summary ?? 'Stub log summary.';
+			}
+
+			const answered = options.messages?.[options.messages.length - 1]?.role === 'tool';
+			if (options.tools && replies.toolCalls?.length && !answered) {
+				return { response: null, tool_calls: replies.toolCalls };
+			}
+
+			if (!options.stream) {
+				return { response: reply };
+			}
+
+			const words = reply.match(/\S+\s*/g) || [];
+			return new ReadableStream<Uint8Array>({
+				start(controller) {
+					for (const word of words) {
+						controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: word })}\n\n`));
+					}
+					controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+					controller.close();
+				},
+			});
+		},
+	};
+}
+
+/**
+ * Builds a Worker env that routes model calls to the given stub
+ */
+export function envWithAi(ai: ReturnType<typeof createStubAi>) {
+	return { ...env, LLM_PROVIDER: 'workers-ai', AI: ai } as any;
+}
+
+/**
+ * Caller a test request is signed as
+ */
+export interface TestUser {
+	userId: string;
+	role: Role;
+}
+
+/**
+ * Returns a user no other test uses
+ */
+export function newUser(): TestUser {
+	return { userId: `user_${crypto.randomUUID()}`, role: 'user' };
+}
+
+/**
+ * Default caller of `callWorker`; fresh per test file so each file gets its own
+ * session registry instead of one left over from the previous file
+ */
+export const TEST_USER: TestUser = newUser();
+
+/** Caller for admin-only routes */
+export const TEST_ADMIN: TestUser = { userId: 'test-admin', role: 'admin' };
+
+/**
+ * Returns a bearer header value for a user, signed with the test secret
+ */
+export async function bearer(user: TestUser): Promise<string> {
+	return `Bearer ${await signToken(env.AUTH_SECRET, user.userId, user.role, 3600)}`;
+}
+
+/**
+ * Calls the Worker directly and waits for background work (case file updates) to finish
+ *
+ * Requests are signed as `user` unless they carry their own credentials; pass null
+ * to send none.
+ */
+export async function callWorker(
+	workerEnv: any,
+	path: string,
+	init: RequestInit<IncomingRequestCfProperties> = {},
+	user: TestUser | null = TEST_USER,
+): Promise<Response> {
+	const headers = new Headers(init.headers);
+	if (user && !headers.has('Authorization') && !headers.has('X-API-Key')) {
+		headers.set('Authorization', await bearer(user));
+	}
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { ...init, headers }), workerEnv, ctx);
+	// Read the body first so streamed turns complete before waiting on the context
+	const body = await response.arrayBuffer();
+	await waitOnExecutionContext(ctx);
+	return new Response(body, { status: response.status, headers: response.headers });
+}
+
+/**
+ * Posts a chat message for a session
+ */
+export function postChat(workerEnv: any, body: Record<string, unknown>, user: TestUser = TEST_USER): Promise<Response> {
+	return callWorker(workerEnv, '/api/chat', { method: 'POST', body: JSON.stringify(body) }, user);
+}
+
+/**
+ * Creates a session owned by `user` (storage is shared across tests, so each test makes its own)
+ */
+export async function createSession(user: TestUser = TEST_USER): Promise<string> {
+	const response = await callWorker(env, '/api/sessions', { method: 'POST' }, user);
+	return (await response.json() as any).sessionId;
+}
@@ -1,24 +1,188 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
+import { env, SELF } from 'cloudflare:test';
 import { describe, it, expect } from 'vitest';
-import worker from '../src/index';
-
-// For now, you'll need to do something like this to get a correctly-typed
-// `Request` to pass to `worker.fetch()`.
-const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
-
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
-	});
-
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+import { callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+describe('routing', () => {
+	it('serves the chat UI at GET /', async () => {
+		const response = await SELF.fetch('https://example.com/');
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toContain('text/html');
+		expect(await response.text()).toContain('Robotics Troubleshooting Advisor');
+	});
+
+	it('returns a JSON 404 for unknown paths', async () => {
+		const response = await callWorker(env, '/nope');
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({ error: 'Not found' });
+	});
+
+	it('returns 404 for the wrong method on a known path', async () => {
+		const response = await callWorker(env, '/api/chat');
+		expect(response.status).toBe(404);
+	});
+
+	it('returns 400 for ids that are not valid percent-encoding', async () => {
+		const share = await callWorker(env, '/api/share/%E0%A4%A', {}, null);
+		expect(share.status).toBe(400);
+		expect(await share.json()).toEqual({ error: 'Malformed percent-encoding in the path' });
+		expect((await callWorker(env, '/api/history/%E0%A4%A')).status).toBe(400);
+		expect((await callWorker(env, '/api/session/%ZZ/case')).status).toBe(400);
+	});
+});
+
+describe('POST /api/chat input validation', () => {
+	it.each([
+		['missing sessionId', { userMessage: 'hi' }],
+		['missing userMessage', { sessionId: 'abc' }],
+		['blank userMessage', { sessionId: 'abc', userMessage: '   ' }],
+		['non-string userMessage', { sessionId: 'abc', userMessage: 42 }],
+	])('rejects %s with 400', async (_label, body) => {
+		const response = await postChat(env, body);
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ error: 'sessionId and userMessage required' });
+	});
+
+	it('rejects a malformed JSON body with 400', async () => {
+		const response = await callWorker(env, '/api/chat', { method: 'POST', body: '{not json' });
+		expect(response.status).toBe(400);
+	});
+});
+
+/**
+ * Routes saving a finished turn to `save`; every other request reaches the session as usual
+ */
+function failSaves(workerEnv: any, save: () => Promise<Response>) {
+	workerEnv.ADVISOR_STATE = {
+		idFromName: (name: string) => env.ADVISOR_STATE.idFromName(name),
+		get: (id: DurableObjectId) => {
+			const stub = env.ADVISOR_STATE.get(id);
+			return {
+				fetch: (input: Request | string, init?: RequestInit) => String(typeof input === 'string' ? input : input.url).endsWith('/message')
+					? save()
+					: stub.fetch(input, init),
+			};
+		},
+	};
+}
+
+describe('handleChat', () => {
+	it('replies with the model output, stage and transition', async () => {
+		const ai = createStubAi({ chat: 'What robot is it?' });
+		const response = await postChat(envWithAi(ai), { sessionId: await createSession(), userMessage: 'hello' });
+		const data = await response.json() as any;
+
+		expect(response.status).toBe(200);
+		expect(data.message).toBe('What robot is it?');
+		expect(data.stage).toBe('initial');
+		expect(data.transition).toMatchObject({ from: 'initial', to: 'initial', method: 'heuristic' });
+	});
+
+	it('advances to diagnostic once robot and symptom are known', async () => {
+		const ai = createStubAi();
+		const response = await postChat(envWithAi(ai), { sessionId: await createSession(), userMessage: 'My line follower oscillates' });
+		const data = await response.json() as any;
+
+		expect(data.stage).toBe('diagnostic');
+		expect(data.transition.checklist).toMatchObject({ robotType: true, symptom: true });
+	});
+
+	it('uses the model classifier when it returns valid JSON', async () => {
+		const ai = createStubAi({
+			classifier: '{"checklist": {"robotType": true, "symptom": true}, "fixFailed": false, "reasons": ["robot and symptom given"]}',
+		});
+		const response = await postChat(envWithAi(ai), { sessionId: await createSession(), userMessage: 'it is broken' });
+		const data = await response.json() as any;
+
+		expect(data.transition.method).toBe('model');
+		expect(data.transition.reasons).toContain('robot and symptom given');
+		expect(data.stage).toBe('diagnostic');
+	});
+
+	it('persists history and stage across requests', async () => {
+		const ai = createStubAi({ chat: 'Noted.' });
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+
+		await postChat(workerEnv, { sessionId, userMessage: 'My robot arm jitters' });
+		await postChat(workerEnv, { sessionId, userMessage: 'It happens under load' });
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(history.stage).toBe('diagnostic');
+		expect(history.messageCount).toBe(4);
+		expect(history.history.map((m: any) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+		expect(history.history[2].content).toBe('It happens under load');
+
+		// The second turn's chat call carries the first exchange as context
+		const chatCalls = ai.calls.filter(c => String(c.options.messages[0].content).startsWith('You are a robotics troubleshooting expert'));
+		const lastCall = chatCalls[chatCalls.length - 1];
+		expect(lastCall.options.messages.map((m: any) => m.content)).toContain('My robot arm jitters');
+	});
+
+	it('keeps sessions isolated from each other', async () => {
+		const workerEnv = envWithAi(createStubAi());
+		const first = await createSession();
+		const second = await createSession();
+
+		await postChat(workerEnv, { sessionId: first, userMessage: 'My drone drifts' });
+
+		const history = await (await callWorker(workerEnv, `/api/history/${second}`)).json() as any;
+		expect(history).toMatchObject({ stage: 'initial', messageCount: 0, history: [] });
+	});
+
+	it('stores the extracted case file and serves it from /api/session/:id/case', async () => {
+		const ai = createStubAi({ extraction: '{"robotType": "line follower", "symptoms": ["oscillates"], "suspectedSubsystems": ["control"]}' });
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+
+		await postChat(workerEnv, { sessionId, userMessage: 'My line follower oscillates' });
+
+		const caseFile = await (await callWorker(workerEnv, `/api/session/${sessionId}/case`)).json() as any;
+		expect(caseFile).toMatchObject({ robotType: 'line follower', symptoms: ['oscillates'], suspectedSubsystems: ['control'] });
+	});
+
+	it('streams tokens over SSE and persists the full message afterwards', async () => {
+		const ai = createStubAi({ chat: 'Check the wheel encoders.' });
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+
+		const response = await postChat(workerEnv, { sessionId, userMessage: 'hello', stream: true });
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+		const body = await response.text();
+		const tokens = [...body.matchAll(/event: token\ndata: (.*)\n/g)].map(m => JSON.parse(m[1]).token);
+		expect(tokens.join('')).toBe('Check the wheel encoders.');
+		expect(body).toContain('event: done');
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(history.history[1]).toMatchObject({ role: 'assistant', content: 'Check the wheel encoders.' });
+		expect(history.history[1].partial).toBeUndefined();
+	});
+
+	it('sends an error event and closes the stream when the turn cannot be saved', async () => {
+		const workerEnv = envWithAi(createStubAi({ chat: 'Check the wheel encoders.' }));
+		const sessionId = await createSession();
+		failSaves(workerEnv, () => Promise.reject(new Error('Storage unavailable')));
+
+		const response = await postChat(workerEnv, { sessionId, userMessage: 'hello', stream: true });
+		const body = await response.text();
+		expect(body).toContain('event: error\ndata: {"error":"Storage unavailable"}');
+		expect(body).not.toContain('event: done');
+	});
+
+	it('reports a turn the session refused to save instead of replying', async () => {
+		const workerEnv = envWithAi(createStubAi({ chat: 'Check the wheel encoders.' }));
+		const sessionId = await createSession();
+		failSaves(workerEnv, async () => Response.json({ error: 'Disk full' }, { status: 500 }));
+
+		const streamed = await (await postChat(workerEnv, { sessionId, userMessage: 'hello', stream: true })).text();
+		expect(streamed).toContain('event: error\ndata: {"error":"Disk full"}');
+		expect(streamed).not.toContain('event: done');
+
+		const response = await postChat(workerEnv, { sessionId, userMessage: 'hello' });
+		expect(response.status).toBe(500);
+		expect(await response.json()).toEqual({ error: 'Disk full' });
+
+		const { sessions } = await (await callWorker(env, '/api/sessions')).json() as any;
+		expect(sessions.map((session: any) => session.sessionId)).not.toContain(sessionId);
 	});
 });
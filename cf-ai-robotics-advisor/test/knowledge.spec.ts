@@ -0,0 +1,112 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { chunkText } from '../src/knowledge';
+import { HashingEmbedder, cosineSimilarity } from '../src/embeddings';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { TEST_ADMIN, callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+function ingest(body: Record<string, unknown>): Promise<Response> {
+	return callWorker(env, '/api/knowledge', { method: 'POST', body: JSON.stringify(body) }, TEST_ADMIN);
+}
+
+// The knowledge base is one shared instance that other test files also touch; the
+// module reloads for this file, resetting it, and only reads are retried through
+// the reset, so a read goes first
+beforeAll(async () => {
+	await callWorker(env, '/api/knowledge');
+});
+
+describe('chunkText', () => {
+	it('keeps a short document in one chunk', () => {
+		expect(chunkText('Servo jitter.\n\nCheck the ground.')).toEqual(['Servo jitter. Check the ground.']);
+	});
+
+	it('splits long documents into overlapping chunks', () => {
+		const paragraphs = Array.from({ length: 12 }, (_, i) => Array.from({ length: 20 }, (_, j) => `step${i}x${j}`).join(' ') + '.');
+		const chunks = chunkText(paragraphs.join('\n\n'));
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.every(chunk => chunk.length <= 1000)).toBe(true);
+		// Each chunk after the first starts with the end of the previous one
+		const opening = chunks[1].split(' ').slice(0, 3).join(' ');
+		expect(chunks[0]).toContain(opening);
+		expect(chunks[0]).not.toContain(chunks[1].slice(-20));
+	});
+});
+
+describe('HashingEmbedder', () => {
+	it('scores related text above unrelated text', async () => {
+		const [query, related, unrelated] = await new HashingEmbedder().embed([
+			'servo jitters when the battery is low',
+			'Servo jitter is usually caused by a sagging battery voltage',
+			'Calibrate the lidar mounting angle before mapping',
+		]);
+		expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+	});
+});
+
+describe('/api/knowledge', () => {
+	it.each([
+		['missing title', { text: 'x' }],
+		['blank text', { title: 'Doc', text: '  ' }],
+		['unknown kind', { title: 'Doc', text: 'x', kind: 'poem' }],
+		['invalid docId', { title: 'Doc', text: 'x', docId: 'a/b' }],
+	])('rejects %s with 400', async (_label, body) => {
+		expect((await ingest(body)).status).toBe(400);
+	});
+
+	it('ingests, lists and deletes a document', async () => {
+		const docId = `doc_${crypto.randomUUID()}`;
+		const stored = await (await ingest({ docId, title: 'XL-430 manual', text: 'Overload shutdown resets after power cycling.', source: 'xl430.pdf' })).json() as any;
+		expect(stored).toMatchObject({ docId, title: 'XL-430 manual', source: 'xl430.pdf', kind: 'manual', chunkCount: 1, embedder: 'hashing' });
+
+		const listed = await (await callWorker(env, '/api/knowledge')).json() as any;
+		expect(listed.documents.map((d: any) => d.docId)).toContain(docId);
+
+		expect((await callWorker(env, `/api/knowledge/${docId}`, { method: 'DELETE' }, TEST_ADMIN)).status).toBe(200);
+		expect((await callWorker(env, `/api/knowledge/${docId}`, { method: 'DELETE' }, TEST_ADMIN)).status).toBe(404);
+	});
+});
+
+describe('retrieval in chat', () => {
+	it('injects matching passages into the diagnostic prompt and returns them as citations', async () => {
+		const docId = `doc_${crypto.randomUUID()}`;
+		await ingest({
+			docId,
+			title: 'Known issue: quadrature glitches',
+			kind: 'known-issue',
+			text: 'Zorblax line followers oscillate when the quadrature encoder cable runs beside the motor leads. Reroute the cable and add a ferrite.',
+		});
+
+		const ai = createStubAi();
+		const response = await postChat(envWithAi(ai), { sessionId: await createSession(), userMessage: 'My Zorblax line follower oscillates' });
+		const data = await response.json() as any;
+
+		expect(data.stage).toBe('diagnostic');
+		expect(data.citations[0]).toMatchObject({ docId, title: 'Known issue: quadrature glitches', kind: 'known-issue' });
+
+		const chatCall = ai.calls.find(c => String(c.options.messages[0].content).startsWith('You are a robotics troubleshooting expert'))!;
+		expect(chatCall.options.messages[0].content).toContain('[1] Known issue: quadrature glitches');
+
+		await callWorker(env, `/api/knowledge/${docId}`, { method: 'DELETE' }, TEST_ADMIN);
+	});
+
+	it('skips retrieval in the initial stage', async () => {
+		const queries: string[] = [];
+		const retriever = async (query: string) => {
+			queries.push(query);
+			return [];
+		};
+		await new DiagnosisWorkflow(undefined, retriever).run({ sessionId: 'kb', userMessage: 'hello', conversationHistory: [], currentStage: 'initial' });
+		expect(queries).toEqual([]);
+	});
+
+	it('continues without references when retrieval fails', async () => {
+		const retriever = async () => {
+			throw new Error('index offline');
+		};
+		const result = await new DiagnosisWorkflow(undefined, retriever).run({ sessionId: 'kb', userMessage: 'My drone drifts', conversationHistory: [], currentStage: 'initial' });
+		expect(result.nextStage).toBe('diagnostic');
+		expect(result.references).toEqual([]);
+	});
+});
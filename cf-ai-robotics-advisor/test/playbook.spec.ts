@@ -0,0 +1,287 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { PLAYBOOKS, findPlaybook, loadPlaybooks, selectPlaybook, validatePlaybook } from '../src/playbook';
+import general from '../src/playbooks/general.json';
+import { callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+const sessionId = 'playbook-test';
+
+describe('PLAYBOOKS', () => {
+	it('puts the default first and lets domain playbooks extend it', () => {
+		expect(PLAYBOOKS.map(playbook => playbook.id)).toEqual([
+			'general',
+			'drone-flight-instability',
+			'robot-arm-joint-error',
+			'mobile-base-odometry-drift',
+			'competition-robot',
+		]);
+
+		const drone = findPlaybook('drone-flight-instability');
+		expect(drone.facts.map(fact => fact.id)).toEqual(['robotType', 'symptom', 'conditions', 'hardwareDetails', 'observations', 'propsAndFrame', 'flightLog']);
+		expect(drone.stages.initial.rule).toEqual(PLAYBOOKS[0].stages.initial.rule);
+		expect(drone.stages.solution.prompt).toContain('remove the propellers first');
+
+		// Stages a domain doesn't define are inherited as they are
+		expect(findPlaybook('robot-arm-joint-error').stages.solution).toEqual(PLAYBOOKS[0].stages.solution);
+	});
+
+	it('falls back to the default for unknown ids', () => {
+		expect(findPlaybook(null).id).toBe('general');
+		expect(findPlaybook('retired-playbook').id).toBe('general');
+	});
+});
+
+describe('validatePlaybook', () => {
+	it('reports every problem in a definition', () => {
+		const { playbook, errors } = validatePlaybook({
+			id: 'Bad Id',
+			name: '',
+			extends: 'missing',
+			match: ['(unclosed'],
+			facts: [{ id: 'wheels', description: 'Wheel size', pattern: '[' }],
+			stages: {
+				initial: { version: 0, prompt: 'Hi', rule: { required: ['wheels'], threshold: 2, advanceTo: 'verification' } },
+				diagnostic: { version: 1, prompt: 'Ask', rule: { required: [], threshold: 0.5, advanceTo: 'solution' } },
+				solution: { version: 1, prompt: 'Answer in JSON', rule: { required: ['wheels'], threshold: 1, advanceTo: 'verification' } },
+				verification: { version: 1, prompt: 'Walk through it' },
+				closing: {},
+			},
+		});
+
+		expect(playbook).toBeNull();
+		expect(errors).toEqual([
+			'id may only contain lowercase letters, digits and -',
+			'name must be a non-empty string',
+			'extends names an unknown playbook: missing',
+			'match has an invalid pattern: (unclosed',
+			'facts[0] needs a description and a valid pattern',
+			'facts must not be empty',
+			"stages has a stage that isn't in flow: closing",
+			'stages.initial.version must be a positive integer',
+			'stages.initial.rule.required has an unknown fact: wheels',
+			'stages.initial.rule.threshold must be greater than 0 and at most 1',
+			'stages.initial.rule.advanceTo must be one of: diagnostic, solution',
+			'stages.diagnostic.rule.required must list facts',
+			'stages.solution.prompt must contain {{solutionFormat}}',
+			"stages.solution can't have a rule",
+		]);
+	});
+
+	it('needs every stage unless it extends a playbook that has them', () => {
+		expect(validatePlaybook({ id: 'bare', name: 'Bare', facts: general.facts }).errors).toContain('stages.initial.rule is required');
+		expect(validatePlaybook({ id: 'bare', name: 'Bare', extends: 'general' }, PLAYBOOKS).playbook?.stages).toEqual(PLAYBOOKS[0].stages);
+	});
+
+	it('checks the stages a playbook adds against its own flow', () => {
+		const { errors } = validatePlaybook({
+			id: 'arm-with-homing',
+			name: 'Arm with homing',
+			extends: 'general',
+			flow: ['initial', 'homing', 'diagnostic'],
+			stages: {
+				initial: { rule: { required: ['robotType'], threshold: 1, advanceTo: 'calibration' } },
+				homing: { version: 1, prompt: 'Ask how the arm homes', rule: { required: ['robotType'], threshold: 1, advanceTo: 'initial' } },
+			},
+		}, PLAYBOOKS);
+
+		expect(errors).toEqual([
+			'stages.initial.rule.advanceTo must be one of: homing, diagnostic, solution',
+			'stages.homing.name is required',
+			'stages.homing.rule.advanceTo must be one of: diagnostic, solution',
+		]);
+		expect(validatePlaybook({ id: 'no-diagnosis', name: 'No diagnosis', extends: 'general', flow: ['initial', 'homing'] }, PLAYBOOKS).errors)
+			.toEqual(['flow must include diagnostic']);
+		expect(validatePlaybook({ id: 'late-start', name: 'Late start', extends: 'general', flow: ['diagnostic', 'solution'] }, PLAYBOOKS).errors)
+			.toEqual(['flow must be a list of unique stage ids starting with initial, without solution or verification']);
+	});
+
+	it('refuses to load invalid or duplicate playbooks', () => {
+		expect(() => loadPlaybooks([general, { ...general, stages: {} }])).toThrow('Invalid playbook general: stages.initial.version must be a positive integer');
+		expect(() => loadPlaybooks([general, { id: 'general', name: 'Again', extends: 'general' }])).toThrow('Duplicate playbook general');
+	});
+});
+
+describe('selectPlaybook', () => {
+	it.each([
+		['My quadcopter wobbles in hover with Betaflight', 'drone-flight-instability'],
+		['The elbow joint of my 6-DOF robot arm throws a following error', 'robot-arm-joint-error'],
+		['Odometry on my differential drive base drifts after turns', 'mobile-base-odometry-drift'],
+		['Our FRC robot browns out and the roboRIO reboots', 'competition-robot'],
+		['My rover veers left', 'general'],
+	])('picks a playbook for "%s"', (description, id) => {
+		expect(selectPlaybook(description).playbook.id).toBe(id);
+	});
+
+	it('reports the terms that picked it and prefers the most matches', () => {
+		expect(selectPlaybook('FPV quad, props are fine').matched).toEqual(['quad', 'fpv', 'props']);
+		// One drone term against three arm terms
+		expect(selectPlaybook('Drone-mounted robot arm: the wrist joint stalls').playbook.id).toBe('robot-arm-joint-error');
+	});
+});
+
+describe('DiagnosisWorkflow playbooks', () => {
+	it('picks a playbook in the initial stage and uses its prompts and facts', async () => {
+		const result = await new DiagnosisWorkflow().run({
+			sessionId,
+			userMessage: 'My quadcopter oscillates in hover',
+			conversationHistory: [],
+			currentStage: 'initial',
+		});
+
+		expect(result).toMatchObject({ nextStage: 'diagnostic', playbookId: 'drone-flight-instability', promptVersion: 'drone-flight-instability/diagnostic@1' });
+		expect(result.systemPrompt).toContain('specializing in multirotor drones, analyzing a specific flight instability');
+		expect(result.transition.reasons).toContain('Using the Drone flight instability playbook (matched quadcopter, hover)');
+		expect(Object.keys(result.transition.checklist)).toContain('flightLog');
+	});
+
+	it('keeps the stored playbook once the diagnosis is under way', async () => {
+		const result = await new DiagnosisWorkflow().run({
+			sessionId,
+			userMessage: 'Our FRC robot does it too',
+			conversationHistory: [],
+			currentStage: 'diagnostic',
+			playbookId: 'robot-arm-joint-error',
+		});
+		expect(result.playbookId).toBe('robot-arm-joint-error');
+		expect(result.systemPrompt).toContain('specializing in robot arms');
+
+		const legacy = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'ok', conversationHistory: [], currentStage: 'diagnostic', playbookId: null });
+		expect(legacy).toMatchObject({ playbookId: 'general', promptVersion: 'diagnostic@1' });
+	});
+
+	it("applies the playbook's transition rules", async () => {
+		const input = {
+			sessionId,
+			userMessage: 'It drifts when turning, I checked it twice',
+			conversationHistory: [{ role: 'user' as const, content: 'My differential drive robot has odometry drift' }],
+			currentStage: 'diagnostic' as const,
+		};
+
+		// Enough for the general checklist, but the odometry one also wants the odometry source and calibration
+		expect((await new DiagnosisWorkflow().run(input)).nextStage).toBe('solution');
+		const odometry = await new DiagnosisWorkflow().run({ ...input, playbookId: 'mobile-base-odometry-drift' });
+		expect(odometry.nextStage).toBe('diagnostic');
+		expect(odometry.transition.reasons).toContain('Still missing: hardwareDetails, odometrySource, calibration');
+	});
+
+	it('takes its own playbooks', async () => {
+		const [strict] = loadPlaybooks([{
+			...general,
+			id: 'strict',
+			stages: { ...general.stages, initial: { ...general.stages.initial, rule: { required: general.facts.map(fact => fact.id), threshold: 1, advanceTo: 'diagnostic' } } },
+		}]);
+		const result = await new DiagnosisWorkflow(undefined, undefined, undefined, [strict]).run({
+			sessionId,
+			userMessage: 'My line follower oscillates on curves',
+			conversationHistory: [],
+			currentStage: 'initial',
+		});
+		expect(result).toMatchObject({ playbookId: 'strict', nextStage: 'initial', promptVersion: 'strict/initial@1' });
+	});
+});
+
+describe('playbook-defined stages', () => {
+	const [withHoming] = loadPlaybooks([general, {
+		id: 'arm-with-homing',
+		name: 'Arm with homing',
+		extends: 'general',
+		flow: ['initial', 'homing', 'diagnostic'],
+		facts: [{ id: 'homing', description: 'How the arm finds its zero position', pattern: '\\b(hom(e|ing)|limit switch|index pulse)\\b' }],
+		stages: {
+			initial: { rule: { required: ['robotType', 'symptom'], threshold: 1, advanceTo: 'homing' } },
+			homing: { name: 'Homing Check', version: 1, prompt: 'Ask how the arm homes.', rule: { required: ['homing'], threshold: 1, advanceTo: 'diagnostic' } },
+		},
+	}]).slice(1);
+	const workflow = new DiagnosisWorkflow(undefined, undefined, undefined, [withHoming]);
+
+	it('moves through the stages of the flow with their own prompts and rules', async () => {
+		const first = await workflow.run({ sessionId, userMessage: 'My robot arm oscillates', conversationHistory: [], currentStage: 'initial' });
+		expect(first).toMatchObject({ nextStage: 'homing', playbookId: 'arm-with-homing', promptVersion: 'arm-with-homing/homing@1' });
+		expect(first.systemPrompt).toContain('Ask how the arm homes.');
+
+		const waiting = await workflow.run({ sessionId, userMessage: 'It does it all the time', conversationHistory: [], currentStage: 'homing', playbookId: 'arm-with-homing' });
+		expect(waiting.nextStage).toBe('homing');
+		expect(waiting.transition.reasons).toContain('Still missing: homing');
+
+		const homed = await workflow.run({ sessionId, userMessage: 'It homes against a limit switch', conversationHistory: [], currentStage: 'homing', playbookId: 'arm-with-homing' });
+		expect(homed.nextStage).toBe('diagnostic');
+	});
+
+	it('continues as diagnosis from a stage the playbook no longer has', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'ok', conversationHistory: [], currentStage: 'homing', playbookId: 'general' });
+		expect(result.transition.from).toBe('diagnostic');
+	});
+});
+
+describe('playbooks in /api/chat', () => {
+	it('stores the picked playbook with the session and labels prompt versions with it', async () => {
+		const ai = createStubAi();
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+
+		const reply = await (await postChat(workerEnv, { sessionId, userMessage: 'My quadcopter wobbles in hover' })).json() as any;
+		expect(reply).toMatchObject({ stage: 'diagnostic', playbookId: 'drone-flight-instability' });
+
+		const classifier = ai.calls.find(c => String(c.options.messages[0].content).startsWith('You evaluate a robotics troubleshooting conversation'));
+		expect(classifier!.options.messages[0].content).toContain('- propsAndFrame: Propeller size and condition');
+
+		const state = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(state.playbookId).toBe('drone-flight-instability');
+		expect(state.history[1].promptVersion).toBe('drone-flight-instability/diagnostic@1');
+
+		// Starting over picks again from the new description
+		await callWorker(workerEnv, `/api/session/${sessionId}/reset`, { method: 'POST' });
+		expect((await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any).playbookId).toBeNull();
+	});
+
+	it('replies in a stage the playbook added, with the diagnostic model config', async () => {
+		const [gantry] = loadPlaybooks([general, {
+			id: 'gantry-homing',
+			name: 'Gantry homing',
+			extends: 'general',
+			match: ['gantr(y|ies)'],
+			flow: ['initial', 'homing', 'diagnostic'],
+			facts: [{ id: 'homing', description: 'How the gantry finds its zero position', pattern: '\\b(hom(e|ing)|limit switch)\\b' }],
+			stages: {
+				initial: { rule: { required: ['robotType', 'symptom'], threshold: 1, advanceTo: 'homing' } },
+				homing: { name: 'Homing Check', version: 1, prompt: 'Ask how the gantry homes.', rule: { required: ['homing'], threshold: 1, advanceTo: 'diagnostic' } },
+			},
+		}]).slice(1);
+		PLAYBOOKS.push(gantry);
+		try {
+			const ai = createStubAi();
+			const workerEnv = envWithAi(ai);
+			const sessionId = await createSession();
+
+			const response = await postChat(workerEnv, { sessionId, userMessage: 'My gantry robot stalls at the end of travel' });
+			expect(response.status).toBe(200);
+			expect(await response.json()).toMatchObject({ stage: 'homing', playbookId: 'gantry-homing' });
+
+			const reply = ai.calls.find(c => String(c.options.messages[0].content).includes('Ask how the gantry homes.'));
+			expect(reply!.options).toMatchObject({ temperature: 0.5, max_tokens: 400 });
+
+			const streamed = await postChat(workerEnv, { sessionId, userMessage: 'It does it every time', stream: true });
+			expect(await streamed.text()).toContain('event: done');
+		} finally {
+			PLAYBOOKS.splice(PLAYBOOKS.indexOf(gantry), 1);
+		}
+	});
+
+	it('lists the playbooks with their facts and prompt versions', async () => {
+		const { playbooks } = await (await callWorker(env, '/api/playbooks')).json() as any;
+		expect(playbooks).toHaveLength(PLAYBOOKS.length);
+		expect(playbooks[2]).toMatchObject({
+			id: 'robot-arm-joint-error',
+			name: 'Robot arm joint error',
+			promptVersions: {
+				initial: 'robot-arm-joint-error/initial@1',
+				diagnostic: 'robot-arm-joint-error/diagnostic@1',
+				solution: 'robot-arm-joint-error/solution@1',
+				verification: 'robot-arm-joint-error/verification@1',
+			},
+		});
+		expect(playbooks[2].facts.map((fact: any) => fact.id)).toContain('errorCode');
+		expect(playbooks[2].stages.map((stage: any) => stage.id)).toEqual(['initial', 'diagnostic', 'solution', 'verification']);
+	});
+});
@@ -0,0 +1,92 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { RobotProfile } from '../src/profiles';
+import { TEST_ADMIN, callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+function createProfile(body: Record<string, unknown>): Promise<Response> {
+	return callWorker(env, '/api/profiles', { method: 'POST', body: JSON.stringify(body) }, TEST_ADMIN);
+}
+
+const LINE_FOLLOWER = {
+	name: 'Line follower #3',
+	model: 'differential-drive line follower',
+	controller: 'Arduino Uno',
+	firmwareVersion: '2.4.1',
+	actuators: ['2x N20 gear motors', 'L298N driver'],
+	sensors: ['QTR-8A reflectance array'],
+	maintenanceHistory: [{ date: '2026-02-01', description: 'Replaced left motor' }],
+};
+
+// The profile registry is one shared instance that other test files also touch; the
+// module reloads for this file, resetting it, and only reads are retried through
+// the reset, so a read goes first
+beforeAll(async () => {
+	await callWorker(env, '/api/profiles');
+});
+
+describe('/api/profiles', () => {
+	it.each([
+		['missing name', { model: 'arm' }],
+		['non-list sensors', { name: 'Arm', sensors: 'lidar' }],
+		['bad maintenance date', { name: 'Arm', maintenanceHistory: [{ date: 'last week', description: 'x' }] }],
+		['invalid profileId', { name: 'Arm', profileId: 'a/b' }],
+	])('rejects %s with 400', async (_label, body) => {
+		expect((await createProfile(body)).status).toBe(400);
+	});
+
+	it('creates, updates, lists and deletes a profile', async () => {
+		const profileId = `robot_${crypto.randomUUID()}`;
+		const created = await createProfile({ ...LINE_FOLLOWER, profileId });
+		expect(created.status).toBe(201);
+		expect(await created.json()).toMatchObject({ profileId, name: 'Line follower #3', notes: null });
+		expect((await createProfile({ ...LINE_FOLLOWER, profileId })).status).toBe(409);
+
+		const updated = await (await callWorker(env, `/api/profiles/${profileId}`, {
+			method: 'PUT',
+			body: JSON.stringify({ firmwareVersion: '2.5.0' }),
+		}, TEST_ADMIN)).json() as any;
+		expect(updated).toMatchObject({ firmwareVersion: '2.5.0', controller: 'Arduino Uno' });
+
+		const listed = await (await callWorker(env, '/api/profiles')).json() as any;
+		expect(listed.profiles.map((p: any) => p.profileId)).toContain(profileId);
+
+		expect((await callWorker(env, `/api/profiles/${profileId}`, { method: 'DELETE' }, TEST_ADMIN)).status).toBe(200);
+		expect((await callWorker(env, `/api/profiles/${profileId}`)).status).toBe(404);
+		expect((await callWorker(env, `/api/profiles/${profileId}`, { method: 'PUT', body: '{}' }, TEST_ADMIN)).status).toBe(404);
+	});
+});
+
+describe('robot profiles in chat', () => {
+	it('skips the questions the profile answers and adds it to the prompt', async () => {
+		const profile = await (await createProfile(LINE_FOLLOWER)).json() as any;
+		const ai = createStubAi();
+		const sessionId = await createSession();
+
+		const data = await (await postChat(envWithAi(ai), { sessionId, userMessage: 'It oscillates on curves', profileId: profile.profileId })).json() as any;
+		expect(data.stage).toBe('diagnostic');
+		expect(data.transition.reasons).toContain('Robot profile answers robotType, hardwareDetails');
+
+		const chatCall = ai.calls.find(c => String(c.options.messages[0].content).startsWith('You are a robotics troubleshooting expert'))!;
+		expect(chatCall.options.messages[0].content).toContain('- Firmware: 2.4.1');
+		expect(chatCall.options.messages[0].content).toContain('  - 2026-02-01: Replaced left motor');
+
+		// The profile stays attached for later turns
+		const state = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(state.profileId).toBe(profile.profileId);
+
+		await callWorker(env, `/api/profiles/${profile.profileId}`, { method: 'DELETE' }, TEST_ADMIN);
+	});
+
+	it('returns 404 for an unknown profile', async () => {
+		const response = await postChat(env, { sessionId: await createSession(), userMessage: 'hello', profileId: 'no-such-robot' });
+		expect(response.status).toBe(404);
+	});
+
+	it('still asks for the symptom when only the robot is known', async () => {
+		const profile = { ...LINE_FOLLOWER, profileId: 'p', notes: null, createdAt: 0, updatedAt: 0 } as RobotProfile;
+		const result = await new DiagnosisWorkflow().run({ sessionId: 'profile-test', userMessage: 'hello', conversationHistory: [], currentStage: 'initial', profile });
+		expect(result.nextStage).toBe('initial');
+		expect(result.transition.reasons.join(' ')).toContain('Still missing: symptom');
+	});
+});
@@ -0,0 +1,131 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { MockProvider } from '../src/providers';
+import { MeteredProvider, estimatePromptTokens, resolveUsageLimits } from '../src/rateLimit';
+import { callWorker, createSession, newUser, postChat } from './helpers';
+
+function envWithLimits(limits: Record<string, number>) {
+	return { ...env, RATE_LIMITS: JSON.stringify(limits) } as any;
+}
+
+/**
+ * Env whose limiters fail every request, as they do when their storage does
+ */
+function envWithFailingLimiter() {
+	const fail = async () => Response.json({ error: 'Limiter storage failed' }, { status: 500 });
+	return { ...env, USAGE_LIMITER: { idFromName: (name: string) => env.USAGE_LIMITER.idFromName(name), get: () => ({ fetch: fail }) } } as any;
+}
+
+describe('resolveUsageLimits', () => {
+	it('fills in defaults and ignores non-positive overrides', () => {
+		const limits = resolveUsageLimits({ RATE_LIMITS: '{"requestsPerMinute": 5, "dailyTokens": 0}' });
+		expect(limits).toEqual({ requestsPerMinute: 5, dailyTokens: 200000, sessionDailyTokens: 60000, guestTokensPerHour: 10 });
+	});
+});
+
+describe('MeteredProvider', () => {
+	it('adds up prompt and response estimates of every call', async () => {
+		const provider = new MeteredProvider(new MockProvider([{ purpose: 'initial', reply: 'x'.repeat(40) }]));
+		const messages = [{ role: 'user' as const, content: 'y'.repeat(80) }];
+		const perCall = estimatePromptTokens(messages) + 10;
+
+		await provider.complete({ purpose: 'initial', messages });
+		expect(provider.tokens).toBe(perCall);
+
+		for await (const _chunk of await provider.stream({ purpose: 'initial', messages })) {
+			// Drain the stream
+		}
+		expect(provider.tokens).toBeGreaterThanOrEqual(2 * perCall);
+	});
+});
+
+describe('chat limits', () => {
+	it('returns 429 with Retry-After once the per-minute limit is reached', async () => {
+		const workerEnv = envWithLimits({ requestsPerMinute: 2 });
+		const user = newUser();
+		const sessionId = await createSession(user);
+
+		expect((await postChat(workerEnv, { sessionId, userMessage: 'hello' }, user)).status).toBe(200);
+		expect((await postChat(workerEnv, { sessionId, userMessage: 'hello again' }, user)).status).toBe(200);
+
+		const limited = await postChat(workerEnv, { sessionId, userMessage: 'one more' }, user);
+		expect(limited.status).toBe(429);
+		const retryAfter = Number(limited.headers.get('Retry-After'));
+		expect(retryAfter).toBeGreaterThan(0);
+		expect(retryAfter).toBeLessThanOrEqual(60);
+		const data = await limited.json() as any;
+		expect(data).toMatchObject({ error: 'Too many requests (limit 2 per minute)', retryAfter });
+		expect(data.usage.requests).toMatchObject({ used: 2, limit: 2, remaining: 0 });
+	});
+
+	it('stops a session or user whose daily token budget is used up', async () => {
+		const user = newUser();
+		const first = await createSession(user);
+		const sessionEnv = envWithLimits({ sessionDailyTokens: 1 });
+
+		expect((await postChat(sessionEnv, { sessionId: first, userMessage: 'hello' }, user)).status).toBe(200);
+		const sessionLimited = await postChat(sessionEnv, { sessionId: first, userMessage: 'hello again' }, user);
+		expect(sessionLimited.status).toBe(429);
+		expect((await sessionLimited.json() as any).error).toBe("This session's daily token budget is used up");
+
+		// Another session still has its own budget, until the user's is used up too
+		const second = await createSession(user);
+		expect((await postChat(sessionEnv, { sessionId: second, userMessage: 'hello' }, user)).status).toBe(200);
+
+		const userLimited = await postChat(envWithLimits({ dailyTokens: 1 }), { sessionId: second, userMessage: 'hello again' }, user);
+		expect(userLimited.status).toBe(429);
+		expect((await userLimited.json() as any).error).toBe('Daily token budget used up');
+		expect(Number(userLimited.headers.get('Retry-After'))).toBeLessThanOrEqual(24 * 60 * 60);
+	});
+
+	it('limits guest tokens per client IP', async () => {
+		const workerEnv = envWithLimits({ guestTokensPerHour: 1 });
+		const headers = { 'CF-Connecting-IP': `test-${crypto.randomUUID()}` };
+
+		expect((await callWorker(workerEnv, '/api/auth/guest', { method: 'POST', headers }, null)).status).toBe(200);
+		const limited = await callWorker(workerEnv, '/api/auth/guest', { method: 'POST', headers }, null);
+		expect(limited.status).toBe(429);
+		expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+	});
+});
+
+describe('a failing limiter', () => {
+	it('fails the request with its error instead of limiting or admitting it', async () => {
+		const workerEnv = envWithFailingLimiter();
+		const user = newUser();
+		const sessionId = await createSession(user);
+
+		for (const response of [
+			await postChat(workerEnv, { sessionId, userMessage: 'hello' }, user),
+			await callWorker(workerEnv, `/api/usage?sessionId=${sessionId}`, {}, user),
+			await callWorker(workerEnv, '/api/auth/guest', { method: 'POST' }, null),
+		]) {
+			expect(response.status).toBe(500);
+			expect(await response.json()).toEqual({ error: 'Limiter storage failed' });
+		}
+	});
+});
+
+describe('GET /api/usage', () => {
+	it('reports requests and tokens used by the caller and the session', async () => {
+		const user = newUser();
+		const sessionId = await createSession(user);
+
+		const before = await (await callWorker(env, `/api/usage?sessionId=${sessionId}`, {}, user)).json() as any;
+		expect(before.requests.used).toBe(0);
+		expect(before.tokens.used).toBe(0);
+
+		await postChat(env, { sessionId, userMessage: 'My line follower oscillates' }, user);
+
+		const after = await (await callWorker(env, `/api/usage?sessionId=${sessionId}`, {}, user)).json() as any;
+		expect(after.requests.used).toBe(1);
+		expect(after.tokens.used).toBeGreaterThan(0);
+		expect(after.tokens.remaining).toBe(after.tokens.limit - after.tokens.used);
+		expect(after.session).toMatchObject({ sessionId, used: after.tokens.used });
+
+		const withoutSession = await (await callWorker(env, '/api/usage', {}, user)).json() as any;
+		expect(withoutSession.session).toBeNull();
+
+		expect((await callWorker(env, `/api/usage?sessionId=${sessionId}`, {}, newUser())).status).toBe(403);
+	});
+});
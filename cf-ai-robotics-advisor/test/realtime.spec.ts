@@ -0,0 +1,201 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { signToken } from '../src/auth';
+import {
+	ACCESS_REVOKED_CLOSE_CODE,
+	CREDENTIAL_EXPIRED_CLOSE_CODE,
+	Connection,
+	MAX_FRAME_LENGTH,
+	SESSION_DELETED_CLOSE_CODE,
+	parseClientFrame,
+	revokedConnection,
+} from '../src/realtime';
+import { TEST_USER, TestUser, callWorker, createSession, newUser, postChat } from './helpers';
+
+/**
+ * Opens a session socket the way the browser does, with the token in the query string,
+ * and collects the frames it receives
+ */
+async function openSocket(sessionId: string, user: TestUser = TEST_USER, ttlSeconds = 3600) {
+	const token = await signToken(env.AUTH_SECRET, user.userId, user.role, ttlSeconds);
+	const response = await worker.fetch(
+		new Request(`http://example.com/api/session/${sessionId}/socket?token=${token}`, { headers: { Upgrade: 'websocket' } }),
+		env,
+		createExecutionContext(),
+	);
+	expect(response.status).toBe(101);
+
+	const ws = response.webSocket!;
+	const frames: any[] = [];
+	let closed: CloseEvent | null = null;
+	ws.accept();
+	ws.addEventListener('message', event => {
+		frames.push(JSON.parse(event.data as string));
+	});
+	ws.addEventListener('close', event => {
+		closed = event;
+	});
+
+	return {
+		ws,
+		frames,
+		send: (frame: unknown) => ws.send(JSON.stringify(frame)),
+		closed: () => closed,
+		/** Waits for a frame matching `predicate` */
+		next: (predicate: (frame: any) => boolean) => waitFor(() => frames.find(predicate)),
+	};
+}
+
+/** Polls until `read` returns something, failing after two seconds */
+async function waitFor<T>(read: () => T | null | undefined): Promise<T> {
+	for (let i = 0; i < 200; i++) {
+		const value = read();
+		if (value) return value;
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+	throw new Error('Timed out waiting for a frame');
+}
+
+describe('parseClientFrame', () => {
+	it('reads chat and typing frames', () => {
+		expect(parseClientFrame('{"type": "typing", "typing": true}')).toEqual({ frame: { type: 'typing', typing: true }, error: null });
+		expect(parseClientFrame('{"type": "chat", "turnId": "turn-1", "userMessage": "It veers left"}').frame).toEqual({
+			type: 'chat',
+			turnId: 'turn-1',
+			userMessage: 'It veers left',
+			stepOutcome: undefined,
+			profileId: undefined,
+		});
+		expect(parseClientFrame('{"type": "chat", "userMessage": "Hi"}').frame).toMatchObject({ turnId: expect.stringMatching(/^[\w-]+$/) });
+	});
+
+	it('rejects anything else', () => {
+		expect(parseClientFrame(new ArrayBuffer(4)).error).toBe('Frames must be JSON text');
+		expect(parseClientFrame('not json').error).toBe('Frames must be JSON text');
+		expect(parseClientFrame('[1]').error).toBe('Frames must be JSON objects');
+		expect(parseClientFrame('{"type": "vote"}').error).toBe('Unknown frame type: vote');
+		expect(parseClientFrame('{"type": "chat", "turnId": "a b"}').error).toBe('turnId may only contain letters, digits, _ and - (at most 64)');
+		expect(parseClientFrame(JSON.stringify({ type: 'chat', userMessage: 'x'.repeat(MAX_FRAME_LENGTH) })).error)
+			.toBe(`Frames may be at most ${MAX_FRAME_LENGTH} characters`);
+	});
+});
+
+describe('revokedConnection', () => {
+	const connection: Connection = {
+		connectionId: 'c1',
+		sessionId: 's1',
+		principal: { userId: 'alice', role: 'user', method: 'token', expiresAt: 2_000 },
+		connectedAt: 1_000,
+	};
+
+	it('keeps a socket whose caller still owns the session', () => {
+		expect(revokedConnection(connection, 'alice', 1_500)).toBeNull();
+		expect(revokedConnection({ ...connection, principal: { ...connection.principal, method: 'apiKey', expiresAt: null } }, 'alice', 10_000)).toBeNull();
+	});
+
+	it('closes it once the token expires or the session is no longer theirs', () => {
+		expect(revokedConnection(connection, 'alice', 2_000)).toEqual({ code: CREDENTIAL_EXPIRED_CLOSE_CODE, reason: 'Credential expired' });
+		expect(revokedConnection(connection, 'bob', 1_500)).toEqual({ code: ACCESS_REVOKED_CLOSE_CODE, reason: 'Session access revoked' });
+		expect(revokedConnection(connection, null, 1_500)).toEqual({ code: ACCESS_REVOKED_CLOSE_CODE, reason: 'Session access revoked' });
+	});
+});
+
+describe('/api/session/:id/socket', () => {
+	it('only upgrades for the owner', async () => {
+		const sessionId = await createSession();
+		expect((await callWorker(env, `/api/session/${sessionId}/socket`)).status).toBe(426);
+		expect((await callWorker(env, `/api/session/${sessionId}/socket`, { headers: { Upgrade: 'websocket' } }, newUser())).status).toBe(403);
+		expect((await callWorker(env, `/api/session/${sessionId}/socket?token=forged`, { headers: { Upgrade: 'websocket' } }, null)).status).toBe(401);
+	});
+
+	it('tells every device who is connected', async () => {
+		const sessionId = await createSession();
+		const bench = await openSocket(sessionId);
+		const laptop = await openSocket(sessionId);
+
+		const both = await bench.next(frame => frame.type === 'presence' && frame.connections.length === 2);
+		expect(both.connections.map((c: any) => c.userId)).toEqual([TEST_USER.userId, TEST_USER.userId]);
+		const { you } = await laptop.next(frame => frame.type === 'presence' && frame.connections.length === 2);
+		expect(you).not.toBe(both.you);
+
+		laptop.ws.close(1000, 'bye');
+		const left = await bench.next(frame => frame.type === 'presence' && frame.connections.length === 1);
+		expect(left.connections).toEqual([{ connectionId: both.you, userId: TEST_USER.userId }]);
+	});
+
+	it('relays typing to the other devices', async () => {
+		const sessionId = await createSession();
+		const bench = await openSocket(sessionId);
+		const laptop = await openSocket(sessionId);
+		const { you } = await bench.next(frame => frame.type === 'presence' && frame.connections.length === 2);
+
+		bench.send({ type: 'typing', typing: true });
+		expect(await laptop.next(frame => frame.type === 'typing')).toEqual({ type: 'typing', connectionId: you, userId: TEST_USER.userId, typing: true });
+		expect(bench.frames.some(frame => frame.type === 'typing')).toBe(false);
+	});
+
+	it('streams a turn sent over the socket to every device', async () => {
+		const sessionId = await createSession();
+		const bench = await openSocket(sessionId);
+		const laptop = await openSocket(sessionId);
+
+		bench.send({ type: 'chat', turnId: 'turn-1', userMessage: 'My rover veers left' });
+		const done = await bench.next(frame => frame.type === 'done');
+		expect(done).toMatchObject({ turnId: 'turn-1', stage: 'diagnostic', playbookId: 'general', sessionId });
+
+		// The other device sees the message, then the same reply token by token
+		const seen = await laptop.next(frame => frame.type === 'done');
+		expect(seen.messageId).toBe(done.messageId);
+		expect(laptop.frames.find(frame => frame.type === 'user')).toEqual({ type: 'user', turnId: 'turn-1', userId: TEST_USER.userId, userMessage: 'My rover veers left', attachments: [] });
+		const tokens = laptop.frames.filter(frame => frame.type === 'token' && frame.turnId === 'turn-1').map(frame => frame.token);
+		expect(tokens.length).toBeGreaterThan(1);
+		expect(tokens.join('')).toBe(done.message);
+		expect(laptop.frames.find(frame => frame.type === 'stage')).toMatchObject({ stage: 'diagnostic', playbookId: 'general', outcome: null });
+		expect(bench.frames.some(frame => frame.type === 'user')).toBe(false);
+
+		const state = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(state.history.map((m: any) => m.content)).toEqual(['My rover veers left', done.message]);
+	});
+
+	it('tells only the sender why a turn was rejected', async () => {
+		const sessionId = await createSession();
+		const bench = await openSocket(sessionId);
+		const laptop = await openSocket(sessionId);
+
+		bench.send({ type: 'chat', turnId: 'empty', userMessage: '  ' });
+		expect(await bench.next(frame => frame.type === 'error')).toEqual({ type: 'error', turnId: 'empty', status: 400, error: 'sessionId and userMessage required' });
+		bench.send({ type: 'shout' });
+		expect(await bench.next(frame => frame.type === 'error' && !frame.turnId)).toEqual({ type: 'error', error: 'Unknown frame type: shout' });
+
+		// Frames arrive in order, so once this one is in the errors would have been too
+		bench.send({ type: 'typing', typing: false });
+		await laptop.next(frame => frame.type === 'typing');
+		expect(laptop.frames.some(frame => frame.type === 'error')).toBe(false);
+	});
+
+	it('syncs turns sent over HTTP, resets and deletion', async () => {
+		const sessionId = await createSession();
+		const bench = await openSocket(sessionId);
+
+		await postChat(env, { sessionId, userMessage: 'My rover veers left' });
+		expect(await bench.next(frame => frame.type === 'stage')).toMatchObject({ stage: 'diagnostic' });
+
+		await callWorker(env, `/api/session/${sessionId}/reset`, { method: 'POST' });
+		expect(await bench.next(frame => frame.type === 'reset')).toEqual({ type: 'reset', stage: 'initial' });
+
+		await callWorker(env, `/api/session/${sessionId}`, { method: 'DELETE' });
+		expect((await waitFor(bench.closed))!.code).toBe(SESSION_DELETED_CLOSE_CODE);
+	});
+
+	it('closes the socket once its token expires', async () => {
+		const sessionId = await createSession();
+		const bench = await openSocket(sessionId, TEST_USER, 1);
+		await bench.next(frame => frame.type === 'presence');
+
+		// Tokens expire on a whole second
+		await new Promise(resolve => setTimeout(resolve, 1_100));
+		bench.send({ type: 'typing', typing: true });
+		expect((await waitFor(bench.closed))!.code).toBe(CREDENTIAL_EXPIRED_CLOSE_CODE);
+	});
+});
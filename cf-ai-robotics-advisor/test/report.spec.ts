@@ -0,0 +1,68 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { parseSolutionSections } from '../src/solution';
+import { callWorker, createSession, postChat } from './helpers';
+
+/** Drives a session to the solution stage with the mock provider's canned replies */
+async function solvedSession(): Promise<string> {
+	const sessionId = await createSession();
+	await postChat(env, { sessionId, userMessage: 'My line follower oscillates on curves' });
+	await postChat(env, { sessionId, userMessage: 'just tell me what to do' });
+	return sessionId;
+}
+
+describe('parseSolutionSections', () => {
+	it('reads bold, heading and plain section headers', () => {
+		const sections = parseSolutionSections(
+			'## Root Cause\nWorn **spur gear**.\n\n**Solution Steps**:\n1. Replace the gear\n\n2. Re-grease\n\nPrevention: Inspect monthly.\n\n**Parts/Tools:** M3 hex key, spare gear',
+		);
+		expect(sections).toEqual({
+			rootCause: 'Worn spur gear.',
+			steps: ['Replace the gear', 'Re-grease'],
+			prevention: 'Inspect monthly.',
+			partsTools: ['M3 hex key', 'spare gear'],
+		});
+	});
+});
+
+describe('GET /api/session/:id/report', () => {
+	it('returns 409 before the session reaches the solution stage', async () => {
+		const sessionId = await createSession();
+		await postChat(env, { sessionId, userMessage: 'hello' });
+		expect((await callWorker(env, `/api/session/${sessionId}/report`)).status).toBe(409);
+	});
+
+	it('rejects unknown formats with 400', async () => {
+		expect((await callWorker(env, `/api/session/${await createSession()}/report?format=pdf`)).status).toBe(400);
+	});
+
+	it('assembles the diagnosis, steps and timeline as JSON', async () => {
+		const sessionId = await solvedSession();
+		const report = await (await callWorker(env, `/api/session/${sessionId}/report?format=json`)).json() as any;
+
+		expect(report).toMatchObject({
+			sessionId,
+			title: 'My line follower oscillates on curves',
+			diagnosis: { rootCause: 'Control loop gains are too aggressive for the current speed.' },
+			steps: ['Reduce Kp by 30%', 'Add a small Kd term', 'Re-test at low speed before increasing it'],
+			prevention: 'Re-tune gains whenever speed or mass changes.',
+			partsTools: [],
+		});
+		expect(report.timeline.map((t: any) => t.description)).toEqual(['My line follower oscillates on curves', 'just tell me what to do']);
+	});
+
+	it('renders Markdown by default and escaped HTML on request', async () => {
+		const sessionId = await solvedSession();
+
+		const markdown = await callWorker(env, `/api/session/${sessionId}/report`);
+		expect(markdown.headers.get('Content-Type')).toContain('text/markdown');
+		const text = await markdown.text();
+		expect(text).toContain('# Maintenance Report: My line follower oscillates on curves');
+		expect(text).toContain('1. [ ] Reduce Kp by 30%');
+
+		await callWorker(env, `/api/session/${sessionId}`, { method: 'PATCH', body: JSON.stringify({ title: '<script>x</script>' }) });
+		const html = await (await callWorker(env, `/api/session/${sessionId}/report?format=html`)).text();
+		expect(html).toContain('&lt;script&gt;x&lt;/script&gt;');
+		expect(html).not.toContain('<script>x');
+	});
+});
@@ -0,0 +1,152 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { assessHazards, assessSituation, reviewReply } from '../src/safety';
+import { Solution } from '../src/solution';
+import { TEST_ADMIN, callWorker, createSession, createStubAi, envWithAi, postChat } from './helpers';
+
+const NONE = assessHazards('');
+
+describe('assessHazards', () => {
+	it.each([
+		['The 230V power supply unit clicks', 'mains-power'],
+		['The 300 V DC bus on the servo drive', 'high-voltage'],
+		['My LiPo pack is swollen', 'battery-fire'],
+		['The gripper closes on my fingers', 'pinch-point'],
+	])('finds a hazard in "%s"', (text, hazard) => {
+		expect(assessHazards(text)).toMatchObject({ level: 'caution', hazards: [hazard], dangers: [] });
+	});
+
+	it.each([
+		['How do I bypass the BMS so it stops cutting out?', 'battery-fire'],
+		['Can I disable the e-stop while I tune it?', 'pinch-point'],
+		['Just short the capacitors with a screwdriver', 'high-voltage'],
+		['I opened the PSU while it was still plugged in', 'mains-power'],
+	])('flags "%s" as dangerous', (text, hazard) => {
+		const assessment = assessHazards(text);
+		expect(assessment.level).toBe('danger');
+		expect(assessment.dangers).toEqual([hazard]);
+	});
+
+	it.each([
+		['Never bypass the BMS; replace the pack instead.', 'battery-fire'],
+		['Do not short the capacitors with a screwdriver', 'high-voltage'],
+		['I did not bypass the BMS', 'battery-fire'],
+		["Don't reach into the gripper while it is powered", 'pinch-point'],
+	])('treats the negated instruction in "%s" as a mention', (text, hazard) => {
+		expect(assessHazards(text)).toMatchObject({ level: 'caution', hazards: [hazard], dangers: [] });
+	});
+
+	it('only lets a negation cover its own clause', () => {
+		expect(assessHazards('Never charge it unattended, just bypass the BMS').level).toBe('danger');
+		expect(assessHazards("Don't panic. Short the capacitors with a screwdriver").dangers).toEqual(['high-voltage']);
+	});
+
+	it('leaves ordinary tuning advice alone', () => {
+		expect(assessHazards('Reduce Kp by 30% and re-test at low speed')).toEqual({ level: 'none', hazards: [], dangers: [], matches: [] });
+	});
+
+	it('counts hazards from the known facts but dangers only from the message', () => {
+		const situation = assessSituation('It keeps resetting', 'Hardware: 4S LiPo, do not bypass the BMS');
+		expect(situation).toMatchObject({ level: 'caution', hazards: ['battery-fire'], dangers: [] });
+	});
+});
+
+describe('reviewReply', () => {
+	const solution: Solution = {
+		rootCause: 'A cell in the LiPo pack is failing under load.',
+		steps: ['Measure each cell voltage under load', 'Replace the pack if a cell sags below 3.5 V'],
+		prevention: 'Store packs at storage charge.',
+		partsTools: ['Cell checker'],
+		confidence: 'medium'
+	};
+
+	it('puts the safety notice and a lockout step in front of a hazardous solution', () => {
+		const guarded = reviewReply('solution', NONE, 'raw', solution, null);
+		expect(guarded.solution!.steps[0]).toMatch(/^Lock out and tag out before starting: Disconnect the pack/);
+		expect(guarded.solution!.steps.slice(1)).toEqual(solution.steps);
+		expect(guarded.text).toMatch(/^⚠️ \*\*Safety first/);
+		expect(guarded.text).toContain('**Battery fire**');
+		expect(guarded.safety).toMatchObject({ level: 'caution', action: 'warned', sources: ['reply'], hazards: ['battery-fire'] });
+		expect(guarded.outcome).toBeNull();
+	});
+
+	it('warns on hands-on replies in a hazardous situation', () => {
+		const situation = assessHazards('The robot arm stalls at the elbow');
+		expect(reviewReply('verification', situation, 'Check the elbow joint for play.', null, null).safety?.sources).toEqual(['user']);
+		// Questions during diagnosis don't need the notice
+		expect(reviewReply('diagnostic', situation, 'When does it stall?', null, null).safety).toBeNull();
+	});
+
+	it('replaces dangerous advice with a warning without closing the session', () => {
+		const guarded = reviewReply('diagnostic', NONE, 'Easiest fix: bypass the BMS and charge it directly.', null, null);
+		expect(guarded.text).toMatch(/^⚠️ \*\*I can't help with that safely/);
+		expect(guarded.text).not.toContain('bypass the BMS and charge');
+		expect(guarded.safety).toMatchObject({ level: 'danger', action: 'refused', sources: ['reply'], reason: 'Refused unsafe advice (Battery fire)' });
+		expect(guarded.outcome).toBeNull();
+	});
+
+	it('passes advice that warns against a dangerous step', () => {
+		const guarded = reviewReply('diagnostic', NONE, 'Check the cell voltages. Never bypass the BMS.', null, null);
+		expect(guarded.safety).toMatchObject({ level: 'caution', action: 'warned', hazards: ['battery-fire'] });
+		expect(guarded.text).toContain('Check the cell voltages. Never bypass the BMS.');
+		expect(guarded.outcome).toBeNull();
+	});
+});
+
+describe('DiagnosisWorkflow safety', () => {
+	it('adds lockout and PPE guidance to the prompt for a hazardous situation', async () => {
+		const result = await new DiagnosisWorkflow().run({
+			sessionId: 'safety',
+			userMessage: 'My mobile base with a 6S LiPo shuts off when it accelerates',
+			conversationHistory: [],
+			currentStage: 'initial',
+		});
+		expect(result.safety.hazards).toEqual(['battery-fire']);
+		expect(result.systemPrompt).toContain('SAFETY: This situation involves battery fire.');
+		expect(result.systemPrompt).toContain('Disconnect the pack at its main connector');
+	});
+});
+
+describe('safety guardrails in /api/chat', () => {
+	it('refuses a dangerous request without calling the model and logs it for review', async () => {
+		const ai = createStubAi();
+		const workerEnv = envWithAi(ai);
+		const sessionId = await createSession();
+
+		const response = await postChat(workerEnv, { sessionId, userMessage: 'My drone LiPo cuts out, how do I bypass the BMS?' });
+		const data = await response.json() as any;
+		expect(data.message).toMatch(/^⚠️ \*\*I can't help with that safely/);
+		expect(data.outcome).toMatchObject({ status: 'escalate', reason: 'Refused an unsafe request (Battery fire)' });
+		expect(data.safety).toMatchObject({ action: 'refused', sources: ['user'] });
+		expect(ai.calls.some(c => String(c.options.messages[0].content).startsWith('You are a robotics troubleshooting expert'))).toBe(false);
+
+		// The session is closed like any escalation
+		expect((await postChat(workerEnv, { sessionId, userMessage: 'ok' })).status).toBe(409);
+
+		const log = await (await callWorker(workerEnv, `/api/session/${sessionId}/safety`, {}, TEST_ADMIN)).json() as any;
+		expect(log.flags).toEqual([
+			expect.objectContaining({ action: 'refused', hazards: ['battery-fire'], userMessage: 'My drone LiPo cuts out, how do I bypass the BMS?', reply: data.message })
+		]);
+	});
+
+	it('adds the notice to a streamed hazardous reply and keeps it in history', async () => {
+		const workerEnv = envWithAi(createStubAi({ chat: 'Unplug the LiPo battery pack and check the connector.' }));
+		const sessionId = await createSession();
+
+		const response = await postChat(workerEnv, { sessionId, userMessage: 'My rover stops randomly', stream: true });
+		const done = (await response.text()).split('\n\n').find(event => event.startsWith('event: done'))!;
+		const payload = JSON.parse(done.split('data: ')[1]);
+		expect(payload.message).toMatch(/^⚠️ \*\*Safety first[\s\S]*Unplug the LiPo battery pack/);
+		expect(payload.safety).toMatchObject({ action: 'warned', hazards: ['battery-fire'] });
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`)).json() as any;
+		expect(history.history[1]).toMatchObject({ content: payload.message, safety: { action: 'warned' } });
+	});
+
+	it('keeps the safety log for admins', async () => {
+		const sessionId = await createSession();
+		expect((await callWorker(env, `/api/session/${sessionId}/safety`)).status).toBe(403);
+		expect(await (await callWorker(env, `/api/session/${sessionId}/safety`, {}, TEST_ADMIN)).json()).toEqual({ sessionId, flags: [] });
+	});
+});
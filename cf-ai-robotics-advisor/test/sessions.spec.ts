@@ -0,0 +1,131 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { TestUser, callWorker, createSession, createStubAi, envWithAi, newUser, postChat } from './helpers';
+
+async function listSessions(workerEnv: any, user: TestUser) {
+	const response = await callWorker(workerEnv, '/api/sessions', {}, user);
+	return (await response.json() as any).sessions;
+}
+
+describe('session management', () => {
+	it('registers sessions per user, titled after the first message', async () => {
+		const workerEnv = envWithAi(createStubAi());
+		const user = newUser();
+		const other = newUser();
+		const first = await createSession(user);
+		const second = await createSession(user);
+
+		await postChat(workerEnv, { sessionId: first, userMessage: 'My line follower oscillates' }, user);
+		await postChat(workerEnv, { sessionId: second, userMessage: 'Drone drifts left on takeoff' }, user);
+		await postChat(workerEnv, { sessionId: await createSession(other), userMessage: 'Someone else' }, other);
+
+		const sessions = await listSessions(workerEnv, user);
+		expect(sessions.map((s: any) => s.sessionId)).toEqual([second, first]);
+		expect(sessions[1]).toMatchObject({ title: 'My line follower oscillates', stage: 'diagnostic' });
+	});
+
+	it('renames a session in the DO and the registry', async () => {
+		const workerEnv = envWithAi(createStubAi());
+		const user = newUser();
+		const sessionId = await createSession(user);
+		await postChat(workerEnv, { sessionId, userMessage: 'hello' }, user);
+
+		const response = await callWorker(workerEnv, `/api/session/${sessionId}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ title: 'Arm shoulder stall' }),
+		}, user);
+		expect(response.status).toBe(200);
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`, {}, user)).json() as any;
+		expect(history.title).toBe('Arm shoulder stall');
+		expect((await listSessions(workerEnv, user))[0].title).toBe('Arm shoulder stall');
+	});
+
+	it('rejects an empty title', async () => {
+		const response = await callWorker(envWithAi(createStubAi()), `/api/session/${await createSession()}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ title: '  ' }),
+		});
+		expect(response.status).toBe(400);
+	});
+
+	it('resets history, stage and case file but keeps the title', async () => {
+		const workerEnv = envWithAi(createStubAi({ extraction: '{"robotType": "line follower"}' }));
+		const user = newUser();
+		const sessionId = await createSession(user);
+		await postChat(workerEnv, { sessionId, userMessage: 'My line follower oscillates' }, user);
+
+		const response = await callWorker(workerEnv, `/api/session/${sessionId}/reset`, { method: 'POST' }, user);
+		expect(response.status).toBe(200);
+
+		const history = await (await callWorker(workerEnv, `/api/history/${sessionId}`, {}, user)).json() as any;
+		expect(history).toMatchObject({ stage: 'initial', messageCount: 0, transitions: [], title: 'My line follower oscillates' });
+		expect(history.caseFile.robotType).toBeNull();
+		expect((await listSessions(workerEnv, user))[0].stage).toBe('initial');
+	});
+
+	it('deletes a session and drops it from the registry', async () => {
+		const workerEnv = envWithAi(createStubAi());
+		const user = newUser();
+		const sessionId = await createSession(user);
+		await postChat(workerEnv, { sessionId, userMessage: 'hello' }, user);
+
+		const response = await callWorker(workerEnv, `/api/session/${sessionId}`, { method: 'DELETE' }, user);
+		expect(response.status).toBe(200);
+
+		// The owner goes with the session, so it no longer exists for anyone
+		expect((await callWorker(workerEnv, `/api/history/${sessionId}`, {}, user)).status).toBe(404);
+		expect(await listSessions(workerEnv, user)).toEqual([]);
+	});
+
+	it("passes on the session's error with its status", async () => {
+		const sessionId = await createSession();
+		// The session fails to read its state; ownership checks still reach it
+		const workerEnv = {
+			...env,
+			ADVISOR_STATE: {
+				idFromName: (name: string) => env.ADVISOR_STATE.idFromName(name),
+				get: (id: DurableObjectId) => {
+					const stub = env.ADVISOR_STATE.get(id);
+					return {
+						fetch: (request: Request) => new URL(request.url).pathname === '/state'
+							? Promise.resolve(Response.json({ error: 'Storage unavailable' }, { status: 500 }))
+							: stub.fetch(request),
+					};
+				},
+			},
+		};
+
+		const response = await callWorker(workerEnv, `/api/history/${sessionId}`);
+		expect(response.status).toBe(500);
+		expect(await response.json()).toEqual({ error: 'Storage unavailable' });
+	});
+});
+
+describe('GET /api/history/:id', () => {
+	it('pages through history with before and limit', async () => {
+		const workerEnv = envWithAi(createStubAi());
+		const user = newUser();
+		const sessionId = await createSession(user);
+		for (const message of ['first', 'second', 'third']) {
+			await postChat(workerEnv, { sessionId, userMessage: message }, user);
+		}
+
+		const latest = await (await callWorker(workerEnv, `/api/history/${sessionId}?limit=2`, {}, user)).json() as any;
+		expect(latest.history.map((m: any) => m.role)).toEqual(['user', 'assistant']);
+		expect(latest.history[0].content).toBe('third');
+		expect(latest).toMatchObject({ messageCount: 6, hasMore: true });
+		expect(latest.transitions).toHaveLength(3);
+
+		const earlier = await (await callWorker(workerEnv, `/api/history/${sessionId}?limit=4&before=${latest.nextBefore}`, {}, user)).json() as any;
+		expect(earlier.history.filter((m: any) => m.role === 'user').map((m: any) => m.content)).toEqual(['first', 'second']);
+		expect(earlier.hasMore).toBe(false);
+	});
+
+	it('rejects an invalid cursor or page size', async () => {
+		const sessionId = await createSession();
+		for (const query of ['limit=0', 'limit=101', 'limit=ten', 'before=-1']) {
+			expect((await callWorker(envWithAi(createStubAi()), `/api/history/${sessionId}?${query}`)).status).toBe(400);
+		}
+	});
+});
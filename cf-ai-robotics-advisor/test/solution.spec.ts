@@ -0,0 +1,108 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { LlmProvider } from '../src/providers';
+import { generateSolution, parseSolution, validateSolution } from '../src/solution';
+import { callWorker, createSession, postChat } from './helpers';
+
+const VALID = {
+	rootCause: 'Loose motor connector',
+	steps: ['1. Power down', '- Reseat the connector'],
+	prevention: 'Use locking connectors.',
+	partsTools: ['JST-XH crimper'],
+	confidence: 'High',
+};
+
+/** Provider that answers with the given replies in order and records each prompt */
+function scriptedProvider(replies: string[]) {
+	const prompts: string[][] = [];
+	const provider: LlmProvider = {
+		name: 'scripted',
+		async complete(request) {
+			prompts.push(request.messages.map(m => m.content));
+			return replies.shift() ?? '';
+		},
+		async stream() {
+			throw new Error('not used');
+		},
+		async completeWithTools() {
+			throw new Error('not used');
+		},
+	};
+	return { provider, prompts };
+}
+
+describe('validateSolution', () => {
+	it('normalizes list prefixes and confidence case', () => {
+		expect(validateSolution(VALID).solution).toEqual({
+			...VALID,
+			steps: ['Power down', 'Reseat the connector'],
+			confidence: 'high',
+		});
+	});
+
+	it('reports every schema violation', () => {
+		const { solution, errors } = validateSolution({ rootCause: '', steps: [], partsTools: 'none', confidence: 'certain' });
+		expect(solution).toBeNull();
+		expect(errors).toHaveLength(5);
+	});
+});
+
+describe('parseSolution', () => {
+	it('reads JSON wrapped in a code fence', () => {
+		expect(parseSolution('```json\n' + JSON.stringify(VALID) + '\n```').solution?.rootCause).toBe('Loose motor connector');
+	});
+
+	it('rejects output without JSON', () => {
+		expect(parseSolution('Check the wiring.').errors).toEqual(['No JSON object found']);
+	});
+});
+
+describe('generateSolution', () => {
+	it('sends validation errors back to the model and uses the repaired reply', async () => {
+		const { provider, prompts } = scriptedProvider([JSON.stringify({ ...VALID, confidence: 'certain' }), JSON.stringify(VALID)]);
+		const result = await generateSolution(provider, [{ role: 'system', content: 'Solve it.' }]);
+
+		expect(prompts).toHaveLength(2);
+		expect(prompts[1].at(-1)).toContain('confidence must be "low", "medium" or "high"');
+		expect(result.solution?.steps).toEqual(['Power down', 'Reseat the connector']);
+		expect(result.text).toContain('**Solution Steps**:\n1. Power down\n2. Reseat the connector');
+	});
+
+	it('falls back to Markdown sections with low confidence', async () => {
+		const markdown = '**Root Cause**: Worn gear\n\n**Solution Steps**:\n1. Replace the gear';
+		const { provider } = scriptedProvider([markdown, markdown, markdown]);
+		const result = await generateSolution(provider, []);
+
+		expect(result.solution).toMatchObject({ rootCause: 'Worn gear', steps: ['Replace the gear'], confidence: 'low' });
+	});
+
+	it('keeps the raw text when nothing usable comes back', async () => {
+		const { provider } = scriptedProvider(['No idea.', 'No idea.', 'No idea.']);
+		expect(await generateSolution(provider, [])).toEqual({ text: 'No idea.', solution: null });
+	});
+});
+
+describe('solution stage in /api/chat', () => {
+	it('returns and stores the structured solution', async () => {
+		const sessionId = await createSession();
+		await postChat(env, { sessionId, userMessage: 'My line follower oscillates on curves' });
+		const data = await (await postChat(env, { sessionId, userMessage: 'just tell me what to do' })).json() as any;
+
+		expect(data.stage).toBe('solution');
+		expect(data.solution).toMatchObject({ confidence: 'medium', steps: ['Reduce Kp by 30%', 'Add a small Kd term', 'Re-test at low speed before increasing it'] });
+		expect(data.message).toContain('**Root Cause**: Control loop gains are too aggressive');
+
+		const history = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(history.history.at(-1).solution).toEqual(data.solution);
+	});
+
+	it('sends the structured solution in the streamed done event', async () => {
+		const sessionId = await createSession();
+		await postChat(env, { sessionId, userMessage: 'My line follower oscillates on curves' });
+		const body = await (await postChat(env, { sessionId, userMessage: 'just tell me what to do', stream: true })).text();
+
+		expect(body).not.toContain('event: token');
+		const done = body.split('\n\n').find(event => event.startsWith('event: done'))!;
+		expect(JSON.parse(done.slice(done.indexOf('data:') + 5)).solution.confidence).toBe('medium');
+	});
+});
@@ -0,0 +1,179 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { TelemetrySeries, analyzeTelemetry, channelKind, formatTelemetryFindings, parseTelemetry } from '../src/telemetry';
+import { callWorker, createSession, createStubAi, envWithAi, newUser, postChat } from './helpers';
+
+/** Builds a series sampled every `step` seconds from per-channel functions of the sample index */
+function series(count: number, step: number, channels: Record<string, (i: number) => number | string | null>): TelemetrySeries {
+	const time = Array.from({ length: count }, (_, i) => Math.round(i * step * 1000) / 1000);
+	return {
+		time,
+		channels: Object.fromEntries(Object.entries(channels).map(([name, value]) => [name, time.map((_, i) => value(i))])),
+	};
+}
+
+/** Battery that drops from 12.4 V to 10.8 V whenever the motors draw 6 A */
+const SAGGING_BATTERY = series(100, 0.1, {
+	battery_voltage: i => (i % 20 < 10 ? 12.4 : 10.8),
+	motor_current: i => (i % 20 < 10 ? 0.5 : 6),
+});
+
+function postTelemetry(sessionId: string, body: string, contentType: string, query = '', user?: any) {
+	return callWorker(env, `/api/session/${sessionId}/telemetry${query}`, { method: 'POST', body, headers: { 'Content-Type': contentType } }, user);
+}
+
+describe('parseTelemetry', () => {
+	it('reads an array of JSON samples or an object with a name, in time order', () => {
+		expect(parseTelemetry('[{"t": 0.2, "vbat": 12.1}, {"t": 0.1, "vbat": "12.3", "fault": null}]', 'json')).toEqual({
+			series: { time: [0, 0.1], channels: { vbat: [12.3, 12.1], fault: [null, null] } },
+			name: null,
+			errors: [],
+		});
+		expect(parseTelemetry('{"name": "bench run", "samples": [{"time": "2026-03-10T12:00:01Z", "vbat": 12}]}', 'json').name).toBe('bench run');
+	});
+
+	it('reads CSV with comments, other separators and millisecond times', () => {
+		const csv = '# logged by the rover\r\ntime;left_encoder;fault_code\r\n1000;0;0\r\n1020;12;E42\r\n';
+		expect(parseTelemetry(csv, 'csv', 'ms').series).toEqual({
+			time: [0, 0.02],
+			channels: { left_encoder: [0, 12], fault_code: [0, 'E42'] },
+		});
+	});
+
+	it('rejects data without times, text values outside fault codes and too many samples', () => {
+		expect(parseTelemetry('vbat\n12', 'csv').errors).toEqual(['Each sample needs a time (t, time, timestamp, ts)']);
+		expect(parseTelemetry('t,vbat\n0,12\n1,low', 'csv').errors).toEqual(['Sample 2 has a non-numeric vbat']);
+		expect(parseTelemetry('{"samples": 3}', 'json').errors).toEqual(['Expected an array of sample objects, or an object with a samples array']);
+		expect(parseTelemetry(JSON.stringify(Array.from({ length: 5001 }, (_, t) => ({ t, vbat: 12 }))), 'json').errors)
+			.toEqual(['At most 5000 samples per upload']);
+	});
+});
+
+describe('channelKind', () => {
+	it.each([
+		['battery_voltage', 'voltage'],
+		['motorCurrent', 'current'],
+		['left_encoder', 'encoder'],
+		['line_error', 'error'],
+		['fault_code', 'code'],
+		['imu_yaw', 'other'],
+	])('reads %s as %s', (name, kind) => {
+		expect(channelKind(name)).toBe(kind);
+	});
+});
+
+describe('analyzeTelemetry', () => {
+	it('computes statistics per channel', () => {
+		const { sampleCount, duration, stats } = analyzeTelemetry(SAGGING_BATTERY);
+		expect(sampleCount).toBe(100);
+		expect(duration).toBe(9.9);
+		expect(stats[0]).toEqual({ name: 'battery_voltage', kind: 'voltage', samples: 100, min: 10.8, max: 12.4, mean: 11.6, stdDev: 0.8, first: 12.4, last: 10.8 });
+	});
+
+	it('flags voltage sag under load', () => {
+		expect(analyzeTelemetry(SAGGING_BATTERY).anomalies).toEqual([{
+			kind: 'voltage-sag',
+			channel: 'battery_voltage',
+			summary: 'battery_voltage sags from 12.4 at rest to 10.8 (-13%) when motor_current is high (6)',
+			at: 1,
+		}]);
+		// A steady battery under the same load is fine
+		expect(analyzeTelemetry({ ...SAGGING_BATTERY, channels: { ...SAGGING_BATTERY.channels, battery_voltage: SAGGING_BATTERY.time.map(() => 12.2) } }).anomalies).toEqual([]);
+	});
+
+	it('estimates the oscillation frequency of an error signal', () => {
+		const oscillating = analyzeTelemetry(series(150, 0.02, { line_error: i => 0.5 * Math.sin(2 * Math.PI * 2 * i * 0.02) }));
+		expect(oscillating.anomalies).toHaveLength(1);
+		expect(oscillating.anomalies[0]).toMatchObject({ kind: 'oscillation', channel: 'line_error' });
+		expect(oscillating.anomalies[0].summary).toBe('line_error oscillates at about 2 Hz (±0.499 around 0), 5 cycles in 2.5 s');
+
+		// A slow drift crosses the mean only once
+		expect(analyzeTelemetry(series(150, 0.02, { line_error: i => i / 100 - 0.75 })).anomalies).toEqual([]);
+	});
+
+	it('finds encoder dropouts at speed but not the robot stopping', () => {
+		const dropout = analyzeTelemetry(series(60, 0.05, { left_encoder: i => 10 * i - (i > 20 ? 10 * Math.min(i - 20, 3) : 0) }));
+		expect(dropout.anomalies).toEqual([{
+			kind: 'encoder-dropout',
+			channel: 'left_encoder',
+			summary: 'left_encoder stops counting once while moving (first at 1 s, longest 0.15 s)',
+			at: 1,
+		}]);
+
+		const steps = [10, 10, 10, 10, 10, 10, 6, 3, 1, 0, 0, 0, 0, 1, 3, 6, 10, 10, 10, 10];
+		const stopping = analyzeTelemetry(series(steps.length + 1, 0.05, { left_encoder: i => steps.slice(0, i).reduce((a, b) => a + b, 0) }));
+		expect(stopping.anomalies).toEqual([]);
+	});
+
+	it('lists fault codes', () => {
+		const faults = analyzeTelemetry(series(10, 0.5, { fault_code: i => (i >= 6 ? 'E42' : i === 3 ? 7 : 0) }));
+		expect(faults.stats).toEqual([]);
+		expect(faults.anomalies[0].summary).toBe('fault_code reports 7 (first at 1.5 s, 1 sample), E42 (first at 3 s, 4 samples)');
+	});
+});
+
+describe('DiagnosisWorkflow telemetry', () => {
+	const upload = { id: 1, name: 'run.csv', format: 'csv' as const, uploadedAt: 0, analysis: analyzeTelemetry(SAGGING_BATTERY) };
+
+	it('puts telemetry findings in the diagnostic prompt only', async () => {
+		const workflow = new DiagnosisWorkflow();
+		const input = { sessionId: 'telemetry', userMessage: 'It resets', conversationHistory: [], telemetry: [upload] };
+
+		const diagnostic = await workflow.run({ ...input, currentStage: 'diagnostic' });
+		expect(diagnostic.systemPrompt).toContain(formatTelemetryFindings([upload]));
+		expect(diagnostic.systemPrompt).toContain('- battery_voltage sags from 12.4 at rest to 10.8 (-13%)');
+
+		const initial = await workflow.run({ ...input, currentStage: 'initial' });
+		expect(initial.nextStage).toBe('initial');
+		expect(initial.systemPrompt).not.toContain('Telemetry recorded on the robot');
+	});
+});
+
+describe('/api/session/:id/telemetry', () => {
+	const csv = ['t,battery_voltage,motor_current', ...SAGGING_BATTERY.time.map((t, i) =>
+		`${t},${SAGGING_BATTERY.channels.battery_voltage[i]},${SAGGING_BATTERY.channels.motor_current[i]}`)].join('\n');
+
+	it('stores an upload with its analysis and samples', async () => {
+		const sessionId = await createSession();
+		const response = await postTelemetry(sessionId, csv, 'text/csv', '?name=bench%20run');
+		expect(response.status).toBe(201);
+		const created = await response.json() as any;
+		expect(created).toMatchObject({ sessionId, name: 'bench run', format: 'csv', analysis: { sampleCount: 100, anomalies: [{ kind: 'voltage-sag' }] } });
+
+		const list = await (await callWorker(env, `/api/session/${sessionId}/telemetry`)).json() as any;
+		expect(list.uploads).toEqual([{ id: created.telemetryId, name: 'bench run', format: 'csv', uploadedAt: created.uploadedAt, analysis: created.analysis }]);
+
+		const stored = await (await callWorker(env, `/api/session/${sessionId}/telemetry/${created.telemetryId}`)).json() as any;
+		expect(stored.series.channels.motor_current.slice(8, 12)).toEqual([0.5, 0.5, 6, 6]);
+		expect((await callWorker(env, `/api/session/${sessionId}/telemetry/999`)).status).toBe(404);
+
+		// Starting over drops the data with the rest of the diagnosis
+		await callWorker(env, `/api/session/${sessionId}/reset`, { method: 'POST' });
+		expect((await (await callWorker(env, `/api/session/${sessionId}/telemetry`)).json() as any).uploads).toEqual([]);
+	});
+
+	it('gives the findings to the model', async () => {
+		const ai = createStubAi({ chat: 'The battery sags under load.' });
+		const sessionId = await createSession();
+		await postTelemetry(sessionId, JSON.stringify({ samples: SAGGING_BATTERY.time.map((t, i) => ({
+			t,
+			battery_voltage: SAGGING_BATTERY.channels.battery_voltage[i],
+			motor_current: SAGGING_BATTERY.channels.motor_current[i],
+		})) }), 'application/json');
+
+		const reply = await (await postChat(envWithAi(ai), { sessionId, userMessage: 'My rover veers left' })).json() as any;
+		expect(reply.stage).toBe('diagnostic');
+		const prompt = ai.calls.map(c => String(c.options.messages[0].content)).find(content => content.includes('Telemetry recorded on the robot'));
+		expect(prompt).toContain('[telemetry.json] 100 samples over 9.9 s');
+		expect(prompt).toContain('- battery_voltage sags from 12.4 at rest to 10.8 (-13%) when motor_current is high (6)');
+	});
+
+	it('rejects unreadable or oversized data and other users', async () => {
+		const sessionId = await createSession();
+		expect(await (await postTelemetry(sessionId, 'vbat\n12', 'text/csv')).json()).toEqual({ error: 'Each sample needs a time (t, time, timestamp, ts)' });
+		expect((await postTelemetry(sessionId, csv, 'text/csv', '?timeUnit=us')).status).toBe(400);
+		expect((await postTelemetry(sessionId, 'x'.repeat(1_000_001), 'text/csv')).status).toBe(413);
+		expect((await postTelemetry(sessionId, csv, 'text/csv', '', newUser())).status).toBe(403);
+	});
+});
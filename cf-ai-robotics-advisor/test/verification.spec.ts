@@ -0,0 +1,134 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { MAX_VERIFICATION_ROUNDS, applyStepReply, classifyStepReply, startVerification } from '../src/verification';
+import { callWorker, createSession, postChat } from './helpers';
+
+const STEPS = ['Reseat the encoder cable', 'Lower Kp by 30%'];
+
+describe('classifyStepReply', () => {
+	it.each([
+		['Done, that worked', 'pass'],
+		["ok, done, but it still jitters", 'fail'],
+		["I don't have a scope, skipping", 'skipped'],
+		['Can I talk to a technician?', 'escalate'],
+		['Which way do I turn the trimmer?', null],
+	])('reads "%s" as %s', (message, expected) => {
+		expect(classifyStepReply(message)).toBe(expected);
+	});
+});
+
+describe('applyStepReply', () => {
+	it('records outcomes and moves to the next step', () => {
+		const { verification, outcome, backToDiagnosis } = applyStepReply(startVerification(STEPS), 'skipped', 'No cable ties');
+		expect(verification.current).toBe(1);
+		expect(verification.steps[0]).toMatchObject({ outcome: 'skipped', note: 'No cable ties' });
+		expect(outcome).toBeNull();
+		expect(backToDiagnosis).toBe(false);
+	});
+
+	it('leaves the walkthrough alone for questions', () => {
+		const start = startVerification(STEPS);
+		expect(applyStepReply(start, null, 'Where is the cable?').verification).toEqual(start);
+	});
+
+	it('goes back to diagnosis when a step fails', () => {
+		const update = applyStepReply(startVerification(STEPS), 'fail', 'Cable is fine');
+		expect(update.backToDiagnosis).toBe(true);
+		expect(update.reason).toBe('Step 1 failed; returning to diagnosis');
+	});
+
+	it('resolves once the user confirms the fix after the last step', () => {
+		let verification = startVerification(STEPS);
+		verification = applyStepReply(verification, 'pass', 'done').verification;
+		verification = applyStepReply(verification, 'pass', 'done').verification;
+		const { outcome } = applyStepReply(verification, 'pass', 'Yes, fixed');
+		expect(outcome).toMatchObject({ status: 'resolved', steps: [{ outcome: 'pass' }, { outcome: 'pass' }] });
+	});
+
+	it('escalates after too many failed walkthroughs', () => {
+		let verification = startVerification(STEPS);
+		for (let i = 1; i < MAX_VERIFICATION_ROUNDS; i++) {
+			verification = startVerification(STEPS, verification);
+		}
+		const update = applyStepReply(verification, 'fail', 'no change');
+		expect(update.backToDiagnosis).toBe(false);
+		expect(update.outcome?.status).toBe('escalate');
+	});
+});
+
+describe('DiagnosisWorkflow verification stage', () => {
+	const sessionId = 'verification-test';
+
+	it('starts the walkthrough after a solution with steps', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'OK, trying it now', conversationHistory: [], currentStage: 'solution', solutionSteps: STEPS });
+		expect(result.nextStage).toBe('verification');
+		expect(result.verification).toMatchObject({ current: 0, round: 0 });
+		expect(result.systemPrompt).toContain('Current step (1 of 2): Reseat the encoder cable');
+	});
+
+	it('returns to diagnosis with the step results as evidence', async () => {
+		const result = await new DiagnosisWorkflow().run({
+			sessionId,
+			userMessage: 'Reseated it, no change',
+			conversationHistory: [],
+			currentStage: 'verification',
+			verification: startVerification(STEPS),
+		});
+		expect(result.nextStage).toBe('diagnostic');
+		expect(result.systemPrompt).toContain('1. Reseat the encoder cable - FAILED (user: "Reseated it, no change")');
+	});
+
+	it('prefers an explicit step outcome over the message text', async () => {
+		const result = await new DiagnosisWorkflow().run({
+			sessionId,
+			userMessage: 'hmm',
+			conversationHistory: [],
+			currentStage: 'verification',
+			verification: startVerification(STEPS),
+			stepOutcome: 'pass',
+		});
+		expect(result.nextStage).toBe('verification');
+		expect(result.verification?.current).toBe(1);
+	});
+});
+
+describe('fix walkthrough in /api/chat', () => {
+	it('walks through the steps, closes the session as resolved and reports the outcome', async () => {
+		const sessionId = await createSession();
+		await postChat(env, { sessionId, userMessage: 'My line follower oscillates on curves' });
+		await postChat(env, { sessionId, userMessage: 'just tell me what to do' });
+
+		let data = await (await postChat(env, { sessionId, userMessage: 'OK, walk me through it' })).json() as any;
+		expect(data.stage).toBe('verification');
+		expect(data.verification.steps).toHaveLength(3);
+
+		for (const stepOutcome of ['pass', 'skipped', 'pass']) {
+			data = await (await postChat(env, { sessionId, userMessage: 'next', stepOutcome })).json() as any;
+		}
+		expect(data.verification.current).toBe(3);
+		expect(data.outcome).toBeNull();
+
+		data = await (await postChat(env, { sessionId, userMessage: "Yes, it's fixed" })).json() as any;
+		expect(data.outcome).toMatchObject({ status: 'resolved' });
+
+		const closed = await postChat(env, { sessionId, userMessage: 'One more thing' });
+		expect(closed.status).toBe(409);
+
+		const history = await (await callWorker(env, `/api/history/${sessionId}`)).json() as any;
+		expect(history.outcome.status).toBe('resolved');
+
+		const report = await (await callWorker(env, `/api/session/${sessionId}/report`)).text();
+		expect(report).toContain('1. [x] Reduce Kp by 30%');
+		expect(report).toContain('2. [ ] Add a small Kd term (skipped)');
+		expect(report).toContain('Resolved: User confirmed the problem is fixed');
+
+		await callWorker(env, `/api/session/${sessionId}/reset`, { method: 'POST', body: '{}' });
+		expect((await postChat(env, { sessionId, userMessage: 'New problem' })).status).toBe(200);
+	});
+
+	it('rejects unknown step outcomes with 400', async () => {
+		const response = await postChat(env, { sessionId: await createSession(), userMessage: 'done', stepOutcome: 'maybe' });
+		expect(response.status).toBe(400);
+	});
+});
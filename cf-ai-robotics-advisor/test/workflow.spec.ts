@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { DiagnosisWorkflow } from '../src/workflow';
+import { emptyCaseFile } from '../src/caseFile';
+import { MockProvider } from '../src/providers';
+
+const sessionId = 'workflow-test';
+
+describe('DiagnosisWorkflow stage transitions', () => {
+	it('stays in initial until robot and symptom are known', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'hi there', conversationHistory: [], currentStage: 'initial' });
+		expect(result.nextStage).toBe('initial');
+		expect(result.transition.reasons.join(' ')).toContain('robotType');
+	});
+
+	it('moves initial → diagnostic when robot and symptom are described', async () => {
+		const result = await new DiagnosisWorkflow().run({
+			sessionId,
+			userMessage: 'My line follower oscillates on curves',
+			conversationHistory: [],
+			currentStage: 'initial',
+		});
+		expect(result.nextStage).toBe('diagnostic');
+		expect(result.transition).toMatchObject({ from: 'initial', to: 'diagnostic', method: 'heuristic', sufficiency: 1 });
+	});
+
+	it('does not jump to solution on message count alone', async () => {
+		const history = Array.from({ length: 10 }, (_, i) => ({ role: (i % 2 ? 'assistant' : 'user') as 'user' | 'assistant', content: 'ok' }));
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'ok', conversationHistory: history, currentStage: 'diagnostic' });
+		expect(result.nextStage).toBe('diagnostic');
+	});
+
+	it('moves diagnostic → solution once the checklist is sufficient', async () => {
+		const result = await new DiagnosisWorkflow().run({
+			sessionId,
+			userMessage: 'It happens at high speed. Arduino with an L298 motor driver, and I already tried lowering Kp.',
+			conversationHistory: [
+				{ role: 'user', content: 'My line follower oscillates' },
+				{ role: 'assistant', content: 'When does it happen?' },
+			],
+			currentStage: 'diagnostic',
+		});
+		expect(result.nextStage).toBe('solution');
+	});
+
+	it('moves diagnostic → solution when the user asks for the fix directly', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'just tell me what to change', conversationHistory: [], currentStage: 'diagnostic' });
+		expect(result.nextStage).toBe('solution');
+		expect(result.transition.reasons).toContain('User asked for a fix directly');
+	});
+
+	it('goes back from solution to diagnostic when a fix did not work', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: "That didn't work, it still oscillates", conversationHistory: [], currentStage: 'solution' });
+		expect(result.nextStage).toBe('diagnostic');
+		expect(result.transition.fixFailed).toBe(true);
+	});
+
+	it('stays in solution otherwise', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'Thanks, trying it now', conversationHistory: [], currentStage: 'solution' });
+		expect(result.nextStage).toBe('solution');
+	});
+
+	it('counts case file facts towards the checklist', async () => {
+		const caseFile = { ...emptyCaseFile(), robotType: 'robot arm', symptoms: ['shoulder joint stalls'] };
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'hello again', conversationHistory: [], currentStage: 'initial', caseFile });
+		expect(result.nextStage).toBe('diagnostic');
+	});
+
+	it('prefers the model classifier and falls back when it returns garbage', async () => {
+		const good = new MockProvider([{ purpose: 'classifier', reply: '{"checklist": {"robotType": true, "symptom": true}, "reasons": ["ok"]}' }]);
+		const modelResult = await new DiagnosisWorkflow(good).run({ sessionId, userMessage: 'hi', conversationHistory: [], currentStage: 'initial' });
+		expect(modelResult.transition.method).toBe('model');
+		expect(modelResult.nextStage).toBe('diagnostic');
+
+		const bad = new MockProvider([{ purpose: 'classifier', reply: 'I think it is fine' }]);
+		const fallbackResult = await new DiagnosisWorkflow(bad).run({ sessionId, userMessage: 'hi', conversationHistory: [], currentStage: 'initial' });
+		expect(fallbackResult.transition.method).toBe('heuristic');
+		expect(fallbackResult.nextStage).toBe('initial');
+	});
+});
+
+describe('stage prompts', () => {
+	it('initial prompt', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'hi', conversationHistory: [], currentStage: 'initial' });
+		expect(result.systemPrompt).toMatchSnapshot();
+	});
+
+	it('diagnostic prompt', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'ok', conversationHistory: [], currentStage: 'diagnostic' });
+		expect(result.systemPrompt).toMatchSnapshot();
+	});
+
+	it('solution prompt', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'thanks', conversationHistory: [], currentStage: 'solution' });
+		expect(result.systemPrompt).toMatchSnapshot();
+	});
+
+	it('diagnostic prompt after a failed fix', async () => {
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: "didn't work", conversationHistory: [], currentStage: 'solution' });
+		expect(result.systemPrompt).toMatchSnapshot();
+	});
+
+	it('prompt with known case file facts', async () => {
+		const caseFile = {
+			...emptyCaseFile(),
+			robotType: 'differential-drive line follower',
+			platform: 'Arduino Uno',
+			symptoms: ['oscillates on curves'],
+			attemptedFixes: ['lowered Kp'],
+			suspectedSubsystems: ['control' as const],
+		};
+		const result = await new DiagnosisWorkflow().run({ sessionId, userMessage: 'ok', conversationHistory: [], currentStage: 'diagnostic', caseFile });
+		expect(result.systemPrompt).toMatchSnapshot();
+	});
+});
@@ -4,7 +4,28 @@ export default defineWorkersConfig({
 	test: {
 		poolOptions: {
 			workers: {
+				// Isolated storage can't pop SQLite-backed Durable Object frames yet,
+				// so tests share storage and use a fresh session id each
+				isolatedStorage: false,
+				singleWorker: true,
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Never reach the real Workers AI from tests; suites that need the
+				// binding pass a stub (see test/helpers.ts), and knowledge base
+				// embeddings use the local hashing embedder. Requests are signed with a
+				// test AUTH_SECRET (see callWorker), and one admin API key is configured.
+				// Rate limits are raised out of the way; test/rateLimit.spec.ts lowers them.
+				// Analytics events go to a local D1 database; test/analytics.spec.ts also
+				// covers the Durable Object stand-in
+				miniflare: {
+					d1Databases: ['ANALYTICS_DB'],
+					bindings: {
+						LLM_PROVIDER: 'mock',
+						EMBEDDER: 'hashing',
+						AUTH_SECRET: 'test-auth-secret',
+						API_KEYS: JSON.stringify({ 'test-admin-key': { userId: 'key-admin', role: 'admin' } }),
+						RATE_LIMITS: JSON.stringify({ requestsPerMinute: 10000, dailyTokens: 1e9, sessionDailyTokens: 1e9, guestTokensPerHour: 10000 }),
+					},
+				},
 			},
 		},
 	},
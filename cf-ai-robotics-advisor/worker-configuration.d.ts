@@ -1,11 +1,25 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: b739a9c19cff1463949c4db47674ed86)
+// Generated by Wrangler by running `wrangler types` (hash: 00c63b9209e2cc55a7c4ef8d5aa88424)
 // Runtime types generated with workerd@1.20251217.0 2025-12-24 
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "AdvisorState" | "SessionRegistry" | "KnowledgeBase" | "RobotProfileRegistry" | "CaseIndex" | "UsageLimiter" | "AnalyticsLog";
 	}
 	interface Env {
+		LLM_PROVIDER: "workers-ai";
+		EMBEDDER: "workers-ai";
+		GUEST_ACCESS: "true";
+		RATE_LIMITS: {"requestsPerMinute":20,"dailyTokens":200000,"sessionDailyTokens":60000,"guestTokensPerHour":10};
+		LLM_STAGE_CONFIG: {"initial":{"temperature":0.5,"maxTokens":400},"diagnostic":{"temperature":0.5,"maxTokens":400},"solution":{"temperature":0.5,"maxTokens":400},"verification":{"temperature":0.4,"maxTokens":300},"classifier":{"temperature":0,"maxTokens":300},"extraction":{"temperature":0,"maxTokens":400},"vision":{"temperature":0.2,"maxTokens":300},"summary":{"temperature":0.2,"maxTokens":300},"condense":{"temperature":0.2,"maxTokens":400}};
+		ADVISOR_STATE: DurableObjectNamespace<import("./src/index").AdvisorState>;
+		SESSION_REGISTRY: DurableObjectNamespace<import("./src/index").SessionRegistry>;
+		KNOWLEDGE_BASE: DurableObjectNamespace<import("./src/index").KnowledgeBase>;
+		ROBOT_PROFILES: DurableObjectNamespace<import("./src/index").RobotProfileRegistry>;
+		CASE_INDEX: DurableObjectNamespace<import("./src/index").CaseIndex>;
+		USAGE_LIMITER: DurableObjectNamespace<import("./src/index").UsageLimiter>;
+		ANALYTICS_LOG: DurableObjectNamespace<import("./src/index").AnalyticsLog>;
+		AI: Ai;
 	}
 }
 interface Env extends Cloudflare.Env {}